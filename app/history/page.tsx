@@ -0,0 +1,389 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import {
+  initWebRTCWithLoyaltyId,
+  startOutgoingVoiceCallByLoyaltyId,
+  setCallStateChangeCallback,
+  getCallHistory,
+  getRecordings,
+  exportRecording,
+  deleteRecording,
+  type CallDirection,
+  type CallHistoryEntry,
+  type CallOutcome,
+  type CallState,
+  type RecordingFormat,
+  type RecordingMeta,
+} from '@/lib/webrtc-service';
+import { getStoredUser } from '@/lib/auth-api';
+import CallModal from '@/components/CallModal';
+
+const OUTCOME_TEXT: Record<CallOutcome, string> = {
+  answered: 'Принят',
+  missed: 'Пропущен',
+  rejected: 'Отклонён',
+  failed: 'Не удался',
+};
+
+const OUTCOME_COLOR: Record<CallOutcome, string> = {
+  answered: '#bbf7d0',
+  missed: '#fca5a5',
+  rejected: '#fde68a',
+  failed: '#9ca3af',
+};
+
+const DIRECTION_FILTERS: Array<[CallDirection | 'all', string]> = [
+  ['all', 'Все'],
+  ['incoming', 'Входящие'],
+  ['outgoing', 'Исходящие'],
+];
+
+const OUTCOME_FILTERS: Array<[CallOutcome | 'all', string]> = [
+  ['all', 'Все'],
+  ['answered', 'Принятые'],
+  ['missed', 'Пропущенные'],
+  ['rejected', 'Отклонённые'],
+  ['failed', 'Неудачные'],
+];
+
+export default function HistoryPage() {
+  const router = useRouter();
+  const [entries, setEntries] = useState<CallHistoryEntry[]>([]);
+  const [recordings, setRecordings] = useState<RecordingMeta[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [direction, setDirection] = useState<CallDirection | 'all'>('all');
+  const [outcome, setOutcome] = useState<CallOutcome | 'all'>('all');
+  const [search, setSearch] = useState('');
+  const [openTranscript, setOpenTranscript] = useState<string | null>(null);
+  const [callModalVisible, setCallModalVisible] = useState(false);
+
+  const loadHistory = async () => {
+    try {
+      const [history, stored] = await Promise.all([
+        getCallHistory(),
+        getRecordings().catch((e) => {
+          console.warn('Failed to load recordings:', e);
+          return [];
+        }),
+      ]);
+      setEntries(history);
+      setRecordings(stored);
+    } catch (error) {
+      console.error('Failed to load call history:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    const user = getStoredUser();
+    const loyaltyId = user?.loyaltyId || (user as any)?.loyalty_id;
+    if (!loyaltyId) {
+      router.push('/login');
+      return;
+    }
+    initWebRTCWithLoyaltyId(loyaltyId);
+
+    // Calls can be made (and received) from this page too; the log grows when they end
+    setCallStateChangeCallback((state: CallState) => {
+      setCallModalVisible(state !== 'idle');
+      if (state === 'idle') {
+        loadHistory();
+      }
+    });
+
+    loadHistory();
+  }, [router]);
+
+  const visibleEntries = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    return entries.filter((entry) =>
+      (direction === 'all' || entry.direction === direction) &&
+      (outcome === 'all' || entry.outcome === outcome) &&
+      (!query ||
+        (entry.peerName ?? '').toLowerCase().includes(query) ||
+        (entry.peerLoyaltyId ?? '').toLowerCase().includes(query) ||
+        !!entry.transcript?.some((segment) => segment.text.toLowerCase().includes(query)))
+    );
+  }, [entries, direction, outcome, search]);
+
+  const handleDownload = async (recording: RecordingMeta, format: RecordingFormat) => {
+    try {
+      const blob = await exportRecording(recording.recordingId, format);
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `call-${recording.callId}-${recording.recordingId.slice(0, 8)}.${format}`;
+      link.click();
+      setTimeout(() => URL.revokeObjectURL(url), 1000);
+    } catch (e: any) {
+      console.error('Failed to export recording', e);
+      alert('Не удалось выгрузить запись: ' + (e?.message || 'Unknown error'));
+    }
+  };
+
+  const handleDeleteRecording = async (recording: RecordingMeta) => {
+    if (!confirm('Удалить запись разговора?')) {
+      return;
+    }
+    await deleteRecording(recording.recordingId);
+    setRecordings((prev) => prev.filter((r) => r.recordingId !== recording.recordingId));
+  };
+
+  const handleCallBack = async (entry: CallHistoryEntry) => {
+    if (!entry.peerLoyaltyId) {
+      return;
+    }
+    try {
+      await startOutgoingVoiceCallByLoyaltyId(entry.peerLoyaltyId, entry.peerName || entry.peerLoyaltyId);
+    } catch (e: any) {
+      console.error('Failed to call back', e);
+      alert('Не удалось начать звонок: ' + (e?.message || 'Unknown error'));
+    }
+  };
+
+  return (
+    <div
+      style={{
+        minHeight: '100vh',
+        padding: '40px 20px',
+        background: 'radial-gradient(ellipse at top, rgba(15,23,42,0.98) 0%, rgba(2,6,23,0.98) 50%, #000000 100%)',
+        display: 'flex',
+        justifyContent: 'center',
+      }}
+    >
+      <div style={{ width: '100%', maxWidth: 900, display: 'flex', flexDirection: 'column', gap: 20 }}>
+        {/* Header */}
+        <div
+          style={{
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'space-between',
+            gap: 16,
+            padding: '20px 24px',
+            borderRadius: 24,
+            background: 'linear-gradient(135deg, rgba(15,23,42,0.95), rgba(2,6,23,0.95))',
+            border: '1px solid rgba(55,65,81,0.6)',
+            boxShadow: '0 20px 60px rgba(0,0,0,0.5)',
+          }}
+        >
+          <div>
+            <div style={{ fontSize: 24, fontWeight: 700, color: '#f9fafb', marginBottom: 2 }}>История звонков</div>
+            <div style={{ fontSize: 13, color: '#9ca3af' }}>
+              {loading ? 'Загрузка...' : `${visibleEntries.length} из ${entries.length}`}
+            </div>
+          </div>
+          <button type="button" onClick={() => router.push('/')} style={chipStyle(false)}>
+            ← К панели
+          </button>
+        </div>
+
+        {/* Filters */}
+        <div
+          style={{
+            display: 'flex',
+            flexDirection: 'column',
+            gap: 12,
+            padding: '16px 20px',
+            borderRadius: 20,
+            backgroundColor: 'rgba(15,23,42,0.9)',
+            border: '1px solid rgba(55,65,81,0.6)',
+          }}
+        >
+          <input
+            type="search"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Поиск по имени или ID"
+            style={{
+              width: '100%',
+              padding: '10px 14px',
+              borderRadius: 12,
+              border: '1px solid rgba(55,65,81,0.9)',
+              backgroundColor: 'rgba(2,6,23,0.9)',
+              color: '#f9fafb',
+              fontSize: 14,
+              outline: 'none',
+            }}
+          />
+          <div style={{ display: 'flex', flexWrap: 'wrap', gap: 8 }}>
+            {DIRECTION_FILTERS.map(([value, label]) => (
+              <button key={value} type="button" onClick={() => setDirection(value)} style={chipStyle(direction === value)}>
+                {label}
+              </button>
+            ))}
+            <span style={{ width: 1, backgroundColor: 'rgba(55,65,81,0.8)', margin: '0 4px' }} />
+            {OUTCOME_FILTERS.map(([value, label]) => (
+              <button key={value} type="button" onClick={() => setOutcome(value)} style={chipStyle(outcome === value)}>
+                {label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {/* Calls */}
+        <div
+          style={{
+            borderRadius: 20,
+            backgroundColor: 'rgba(15,23,42,0.9)',
+            border: '1px solid rgba(55,65,81,0.6)',
+            overflow: 'hidden',
+          }}
+        >
+          {!loading && visibleEntries.length === 0 && (
+            <div style={{ padding: 32, textAlign: 'center', color: '#9ca3af', fontSize: 14 }}>Звонков не найдено</div>
+          )}
+          {visibleEntries.map((entry) => (
+            <div
+              key={entry.callId}
+              style={{
+                display: 'flex',
+                alignItems: 'center',
+                gap: 14,
+                padding: '14px 20px',
+                borderBottom: '1px solid rgba(31,41,55,0.8)',
+              }}
+            >
+              <span
+                title={entry.direction === 'incoming' ? 'Входящий' : 'Исходящий'}
+                style={{ fontSize: 20, color: OUTCOME_COLOR[entry.outcome], width: 24, textAlign: 'center' }}
+              >
+                {entry.direction === 'incoming' ? '↙' : '↗'}
+              </span>
+              <div style={{ flex: 1, minWidth: 0 }}>
+                <div style={{ fontSize: 15, fontWeight: 600, color: '#f9fafb', overflow: 'hidden', textOverflow: 'ellipsis' }}>
+                  {entry.peerName || entry.peerLoyaltyId || 'Неизвестный'}
+                </div>
+                <div style={{ fontSize: 12, color: '#9ca3af', marginTop: 2 }}>
+                  {formatDateTime(entry.startedAt)}
+                  {entry.peerLoyaltyId && ` · ID ${entry.peerLoyaltyId}`}
+                  {entry.dtmfDigits && ` · Тоны: ${entry.dtmfDigits}`}
+                </div>
+                {entry.talkTime && entry.talkTime.talkRatio !== null && (
+                  <div
+                    title="Доля речи · самый долгий монолог · перебивания (вы / собеседник) · паузы от 3 с"
+                    style={{ fontSize: 12, color: '#9ca3af', marginTop: 2 }}
+                  >
+                    🗣 Вы {Math.round(entry.talkTime.talkRatio * 100)}% · Собеседник {100 - Math.round(entry.talkTime.talkRatio * 100)}%
+                    {entry.talkTime.longestMonologue &&
+                      ` · Монолог ${formatDuration(Math.round(entry.talkTime.longestMonologue.ms / 1000))} (${
+                        entry.talkTime.longestMonologue.party === 'local' ? 'вы' : 'собеседник'
+                      })`}
+                    {` · Перебивания ${entry.talkTime.interruptions.local}/${entry.talkTime.interruptions.remote}`}
+                    {` · Паузы ${entry.talkTime.longSilences}`}
+                  </div>
+                )}
+                {recordings
+                  .filter((r) => r.callId === entry.callId && r.chunkCount > 0)
+                  .map((recording) => (
+                    <div key={recording.recordingId} style={{ display: 'flex', alignItems: 'center', gap: 6, marginTop: 6, fontSize: 12, color: '#fca5a5' }}>
+                      🎙 {formatDuration(Math.round(recording.durationMs / 1000))}
+                      {recording.interrupted && <span title="Запись прервана">⚠️</span>}
+                      {recording.lostChunks > 0 && <span title={`Не сохранено ${recording.lostChunks} с записи`}>⚠️</span>}
+                      <button type="button" onClick={() => handleDownload(recording, 'webm')} style={smallChipStyle}>
+                        WebM
+                      </button>
+                      <button type="button" onClick={() => handleDownload(recording, 'wav')} style={smallChipStyle}>
+                        WAV
+                      </button>
+                      <button type="button" onClick={() => handleDeleteRecording(recording)} title="Удалить запись" style={smallChipStyle}>
+                        🗑
+                      </button>
+                    </div>
+                  ))}
+                {entry.transcript && (
+                  <button
+                    type="button"
+                    onClick={() => setOpenTranscript(openTranscript === entry.callId ? null : entry.callId)}
+                    style={{ ...smallChipStyle, marginTop: 6 }}
+                  >
+                    📝 Расшифровка {openTranscript === entry.callId ? '▴' : '▾'}
+                  </button>
+                )}
+                {entry.transcript && openTranscript === entry.callId && (
+                  <div style={{ display: 'flex', flexDirection: 'column', gap: 4, marginTop: 8, fontSize: 13, lineHeight: 1.4, color: '#e5e7eb' }}>
+                    {entry.transcript.map((segment) => (
+                      <div key={segment.id}>
+                        <span style={{ color: '#6b7280', fontFamily: 'SF Mono, ui-monospace, Menlo, Monaco, Consolas', fontSize: 11 }}>
+                          {formatDuration(Math.max(0, Math.round((segment.startedAt - entry.startedAt) / 1000)))}{' '}
+                        </span>
+                        <span style={{ fontWeight: 700, color: segment.speaker === 'local' ? '#FE732E' : '#93c5fd' }}>
+                          {segment.speaker === 'local' ? 'Вы' : entry.peerName || 'Собеседник'}:
+                        </span>{' '}
+                        {segment.text}
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+              <div style={{ textAlign: 'right' }}>
+                <div style={{ fontSize: 12, fontWeight: 600, color: OUTCOME_COLOR[entry.outcome] }}>
+                  {entry.outcome === 'missed' && entry.direction === 'outgoing' ? 'Нет ответа' : OUTCOME_TEXT[entry.outcome]}
+                </div>
+                {entry.outcome === 'answered' && (
+                  <div style={{ fontSize: 12, color: '#9ca3af', fontFamily: 'SF Mono, ui-monospace, Menlo, Monaco, Consolas' }}>
+                    {formatDuration(entry.durationSec)}
+                  </div>
+                )}
+              </div>
+              <button
+                type="button"
+                disabled={!entry.peerLoyaltyId}
+                onClick={() => handleCallBack(entry)}
+                title="Перезвонить"
+                style={{ ...chipStyle(true), opacity: entry.peerLoyaltyId ? 1 : 0.4 }}
+              >
+                📞
+              </button>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <CallModal visible={callModalVisible} onClose={() => setCallModalVisible(false)} />
+    </div>
+  );
+}
+
+function formatDateTime(at: number) {
+  return new Date(at).toLocaleString('ru-RU', {
+    day: '2-digit',
+    month: '2-digit',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+function formatDuration(totalSeconds: number) {
+  const m = Math.floor(totalSeconds / 60);
+  const s = totalSeconds % 60;
+  return `${m.toString().padStart(2, '0')}:${s.toString().padStart(2, '0')}`;
+}
+
+const smallChipStyle = {
+  padding: '2px 8px',
+  borderRadius: 999,
+  border: '1px solid rgba(55,65,81,0.9)',
+  backgroundColor: 'rgba(31,41,55,0.8)',
+  color: '#e5e7eb',
+  fontSize: 11,
+  fontWeight: 600,
+  cursor: 'pointer',
+};
+
+function chipStyle(active: boolean) {
+  return {
+    padding: '8px 14px',
+    borderRadius: 999,
+    border: `1px solid ${active ? 'rgba(254,115,46,0.6)' : 'rgba(55,65,81,0.9)'}`,
+    backgroundColor: active ? 'rgba(254,115,46,0.15)' : 'rgba(31,41,55,0.8)',
+    color: active ? '#fed7aa' : '#e5e7eb',
+    fontSize: 13,
+    fontWeight: 600,
+    cursor: 'pointer',
+    whiteSpace: 'nowrap' as const,
+  };
+}
@@ -4,15 +4,27 @@ import { useEffect, useState } from 'react';
 import {
     initWebRTCWithLoyaltyId,
     startOutgoingVoiceCallByLoyaltyId,
+    startOutgoingVideoCallByLoyaltyId,
     getCurrentLoyaltyId,
     getActiveCallInfo,
     setCallStateChangeCallback,
     setCallActiveChangeCallback,
+    setTransferChangeCallback,
+    setConferenceChangeCallback,
+    setWaitingCallChangeCallback,
+    setMissedCallsChangeCallback,
+    getMissedCalls,
+    markMissedCallsSeen,
+    dismissMissedCall,
     checkAllServersStatus,
+    type MissedCall,
     type ServerStatus,
+    type CallState,
+    type TransferInfo,
 } from '@/lib/webrtc-service';
 import { getAllUsers, getUserDisplayName, type User } from '@/lib/users-api';
 import { getStoredUser, removeUser } from '@/lib/auth-api';
+import { getConfig, loadConfig } from '@/lib/config';
 import { useRouter } from 'next/navigation';
 import CallModal from '@/components/CallModal';
 
@@ -25,11 +37,16 @@ export default function Home() {
     const [callSeconds, setCallSeconds] = useState(0);
     const [isCallActive, setIsCallActive] = useState(false);
     const [callModalVisible, setCallModalVisible] = useState(false);
-    const [callState, setCallState] = useState<'idle' | 'calling' | 'ringing' | 'answered' | 'ended' | 'rejected'>('idle');
+    const [callState, setCallState] = useState<CallState>('idle');
     const [callerName, setCallerName] = useState<string | null>(null);
     const [serverStatuses, setServerStatuses] = useState<ServerStatus[]>([]);
     const [checkingServers, setCheckingServers] = useState(false);
     const [showServerStatus, setShowServerStatus] = useState(false);
+    const [conferenceSize, setConferenceSize] = useState(0);
+    const [transferNotice, setTransferNotice] = useState<TransferInfo | null>(null);
+    const [missedCalls, setMissedCalls] = useState<MissedCall[]>([]);
+    const [showMissedCalls, setShowMissedCalls] = useState(false);
+    const [serverStatusPanelEnabled, setServerStatusPanelEnabled] = useState(getConfig().features.serverStatusPanel);
 
     // Load users from database
     const loadUsers = async () => {
@@ -45,6 +62,13 @@ export default function Home() {
         }
     };
 
+    // Apply feature flags from /config.json once it is loaded
+    useEffect(() => {
+        loadConfig()
+            .then((config) => setServerStatusPanelEnabled(config.features.serverStatusPanel))
+            .catch((e) => console.warn('Could not load config, keeping build-time feature flags', e));
+    }, []);
+
     // Initialize with logged-in user's loyalty_id
     useEffect(() => {
         const user = getStoredUser();
@@ -58,6 +82,7 @@ export default function Home() {
                 try {
                     initWebRTCWithLoyaltyId(loyaltyId);
                     console.log('WebRTC initialized successfully');
+                    setMissedCalls(getMissedCalls());
                 } catch (e) {
                     console.error('Failed to initialize WebRTC:', e);
                     alert('Ошибка инициализации WebRTC: ' + (e instanceof Error ? e.message : String(e)));
@@ -86,13 +111,35 @@ export default function Home() {
             setIsCallActive(isActive);
         });
 
+        // A second call during a call: bring the modal back so it can be answered
+        setWaitingCallChangeCallback((waitingCall) => {
+            if (waitingCall) {
+                console.log('📞 Call waiting from:', waitingCall.callerName);
+                setCallModalVisible(true);
+            }
+        });
+
+        setMissedCallsChangeCallback((calls) => {
+            setMissedCalls(calls);
+        });
+
+        setConferenceChangeCallback((conference) => {
+            setConferenceSize(conference ? conference.participants.length : 0);
+        });
+
+        // Keep the outcome of a transfer visible after the call has left the modal
+        setTransferChangeCallback((transfer) => {
+            console.log('🔀 Transfer', transfer.status, 'role:', transfer.role);
+            setTransferNotice({ ...transfer });
+        });
+
         // Load users on mount
         loadUsers();
 
         // Refresh users every 10 seconds
         const interval = setInterval(loadUsers, 10000);
         return () => clearInterval(interval);
-    }, []);
+    }, [router]);
 
     // Save loyalty_id when changed
     useEffect(() => {
@@ -127,6 +174,14 @@ export default function Home() {
         }
     }, [callState]);
 
+    // Hide the transfer notice a while after the transfer settles
+    useEffect(() => {
+        if (transferNotice && ['connected', 'failed', 'cancelled'].includes(transferNotice.status)) {
+            const timer = setTimeout(() => setTransferNotice(null), 6000);
+            return () => clearTimeout(timer);
+        }
+    }, [transferNotice]);
+
     const formatCallTime = (totalSeconds: number) => {
         const m = Math.floor(totalSeconds / 60);
         const s = totalSeconds % 60;
@@ -140,6 +195,29 @@ export default function Home() {
         }
     };
 
+    const toggleMissedCalls = () => {
+        if (!showMissedCalls) {
+            markMissedCallsSeen();
+        }
+        setShowMissedCalls(!showMissedCalls);
+    };
+
+    const handleCallBackMissed = async (call: MissedCall) => {
+        if (!call.peerLoyaltyId) {
+            return;
+        }
+        setShowMissedCalls(false);
+        try {
+            await startOutgoingVoiceCallByLoyaltyId(call.peerLoyaltyId, call.peerName || call.peerLoyaltyId);
+            dismissMissedCall(call.callId);
+        } catch (e: any) {
+            console.error('Failed to call back', e);
+            alert('Не удалось начать звонок: ' + (e?.message || 'Unknown error'));
+        }
+    };
+
+    const unseenMissedCount = missedCalls.filter((c) => !c.seen).length;
+
     const checkServers = async () => {
         setCheckingServers(true);
         try {
@@ -153,7 +231,7 @@ export default function Home() {
         }
     };
 
-    const handleCallUser = async (user: User) => {
+    const handleCallUser = async (user: User, options: { video?: boolean } = {}) => {
         // Check if WebRTC is initialized
         const storedUser = getStoredUser();
         if (!storedUser) {
@@ -198,8 +276,12 @@ export default function Home() {
 
         try {
             const displayName = getUserDisplayName(user);
-            console.log('Calling user:', user.loyaltyId, 'online:', user.online, 'hasVoipToken:', user.hasVoipToken);
-            await startOutgoingVoiceCallByLoyaltyId(user.loyaltyId, displayName);
+            console.log('Calling user:', user.loyaltyId, 'online:', user.online, 'hasVoipToken:', user.hasVoipToken, 'video:', !!options.video);
+            if (options.video) {
+                await startOutgoingVideoCallByLoyaltyId(user.loyaltyId, displayName);
+            } else {
+                await startOutgoingVoiceCallByLoyaltyId(user.loyaltyId, displayName);
+            }
         } catch (e: any) {
             console.error('Failed to start call', e);
             const errorMsg = e?.message || 'Unknown error';
@@ -466,6 +548,9 @@ export default function Home() {
                         border: '1px solid rgba(55,65,81,0.6)',
                         boxShadow: '0 20px 60px rgba(0,0,0,0.5), 0 0 0 1px rgba(15,23,42,0.8)',
                         backdropFilter: 'blur(20px)',
+                        // Keeps the missed calls list above the cards below
+                        position: 'relative',
+                        zIndex: 20,
                     }}
                 >
                     <div style={{ display: 'flex', alignItems: 'center', gap: '14px' }}>
@@ -521,44 +606,204 @@ export default function Home() {
                         </div>
                     </div>
 
-                    <button
-                        onClick={handleLogout}
-                        style={{
-                            padding: '12px 20px',
-                            background:
-                                'linear-gradient(135deg, rgba(220,38,38,0.95), rgba(239,68,68,0.98))',
-                            color: '#f9fafb',
-                            border: 'none',
-                            borderRadius: 999,
-                            cursor: 'pointer',
-                            fontWeight: 600,
-                            fontSize: 14,
-                            display: 'flex',
-                            alignItems: 'center',
-                            gap: 8,
-                            boxShadow: '0 12px 32px rgba(220,38,38,0.5)',
-                            transition: 'all 0.2s',
-                        }}
-                        onMouseEnter={(e) => {
-                            e.currentTarget.style.transform = 'translateY(-2px)';
-                            e.currentTarget.style.boxShadow = '0 16px 40px rgba(220,38,38,0.6)';
-                        }}
-                        onMouseLeave={(e) => {
-                            e.currentTarget.style.transform = 'translateY(0)';
-                            e.currentTarget.style.boxShadow = '0 12px 32px rgba(220,38,38,0.5)';
-                        }}
-                    >
-            <span
-                style={{
-                    width: 8,
-                    height: 8,
-                    borderRadius: '999px',
-                    backgroundColor: '#fecaca',
-                    boxShadow: '0 0 8px rgba(254,202,202,0.8)',
-                }}
-            />
-                        Выйти
-                    </button>
+                    <div style={{ display: 'flex', alignItems: 'center', gap: 12 }}>
+                        {/* Missed calls badge and list */}
+                        <div style={{ position: 'relative' }}>
+                            <button
+                                onClick={toggleMissedCalls}
+                                title="Пропущенные звонки"
+                                style={{
+                                    padding: '12px 16px',
+                                    background: 'rgba(31,41,55,0.9)',
+                                    color: '#e5e7eb',
+                                    border: '1px solid rgba(55,65,81,0.9)',
+                                    borderRadius: 999,
+                                    cursor: 'pointer',
+                                    fontWeight: 600,
+                                    fontSize: 14,
+                                    position: 'relative',
+                                }}
+                            >
+                                📵
+                                {unseenMissedCount > 0 && (
+                                    <span
+                                        style={{
+                                            position: 'absolute',
+                                            top: -4,
+                                            right: -4,
+                                            minWidth: 20,
+                                            height: 20,
+                                            padding: '0 6px',
+                                            borderRadius: 999,
+                                            backgroundColor: '#ef4444',
+                                            color: '#fff',
+                                            fontSize: 11,
+                                            fontWeight: 700,
+                                            display: 'flex',
+                                            alignItems: 'center',
+                                            justifyContent: 'center',
+                                            boxShadow: '0 0 10px rgba(239,68,68,0.7)',
+                                        }}
+                                    >
+                                        {unseenMissedCount}
+                                    </span>
+                                )}
+                            </button>
+
+                            {showMissedCalls && (
+                                <div
+                                    style={{
+                                        position: 'absolute',
+                                        top: 'calc(100% + 8px)',
+                                        right: 0,
+                                        width: 320,
+                                        maxHeight: 360,
+                                        overflowY: 'auto',
+                                        borderRadius: 16,
+                                        background: 'rgba(2,6,23,0.98)',
+                                        border: '1px solid rgba(55,65,81,0.8)',
+                                        boxShadow: '0 20px 60px rgba(0,0,0,0.6)',
+                                        zIndex: 20,
+                                    }}
+                                >
+                                    <div style={{ padding: '12px 16px', fontSize: 13, fontWeight: 700, color: '#f9fafb', borderBottom: '1px solid rgba(31,41,55,0.8)' }}>
+                                        Пропущенные звонки
+                                    </div>
+                                    {missedCalls.length === 0 && (
+                                        <div style={{ padding: 16, fontSize: 13, color: '#9ca3af' }}>Пропущенных звонков нет</div>
+                                    )}
+                                    {missedCalls.map((call) => (
+                                        <div
+                                            key={call.callId}
+                                            style={{
+                                                display: 'flex',
+                                                alignItems: 'center',
+                                                gap: 8,
+                                                padding: '10px 16px',
+                                                borderBottom: '1px solid rgba(31,41,55,0.8)',
+                                            }}
+                                        >
+                                            <div style={{ flex: 1, minWidth: 0 }}>
+                                                <div style={{ fontSize: 14, color: '#fca5a5', fontWeight: 600, overflow: 'hidden', textOverflow: 'ellipsis' }}>
+                                                    {call.peerName || call.peerLoyaltyId || 'Неизвестный'}
+                                                </div>
+                                                <div style={{ fontSize: 12, color: '#9ca3af' }}>
+                                                    {new Date(call.at).toLocaleString('ru-RU', { day: '2-digit', month: '2-digit', hour: '2-digit', minute: '2-digit' })}
+                                                </div>
+                                            </div>
+                                            {call.peerLoyaltyId && (
+                                                <button
+                                                    onClick={() => handleCallBackMissed(call)}
+                                                    title="Перезвонить"
+                                                    style={{
+                                                        padding: '6px 10px',
+                                                        borderRadius: 999,
+                                                        border: '1px solid rgba(34,197,94,0.5)',
+                                                        background: 'rgba(34,197,94,0.15)',
+                                                        color: '#bbf7d0',
+                                                        fontSize: 12,
+                                                        fontWeight: 600,
+                                                        cursor: 'pointer',
+                                                    }}
+                                                >
+                                                    📞 Перезвонить
+                                                </button>
+                                            )}
+                                            <button
+                                                onClick={() => dismissMissedCall(call.callId)}
+                                                title="Убрать"
+                                                style={{
+                                                    padding: '6px 8px',
+                                                    borderRadius: 999,
+                                                    border: '1px solid rgba(55,65,81,0.9)',
+                                                    background: 'transparent',
+                                                    color: '#9ca3af',
+                                                    fontSize: 12,
+                                                    cursor: 'pointer',
+                                                }}
+                                            >
+                                                ✕
+                                            </button>
+                                        </div>
+                                    ))}
+                                </div>
+                            )}
+                        </div>
+
+                        <button
+                            onClick={() => router.push('/history')}
+                            style={{
+                                padding: '12px 20px',
+                                background: 'rgba(31,41,55,0.9)',
+                                color: '#e5e7eb',
+                                border: '1px solid rgba(55,65,81,0.9)',
+                                borderRadius: 999,
+                                cursor: 'pointer',
+                                fontWeight: 600,
+                                fontSize: 14,
+                                transition: 'all 0.2s',
+                            }}
+                        >
+                            🕘 История
+                        </button>
+
+                        <button
+                            onClick={() => router.push('/settings')}
+                            title="Настройки звука"
+                            style={{
+                                padding: '12px 20px',
+                                background: 'rgba(31,41,55,0.9)',
+                                color: '#e5e7eb',
+                                border: '1px solid rgba(55,65,81,0.9)',
+                                borderRadius: 999,
+                                cursor: 'pointer',
+                                fontWeight: 600,
+                                fontSize: 14,
+                                transition: 'all 0.2s',
+                            }}
+                        >
+                            ⚙️ Настройки
+                        </button>
+
+                        <button
+                            onClick={handleLogout}
+                            style={{
+                                padding: '12px 20px',
+                                background:
+                                    'linear-gradient(135deg, rgba(220,38,38,0.95), rgba(239,68,68,0.98))',
+                                color: '#f9fafb',
+                                border: 'none',
+                                borderRadius: 999,
+                                cursor: 'pointer',
+                                fontWeight: 600,
+                                fontSize: 14,
+                                display: 'flex',
+                                alignItems: 'center',
+                                gap: 8,
+                                boxShadow: '0 12px 32px rgba(220,38,38,0.5)',
+                                transition: 'all 0.2s',
+                            }}
+                            onMouseEnter={(e) => {
+                                e.currentTarget.style.transform = 'translateY(-2px)';
+                                e.currentTarget.style.boxShadow = '0 16px 40px rgba(220,38,38,0.6)';
+                            }}
+                            onMouseLeave={(e) => {
+                                e.currentTarget.style.transform = 'translateY(0)';
+                                e.currentTarget.style.boxShadow = '0 12px 32px rgba(220,38,38,0.5)';
+                            }}
+                        >
+                <span
+                    style={{
+                        width: 8,
+                        height: 8,
+                        borderRadius: '999px',
+                        backgroundColor: '#fecaca',
+                        boxShadow: '0 0 8px rgba(254,202,202,0.8)',
+                    }}
+                />
+                            Выйти
+                        </button>
+                    </div>
                 </div>
 
                 {/* Top row: agent card + timer */}
@@ -736,7 +981,11 @@ export default function Home() {
                                 marginBottom: 8,
                             }}
                         >
-                            {isCallActive
+                            {callState === 'held'
+                                ? 'Звонок на удержании'
+                                : isCallActive && conferenceSize > 0
+                                ? `Конференция · ${conferenceSize} участников`
+                                : isCallActive
                                 ? 'Идет разговор'
                                 : callState === 'calling'
                                     ? 'Исходящий вызов...'
@@ -758,6 +1007,24 @@ export default function Home() {
                         >
                             {isCallActive ? formatCallTime(callSeconds) : '00:00'}
                         </div>
+                        {transferNotice && transferNotice.role !== 'target' && (
+                            <div
+                                style={{
+                                    fontSize: 13,
+                                    fontWeight: 600,
+                                    color: transferNotice.status === 'failed' ? '#fca5a5' : '#bae6fd',
+                                }}
+                            >
+                                🔀{' '}
+                                {transferNotice.status === 'connected'
+                                    ? `Звонок переведён: ${transferNotice.peerName || ''}`
+                                    : transferNotice.status === 'failed'
+                                        ? `Перевод не удался${transferNotice.reason ? ` (${transferNotice.reason})` : ''}`
+                                        : transferNotice.status === 'cancelled'
+                                            ? 'Перевод отменён'
+                                            : `Перевод на ${transferNotice.peerName || '...'}`}
+                            </div>
+                        )}
                     </div>
                 </div>
 
@@ -1072,47 +1339,82 @@ export default function Home() {
                                                 </div>
                                             </div>
                                         </div>
-                                        <button
-                                            onClick={() => handleCallUser(user)}
-                                            disabled={isDisabled}
-                                            style={{
-                                                padding: '12px 22px',
-                                                borderRadius: 999,
-                                                border: 'none',
-                                                backgroundColor: isDisabled
-                                                    ? 'rgba(31,41,55,0.8)'
-                                                    : '#FE732E',
-                                                color: isDisabled ? '#6b7280' : '#f9fafb',
-                                                cursor: isDisabled ? 'not-allowed' : 'pointer',
-                                                fontSize: 14,
-                                                fontWeight: 700,
-                                                display: 'flex',
-                                                alignItems: 'center',
-                                                gap: 8,
-                                                boxShadow: isDisabled
-                                                    ? 'none'
-                                                    : '0 12px 32px rgba(254,115,46,0.5)',
-                                                whiteSpace: 'nowrap',
-                                                transition: 'all 0.2s',
-                                            }}
-                                            onMouseEnter={(e) => {
-                                                if (!isDisabled) {
-                                                    e.currentTarget.style.transform = 'translateY(-2px)';
-                                                    e.currentTarget.style.boxShadow =
-                                                        '0 16px 40px rgba(254,115,46,0.6)';
-                                                }
-                                            }}
-                                            onMouseLeave={(e) => {
-                                                if (!isDisabled) {
-                                                    e.currentTarget.style.transform = 'translateY(0)';
-                                                    e.currentTarget.style.boxShadow =
-                                                        '0 12px 32px rgba(254,115,46,0.5)';
-                                                }
-                                            }}
-                                        >
-                                            <span style={{ fontSize: 16 }}>📞</span>
-                                            Позвонить
-                                        </button>
+                                        <div style={{ display: 'flex', gap: 10, alignItems: 'center' }}>
+                                            <button
+                                                onClick={() => handleCallUser(user, { video: true })}
+                                                disabled={isDisabled}
+                                                title="Видеозвонок"
+                                                style={{
+                                                    width: 44,
+                                                    height: 44,
+                                                    borderRadius: 999,
+                                                    border: `1px solid ${isDisabled ? 'rgba(55,65,81,0.6)' : 'rgba(254,115,46,0.6)'}`,
+                                                    backgroundColor: isDisabled
+                                                        ? 'rgba(31,41,55,0.8)'
+                                                        : 'rgba(254,115,46,0.12)',
+                                                    color: isDisabled ? '#6b7280' : '#FE732E',
+                                                    cursor: isDisabled ? 'not-allowed' : 'pointer',
+                                                    fontSize: 18,
+                                                    display: 'flex',
+                                                    alignItems: 'center',
+                                                    justifyContent: 'center',
+                                                    transition: 'all 0.2s',
+                                                }}
+                                                onMouseEnter={(e) => {
+                                                    if (!isDisabled) {
+                                                        e.currentTarget.style.transform = 'translateY(-2px)';
+                                                    }
+                                                }}
+                                                onMouseLeave={(e) => {
+                                                    if (!isDisabled) {
+                                                        e.currentTarget.style.transform = 'translateY(0)';
+                                                    }
+                                                }}
+                                            >
+                                                📹
+                                            </button>
+                                            <button
+                                                onClick={() => handleCallUser(user)}
+                                                disabled={isDisabled}
+                                                style={{
+                                                    padding: '12px 22px',
+                                                    borderRadius: 999,
+                                                    border: 'none',
+                                                    backgroundColor: isDisabled
+                                                        ? 'rgba(31,41,55,0.8)'
+                                                        : '#FE732E',
+                                                    color: isDisabled ? '#6b7280' : '#f9fafb',
+                                                    cursor: isDisabled ? 'not-allowed' : 'pointer',
+                                                    fontSize: 14,
+                                                    fontWeight: 700,
+                                                    display: 'flex',
+                                                    alignItems: 'center',
+                                                    gap: 8,
+                                                    boxShadow: isDisabled
+                                                        ? 'none'
+                                                        : '0 12px 32px rgba(254,115,46,0.5)',
+                                                    whiteSpace: 'nowrap',
+                                                    transition: 'all 0.2s',
+                                                }}
+                                                onMouseEnter={(e) => {
+                                                    if (!isDisabled) {
+                                                        e.currentTarget.style.transform = 'translateY(-2px)';
+                                                        e.currentTarget.style.boxShadow =
+                                                            '0 16px 40px rgba(254,115,46,0.6)';
+                                                    }
+                                                }}
+                                                onMouseLeave={(e) => {
+                                                    if (!isDisabled) {
+                                                        e.currentTarget.style.transform = 'translateY(0)';
+                                                        e.currentTarget.style.boxShadow =
+                                                            '0 12px 32px rgba(254,115,46,0.5)';
+                                                    }
+                                                }}
+                                            >
+                                                <span style={{ fontSize: 16 }}>📞</span>
+                                                Позвонить
+                                            </button>
+                                        </div>
                                     </div>
                                 );
                             })}
@@ -1121,233 +1423,238 @@ export default function Home() {
                 </div>
 
                 {/* Server Status */}
-                <div
-                    style={{
-                        padding: '24px',
-                        borderRadius: 24,
-                        background:
-                            'linear-gradient(135deg, rgba(15,23,42,0.98), rgba(2,6,23,0.97))',
-                        border: '1px solid rgba(55,65,81,0.6)',
-                        boxShadow:
-                            '0 24px 60px rgba(0,0,0,0.4), 0 0 0 1px rgba(15,23,42,0.8)',
-                        backdropFilter: 'blur(20px)',
-                    }}
-                >
+                {serverStatusPanelEnabled && (
                     <div
                         style={{
-                            display: 'flex',
-                            justifyContent: 'space-between',
-                            alignItems: 'center',
-                            marginBottom: showServerStatus ? 16 : 0,
+                            padding: '24px',
+                            borderRadius: 24,
+                            background:
+                                'linear-gradient(135deg, rgba(15,23,42,0.98), rgba(2,6,23,0.97))',
+                            border: '1px solid rgba(55,65,81,0.6)',
+                            boxShadow:
+                                '0 24px 60px rgba(0,0,0,0.4), 0 0 0 1px rgba(15,23,42,0.8)',
+                            backdropFilter: 'blur(20px)',
                         }}
                     >
-                        <div>
-                            <h3
+                        <div
+                            style={{
+                                display: 'flex',
+                                justifyContent: 'space-between',
+                                alignItems: 'center',
+                                marginBottom: showServerStatus ? 16 : 0,
+                            }}
+                        >
+                            <div>
+                                <h3
+                                    style={{
+                                        margin: 0,
+                                        color: '#f9fafb',
+                                        fontSize: 18,
+                                        fontWeight: 700,
+                                        marginBottom: 4,
+                                        letterSpacing: 0.3,
+                                    }}
+                                >
+                                    Статус STUN/TURN серверов
+                                </h3>
+                                <div
+                                    style={{
+                                        fontSize: 13,
+                                        color: '#9ca3af',
+                                        fontWeight: 500,
+                                    }}
+                                >
+                                    Проверка доступности серверов для WebRTC
+                                </div>
+                            </div>
+                            <button
+                                onClick={checkServers}
+                                disabled={checkingServers}
                                 style={{
-                                    margin: 0,
-                                    color: '#f9fafb',
-                                    fontSize: 18,
-                                    fontWeight: 700,
-                                    marginBottom: 4,
-                                    letterSpacing: 0.3,
+                                    padding: '10px 18px',
+                                    borderRadius: 999,
+                                    border: '1px solid rgba(55,65,81,0.8)',
+                                    backgroundColor: checkingServers
+                                        ? 'rgba(31,41,55,0.8)'
+                                        : 'rgba(15,23,42,0.95)',
+                                    color: '#e5e7eb',
+                                    cursor: checkingServers ? 'not-allowed' : 'pointer',
+                                    fontSize: 13,
+                                    fontWeight: 600,
+                                    display: 'flex',
+                                    alignItems: 'center',
+                                    gap: 8,
+                                    transition: 'all 0.2s',
+                                    boxShadow: checkingServers
+                                        ? 'none'
+                                        : '0 4px 12px rgba(0,0,0,0.2)',
+                                }}
+                                onMouseEnter={(e) => {
+                                    if (!checkingServers) {
+                                        e.currentTarget.style.transform = 'translateY(-2px)';
+                                        e.currentTarget.style.boxShadow = '0 8px 20px rgba(0,0,0,0.3)';
+                                    }
+                                }}
+                                onMouseLeave={(e) => {
+                                    if (!checkingServers) {
+                                        e.currentTarget.style.transform = 'translateY(0)';
+                                        e.currentTarget.style.boxShadow = '0 4px 12px rgba(0,0,0,0.2)';
+                                    }
                                 }}
                             >
-                                Статус STUN/TURN серверов
-                            </h3>
+                                {checkingServers ? 'Проверка...' : 'Проверить серверы'}
+                            </button>
+                        </div>
+
+                        {showServerStatus && serverStatuses.length > 0 && (
                             <div
                                 style={{
-                                    fontSize: 13,
-                                    color: '#9ca3af',
-                                    fontWeight: 500,
+                                    marginTop: 16,
+                                    maxHeight: 400,
+                                    overflowY: 'auto',
+                                    display: 'flex',
+                                    flexDirection: 'column',
+                                    gap: 12,
                                 }}
                             >
-                                Проверка доступности серверов для WebRTC
-                            </div>
-                        </div>
-                        <button
-                            onClick={checkServers}
-                            disabled={checkingServers}
-                            style={{
-                                padding: '10px 18px',
-                                borderRadius: 999,
-                                border: '1px solid rgba(55,65,81,0.8)',
-                                backgroundColor: checkingServers
-                                    ? 'rgba(31,41,55,0.8)'
-                                    : 'rgba(15,23,42,0.95)',
-                                color: '#e5e7eb',
-                                cursor: checkingServers ? 'not-allowed' : 'pointer',
-                                fontSize: 13,
-                                fontWeight: 600,
-                                display: 'flex',
-                                alignItems: 'center',
-                                gap: 8,
-                                transition: 'all 0.2s',
-                                boxShadow: checkingServers
-                                    ? 'none'
-                                    : '0 4px 12px rgba(0,0,0,0.2)',
-                            }}
-                            onMouseEnter={(e) => {
-                                if (!checkingServers) {
-                                    e.currentTarget.style.transform = 'translateY(-2px)';
-                                    e.currentTarget.style.boxShadow = '0 8px 20px rgba(0,0,0,0.3)';
-                                }
-                            }}
-                            onMouseLeave={(e) => {
-                                if (!checkingServers) {
-                                    e.currentTarget.style.transform = 'translateY(0)';
-                                    e.currentTarget.style.boxShadow = '0 4px 12px rgba(0,0,0,0.2)';
-                                }
-                            }}
-                        >
-                            {checkingServers ? 'Проверка...' : 'Проверить серверы'}
-                        </button>
-                    </div>
-
-                    {showServerStatus && serverStatuses.length > 0 && (
-                        <div
-                            style={{
-                                marginTop: 16,
-                                maxHeight: 400,
-                                overflowY: 'auto',
-                                display: 'flex',
-                                flexDirection: 'column',
-                                gap: 12,
-                            }}
-                        >
-                            {serverStatuses.map((server, index) => {
-                                const statusColor =
-                                    server.status === 'available'
-                                        ? '#22c55e'
-                                        : server.status === 'unavailable' || server.status === 'error'
-                                            ? '#ef4444'
-                                            : '#fbbf24';
-                                const statusText =
-                                    server.status === 'available'
-                                        ? 'Доступен'
-                                        : server.status === 'unavailable'
-                                            ? 'Недоступен'
-                                            : server.status === 'error'
-                                                ? 'Ошибка'
-                                                : 'Проверка...';
+                                {serverStatuses.map((server, index) => {
+                                    const statusColor =
+                                        server.status === 'available'
+                                            ? '#22c55e'
+                                            : server.status === 'unavailable' || server.status === 'error'
+                                                ? '#ef4444'
+                                                : '#fbbf24';
+                                    const statusText =
+                                        server.status === 'available'
+                                            ? 'Доступен'
+                                            : server.status === 'unavailable'
+                                                ? 'Недоступен'
+                                                : server.status === 'error'
+                                                    ? 'Ошибка'
+                                                    : 'Проверка...';
 
-                                return (
-                                    <div
-                                        key={index}
-                                        style={{
-                                            padding: '16px 18px',
-                                            borderRadius: 16,
-                                            backgroundColor: 'rgba(15,23,42,0.6)',
-                                            border: `1px solid ${statusColor}30`,
-                                            display: 'flex',
-                                            justifyContent: 'space-between',
-                                            alignItems: 'center',
-                                            fontSize: 13,
-                                            transition: 'all 0.2s',
-                                        }}
-                                        onMouseEnter={(e) => {
-                                            e.currentTarget.style.backgroundColor = 'rgba(15,23,42,0.8)';
-                                            e.currentTarget.style.borderColor = `${statusColor}50`;
-                                        }}
-                                        onMouseLeave={(e) => {
-                                            e.currentTarget.style.backgroundColor = 'rgba(15,23,42,0.6)';
-                                            e.currentTarget.style.borderColor = `${statusColor}30`;
-                                        }}
-                                    >
-                                        <div style={{ flex: 1, minWidth: 0 }}>
-                                            <div
-                                                style={{
-                                                    color: '#f9fafb',
-                                                    fontWeight: 600,
-                                                    marginBottom: 6,
-                                                    overflow: 'hidden',
-                                                    textOverflow: 'ellipsis',
-                                                    whiteSpace: 'nowrap',
-                                                    fontSize: 14,
-                                                }}
-                                            >
-                                                {server.url}
+                                    return (
+                                        <div
+                                            key={index}
+                                            style={{
+                                                padding: '16px 18px',
+                                                borderRadius: 16,
+                                                backgroundColor: 'rgba(15,23,42,0.6)',
+                                                border: `1px solid ${statusColor}30`,
+                                                display: 'flex',
+                                                justifyContent: 'space-between',
+                                                alignItems: 'center',
+                                                fontSize: 13,
+                                                transition: 'all 0.2s',
+                                            }}
+                                            onMouseEnter={(e) => {
+                                                e.currentTarget.style.backgroundColor = 'rgba(15,23,42,0.8)';
+                                                e.currentTarget.style.borderColor = `${statusColor}50`;
+                                            }}
+                                            onMouseLeave={(e) => {
+                                                e.currentTarget.style.backgroundColor = 'rgba(15,23,42,0.6)';
+                                                e.currentTarget.style.borderColor = `${statusColor}30`;
+                                            }}
+                                        >
+                                            <div style={{ flex: 1, minWidth: 0 }}>
+                                                <div
+                                                    style={{
+                                                        color: '#f9fafb',
+                                                        fontWeight: 600,
+                                                        marginBottom: 6,
+                                                        overflow: 'hidden',
+                                                        textOverflow: 'ellipsis',
+                                                        whiteSpace: 'nowrap',
+                                                        fontSize: 14,
+                                                    }}
+                                                >
+                                                    {server.url}
+                                                </div>
+                                                <div
+                                                    style={{
+                                                        color: '#9ca3af',
+                                                        fontSize: 12,
+                                                        textTransform: 'uppercase',
+                                                        fontWeight: 600,
+                                                        letterSpacing: 0.5,
+                                                        display: 'flex',
+                                                        alignItems: 'center',
+                                                        gap: 8,
+                                                    }}
+                                                >
+                            <span
+                                style={{
+                                    padding: '2px 8px',
+                                    borderRadius: 6,
+                                    backgroundColor: 'rgba(55,65,81,0.6)',
+                                    fontSize: 10,
+                                }}
+                            >
+                              {server.type === 'stun' ? 'STUN' : 'TURN'}
+                            </span>
+                                                    {server.latency && (
+                                                        <span style={{ color: '#6b7280' }}>
+                                {server.latency}ms
+                              </span>
+                                                    )}
+                                                </div>
                                             </div>
                                             <div
                                                 style={{
-                                                    color: '#9ca3af',
+                                                    padding: '6px 14px',
+                                                    borderRadius: 999,
+                                                    backgroundColor: `${statusColor}15`,
+                                                    border: `2px solid ${statusColor}50`,
+                                                    color: statusColor,
                                                     fontSize: 12,
-                                                    textTransform: 'uppercase',
-                                                    fontWeight: 600,
-                                                    letterSpacing: 0.5,
+                                                    fontWeight: 700,
+                                                    whiteSpace: 'nowrap',
+                                                    marginLeft: 12,
                                                     display: 'flex',
                                                     alignItems: 'center',
-                                                    gap: 8,
+                                                    gap: 6,
+                                                    boxShadow: `0 0 12px ${statusColor}20`,
                                                 }}
                                             >
-                        <span
-                            style={{
-                                padding: '2px 8px',
-                                borderRadius: 6,
-                                backgroundColor: 'rgba(55,65,81,0.6)',
-                                fontSize: 10,
-                            }}
-                        >
-                          {server.type === 'stun' ? 'STUN' : 'TURN'}
-                        </span>
-                                                {server.latency && (
-                                                    <span style={{ color: '#6b7280' }}>
-                            {server.latency}ms
-                          </span>
-                                                )}
+                          <span
+                              style={{
+                                  width: 6,
+                                  height: 6,
+                                  borderRadius: '999px',
+                                  backgroundColor: statusColor,
+                                  boxShadow: `0 0 8px ${statusColor}80`,
+                              }}
+                          />
+                                                {statusText}
                                             </div>
                                         </div>
-                                        <div
-                                            style={{
-                                                padding: '6px 14px',
-                                                borderRadius: 999,
-                                                backgroundColor: `${statusColor}15`,
-                                                border: `2px solid ${statusColor}50`,
-                                                color: statusColor,
-                                                fontSize: 12,
-                                                fontWeight: 700,
-                                                whiteSpace: 'nowrap',
-                                                marginLeft: 12,
-                                                display: 'flex',
-                                                alignItems: 'center',
-                                                gap: 6,
-                                                boxShadow: `0 0 12px ${statusColor}20`,
-                                            }}
-                                        >
-                      <span
-                          style={{
-                              width: 6,
-                              height: 6,
-                              borderRadius: '999px',
-                              backgroundColor: statusColor,
-                              boxShadow: `0 0 8px ${statusColor}80`,
-                          }}
-                      />
-                                            {statusText}
-                                        </div>
-                                    </div>
-                                );
-                            })}
-                        </div>
-                    )}
+                                    );
+                                })}
+                            </div>
+                        )}
 
-                    {showServerStatus && serverStatuses.length === 0 && !checkingServers && (
-                        <div
-                            style={{
-                                padding: '12px',
-                                textAlign: 'center',
-                                color: '#6b7280',
-                                fontSize: 13,
-                            }}
-                        >
-                            Нажмите "Проверить серверы" для проверки статуса
-                        </div>
-                    )}
-                </div>
+                        {showServerStatus && serverStatuses.length === 0 && !checkingServers && (
+                            <div
+                                style={{
+                                    padding: '12px',
+                                    textAlign: 'center',
+                                    color: '#6b7280',
+                                    fontSize: 13,
+                                }}
+                            >
+                                Нажмите &quot;Проверить серверы&quot; для проверки статуса
+                            </div>
+                        )}
+                    </div>
+                )}
 
                 {/* Call Modal */}
                 {callModalVisible && (
                     <CallModal
                         visible={callModalVisible}
+                        contacts={users
+                            .filter((user) => user.loyaltyId !== currentLoyaltyId && (user.online || user.hasVoipToken))
+                            .map((user) => ({ loyaltyId: user.loyaltyId, name: getUserDisplayName(user) }))}
                         onClose={() => {
                             // Минимизировать модалку, не прерывая звонок
                             setCallModalVisible(false);
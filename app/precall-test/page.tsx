@@ -0,0 +1,416 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import {
+  initWebRTCWithLoyaltyId,
+  setCallStateChangeCallback,
+  checkAllServersStatus,
+  runPrecallRelayTest,
+  getPreferredMicrophone,
+  getPreferredSpeaker,
+  subscribeToAudioDevices,
+  getCurrentLoyaltyId,
+  type AudioDevices,
+  type CallState,
+  type PrecallCheckId,
+  type PrecallCheckResult,
+  type PrecallCheckStatus,
+  type ServerStatus,
+} from '@/lib/webrtc-service';
+import {
+  MIC_SPEECH_LEVEL,
+  MIN_BANDWIDTH_KBPS,
+  PRECALL_CHECK_TITLES,
+  formatPrecallSummary,
+  openTestMicrophone,
+  playTestTone,
+  runEchoLoopback,
+  watchMicrophoneLevel,
+} from '@/lib/precall-test';
+import { getStoredUser } from '@/lib/auth-api';
+import CallModal from '@/components/CallModal';
+import AudioDevicePicker from '@/components/AudioDevicePicker';
+
+const CHECK_ORDER: PrecallCheckId[] = ['microphone', 'speaker', 'echo', 'servers', 'relay', 'bandwidth'];
+
+const STATUS_ICON: Record<PrecallCheckStatus, string> = {
+  pending: '○',
+  running: '⏳',
+  passed: '✅',
+  failed: '❌',
+  skipped: '➖',
+};
+
+const MIC_TEST_MS = 4000;
+const ECHO_TEST_MS = 6000;
+
+function initialResults(): PrecallCheckResult[] {
+  return CHECK_ORDER.map((id) => ({ id, status: 'pending', detail: null }));
+}
+
+export default function PrecallTestPage() {
+  const router = useRouter();
+  const [results, setResults] = useState<PrecallCheckResult[]>(initialResults);
+  const [running, setRunning] = useState(false);
+  const [micLevel, setMicLevel] = useState(0);
+  const [prompt, setPrompt] = useState<string | null>(null);
+  const [awaitingSpeakerAnswer, setAwaitingSpeakerAnswer] = useState(false);
+  const [serverStatuses, setServerStatuses] = useState<ServerStatus[]>([]);
+  const [summary, setSummary] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+  const [callModalVisible, setCallModalVisible] = useState(false);
+  const devicesRef = useRef<AudioDevices>({ inputs: [], outputs: [] });
+  const speakerAnswerRef = useRef<((heard: boolean | null) => void) | null>(null);
+  const micPeakRef = useRef(0);
+
+  useEffect(() => {
+    const user = getStoredUser();
+    const loyaltyId = user?.loyaltyId || (user as any)?.loyalty_id;
+    if (!loyaltyId) {
+      router.push('/login');
+      return;
+    }
+    initWebRTCWithLoyaltyId(loyaltyId);
+    setCallStateChangeCallback((state: CallState) => setCallModalVisible(state !== 'idle'));
+    return subscribeToAudioDevices((devices) => {
+      devicesRef.current = devices;
+    });
+  }, [router]);
+
+  const update = (id: PrecallCheckId, status: PrecallCheckStatus, detail: string | null = null) => {
+    setResults((prev) => prev.map((r) => (r.id === id ? { id, status, detail } : r)));
+  };
+
+  // The agent says whether the tone was heard; null asks to play it again
+  const askSpeakerAnswer = () =>
+    new Promise<boolean | null>((resolve) => {
+      speakerAnswerRef.current = resolve;
+      setAwaitingSpeakerAnswer(true);
+    });
+
+  const answerSpeaker = (heard: boolean | null) => {
+    setAwaitingSpeakerAnswer(false);
+    speakerAnswerRef.current?.(heard);
+    speakerAnswerRef.current = null;
+  };
+
+  const runChecks = async () => {
+    setRunning(true);
+    setSummary(null);
+    setCopied(false);
+    setServerStatuses([]);
+    const final: Record<PrecallCheckId, PrecallCheckResult> = Object.fromEntries(
+      CHECK_ORDER.map((id) => [id, { id, status: 'skipped', detail: null }])
+    ) as Record<PrecallCheckId, PrecallCheckResult>;
+    const report = (id: PrecallCheckId, status: PrecallCheckStatus, detail: string | null = null) => {
+      final[id] = { id, status, detail };
+      update(id, status, detail);
+    };
+    setResults(initialResults());
+
+    const speakerId = getPreferredSpeaker();
+    let stream: MediaStream | null = null;
+    let stopMeter: (() => void) | null = null;
+    try {
+      // Microphone
+      report('microphone', 'running');
+      setPrompt('Скажите несколько слов в микрофон');
+      try {
+        stream = await openTestMicrophone(getPreferredMicrophone());
+        micPeakRef.current = 0;
+        stopMeter = watchMicrophoneLevel(stream, (level) => {
+          micPeakRef.current = Math.max(micPeakRef.current, level);
+          setMicLevel(level);
+        });
+        await delay(MIC_TEST_MS);
+        const peak = Math.round(micPeakRef.current * 100);
+        if (micPeakRef.current >= MIC_SPEECH_LEVEL) {
+          report('microphone', 'passed', `пик ${peak}%`);
+        } else {
+          report('microphone', 'failed', `слишком тихо, пик ${peak}%`);
+        }
+      } catch (e: any) {
+        console.error('Microphone test failed:', e);
+        report('microphone', 'failed', `нет доступа: ${e?.name || e?.message || 'ошибка'}`);
+      }
+
+      // Speaker
+      report('speaker', 'running');
+      let heard: boolean | null = null;
+      while (heard === null) {
+        setPrompt('Воспроизводим тестовый сигнал…');
+        try {
+          await playTestTone(speakerId);
+        } catch (e) {
+          console.error('Test tone failed:', e);
+        }
+        setPrompt('Вы слышали сигнал?');
+        heard = await askSpeakerAnswer();
+      }
+      report('speaker', heard ? 'passed' : 'failed', heard ? null : 'сигнал не слышен');
+
+      // Echo loopback
+      if (stream) {
+        report('echo', 'running');
+        setPrompt('Говорите — вы услышите себя так, как вас слышит собеседник (лучше в наушниках)');
+        try {
+          const echo = await runEchoLoopback(stream, speakerId, ECHO_TEST_MS);
+          const detail = `получено ${Math.round(echo.bytesReceived / 1024)} КБ, пик ${Math.round(echo.peakLevel * 100)}%`;
+          report('echo', echo.connected && echo.bytesReceived > 0 ? 'passed' : 'failed', detail);
+        } catch (e: any) {
+          console.error('Echo loopback failed:', e);
+          report('echo', 'failed', e?.message || 'ошибка');
+        }
+      } else {
+        report('echo', 'skipped', 'нет микрофона');
+      }
+      stopMeter?.();
+      stopMeter = null;
+      setMicLevel(0);
+
+      // STUN/TURN reachability
+      report('servers', 'running');
+      setPrompt('Проверяем серверы…');
+      const statuses = await checkAllServersStatus();
+      setServerStatuses(statuses);
+      const stun = statuses.filter((s) => s.type === 'stun');
+      const turn = statuses.filter((s) => s.type === 'turn');
+      const available = (list: ServerStatus[]) => list.filter((s) => s.status === 'available').length;
+      report(
+        'servers',
+        available(stun) > 0 && available(turn) > 0 ? 'passed' : 'failed',
+        `STUN ${available(stun)}/${stun.length}, TURN ${available(turn)}/${turn.length}`
+      );
+
+      // Relay-only connection and bandwidth over it
+      report('relay', 'running');
+      report('bandwidth', 'running');
+      setPrompt('Проверяем соединение через TURN…');
+      try {
+        const relay = await runPrecallRelayTest();
+        if (relay.connected) {
+          report('relay', 'passed', `соединение за ${relay.connectMs} мс${relay.rttMs !== null ? `, RTT ${relay.rttMs} мс` : ''}`);
+          if (relay.throughputKbps === null) {
+            report('bandwidth', 'failed', 'данные не дошли');
+          } else {
+            report(
+              'bandwidth',
+              relay.throughputKbps >= MIN_BANDWIDTH_KBPS ? 'passed' : 'failed',
+              `~${formatKbps(relay.throughputKbps)}`
+            );
+          }
+        } else {
+          report('relay', 'failed', 'не удалось соединиться через TURN (UDP/TCP заблокирован?)');
+          report('bandwidth', 'skipped', 'нет соединения');
+        }
+      } catch (e: any) {
+        console.error('Relay test failed:', e);
+        report('relay', 'failed', e?.message || 'ошибка');
+        report('bandwidth', 'skipped', 'нет соединения');
+      }
+    } finally {
+      stopMeter?.();
+      stream?.getTracks().forEach((track) => track.stop());
+      setMicLevel(0);
+      setPrompt(null);
+      setRunning(false);
+    }
+
+    const microphone = stream?.getAudioTracks()[0]?.label || null;
+    const speaker = devicesRef.current.outputs.find((d) => d.deviceId === speakerId)?.label ?? null;
+    setSummary(
+      formatPrecallSummary(
+        CHECK_ORDER.map((id) => final[id]),
+        { loyaltyId: getCurrentLoyaltyId(), microphone, speaker }
+      )
+    );
+  };
+
+  const handleCopy = async () => {
+    if (!summary) return;
+    try {
+      await navigator.clipboard.writeText(summary);
+      setCopied(true);
+    } catch (e) {
+      console.warn('Clipboard write failed:', e);
+      alert('Не удалось скопировать, выделите текст вручную');
+    }
+  };
+
+  const allPassed = !!summary && results.every((r) => r.status === 'passed' || r.status === 'skipped');
+
+  return (
+    <div
+      style={{
+        minHeight: '100vh',
+        padding: '40px 20px',
+        background: 'radial-gradient(ellipse at top, rgba(15,23,42,0.98) 0%, rgba(2,6,23,0.98) 50%, #000000 100%)',
+        display: 'flex',
+        justifyContent: 'center',
+      }}
+    >
+      <div style={{ width: '100%', maxWidth: 700, display: 'flex', flexDirection: 'column', gap: 20 }}>
+        {/* Header */}
+        <div
+          style={{
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'space-between',
+            gap: 16,
+            padding: '20px 24px',
+            borderRadius: 24,
+            background: 'linear-gradient(135deg, rgba(15,23,42,0.95), rgba(2,6,23,0.95))',
+            border: '1px solid rgba(55,65,81,0.6)',
+            boxShadow: '0 20px 60px rgba(0,0,0,0.5)',
+          }}
+        >
+          <div>
+            <div style={{ fontSize: 24, fontWeight: 700, color: '#f9fafb', marginBottom: 2 }}>Проверка перед сменой</div>
+            <div style={{ fontSize: 13, color: '#9ca3af' }}>Гарнитура, серверы и сеть</div>
+          </div>
+          <button type="button" onClick={() => router.push('/')} style={chipStyle(false)}>
+            ← К панели
+          </button>
+        </div>
+
+        {/* Devices */}
+        <div style={panelStyle}>
+          <AudioDevicePicker />
+          <button
+            type="button"
+            disabled={running}
+            onClick={runChecks}
+            style={{ ...chipStyle(true), alignSelf: 'flex-start', opacity: running ? 0.5 : 1 }}
+          >
+            {running ? 'Идёт проверка…' : summary ? '🔁 Проверить снова' : '▶️ Начать проверку'}
+          </button>
+        </div>
+
+        {/* Checks */}
+        <div style={panelStyle}>
+          {prompt && <div style={{ fontSize: 14, fontWeight: 600, color: '#fed7aa' }}>{prompt}</div>}
+
+          {awaitingSpeakerAnswer && (
+            <div style={{ display: 'flex', gap: 8 }}>
+              <button type="button" onClick={() => answerSpeaker(true)} style={chipStyle(true)}>
+                Да, слышно
+              </button>
+              <button type="button" onClick={() => answerSpeaker(false)} style={chipStyle(false)}>
+                Не слышно
+              </button>
+              <button type="button" onClick={() => answerSpeaker(null)} style={chipStyle(false)}>
+                Повторить
+              </button>
+            </div>
+          )}
+
+          {/* Microphone level */}
+          <div
+            title="Уровень микрофона"
+            style={{ height: 8, borderRadius: 999, backgroundColor: 'rgba(31,41,55,0.9)', overflow: 'hidden' }}
+          >
+            <div
+              style={{
+                width: `${Math.round(micLevel * 100)}%`,
+                height: '100%',
+                backgroundColor: micLevel >= MIC_SPEECH_LEVEL ? '#22c55e' : '#6b7280',
+                transition: 'width 0.05s linear',
+              }}
+            />
+          </div>
+
+          {results.map((result) => (
+            <div key={result.id} style={{ display: 'flex', alignItems: 'baseline', gap: 12, fontSize: 14 }}>
+              <span style={{ width: 20, textAlign: 'center' }}>{STATUS_ICON[result.status]}</span>
+              <span style={{ color: '#f9fafb', fontWeight: 600, minWidth: 200 }}>{PRECALL_CHECK_TITLES[result.id]}</span>
+              <span style={{ color: result.status === 'failed' ? '#fca5a5' : '#9ca3af', fontSize: 13 }}>
+                {result.detail}
+              </span>
+            </div>
+          ))}
+
+          {serverStatuses.length > 0 && (
+            <div style={{ display: 'flex', flexDirection: 'column', gap: 4, paddingLeft: 32 }}>
+              {serverStatuses.map((status) => (
+                <div key={status.url} style={{ fontSize: 12, color: status.status === 'available' ? '#bbf7d0' : '#fca5a5' }}>
+                  {status.url} — {status.status === 'available' ? `${status.latency} мс` : 'недоступен'}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Summary for a support ticket */}
+        {summary && (
+          <div style={panelStyle}>
+            <div
+              style={{
+                display: 'flex',
+                alignItems: 'center',
+                justifyContent: 'space-between',
+                fontSize: 16,
+                fontWeight: 700,
+                color: allPassed ? '#bbf7d0' : '#fca5a5',
+              }}
+            >
+              {allPassed ? '✅ Всё готово к звонкам' : '❌ Есть проблемы'}
+              <button type="button" onClick={handleCopy} style={chipStyle(false)}>
+                {copied ? 'Скопировано' : '📋 Скопировать для поддержки'}
+              </button>
+            </div>
+            <pre
+              style={{
+                margin: 0,
+                padding: '12px 16px',
+                borderRadius: 12,
+                backgroundColor: 'rgba(2,6,23,0.9)',
+                border: '1px solid rgba(55,65,81,0.8)',
+                color: '#e5e7eb',
+                fontSize: 12,
+                whiteSpace: 'pre-wrap',
+                fontFamily: 'SF Mono, ui-monospace, Menlo, Monaco, Consolas',
+              }}
+            >
+              {summary}
+            </pre>
+          </div>
+        )}
+      </div>
+
+      <CallModal visible={callModalVisible} onClose={() => setCallModalVisible(false)} />
+    </div>
+  );
+}
+
+function formatKbps(kbps: number) {
+  return kbps >= 1000 ? `${(kbps / 1000).toFixed(1)} Мбит/с` : `${kbps} кбит/с`;
+}
+
+function delay(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+const panelStyle = {
+  display: 'flex',
+  flexDirection: 'column' as const,
+  gap: 14,
+  padding: '20px 24px',
+  borderRadius: 20,
+  backgroundColor: 'rgba(15,23,42,0.9)',
+  border: '1px solid rgba(55,65,81,0.6)',
+};
+
+function chipStyle(active: boolean) {
+  return {
+    padding: '8px 14px',
+    borderRadius: 999,
+    border: `1px solid ${active ? 'rgba(254,115,46,0.6)' : 'rgba(55,65,81,0.9)'}`,
+    backgroundColor: active ? 'rgba(254,115,46,0.15)' : 'rgba(31,41,55,0.8)',
+    color: active ? '#fed7aa' : '#e5e7eb',
+    fontSize: 13,
+    fontWeight: 600,
+    cursor: 'pointer',
+    whiteSpace: 'nowrap' as const,
+  };
+}
@@ -0,0 +1,168 @@
+'use client';
+
+import { useEffect, useState, type ReactNode } from 'react';
+import { useRouter } from 'next/navigation';
+import {
+  initWebRTCWithLoyaltyId,
+  setCallStateChangeCallback,
+  subscribeToAudioDevices,
+  canSelectSpeaker,
+  getCallSoundsVolume,
+  setCallSoundsVolume,
+  getCallSoundsOutputDevice,
+  setCallSoundsOutputDevice,
+  playDtmfTone,
+  type AudioDevices,
+  type CallState,
+} from '@/lib/webrtc-service';
+import { getStoredUser } from '@/lib/auth-api';
+import CallModal from '@/components/CallModal';
+import AudioDevicePicker, { DeviceSelect } from '@/components/AudioDevicePicker';
+import AudioProcessingPicker from '@/components/AudioProcessingPicker';
+
+export default function SettingsPage() {
+  const router = useRouter();
+  const [outputs, setOutputs] = useState<AudioDevices['outputs']>([]);
+  const [soundsVolume, setSoundsVolume] = useState(0.6);
+  const [soundsOutput, setSoundsOutput] = useState('');
+  const [speakerSelectable, setSpeakerSelectable] = useState(true);
+  const [callModalVisible, setCallModalVisible] = useState(false);
+  // The processing preset is per agent, so it is shown once the agent is known
+  const [agentReady, setAgentReady] = useState(false);
+
+  useEffect(() => {
+    const user = getStoredUser();
+    const loyaltyId = user?.loyaltyId || (user as any)?.loyalty_id;
+    if (!loyaltyId) {
+      router.push('/login');
+      return;
+    }
+    initWebRTCWithLoyaltyId(loyaltyId);
+    setAgentReady(true);
+    setCallStateChangeCallback((state: CallState) => setCallModalVisible(state !== 'idle'));
+
+    setSoundsVolume(getCallSoundsVolume());
+    setSoundsOutput(getCallSoundsOutputDevice());
+    setSpeakerSelectable(canSelectSpeaker());
+    return subscribeToAudioDevices((devices) => setOutputs(devices.outputs));
+  }, [router]);
+
+  const handleSoundsOutputChange = async (deviceId: string) => {
+    setSoundsOutput(deviceId);
+    await setCallSoundsOutputDevice(deviceId);
+    playDtmfTone('5');
+  };
+
+  return (
+    <div
+      style={{
+        minHeight: '100vh',
+        padding: '40px 20px',
+        background: 'radial-gradient(ellipse at top, rgba(15,23,42,0.98) 0%, rgba(2,6,23,0.98) 50%, #000000 100%)',
+        display: 'flex',
+        justifyContent: 'center',
+      }}
+    >
+      <div style={{ width: '100%', maxWidth: 600, display: 'flex', flexDirection: 'column', gap: 20 }}>
+        {/* Header */}
+        <div
+          style={{
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'space-between',
+            gap: 16,
+            padding: '20px 24px',
+            borderRadius: 24,
+            background: 'linear-gradient(135deg, rgba(15,23,42,0.95), rgba(2,6,23,0.95))',
+            border: '1px solid rgba(55,65,81,0.6)',
+            boxShadow: '0 20px 60px rgba(0,0,0,0.5)',
+          }}
+        >
+          <div style={{ fontSize: 24, fontWeight: 700, color: '#f9fafb' }}>Настройки звука</div>
+          <div style={{ display: 'flex', gap: 8 }}>
+            <button type="button" onClick={() => router.push('/precall-test')} style={chipStyle()}>
+              🩺 Проверка
+            </button>
+            <button type="button" onClick={() => router.push('/')} style={chipStyle()}>
+              ← К панели
+            </button>
+          </div>
+        </div>
+
+        <Section title="Устройства" hint="Применяется и к текущему звонку">
+          <AudioDevicePicker />
+        </Section>
+
+        <Section title="Обработка микрофона" hint="Как вас слышит собеседник; сохраняется для вашей учётной записи">
+          {agentReady && <AudioProcessingPicker />}
+        </Section>
+
+        <Section title="Сигналы вызова" hint="Мелодия входящего звонка, гудки и звук завершения">
+          <label style={{ display: 'flex', flexDirection: 'column', gap: 6, fontSize: 12, color: '#9ca3af', fontWeight: 600 }}>
+            {soundsVolume === 0 ? '🔕' : '🔔'} Громкость: {Math.round(soundsVolume * 100)}%
+            <input
+              type="range"
+              min={0}
+              max={1}
+              step={0.05}
+              value={soundsVolume}
+              onChange={(e) => {
+                const volume = parseFloat(e.target.value);
+                setSoundsVolume(volume);
+                setCallSoundsVolume(volume);
+              }}
+              onPointerUp={() => playDtmfTone('5')}
+              style={{ width: '100%', accentColor: '#FE732E' }}
+            />
+          </label>
+          <DeviceSelect
+            label="🔊 Куда выводить сигналы"
+            value={soundsOutput}
+            devices={outputs}
+            onChange={handleSoundsOutputChange}
+            disabled={!speakerSelectable}
+            hint={speakerSelectable ? undefined : 'Браузер не поддерживает выбор динамика'}
+          />
+        </Section>
+      </div>
+
+      <CallModal visible={callModalVisible} onClose={() => setCallModalVisible(false)} />
+    </div>
+  );
+}
+
+function Section({ title, hint, children }: { title: string; hint: string; children: ReactNode }) {
+  return (
+    <div
+      style={{
+        display: 'flex',
+        flexDirection: 'column',
+        gap: 14,
+        padding: '20px 24px',
+        borderRadius: 20,
+        backgroundColor: 'rgba(15,23,42,0.9)',
+        border: '1px solid rgba(55,65,81,0.6)',
+      }}
+    >
+      <div>
+        <div style={{ fontSize: 16, fontWeight: 700, color: '#f9fafb' }}>{title}</div>
+        <div style={{ fontSize: 12, color: '#6b7280', marginTop: 2 }}>{hint}</div>
+      </div>
+      {children}
+    </div>
+  );
+}
+
+function chipStyle() {
+  return {
+    padding: '8px 14px',
+    borderRadius: 999,
+    border: '1px solid rgba(55,65,81,0.9)',
+    backgroundColor: 'rgba(31,41,55,0.8)',
+    color: '#e5e7eb',
+    fontSize: 13,
+    fontWeight: 600,
+    cursor: 'pointer',
+    whiteSpace: 'nowrap' as const,
+  };
+}
@@ -0,0 +1,110 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import {
+  canSelectSpeaker,
+  getPreferredMicrophone,
+  getPreferredSpeaker,
+  setMicrophone,
+  setSpeaker,
+  subscribeToAudioDevices,
+  type AudioDevices,
+} from '@/lib/webrtc-service';
+
+// Microphone and speaker selects; a change applies to calls in progress right away
+export default function AudioDevicePicker() {
+  const [devices, setDevices] = useState<AudioDevices>({ inputs: [], outputs: [] });
+  const [microphone, setMicrophoneId] = useState('');
+  const [speaker, setSpeakerId] = useState('');
+  const [speakerSelectable, setSpeakerSelectable] = useState(true);
+
+  useEffect(() => {
+    setMicrophoneId(getPreferredMicrophone());
+    setSpeakerId(getPreferredSpeaker());
+    setSpeakerSelectable(canSelectSpeaker());
+    return subscribeToAudioDevices(setDevices);
+  }, []);
+
+  const handleMicrophoneChange = async (deviceId: string) => {
+    setMicrophoneId(deviceId);
+    try {
+      await setMicrophone(deviceId);
+    } catch (e: any) {
+      console.error('Failed to switch microphone', e);
+      alert('Не удалось переключить микрофон: ' + (e?.message || 'Unknown error'));
+    }
+  };
+
+  const handleSpeakerChange = async (deviceId: string) => {
+    setSpeakerId(deviceId);
+    try {
+      await setSpeaker(deviceId);
+    } catch (e: any) {
+      console.error('Failed to switch speaker', e);
+      alert('Не удалось переключить динамик: ' + (e?.message || 'Unknown error'));
+    }
+  };
+
+  return (
+    <div style={{ width: '100%', display: 'flex', flexDirection: 'column', gap: 10 }}>
+      <DeviceSelect
+        label="🎙️ Микрофон"
+        value={microphone}
+        devices={devices.inputs}
+        onChange={handleMicrophoneChange}
+      />
+      <DeviceSelect
+        label="🔊 Динамик"
+        value={speaker}
+        devices={devices.outputs}
+        onChange={handleSpeakerChange}
+        disabled={!speakerSelectable}
+        hint={speakerSelectable ? undefined : 'Браузер не поддерживает выбор динамика'}
+      />
+    </div>
+  );
+}
+
+interface DeviceSelectProps {
+  label: string;
+  value: string;
+  devices: AudioDevices['inputs'];
+  onChange: (deviceId: string) => void;
+  disabled?: boolean;
+  hint?: string;
+}
+
+export function DeviceSelect({ label, value, devices, onChange, disabled, hint }: DeviceSelectProps) {
+  // A preferred device that is unplugged right now is still shown as selected
+  const missing = value && !devices.some((d) => d.deviceId === value);
+
+  return (
+    <label style={{ display: 'flex', flexDirection: 'column', gap: 6, fontSize: 12, color: '#9ca3af', fontWeight: 600 }}>
+      {label}
+      <select
+        value={value}
+        disabled={disabled}
+        onChange={(e) => onChange(e.target.value)}
+        title={hint}
+        style={{
+          width: '100%',
+          padding: '8px 12px',
+          borderRadius: 12,
+          border: '1px solid rgba(55,65,81,0.9)',
+          backgroundColor: 'rgba(2,6,23,0.9)',
+          color: '#f9fafb',
+          fontSize: 13,
+          opacity: disabled ? 0.5 : 1,
+        }}
+      >
+        <option value="">По умолчанию</option>
+        {devices.map((device) => (
+          <option key={device.deviceId} value={device.deviceId}>
+            {device.label}
+          </option>
+        ))}
+        {missing && <option value={value}>Отключено</option>}
+      </select>
+    </label>
+  );
+}
@@ -0,0 +1,133 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import {
+  AUDIO_PROCESSING_PRESETS,
+  canProcessAudio,
+  getAudioProcessing,
+  getAudioProcessors,
+  presetSteps,
+  setAudioProcessing,
+  type AudioProcessingPreset,
+  type AudioProcessingStep,
+} from '@/lib/webrtc-service';
+
+interface AudioProcessingPickerProps {
+  // Presets only, without the per-processor controls
+  compact?: boolean;
+}
+
+// Microphone processing presets and, unless compact, every processor with its
+// settings. A change is saved for the agent and applies to calls in progress.
+export default function AudioProcessingPicker({ compact = false }: AudioProcessingPickerProps) {
+  const [preset, setPreset] = useState<AudioProcessingPreset>(AUDIO_PROCESSING_PRESETS[0]);
+  const [supported, setSupported] = useState(true);
+
+  useEffect(() => {
+    setPreset(getAudioProcessing());
+    setSupported(canProcessAudio());
+  }, []);
+
+  const apply = async (next: AudioProcessingPreset) => {
+    setPreset(next);
+    try {
+      await setAudioProcessing(next);
+    } catch (e: any) {
+      console.error('Failed to apply audio processing', e);
+      alert('Не удалось применить обработку звука: ' + (e?.message || 'Unknown error'));
+    }
+  };
+
+  const updateStep = (processor: string, change: Partial<AudioProcessingStep>) => {
+    const steps = presetSteps(preset).map((s) => (s.processor === processor ? { ...s, ...change } : s));
+    apply({ id: 'custom', name: 'Свой', steps });
+  };
+
+  if (!supported) {
+    return <div style={{ fontSize: 12, color: '#6b7280' }}>Браузер не поддерживает обработку звука</div>;
+  }
+
+  const processors = getAudioProcessors();
+
+  return (
+    <div style={{ width: '100%', display: 'flex', flexDirection: 'column', gap: 10 }}>
+      <div style={{ display: 'flex', flexWrap: 'wrap', gap: 6 }}>
+        {AUDIO_PROCESSING_PRESETS.map((p) => (
+          <button key={p.id} type="button" onClick={() => apply(p)} style={presetChipStyle(preset.id === p.id)}>
+            {p.name}
+          </button>
+        ))}
+        {preset.id === 'custom' && (
+          <button type="button" style={presetChipStyle(true)}>
+            {preset.name}
+          </button>
+        )}
+      </div>
+
+      {!compact &&
+        presetSteps(preset).map((s) => {
+          const processor = processors.find((p) => p.id === s.processor);
+          if (!processor) {
+            return null;
+          }
+          const available = processor.isAvailable();
+          return (
+            <div key={s.processor} style={{ display: 'flex', flexDirection: 'column', gap: 6 }}>
+              <label
+                title={available ? undefined : 'Недоступно в этом браузере или не установлено'}
+                style={{ display: 'flex', alignItems: 'center', gap: 8, fontSize: 13, color: available ? '#e5e7eb' : '#6b7280' }}
+              >
+                <input
+                  type="checkbox"
+                  checked={s.enabled && available}
+                  disabled={!available}
+                  onChange={(e) => updateStep(s.processor, { enabled: e.target.checked })}
+                  style={{ accentColor: '#FE732E' }}
+                />
+                {processor.title}
+              </label>
+              {s.enabled &&
+                available &&
+                processor.params.map((param) => {
+                  const value = s.params[param.key] ?? param.default;
+                  return (
+                    <label
+                      key={param.key}
+                      style={{ display: 'flex', alignItems: 'center', gap: 10, paddingLeft: 26, fontSize: 12, color: '#9ca3af' }}
+                    >
+                      <span style={{ width: 150 }}>
+                        {param.label}: {value} {param.unit}
+                      </span>
+                      <input
+                        type="range"
+                        min={param.min}
+                        max={param.max}
+                        step={param.step}
+                        value={value}
+                        onChange={(e) =>
+                          updateStep(s.processor, { params: { ...s.params, [param.key]: parseFloat(e.target.value) } })
+                        }
+                        style={{ flex: 1, accentColor: '#FE732E' }}
+                      />
+                    </label>
+                  );
+                })}
+            </div>
+          );
+        })}
+    </div>
+  );
+}
+
+function presetChipStyle(active: boolean) {
+  return {
+    padding: '6px 12px',
+    borderRadius: 999,
+    border: `1px solid ${active ? 'rgba(254,115,46,0.6)' : 'rgba(55,65,81,0.9)'}`,
+    backgroundColor: active ? 'rgba(254,115,46,0.15)' : 'rgba(31,41,55,0.8)',
+    color: active ? '#FE732E' : '#e5e7eb',
+    fontSize: 12,
+    fontWeight: 600,
+    cursor: 'pointer',
+  };
+}
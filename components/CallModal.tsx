@@ -1,38 +1,119 @@
 'use client';
 
-import { useEffect, useState } from 'react';
+import { useEffect, useRef, useState, type ReactNode } from 'react';
 import {
   getCallState,
   getActiveCallInfo,
+  getMediaStreams,
   answerCall,
   rejectCall,
   endCall,
   toggleMute,
-  toggleSpeaker,
+  toggleCamera,
+  switchCamera,
+  holdCall,
+  resumeCall,
+  startScreenShare,
+  stopScreenShare,
+  blindTransfer,
+  startAttendedTransfer,
+  completeAttendedTransfer,
+  cancelAttendedTransfer,
+  addConferenceParticipant,
+  removeConferenceParticipant,
+  setConferenceParticipantMuted,
+  answerWaitingCall,
+  swapToCall,
+  subscribeToCallStats,
+  getCallSoundsVolume,
+  setCallSoundsVolume,
+  playDtmfTone,
+  sendDTMF,
+  canRecordCalls,
+  startRecording,
+  pauseRecording,
+  resumeRecording,
+  stopRecording,
+  canShowCaptions,
+  startCaptions,
+  stopCaptions,
+  MAX_CONFERENCE_PARTICIPANTS,
+  type CallInfo,
+  type CallQuality,
+  type CallQualityWarning,
+  type CallState,
+  type CallStats,
+  type ConferenceParticipant,
+  type TransferInfo,
+  type TranscriptSegment,
 } from '@/lib/webrtc-service';
+import AudioDevicePicker from './AudioDevicePicker';
+import AudioProcessingPicker from './AudioProcessingPicker';
+
+// An agent the current call can be transferred to or joined with
+export interface CallContact {
+  loyaltyId: string;
+  name: string;
+}
 
 interface CallModalProps {
   visible: boolean;
   onClose: () => void;
+  contacts?: CallContact[];
 }
 
-export default function CallModal({ visible, onClose }: CallModalProps) {
-  const [callState, setCallState] = useState<'idle' | 'calling' | 'ringing' | 'answered' | 'ended' | 'rejected'>('idle');
-  const [callInfo, setCallInfo] = useState<{
-    state: typeof callState;
-    callerName: string | null;
-    isMuted: boolean;
-    isSpeakerEnabled: boolean;
-    callUUID: string | null;
-  }>({
+export default function CallModal({ visible, onClose, contacts = [] }: CallModalProps) {
+  const [callState, setCallState] = useState<CallState>('idle');
+  const [callInfo, setCallInfo] = useState<CallInfo>({
     state: 'idle',
     callerName: null,
     isMuted: false,
     isSpeakerEnabled: false,
     callUUID: null,
+    isVideoEnabled: false,
+    hasRemoteVideo: false,
+    cameraFacing: 'user',
+    isScreenSharing: false,
+    hasRemoteScreen: false,
+    heldBy: null,
+    heldAt: null,
+    reconnectingSince: null,
+    transfer: null,
+    conference: null,
+    waitingCall: null,
+    heldCall: null,
+    dtmfDigits: '',
+    recording: null,
+    remoteRecording: null,
+    captionsEnabled: false,
+    transcript: [],
+    speaking: null,
   });
   const [callSeconds, setCallSeconds] = useState(0);
+  const [holdSeconds, setHoldSeconds] = useState(0);
   const [isActive, setIsActive] = useState(false);
+  const localVideoRef = useRef<HTMLVideoElement>(null);
+  const remoteVideoRef = useRef<HTMLVideoElement>(null);
+  const remoteScreenRef = useRef<HTMLVideoElement>(null);
+  const [canShareScreen, setCanShareScreen] = useState(false);
+  const [showTransfer, setShowTransfer] = useState(false);
+  const [showAddParticipant, setShowAddParticipant] = useState(false);
+  const [stats, setStats] = useState<CallStats | null>(null);
+  const [showStats, setShowStats] = useState(false);
+  const [soundsVolume, setSoundsVolume] = useState(0.6);
+  const [showDevices, setShowDevices] = useState(false);
+  const [showKeypad, setShowKeypad] = useState(false);
+  const [showRecordingConsent, setShowRecordingConsent] = useState(false);
+  const [canRecord, setCanRecord] = useState(false);
+  const [canCaption, setCanCaption] = useState(false);
+
+  // getDisplayMedia is missing on most mobile browsers
+  useEffect(() => {
+    setCanShareScreen(!!navigator.mediaDevices?.getDisplayMedia);
+    setSoundsVolume(getCallSoundsVolume());
+    setCanRecord(canRecordCalls());
+    setCanCaption(canShowCaptions());
+  }, []);
 
   // Update state from service
   useEffect(() => {
@@ -50,11 +131,53 @@ export default function CallModal({ visible, onClose }: CallModalProps) {
       } else {
         setCallSeconds(0);
       }
+      setHoldSeconds(state.heldAt ? Math.floor((Date.now() - state.heldAt) / 1000) : 0);
     }, 500);
 
     return () => clearInterval(interval);
   }, [visible]);
 
+  // Call quality samples, about once a second
+  useEffect(() => {
+    if (!visible) return;
+    return subscribeToCallStats(setStats);
+  }, [visible]);
+
+  // Digits typed on the keyboard go to the keypad while it is open
+  const keypadOpen = visible && showKeypad && callState === 'answered';
+  useEffect(() => {
+    if (!keypadOpen) return;
+    const onKeyDown = (e: KeyboardEvent) => {
+      const key = e.key.toUpperCase();
+      if (!e.ctrlKey && !e.metaKey && !e.altKey && KEYPAD_KEYS.includes(key) && !(e.target instanceof HTMLInputElement)) {
+        pressKeypadKey(key);
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [keypadOpen]);
+
+  // Attach call media to the video tiles when they appear
+  const showVideo = callInfo.isVideoEnabled || callInfo.hasRemoteVideo;
+  useEffect(() => {
+    if (!visible || !showVideo) return;
+    const { local, remote } = getMediaStreams();
+    if (localVideoRef.current && localVideoRef.current.srcObject !== local) {
+      localVideoRef.current.srcObject = local;
+    }
+    if (remoteVideoRef.current && remoteVideoRef.current.srcObject !== remote) {
+      remoteVideoRef.current.srcObject = remote;
+    }
+  }, [visible, showVideo, callInfo.isVideoEnabled, callInfo.hasRemoteVideo]);
+
+  useEffect(() => {
+    if (!visible || !callInfo.hasRemoteScreen) return;
+    const { remoteScreen } = getMediaStreams();
+    if (remoteScreenRef.current && remoteScreenRef.current.srcObject !== remoteScreen) {
+      remoteScreenRef.current.srcObject = remoteScreen;
+    }
+  }, [visible, callInfo.hasRemoteScreen]);
+
   const formatCallTime = (totalSeconds: number) => {
     const m = Math.floor(totalSeconds / 60);
     const s = totalSeconds % 60;
@@ -62,6 +185,9 @@ export default function CallModal({ visible, onClose }: CallModalProps) {
   };
 
   const getStateText = () => {
+    if (callInfo.reconnectingSince) {
+      return 'Переподключение…';
+    }
     switch (callState) {
       case 'calling':
         return 'Вызов...';
@@ -69,6 +195,8 @@ export default function CallModal({ visible, onClose }: CallModalProps) {
         return 'Входящий звонок';
       case 'answered':
         return 'Разговор';
+      case 'held':
+        return callInfo.heldBy === 'remote' ? 'Собеседник поставил звонок на удержание' : 'На удержании';
       case 'ended':
         return 'Звонок завершен';
       case 'rejected':
@@ -92,8 +220,140 @@ export default function CallModal({ visible, onClose }: CallModalProps) {
     toggleMute();
   };
 
-  const handleSpeaker = () => {
-    toggleSpeaker();
+  const handleRecordButton = () => {
+    if (callInfo.recording) {
+      stopRecording();
+    } else {
+      setShowRecordingConsent(!showRecordingConsent);
+    }
+  };
+
+  const handleStartRecording = () => {
+    setShowRecordingConsent(false);
+    try {
+      startRecording();
+    } catch (e: any) {
+      console.error('Failed to start recording', e);
+      alert('Не удалось начать запись: ' + (e?.message || 'Unknown error'));
+    }
+  };
+
+  const handleCaptions = async () => {
+    if (callInfo.captionsEnabled) {
+      stopCaptions();
+      return;
+    }
+    try {
+      await startCaptions();
+    } catch (e: any) {
+      console.error('Failed to start captions', e);
+      alert('Не удалось включить субтитры: ' + (e?.message || 'Unknown error'));
+    }
+  };
+
+  const handleCamera = async () => {
+    try {
+      await toggleCamera();
+    } catch (e: any) {
+      alert('Не удалось включить камеру: ' + (e?.message || 'Unknown error'));
+    }
+  };
+
+  const handleSwitchCamera = async () => {
+    try {
+      await switchCamera();
+    } catch (e: any) {
+      alert('Не удалось переключить камеру: ' + (e?.message || 'Unknown error'));
+    }
+  };
+
+  const handleHold = async () => {
+    try {
+      if (callInfo.heldBy === 'local') {
+        await resumeCall();
+      } else {
+        await holdCall();
+      }
+    } catch (e: any) {
+      console.warn('Hold toggle failed:', e);
+    }
+  };
+
+  const handleScreenShare = async () => {
+    try {
+      if (callInfo.isScreenSharing) {
+        await stopScreenShare();
+      } else {
+        await startScreenShare();
+      }
+    } catch (e: any) {
+      console.warn('Screen share toggle failed:', e);
+    }
+  };
+
+  const handleTransfer = async (target: CallContact, mode: 'blind' | 'attended') => {
+    setShowTransfer(false);
+    try {
+      if (mode === 'blind') {
+        await blindTransfer(target.loyaltyId, target.name);
+      } else {
+        await startAttendedTransfer(target.loyaltyId, target.name);
+      }
+    } catch (e: any) {
+      alert('Не удалось перевести звонок: ' + (e?.message || 'Unknown error'));
+    }
+  };
+
+  const handleCompleteTransfer = async () => {
+    try {
+      await completeAttendedTransfer();
+    } catch (e: any) {
+      alert('Не удалось завершить перевод: ' + (e?.message || 'Unknown error'));
+    }
+  };
+
+  const handleCancelTransfer = () => {
+    cancelAttendedTransfer().catch((e) => console.warn('Cancel transfer failed:', e));
+  };
+
+  const handleAddParticipant = async (contact: CallContact) => {
+    setShowAddParticipant(false);
+    try {
+      await addConferenceParticipant(contact.loyaltyId, contact.name);
+    } catch (e: any) {
+      alert('Не удалось добавить участника: ' + (e?.message || 'Unknown error'));
+    }
+  };
+
+  const getParticipantName = (participant: ConferenceParticipant) => {
+    if (participant.isSelf) {
+      return 'Вы';
+    }
+    return contacts.find((c) => c.loyaltyId === participant.loyaltyId)?.name || participant.name;
+  };
+
+  const handleWaitingCall = async (action: 'reject' | 'hold' | 'end') => {
+    const waiting = callInfo.waitingCall;
+    if (!waiting) return;
+    try {
+      if (action === 'reject') {
+        await rejectCall(waiting.callUUID);
+      } else {
+        await answerWaitingCall(waiting.callUUID, action);
+      }
+    } catch (e: any) {
+      alert('Не удалось ответить на вызов: ' + (e?.message || 'Unknown error'));
+    }
+  };
+
+  const handleSwapCall = () => {
+    if (callInfo.heldCall) {
+      swapToCall(callInfo.heldCall.callUUID).catch((e) => console.warn('Swap call failed:', e));
+    }
+  };
+
+  const handleRemoteScreenFullscreen = () => {
+    remoteScreenRef.current?.requestFullscreen?.().catch(() => {});
   };
 
   const handleEndCall = () => {
@@ -120,9 +380,22 @@ export default function CallModal({ visible, onClose }: CallModalProps) {
   const isRinging = effectiveState === 'ringing';
   const isCalling = effectiveState === 'calling';
   const isAnswered = effectiveState === 'answered';
+  const isHeld = effectiveState === 'held';
+  const isInCall = isAnswered || isHeld;
   const callerInitial = ((callInfo.callerName || 'Неизвестный') as string)
     .charAt(0)
     .toUpperCase();
+  const isVideoLayout = showVideo && (isInCall || isCalling);
+  const transfer = callInfo.transfer;
+  const isConsulting = transfer?.role === 'transferor' && transfer.status === 'consulting';
+  const transferInProgress = !!transfer && ['consulting', 'requested', 'accepted'].includes(transfer.status);
+  const conference = callInfo.conference;
+  const canTransfer = isInCall && !conference && !transferInProgress && callInfo.heldBy !== 'remote' && contacts.length > 0;
+  const addableContacts = contacts.filter(
+    (c) => !conference?.participants.some((p) => p.loyaltyId === c.loyaltyId)
+  );
+  const canAddParticipant = isAnswered && !transferInProgress && addableContacts.length > 0 &&
+    (conference?.participants.length ?? 2) < MAX_CONFERENCE_PARTICIPANTS;
 
   return (
     <div
@@ -194,55 +467,191 @@ export default function CallModal({ visible, onClose }: CallModalProps) {
           ─
         </button>
 
-        {/* Avatar with animation */}
-        <div style={{ position: 'relative' }}>
-          {/* Pulsing ring animation for incoming calls */}
-          {isRinging && (
+        {/* Call waiting: a second call rings while we talk */}
+        {callInfo.waitingCall && (isInCall || isCalling) && (
+          <div
+            style={{
+              width: '100%',
+              padding: '14px 16px',
+              borderRadius: 20,
+              backgroundColor: 'rgba(34,197,94,0.12)',
+              border: '1px solid rgba(34,197,94,0.45)',
+              display: 'flex',
+              flexDirection: 'column',
+              gap: 10,
+            }}
+          >
+            <div style={{ fontSize: 14, fontWeight: 600, color: '#bbf7d0' }}>
+              📞 Второй вызов: {callInfo.waitingCall.callerName || 'Неизвестный'}
+            </div>
+            <div style={{ display: 'flex', flexWrap: 'wrap', gap: 8 }}>
+              <button type="button" onClick={() => handleWaitingCall('reject')} style={pillButtonStyle('239,68,68', '#fca5a5')}>
+                Отклонить
+              </button>
+              {!conference && (
+                <button type="button" onClick={() => handleWaitingCall('hold')} style={pillButtonStyle('251,191,36', '#fde68a')}>
+                  Удержать и ответить
+                </button>
+              )}
+              <button type="button" onClick={() => handleWaitingCall('end')} style={pillButtonStyle('34,197,94', '#bbf7d0')}>
+                Завершить и ответить
+              </button>
+            </div>
+          </div>
+        )}
+
+        {/* Remote screen share viewer */}
+        {isAnswered && callInfo.hasRemoteScreen && (
+          <div style={{ width: '100%' }}>
             <div
               style={{
-                position: 'absolute',
-                inset: -20,
-                borderRadius: '50%',
-                border: '2px solid rgba(34,197,94,0.4)',
-                animation: 'pulse 2s cubic-bezier(0.4, 0, 0.6, 1) infinite',
+                fontSize: 12,
+                color: '#9ca3af',
+                marginBottom: 8,
+                fontWeight: 600,
+                textTransform: 'uppercase',
+                letterSpacing: 1.2,
+              }}
+            >
+              🖥️ Экран собеседника
+            </div>
+            <video
+              ref={remoteScreenRef}
+              autoPlay
+              playsInline
+              muted
+              onClick={handleRemoteScreenFullscreen}
+              title="Открыть на весь экран"
+              style={{
+                width: '100%',
+                aspectRatio: '16 / 9',
+                objectFit: 'contain',
+                borderRadius: 16,
+                backgroundColor: '#000000',
+                border: '1px solid rgba(55,65,81,0.8)',
+                cursor: 'zoom-in',
               }}
             />
-          )}
+          </div>
+        )}
+
+        {/* Video tiles: remote full size, local picture-in-picture */}
+        {isVideoLayout && (
           <div
             style={{
-              width: 120,
-              height: 120,
-              borderRadius: '50%',
-              background: isRinging
-                ? 'conic-gradient(from 180deg, #22c55e, #16a34a, #15803d, #22c55e)'
-                : isAnswered
-                ? 'conic-gradient(from 180deg, #FE732E, #f97316, #ea580c, #FE732E)'
-                : 'conic-gradient(from 180deg, #FE732E, #f97316, #facc15, #22c55e, #0ea5e9, #4f46e5, #FE732E)',
-              padding: 4,
-              boxShadow: isRinging
-                ? '0 0 40px rgba(34,197,94,0.5)'
-                : '0 0 30px rgba(248,113,22,0.4)',
+              position: 'relative',
+              width: '100%',
+              aspectRatio: '4 / 3',
+              borderRadius: 24,
+              overflow: 'hidden',
+              backgroundColor: '#020617',
+              border: '1px solid rgba(55,65,81,0.8)',
             }}
           >
-            <div
+            {/* Remote audio plays separately, so the video element stays muted */}
+            <video
+              ref={remoteVideoRef}
+              autoPlay
+              playsInline
+              muted
               style={{
                 width: '100%',
                 height: '100%',
+                objectFit: 'cover',
+                display: callInfo.hasRemoteVideo ? 'block' : 'none',
+              }}
+            />
+            {!callInfo.hasRemoteVideo && (
+              <div
+                style={{
+                  position: 'absolute',
+                  inset: 0,
+                  display: 'flex',
+                  alignItems: 'center',
+                  justifyContent: 'center',
+                  fontSize: 64,
+                  fontWeight: 700,
+                  color: '#4b5563',
+                }}
+              >
+                {callerInitial}
+              </div>
+            )}
+            {callInfo.isVideoEnabled && (
+              <video
+                ref={localVideoRef}
+                autoPlay
+                playsInline
+                muted
+                style={{
+                  position: 'absolute',
+                  right: 12,
+                  bottom: 12,
+                  width: '30%',
+                  aspectRatio: '3 / 4',
+                  objectFit: 'cover',
+                  borderRadius: 14,
+                  border: '2px solid rgba(55,65,81,0.9)',
+                  backgroundColor: '#0f172a',
+                  // Mirror the front camera like a selfie preview
+                  transform: callInfo.cameraFacing === 'user' ? 'scaleX(-1)' : 'none',
+                }}
+              />
+            )}
+          </div>
+        )}
+
+        {/* Avatar with animation */}
+        {!isVideoLayout && (
+          <div style={{ position: 'relative' }}>
+            {/* Pulsing ring animation for incoming calls */}
+            {isRinging && (
+              <div
+                style={{
+                  position: 'absolute',
+                  inset: -20,
+                  borderRadius: '50%',
+                  border: '2px solid rgba(34,197,94,0.4)',
+                  animation: 'pulse 2s cubic-bezier(0.4, 0, 0.6, 1) infinite',
+                }}
+              />
+            )}
+            <div
+              style={{
+                width: 120,
+                height: 120,
                 borderRadius: '50%',
-                backgroundColor: '#020617',
-                display: 'flex',
-                alignItems: 'center',
-                justifyContent: 'center',
-                fontSize: 48,
-                fontWeight: 700,
-                color: '#e5e7eb',
-                border: '2px solid rgba(55,65,81,0.6)',
+                background: isRinging
+                  ? 'conic-gradient(from 180deg, #22c55e, #16a34a, #15803d, #22c55e)'
+                  : isAnswered
+                  ? 'conic-gradient(from 180deg, #FE732E, #f97316, #ea580c, #FE732E)'
+                  : 'conic-gradient(from 180deg, #FE732E, #f97316, #facc15, #22c55e, #0ea5e9, #4f46e5, #FE732E)',
+                padding: 4,
+                boxShadow: isRinging
+                  ? '0 0 40px rgba(34,197,94,0.5)'
+                  : '0 0 30px rgba(248,113,22,0.4)',
               }}
             >
-              {callerInitial}
+              <div
+                style={{
+                  width: '100%',
+                  height: '100%',
+                  borderRadius: '50%',
+                  backgroundColor: '#020617',
+                  display: 'flex',
+                  alignItems: 'center',
+                  justifyContent: 'center',
+                  fontSize: 48,
+                  fontWeight: 700,
+                  color: '#e5e7eb',
+                  border: '2px solid rgba(55,65,81,0.6)',
+                }}
+              >
+                {callerInitial}
+              </div>
             </div>
           </div>
-        </div>
+        )}
 
         {/* Caller Info */}
         <div style={{ textAlign: 'center', width: '100%' }}>
@@ -267,7 +676,7 @@ export default function CallModal({ visible, onClose }: CallModalProps) {
               letterSpacing: 0.5,
             }}
           >
-            {callInfo.callerName || 'Неизвестный'}
+            {conference ? `Конференция · ${conference.participants.length}` : callInfo.callerName || 'Неизвестный'}
           </div>
           <div
             style={{
@@ -297,8 +706,394 @@ export default function CallModal({ visible, onClose }: CallModalProps) {
           >
             {getStateText()}
           </div>
+          {/* Who is talking right now; in a conference, per participant in the roster */}
+          {isInCall && callInfo.speaking && !conference && (
+            <div style={{ display: 'flex', justifyContent: 'center', gap: 8, marginTop: 10 }}>
+              <SpeakingBadge label="Вы" speaking={callInfo.speaking.local} />
+              <SpeakingBadge label={callInfo.callerName || 'Собеседник'} speaking={callInfo.speaking.remote} />
+            </div>
+          )}
         </div>
 
+        {/* Media connection dropped; ICE restarts in progress */}
+        {callInfo.reconnectingSince && (
+          <div
+            style={{
+              fontSize: 13,
+              padding: '8px 16px',
+              borderRadius: 999,
+              backgroundColor: 'rgba(248,113,22,0.15)',
+              border: '1px solid rgba(248,113,22,0.5)',
+              color: '#fed7aa',
+              fontWeight: 600,
+              display: 'flex',
+              alignItems: 'center',
+              gap: 8,
+            }}
+          >
+            <span
+              style={{
+                width: 8,
+                height: 8,
+                borderRadius: '50%',
+                backgroundColor: '#f97316',
+                animation: 'pulse 2s cubic-bezier(0.4, 0, 0.6, 1) infinite',
+              }}
+            />
+            Связь потеряна, переподключаемся… {Math.floor((Date.now() - callInfo.reconnectingSince) / 1000)} с
+          </div>
+        )}
+
+        {/* Our recording: indicator, timer, pause/stop */}
+        {callInfo.recording && (
+          <div style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+            <div
+              style={{
+                display: 'flex',
+                alignItems: 'center',
+                gap: 8,
+                padding: '6px 12px',
+                borderRadius: 999,
+                border: '1px solid rgba(239,68,68,0.5)',
+                backgroundColor: 'rgba(239,68,68,0.15)',
+                color: '#fca5a5',
+                fontSize: 12,
+                fontWeight: 700,
+              }}
+            >
+              <span
+                style={{
+                  width: 8,
+                  height: 8,
+                  borderRadius: '50%',
+                  backgroundColor: callInfo.recording.status === 'recording' ? '#ef4444' : '#6b7280',
+                  animation: callInfo.recording.status === 'recording' ? 'pulse 2s cubic-bezier(0.4, 0, 0.6, 1) infinite' : undefined,
+                }}
+              />
+              {callInfo.recording.status === 'recording' ? 'Запись' : 'Запись на паузе'}
+              <span style={{ fontFamily: 'SF Mono, ui-monospace, Menlo, Monaco, Consolas' }}>
+                {formatCallTime(Math.floor(callInfo.recording.elapsedMs / 1000))}
+              </span>
+              {callInfo.recording.lostChunks > 0 && (
+                <span title={`Не удалось сохранить ${callInfo.recording.lostChunks} с записи`}>⚠️</span>
+              )}
+            </div>
+            <button
+              type="button"
+              onClick={callInfo.recording.status === 'recording' ? pauseRecording : resumeRecording}
+              title={callInfo.recording.status === 'recording' ? 'Приостановить запись' : 'Продолжить запись'}
+              style={pillButtonStyle('251,191,36', '#fde68a')}
+            >
+              {callInfo.recording.status === 'recording' ? '⏸' : '▶'}
+            </button>
+            <button type="button" onClick={stopRecording} title="Остановить запись" style={pillButtonStyle('239,68,68', '#fca5a5')}>
+              ⏹
+            </button>
+          </div>
+        )}
+
+        {/* Consent before we start recording */}
+        {showRecordingConsent && !callInfo.recording && isInCall && (
+          <div
+            style={{
+              width: '100%',
+              display: 'flex',
+              flexDirection: 'column',
+              alignItems: 'center',
+              gap: 10,
+              padding: '12px 16px',
+              borderRadius: 16,
+              border: '1px solid rgba(239,68,68,0.4)',
+              backgroundColor: 'rgba(239,68,68,0.08)',
+              fontSize: 13,
+              color: '#fecaca',
+              textAlign: 'center',
+            }}
+          >
+            Разговор будет записан для контроля качества. Собеседник получит уведомление о записи.
+            <div style={{ display: 'flex', gap: 8 }}>
+              <button type="button" onClick={handleStartRecording} style={pillButtonStyle('239,68,68', '#fca5a5')}>
+                ⏺ Начать запись
+              </button>
+              <button type="button" onClick={() => setShowRecordingConsent(false)} style={pillButtonStyle('107,114,128', '#e5e7eb')}>
+                Отмена
+              </button>
+            </div>
+          </div>
+        )}
+
+        {/* The peer records the call */}
+        {callInfo.remoteRecording && (
+          <div
+            style={{
+              fontSize: 12,
+              padding: '6px 12px',
+              borderRadius: 12,
+              backgroundColor: 'rgba(239,68,68,0.12)',
+              border: '1px solid rgba(239,68,68,0.4)',
+              color: '#fca5a5',
+              textAlign: 'center',
+            }}
+          >
+            {callInfo.remoteRecording === 'recording' ? '🔴 Собеседник записывает разговор' : '⏸ Собеседник приостановил запись'}
+          </div>
+        )}
+
+        {/* Live captions, newest at the bottom */}
+        {callInfo.captionsEnabled && isInCall && (
+          <div
+            style={{
+              display: 'flex',
+              flexDirection: 'column',
+              gap: 6,
+              padding: '10px 14px',
+              borderRadius: 16,
+              backgroundColor: 'rgba(2,6,23,0.7)',
+              border: '1px solid rgba(55,65,81,0.6)',
+              fontSize: 13,
+              lineHeight: 1.4,
+            }}
+          >
+            {callInfo.transcript.length === 0 ? (
+              <div style={{ color: '#6b7280', textAlign: 'center' }}>💬 Субтитры появятся, когда кто-то заговорит</div>
+            ) : (
+              callInfo.transcript.slice(-CAPTION_LINES).map((segment) => <CaptionLine key={segment.id} segment={segment} />)
+            )}
+          </div>
+        )}
+
+        {/* Ringtone / ringback volume */}
+        {(isRinging || isCalling) && (
+          <label
+            title="Громкость сигналов вызова"
+            style={{ display: 'flex', alignItems: 'center', gap: 10, fontSize: 13, color: '#9ca3af' }}
+          >
+            {soundsVolume === 0 ? '🔕' : '🔔'}
+            <input
+              type="range"
+              min={0}
+              max={1}
+              step={0.05}
+              value={soundsVolume}
+              onChange={(e) => {
+                const volume = parseFloat(e.target.value);
+                setSoundsVolume(volume);
+                setCallSoundsVolume(volume);
+              }}
+              style={{ width: 140, accentColor: '#FE732E' }}
+            />
+          </label>
+        )}
+
+        {/* Call quality: signal bars, expandable details and degradation warnings */}
+        {isInCall && stats && (
+          <div style={{ width: '100%', display: 'flex', flexDirection: 'column', alignItems: 'center', gap: 8 }}>
+            <button
+              type="button"
+              onClick={() => setShowStats(!showStats)}
+              title="Качество связи"
+              style={{
+                ...pillButtonStyle(QUALITY_RGB[stats.quality], QUALITY_COLOR[stats.quality]),
+                display: 'flex',
+                alignItems: 'center',
+                gap: 8,
+              }}
+            >
+              <SignalBars quality={stats.quality} />
+              {QUALITY_TEXT[stats.quality]}
+              {stats.mos !== null && ` · MOS ${stats.mos.toFixed(1)}`}
+              <span style={{ opacity: 0.7 }}>{showStats ? '▲' : '▼'}</span>
+            </button>
+
+            {stats.warnings.length > 0 && !callInfo.reconnectingSince && (
+              <div
+                style={{
+                  fontSize: 12,
+                  padding: '6px 12px',
+                  borderRadius: 12,
+                  backgroundColor: 'rgba(248,113,22,0.12)',
+                  border: '1px solid rgba(248,113,22,0.4)',
+                  color: '#fed7aa',
+                  textAlign: 'center',
+                }}
+              >
+                ⚠️ {stats.warnings.map((w) => WARNING_TEXT[w]).join(', ')}
+              </div>
+            )}
+
+            {showStats && (
+              <div
+                style={{
+                  width: '100%',
+                  display: 'grid',
+                  gridTemplateColumns: '1fr auto',
+                  gap: '6px 16px',
+                  padding: '12px 16px',
+                  borderRadius: 16,
+                  border: '1px solid rgba(55,65,81,0.8)',
+                  backgroundColor: 'rgba(2,6,23,0.9)',
+                  fontSize: 12,
+                  color: '#9ca3af',
+                }}
+              >
+                {getStatsRows(stats).map(([label, value]) => (
+                  <StatsRow key={label} label={label} value={value} />
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Hold timer */}
+        {isHeld && (
+          <div
+            style={{
+              fontSize: 13,
+              padding: '8px 16px',
+              borderRadius: 999,
+              backgroundColor: 'rgba(251,191,36,0.12)',
+              border: '1px solid rgba(251,191,36,0.4)',
+              color: '#fde68a',
+              fontWeight: 600,
+              fontFamily: 'SF Mono, ui-monospace, Menlo, Monaco, Consolas',
+            }}
+          >
+            ⏸ {formatCallTime(holdSeconds)}
+          </div>
+        )}
+
+        {/* Conference roster */}
+        {conference && (
+          <div
+            style={{
+              width: '100%',
+              borderRadius: 16,
+              border: '1px solid rgba(55,65,81,0.8)',
+              backgroundColor: 'rgba(2,6,23,0.9)',
+            }}
+          >
+            {conference.participants.map((participant) => (
+              <div
+                key={participant.loyaltyId}
+                style={{
+                  display: 'flex',
+                  alignItems: 'center',
+                  gap: 10,
+                  padding: '10px 14px',
+                  borderBottom: '1px solid rgba(31,41,55,0.8)',
+                }}
+              >
+                <span
+                  title={participant.connected ? 'Подключен' : 'Подключение...'}
+                  style={{
+                    width: 8,
+                    height: 8,
+                    borderRadius: '50%',
+                    backgroundColor: participant.connected ? '#22c55e' : '#f97316',
+                  }}
+                />
+                <span style={{ flex: 1, fontSize: 14, color: '#e5e7eb', overflow: 'hidden', textOverflow: 'ellipsis' }}>
+                  {getParticipantName(participant)}
+                  {participant.isMuted && <span title="Микрофон выключен"> 🔇</span>}
+                </span>
+                {participant.connected && participant.speaking !== null && (
+                  <SpeakingBadge label={participant.speaking ? 'Говорит' : 'Молчит'} speaking={participant.speaking} />
+                )}
+                {!participant.isSelf && (
+                  <>
+                    <button
+                      type="button"
+                      onClick={() => setConferenceParticipantMuted(participant.loyaltyId, !participant.isMutedByMe)}
+                      title={participant.isMutedByMe ? 'Слушать участника' : 'Не слушать участника'}
+                      style={pillButtonStyle(participant.isMutedByMe ? '239,68,68' : '55,65,81', participant.isMutedByMe ? '#fca5a5' : '#e5e7eb')}
+                    >
+                      {participant.isMutedByMe ? '🔈 Включить' : '🔇 Заглушить'}
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => removeConferenceParticipant(participant.loyaltyId)}
+                      title="Удалить из конференции"
+                      style={pillButtonStyle('239,68,68', '#fca5a5')}
+                    >
+                      ✕
+                    </button>
+                  </>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {/* Transfer progress */}
+        {transfer && (transferInProgress || Date.now() - transfer.updatedAt < 5000) && (
+          <div
+            style={{
+              fontSize: 13,
+              padding: '8px 16px',
+              borderRadius: 999,
+              backgroundColor: transfer.status === 'failed' ? 'rgba(239,68,68,0.15)' : 'rgba(56,189,248,0.12)',
+              border: `1px solid ${transfer.status === 'failed' ? 'rgba(239,68,68,0.5)' : 'rgba(56,189,248,0.4)'}`,
+              color: transfer.status === 'failed' ? '#fca5a5' : '#bae6fd',
+              fontWeight: 600,
+              textAlign: 'center',
+            }}
+          >
+            🔀 {getTransferText(transfer)}
+          </div>
+        )}
+
+        {/* Attended transfer: talking to the new agent, customer on hold */}
+        {isConsulting && (
+          <div style={{ display: 'flex', gap: 12 }}>
+            <button type="button" onClick={handleCompleteTransfer} style={pillButtonStyle('34,197,94', '#bbf7d0')}>
+              Завершить перевод
+            </button>
+            <button type="button" onClick={handleCancelTransfer} style={pillButtonStyle('239,68,68', '#fca5a5')}>
+              Отменить перевод
+            </button>
+          </div>
+        )}
+
+        {/* Another call waiting on hold */}
+        {callInfo.heldCall && (
+          <button type="button" onClick={handleSwapCall} style={pillButtonStyle('251,191,36', '#fde68a')}>
+            ⏸ {callInfo.heldCall.callerName || 'Неизвестный'} на удержании · Переключиться
+          </button>
+        )}
+
+        {/* Screen sharing indicator */}
+        {callInfo.isScreenSharing && (
+          <button
+            type="button"
+            onClick={handleScreenShare}
+            title="Остановить показ экрана"
+            style={{
+              fontSize: 13,
+              padding: '8px 16px',
+              borderRadius: 999,
+              backgroundColor: 'rgba(239,68,68,0.15)',
+              border: '1px solid rgba(239,68,68,0.5)',
+              color: '#fca5a5',
+              fontWeight: 600,
+              cursor: 'pointer',
+              display: 'flex',
+              alignItems: 'center',
+              gap: 8,
+            }}
+          >
+            <span
+              style={{
+                width: 8,
+                height: 8,
+                borderRadius: '50%',
+                backgroundColor: '#ef4444',
+                animation: 'pulse 2s cubic-bezier(0.4, 0, 0.6, 1) infinite',
+              }}
+            />
+            Вы показываете экран · Остановить
+          </button>
+        )}
+
         {/* Timer */}
         {isActive && (
           <div
@@ -315,102 +1110,263 @@ export default function CallModal({ visible, onClose }: CallModalProps) {
           </div>
         )}
 
-        {/* Secondary Controls (Mute/Speaker) */}
-        {(isAnswered || isCalling) && (
+        {/* Secondary Controls (Mute/Speaker/Camera) */}
+        {(isInCall || isCalling) && (
           <div
             style={{
               display: 'flex',
               justifyContent: 'center',
+              flexWrap: 'wrap',
               gap: 20,
               width: '100%',
             }}
           >
-            <button
+            <ControlButton
+              active={callInfo.isMuted}
+              activeRgb="239,68,68"
+              activeColor="#fca5a5"
               onClick={handleMute}
-              style={{
-                width: 64,
-                height: 64,
-                borderRadius: '50%',
-                backgroundColor: callInfo.isMuted
-                  ? 'rgba(239,68,68,0.2)'
-                  : 'rgba(31,41,55,0.95)',
-                border: `2px solid ${
-                  callInfo.isMuted
-                    ? 'rgba(239,68,68,0.6)'
-                    : 'rgba(55,65,81,0.9)'
-                }`,
-                color: callInfo.isMuted ? '#fca5a5' : '#e5e7eb',
-                fontSize: 26,
-                cursor: 'pointer',
-                display: 'flex',
-                alignItems: 'center',
-                justifyContent: 'center',
-                transition: 'all 0.2s',
-                boxShadow: callInfo.isMuted
-                  ? '0 8px 20px rgba(239,68,68,0.3)'
-                  : '0 4px 12px rgba(0,0,0,0.3)',
-              }}
-              onMouseEnter={(e) => {
-                e.currentTarget.style.transform = 'scale(1.1)';
-                e.currentTarget.style.boxShadow = callInfo.isMuted
-                  ? '0 12px 28px rgba(239,68,68,0.4)'
-                  : '0 8px 20px rgba(0,0,0,0.4)';
-              }}
-              onMouseLeave={(e) => {
-                e.currentTarget.style.transform = 'scale(1)';
-                e.currentTarget.style.boxShadow = callInfo.isMuted
-                  ? '0 8px 20px rgba(239,68,68,0.3)'
-                  : '0 4px 12px rgba(0,0,0,0.3)';
-              }}
               title={callInfo.isMuted ? 'Включить микрофон' : 'Выключить микрофон'}
             >
               {callInfo.isMuted ? '🔇' : '🎤'}
-            </button>
+            </ControlButton>
 
-            <button
-              onClick={handleSpeaker}
+            <ControlButton
+              active={showDevices}
+              activeRgb="56,189,248"
+              activeColor="#93c5fd"
+              onClick={() => setShowDevices(!showDevices)}
+              title="Микрофон и динамик"
+            >
+              🎧
+            </ControlButton>
+
+            {isInCall && callInfo.heldBy !== 'remote' && (
+              <ControlButton
+                active={isHeld}
+                activeRgb="251,191,36"
+                activeColor="#fde68a"
+                onClick={handleHold}
+                title={isHeld ? 'Снять с удержания' : 'Поставить на удержание'}
+              >
+                {isHeld ? '▶️' : '⏸️'}
+              </ControlButton>
+            )}
+
+            {isInCall && canRecord && (
+              <ControlButton
+                active={!!callInfo.recording || showRecordingConsent}
+                activeRgb="239,68,68"
+                activeColor="#fca5a5"
+                onClick={handleRecordButton}
+                title={callInfo.recording ? 'Остановить запись' : 'Записать разговор'}
+              >
+                {callInfo.recording ? '⏹️' : '⏺️'}
+              </ControlButton>
+            )}
+
+            {isInCall && canCaption && (
+              <ControlButton
+                active={callInfo.captionsEnabled}
+                activeRgb="56,189,248"
+                activeColor="#93c5fd"
+                onClick={handleCaptions}
+                title={callInfo.captionsEnabled ? 'Выключить субтитры' : 'Субтитры'}
+              >
+                💬
+              </ControlButton>
+            )}
+
+            {isAnswered && (
+              <ControlButton
+                active={showKeypad}
+                activeRgb="56,189,248"
+                activeColor="#93c5fd"
+                onClick={() => setShowKeypad(!showKeypad)}
+                title="Тоновый набор"
+              >
+                🔢
+              </ControlButton>
+            )}
+
+            {!isHeld && (
+              <ControlButton
+                active={callInfo.isVideoEnabled}
+                activeRgb="34,197,94"
+                activeColor="#bbf7d0"
+                onClick={handleCamera}
+                title={callInfo.isVideoEnabled ? 'Выключить камеру' : 'Включить камеру'}
+              >
+                📹
+              </ControlButton>
+            )}
+
+            {callInfo.isVideoEnabled && !isHeld && (
+              <ControlButton
+                active={false}
+                activeRgb="34,197,94"
+                activeColor="#bbf7d0"
+                onClick={handleSwitchCamera}
+                title={callInfo.cameraFacing === 'user' ? 'Основная камера' : 'Фронтальная камера'}
+              >
+                🔄
+              </ControlButton>
+            )}
+
+            {isAnswered && canShareScreen && (
+              <ControlButton
+                active={callInfo.isScreenSharing}
+                activeRgb="239,68,68"
+                activeColor="#fca5a5"
+                onClick={handleScreenShare}
+                title={callInfo.isScreenSharing ? 'Остановить показ экрана' : 'Показать экран'}
+              >
+                🖥️
+              </ControlButton>
+            )}
+
+            {canAddParticipant && (
+              <ControlButton
+                active={showAddParticipant}
+                activeRgb="34,197,94"
+                activeColor="#bbf7d0"
+                onClick={() => setShowAddParticipant(!showAddParticipant)}
+                title="Добавить участника"
+              >
+                ➕
+              </ControlButton>
+            )}
+
+            {canTransfer && (
+              <ControlButton
+                active={showTransfer}
+                activeRgb="56,189,248"
+                activeColor="#93c5fd"
+                onClick={() => setShowTransfer(!showTransfer)}
+                title="Перевести звонок"
+              >
+                🔀
+              </ControlButton>
+            )}
+          </div>
+        )}
+
+        {/* Microphone / speaker picker and microphone processing */}
+        {showDevices && (isInCall || isCalling) && (
+          <div
+            style={{
+              width: '100%',
+              padding: '12px 16px',
+              borderRadius: 16,
+              border: '1px solid rgba(55,65,81,0.8)',
+              backgroundColor: 'rgba(2,6,23,0.9)',
+              display: 'flex',
+              flexDirection: 'column',
+              gap: 12,
+            }}
+          >
+            <AudioDevicePicker />
+            <AudioProcessingPicker compact />
+          </div>
+        )}
+
+        {/* DTMF keypad */}
+        {showKeypad && isAnswered && (
+          <div
+            style={{
+              width: '100%',
+              display: 'flex',
+              flexDirection: 'column',
+              alignItems: 'center',
+              gap: 12,
+              padding: '12px 16px',
+              borderRadius: 16,
+              border: '1px solid rgba(55,65,81,0.8)',
+              backgroundColor: 'rgba(2,6,23,0.9)',
+            }}
+          >
+            <div
+              title="Отправленные цифры"
               style={{
-                width: 64,
-                height: 64,
-                borderRadius: '50%',
-                backgroundColor: callInfo.isSpeakerEnabled
-                  ? 'rgba(56,189,248,0.2)'
-                  : 'rgba(31,41,55,0.95)',
-                border: `2px solid ${
-                  callInfo.isSpeakerEnabled
-                    ? 'rgba(56,189,248,0.6)'
-                    : 'rgba(55,65,81,0.9)'
-                }`,
-                color: callInfo.isSpeakerEnabled ? '#93c5fd' : '#e5e7eb',
-                fontSize: 26,
-                cursor: 'pointer',
-                display: 'flex',
-                alignItems: 'center',
-                justifyContent: 'center',
-                transition: 'all 0.2s',
-                boxShadow: callInfo.isSpeakerEnabled
-                  ? '0 8px 20px rgba(56,189,248,0.3)'
-                  : '0 4px 12px rgba(0,0,0,0.3)',
+                minHeight: 24,
+                fontFamily: 'SF Mono, ui-monospace, Menlo, Monaco, Consolas',
+                fontSize: 18,
+                letterSpacing: 2,
+                color: '#f9fafb',
+                maxWidth: '100%',
+                overflow: 'hidden',
+                textOverflow: 'ellipsis',
+                direction: 'rtl',
               }}
-              onMouseEnter={(e) => {
-                e.currentTarget.style.transform = 'scale(1.1)';
-                e.currentTarget.style.boxShadow = callInfo.isSpeakerEnabled
-                  ? '0 12px 28px rgba(56,189,248,0.4)'
-                  : '0 8px 20px rgba(0,0,0,0.4)';
-              }}
-              onMouseLeave={(e) => {
-                e.currentTarget.style.transform = 'scale(1)';
-                e.currentTarget.style.boxShadow = callInfo.isSpeakerEnabled
-                  ? '0 8px 20px rgba(56,189,248,0.3)'
-                  : '0 4px 12px rgba(0,0,0,0.3)';
-              }}
-              title={callInfo.isSpeakerEnabled ? 'Выключить динамик' : 'Включить динамик'}
             >
-              🔊
-            </button>
+              {callInfo.dtmfDigits}
+            </div>
+            <div style={{ display: 'grid', gridTemplateColumns: 'repeat(3, 56px)', gap: 10 }}>
+              {KEYPAD_LAYOUT.map((key) => (
+                <button
+                  key={key}
+                  type="button"
+                  onClick={() => pressKeypadKey(key)}
+                  style={{
+                    width: 56,
+                    height: 56,
+                    borderRadius: '50%',
+                    border: '1px solid rgba(55,65,81,0.9)',
+                    backgroundColor: 'rgba(31,41,55,0.8)',
+                    color: '#f9fafb',
+                    fontSize: 20,
+                    fontWeight: 600,
+                    cursor: 'pointer',
+                  }}
+                >
+                  {key}
+                </button>
+              ))}
+            </div>
           </div>
         )}
 
+        {/* Conference: pick someone to add */}
+        {showAddParticipant && canAddParticipant && (
+          <ContactPicker contacts={addableContacts}>
+            {(contact) => (
+              <button
+                type="button"
+                onClick={() => handleAddParticipant(contact)}
+                style={pillButtonStyle('34,197,94', '#bbf7d0')}
+              >
+                Добавить
+              </button>
+            )}
+          </ContactPicker>
+        )}
+
+        {/* Transfer target picker */}
+        {showTransfer && canTransfer && (
+          <ContactPicker contacts={contacts}>
+            {(target) => (
+              <>
+                <button
+                  type="button"
+                  onClick={() => handleTransfer(target, 'blind')}
+                  title="Перевести без консультации"
+                  style={pillButtonStyle('56,189,248', '#bae6fd')}
+                >
+                  Перевести
+                </button>
+                <button
+                  type="button"
+                  onClick={() => handleTransfer(target, 'attended')}
+                  title="Сначала поговорить с сотрудником"
+                  style={pillButtonStyle('251,191,36', '#fde68a')}
+                >
+                  С консультацией
+                </button>
+              </>
+            )}
+          </ContactPicker>
+        )}
+
         {/* Main Action Buttons */}
         <div
           style={{
@@ -418,7 +1374,7 @@ export default function CallModal({ visible, onClose }: CallModalProps) {
             justifyContent: 'center',
             gap: 24,
             width: '100%',
-            marginTop: isAnswered || isCalling ? 8 : 0,
+            marginTop: isInCall || isCalling ? 8 : 0,
           }}
         >
           {/* Incoming Call: Reject & Answer */}
@@ -490,7 +1446,7 @@ export default function CallModal({ visible, onClose }: CallModalProps) {
           )}
 
           {/* Active Call: End Call */}
-          {(isAnswered || isCalling) && (
+          {(isInCall || isCalling) && (
             <button
               onClick={handleEndCall}
               style={{
@@ -529,3 +1485,280 @@ export default function CallModal({ visible, onClose }: CallModalProps) {
     </div>
   );
 }
+
+function SpeakingBadge({ label, speaking }: { label: string; speaking: boolean }) {
+  return (
+    <span
+      title={speaking ? 'Говорит' : 'Молчит'}
+      style={{
+        display: 'inline-flex',
+        alignItems: 'center',
+        gap: 6,
+        maxWidth: 160,
+        padding: '3px 10px',
+        borderRadius: 999,
+        fontSize: 12,
+        fontWeight: 600,
+        color: speaking ? '#bbf7d0' : '#6b7280',
+        backgroundColor: speaking ? 'rgba(34,197,94,0.15)' : 'rgba(31,41,55,0.6)',
+        border: `1px solid ${speaking ? 'rgba(34,197,94,0.4)' : 'rgba(55,65,81,0.6)'}`,
+        transition: 'all 0.15s ease',
+      }}
+    >
+      <span
+        style={{
+          width: 7,
+          height: 7,
+          flexShrink: 0,
+          borderRadius: '50%',
+          backgroundColor: speaking ? '#22c55e' : '#4b5563',
+        }}
+      />
+      <span style={{ overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>{label}</span>
+    </span>
+  );
+}
+
+// Captions shown at once; the full transcript is kept in the call history
+const CAPTION_LINES = 6;
+
+function CaptionLine({ segment }: { segment: TranscriptSegment }) {
+  const isLocal = segment.speaker === 'local';
+  return (
+    <div style={{ color: segment.final ? '#e5e7eb' : '#9ca3af', fontStyle: segment.final ? 'normal' : 'italic' }}>
+      <span style={{ fontWeight: 700, color: isLocal ? '#FE732E' : '#93c5fd' }}>{isLocal ? 'Вы' : 'Собеседник'}: </span>
+      {segment.text}
+    </div>
+  );
+}
+
+interface ControlButtonProps {
+  active: boolean;
+  // "r,g,b" of the highlight used while active
+  activeRgb: string;
+  activeColor: string;
+  onClick: () => void;
+  title: string;
+  children: ReactNode;
+}
+
+// Round secondary call control (mute, speaker, camera, ...)
+function ControlButton({ active, activeRgb, activeColor, onClick, title, children }: ControlButtonProps) {
+  const shadow = active ? `0 8px 20px rgba(${activeRgb},0.3)` : '0 4px 12px rgba(0,0,0,0.3)';
+  const hoverShadow = active ? `0 12px 28px rgba(${activeRgb},0.4)` : '0 8px 20px rgba(0,0,0,0.4)';
+
+  return (
+    <button
+      onClick={onClick}
+      style={{
+        width: 64,
+        height: 64,
+        borderRadius: '50%',
+        backgroundColor: active ? `rgba(${activeRgb},0.2)` : 'rgba(31,41,55,0.95)',
+        border: `2px solid ${active ? `rgba(${activeRgb},0.6)` : 'rgba(55,65,81,0.9)'}`,
+        color: active ? activeColor : '#e5e7eb',
+        fontSize: 26,
+        cursor: 'pointer',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        transition: 'all 0.2s',
+        boxShadow: shadow,
+      }}
+      onMouseEnter={(e) => {
+        e.currentTarget.style.transform = 'scale(1.1)';
+        e.currentTarget.style.boxShadow = hoverShadow;
+      }}
+      onMouseLeave={(e) => {
+        e.currentTarget.style.transform = 'scale(1)';
+        e.currentTarget.style.boxShadow = shadow;
+      }}
+      title={title}
+    >
+      {children}
+    </button>
+  );
+}
+
+const QUALITY_TEXT: Record<CallQuality, string> = {
+  good: 'Отличная связь',
+  fair: 'Средняя связь',
+  poor: 'Плохая связь',
+  unknown: 'Связь',
+};
+
+const QUALITY_RGB: Record<CallQuality, string> = {
+  good: '34,197,94',
+  fair: '251,191,36',
+  poor: '239,68,68',
+  unknown: '55,65,81',
+};
+
+const QUALITY_COLOR: Record<CallQuality, string> = {
+  good: '#bbf7d0',
+  fair: '#fde68a',
+  poor: '#fca5a5',
+  unknown: '#e5e7eb',
+};
+
+const WARNING_TEXT: Record<CallQualityWarning, string> = {
+  'high-rtt': 'большая задержка',
+  'high-jitter': 'нестабильная связь',
+  'packet-loss': 'потеря пакетов',
+  'low-mos': 'низкое качество звука',
+};
+
+const CANDIDATE_TEXT: Record<string, string> = {
+  host: 'прямое (host)',
+  srflx: 'через NAT (srflx)',
+  prflx: 'через NAT (prflx)',
+  relay: 'через TURN (relay)',
+};
+
+const KEYPAD_LAYOUT = ['1', '2', '3', '4', '5', '6', '7', '8', '9', '*', '0', '#'];
+// Keyboard keys accepted while the keypad is open (A-D exist on IVR keypads only)
+const KEYPAD_KEYS = [...KEYPAD_LAYOUT, 'A', 'B', 'C', 'D'];
+
+// Play the key locally and send it to the peer
+function pressKeypadKey(key: string) {
+  playDtmfTone(key);
+  sendDTMF(key).catch((e: any) => {
+    console.warn('DTMF send failed:', e);
+    alert('Не удалось отправить тоны: ' + (e?.message || 'Unknown error'));
+  });
+}
+
+// Three bars, filled by quality
+function SignalBars({ quality }: { quality: CallQuality }) {
+  const filled = quality === 'good' ? 3 : quality === 'fair' ? 2 : quality === 'poor' ? 1 : 0;
+  return (
+    <span style={{ display: 'inline-flex', alignItems: 'flex-end', gap: 2, height: 12 }}>
+      {[1, 2, 3].map((bar) => (
+        <span
+          key={bar}
+          style={{
+            width: 3,
+            height: 4 * bar,
+            borderRadius: 1,
+            backgroundColor: bar <= filled ? 'currentColor' : 'rgba(156,163,175,0.35)',
+          }}
+        />
+      ))}
+    </span>
+  );
+}
+
+function StatsRow({ label, value }: { label: string; value: string }) {
+  return (
+    <>
+      <span>{label}</span>
+      <span style={{ color: '#e5e7eb', fontFamily: 'SF Mono, ui-monospace, Menlo, Monaco, Consolas', textAlign: 'right' }}>
+        {value}
+      </span>
+    </>
+  );
+}
+
+function getStatsRows(stats: CallStats): Array<[string, string]> {
+  const format = (value: number | null, unit: string, digits = 0) =>
+    value === null ? '—' : `${value.toFixed(digits)} ${unit}`;
+  const level = (value: number | null) => (value === null ? '—' : `${Math.round(value * 100)}%`);
+  const candidate = (type: string | null) => (type ? CANDIDATE_TEXT[type] ?? type : '—');
+
+  return [
+    ['Задержка (RTT)', format(stats.rttMs, 'мс')],
+    ['Джиттер', format(stats.jitterMs, 'мс', 1)],
+    ['Потери пакетов', format(stats.packetLossPercent, '%', 1)],
+    ['Входящий поток', format(stats.inboundBitrateKbps, 'кбит/с')],
+    ['Исходящий поток', format(stats.outboundBitrateKbps, 'кбит/с')],
+    ['Соединение', candidate(stats.localCandidateType)],
+    ['Собеседник', candidate(stats.remoteCandidateType)],
+    ['Уровень микрофона', level(stats.localAudioLevel)],
+    ['Уровень собеседника', level(stats.remoteAudioLevel)],
+    ['MOS', stats.mos === null ? '—' : stats.mos.toFixed(2)],
+  ];
+}
+
+interface ContactPickerProps {
+  contacts: CallContact[];
+  children: (contact: CallContact) => ReactNode;
+}
+
+// Scrollable list of agents with per-row action buttons
+function ContactPicker({ contacts, children }: ContactPickerProps) {
+  return (
+    <div
+      style={{
+        width: '100%',
+        maxHeight: 220,
+        overflowY: 'auto',
+        borderRadius: 16,
+        border: '1px solid rgba(55,65,81,0.8)',
+        backgroundColor: 'rgba(2,6,23,0.9)',
+      }}
+    >
+      {contacts.map((contact) => (
+        <div
+          key={contact.loyaltyId}
+          style={{
+            display: 'flex',
+            alignItems: 'center',
+            gap: 8,
+            padding: '10px 14px',
+            borderBottom: '1px solid rgba(31,41,55,0.8)',
+          }}
+        >
+          <span style={{ flex: 1, fontSize: 14, color: '#e5e7eb', overflow: 'hidden', textOverflow: 'ellipsis' }}>
+            {contact.name}
+          </span>
+          {children(contact)}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function getTransferText(transfer: TransferInfo) {
+  const name = transfer.peerName || 'сотрудник';
+  if (transfer.role === 'target') {
+    return transfer.status === 'connected' ? `Звонок ${name} переведён к вам` : `Ожидается перевод звонка ${name}`;
+  }
+  if (transfer.role === 'transferee') {
+    switch (transfer.status) {
+      case 'connected':
+        return `Вас соединили с ${name}`;
+      case 'failed':
+        return `Не удалось соединить с ${name}`;
+      default:
+        return `Переводим на ${name}...`;
+    }
+  }
+  switch (transfer.status) {
+    case 'consulting':
+      return `Консультация с ${name}, клиент на удержании`;
+    case 'requested':
+      return `Перевод на ${name}...`;
+    case 'accepted':
+      return transfer.mode === 'blind' ? `Звонок переведён на ${name}` : `Клиент соединяется с ${name}...`;
+    case 'connected':
+      return `Звонок переведён на ${name}`;
+    case 'cancelled':
+      return 'Перевод отменён';
+    case 'failed':
+      return `Перевод не удался${transfer.reason ? ': ' + transfer.reason : ''}`;
+  }
+}
+
+function pillButtonStyle(rgb: string, color: string) {
+  return {
+    padding: '6px 12px',
+    borderRadius: 999,
+    border: `1px solid rgba(${rgb},0.5)`,
+    backgroundColor: `rgba(${rgb},0.15)`,
+    color,
+    fontSize: 12,
+    fontWeight: 600,
+    cursor: 'pointer',
+    whiteSpace: 'nowrap' as const,
+  };
+}
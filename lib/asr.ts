@@ -0,0 +1,131 @@
+// Speech recognition for live captions.
+//
+// An AsrProvider is fed mono PCM frames of both parties as they are captured (see
+// call-transcriber.ts) and emits segments: partial ones while someone is talking,
+// replaced by a final one (same id) when they pause. A vendor integration implements
+// AsrProvider and is installed with setAsrProviderFactory(); the mock provider below
+// is the default and needs no backend.
+
+export type AsrSpeaker = 'local' | 'remote';
+
+export interface AsrSegment {
+  // A later segment with the same id replaces this one
+  id: string;
+  speaker: AsrSpeaker;
+  text: string;
+  // Milliseconds since the provider was started
+  startMs: number;
+  endMs: number;
+  final: boolean;
+}
+
+export interface AsrProviderOptions {
+  // Of every frame pushed
+  sampleRate: number;
+  // BCP 47, e.g. 'ru-RU'
+  language: string;
+  onSegment: (segment: AsrSegment) => void;
+  onError: (error: Error) => void;
+}
+
+export interface AsrProvider {
+  readonly name: string;
+  start(options: AsrProviderOptions): Promise<void>;
+  // One frame of mono PCM (-1..1). Frames of a speaker arrive in order and without
+  // gaps (silence is sent as silence), so sample counts give the timing.
+  pushFrame(speaker: AsrSpeaker, samples: Float32Array): void;
+  // Emit what is still partial as final, then release resources
+  stop(): Promise<void>;
+}
+
+export type AsrProviderFactory = () => AsrProvider;
+
+// Frame RMS counted as speech by the mock
+const MOCK_SPEECH_RMS = 0.01;
+// Pause that ends a mock segment
+const MOCK_PAUSE_MS = 700;
+// One mock word per this much speech
+const MOCK_WORD_MS = 350;
+const MOCK_WORDS = [
+  'здравствуйте', 'да', 'хорошо', 'подскажите', 'пожалуйста', 'по', 'поводу', 'заказа',
+  'номер', 'карты', 'бонусы', 'спасибо', 'понятно', 'минуту', 'уточню', 'сейчас',
+];
+
+interface MockSpeakerState {
+  samples: number;
+  segment: AsrSegment | null;
+  voicedMs: number;
+  silentMs: number;
+  // Where the segment's words start in MOCK_WORDS
+  firstWord: number;
+}
+
+// Turns speech energy into placeholder words, to exercise captions without a vendor
+export class MockAsrProvider implements AsrProvider {
+  readonly name = 'mock';
+  private options: AsrProviderOptions | null = null;
+  private speakers: Record<AsrSpeaker, MockSpeakerState> = {
+    local: { samples: 0, segment: null, voicedMs: 0, silentMs: 0, firstWord: 0 },
+    remote: { samples: 0, segment: null, voicedMs: 0, silentMs: 0, firstWord: 0 },
+  };
+  private nextId = 1;
+
+  async start(options: AsrProviderOptions) {
+    this.options = options;
+  }
+
+  pushFrame(speaker: AsrSpeaker, samples: Float32Array) {
+    const options = this.options;
+    if (!options) {
+      return;
+    }
+    const state = this.speakers[speaker];
+    const frameMs = (samples.length / options.sampleRate) * 1000;
+    const atMs = (state.samples / options.sampleRate) * 1000;
+    state.samples += samples.length;
+
+    let sum = 0;
+    for (let i = 0; i < samples.length; i++) {
+      sum += samples[i] * samples[i];
+    }
+    const voiced = Math.sqrt(sum / samples.length) >= MOCK_SPEECH_RMS;
+
+    if (voiced) {
+      state.silentMs = 0;
+      if (!state.segment) {
+        state.segment = { id: `mock-${this.nextId++}`, speaker, text: '', startMs: atMs, endMs: atMs, final: false };
+        state.voicedMs = 0;
+        state.firstWord = (state.firstWord + 5) % MOCK_WORDS.length;
+      }
+      state.voicedMs += frameMs;
+      state.segment.endMs = atMs + frameMs;
+      const words = Math.floor(state.voicedMs / MOCK_WORD_MS) + 1;
+      if (words > this.wordCount(state.segment)) {
+        state.segment.text = Array.from({ length: words }, (_, i) => MOCK_WORDS[(state.firstWord + i) % MOCK_WORDS.length]).join(' ');
+        options.onSegment({ ...state.segment });
+      }
+    } else if (state.segment) {
+      state.silentMs += frameMs;
+      if (state.silentMs >= MOCK_PAUSE_MS) {
+        this.finish(state);
+      }
+    }
+  }
+
+  async stop() {
+    this.finish(this.speakers.local);
+    this.finish(this.speakers.remote);
+    this.options = null;
+  }
+
+  private wordCount(segment: AsrSegment) {
+    return segment.text ? segment.text.split(' ').length : 0;
+  }
+
+  private finish(state: MockSpeakerState) {
+    if (state.segment && this.options) {
+      this.options.onSegment({ ...state.segment, final: true });
+    }
+    state.segment = null;
+  }
+}
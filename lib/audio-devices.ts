@@ -0,0 +1,96 @@
+// Microphones and speakers: enumeration and the agent's preferred ones.
+//
+// Preferences are kept per browser in localStorage by deviceId ('' = system default).
+// Device labels are only filled in once the page has microphone permission.
+
+const MIC_KEY = 'webMicDeviceId';
+const SPEAKER_KEY = 'webSpeakerDeviceId';
+
+export interface AudioDevice {
+  deviceId: string;
+  label: string;
+}
+
+export interface AudioDevices {
+  inputs: AudioDevice[];
+  outputs: AudioDevice[];
+}
+
+export async function listAudioDevices(): Promise<AudioDevices> {
+  if (typeof navigator === 'undefined' || !navigator.mediaDevices?.enumerateDevices) {
+    return { inputs: [], outputs: [] };
+  }
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  const toDevice = (device: MediaDeviceInfo, i: number) => ({
+    deviceId: device.deviceId,
+    label: device.label || `${device.kind === 'audioinput' ? 'Микрофон' : 'Динамик'} ${i + 1}`,
+  });
+  // 'default' and 'communications' are Chrome aliases of real devices
+  const real = (device: MediaDeviceInfo) => device.deviceId && device.deviceId !== 'default' && device.deviceId !== 'communications';
+  return {
+    inputs: devices.filter((d) => d.kind === 'audioinput' && real(d)).map(toDevice),
+    outputs: devices.filter((d) => d.kind === 'audiooutput' && real(d)).map(toDevice),
+  };
+}
+
+// Whether the speaker can be chosen at all (no setSinkId in Firefox < 116 and Safari)
+export function canSelectSpeaker() {
+  return typeof HTMLMediaElement !== 'undefined' && 'setSinkId' in HTMLMediaElement.prototype;
+}
+
+function load(key: string) {
+  try {
+    return localStorage.getItem(key) ?? '';
+  } catch {
+    return '';
+  }
+}
+
+function save(key: string, deviceId: string) {
+  try {
+    if (deviceId) {
+      localStorage.setItem(key, deviceId);
+    } else {
+      localStorage.removeItem(key);
+    }
+  } catch (e) {
+    console.warn('Could not persist audio device:', e);
+  }
+}
+
+export function loadPreferredMicrophone() {
+  return load(MIC_KEY);
+}
+
+export function savePreferredMicrophone(deviceId: string) {
+  save(MIC_KEY, deviceId);
+}
+
+export function loadPreferredSpeaker() {
+  return load(SPEAKER_KEY);
+}
+
+export function savePreferredSpeaker(deviceId: string) {
+  save(SPEAKER_KEY, deviceId);
+}
+
+// Microphone constraints for getUserMedia. The preferred device is only 'ideal' so a
+// call still starts when it is unplugged; an explicit switch asks for it exactly.
+export function microphoneConstraints(base: MediaTrackConstraints, deviceId: string, exact = false): MediaTrackConstraints {
+  if (!deviceId) {
+    return base;
+  }
+  return { ...base, deviceId: exact ? { exact: deviceId } : { ideal: deviceId } };
+}
+
+// Route an element's output to a speaker ('' = system default)
+export async function applySpeaker(element: HTMLMediaElement, deviceId: string) {
+  if (!canSelectSpeaker() || element.sinkId === deviceId) {
+    return;
+  }
+  try {
+    await element.setSinkId(deviceId);
+  } catch (e) {
+    console.warn('⚠️ Could not switch audio output device:', e);
+  }
+}
@@ -0,0 +1,299 @@
+// Microphone processing between getUserMedia and the peer connection.
+//
+// The chain is a list of processors run in order with WebAudio; the processed track
+// is what the peer hears (the browser's own echoCancellation/noiseSuppression still
+// apply to the microphone before it). Built-in processors are a high-pass filter,
+// a noise gate, a compressor and a WebAssembly denoiser; more can be added with
+// registerAudioProcessor(). Each agent's preset is kept per browser in localStorage.
+//
+// The denoiser module (config denoiserWasmUrl) must export:
+//   memory        its WebAssembly.Memory
+//   frame_size()  samples per frame, mono at the context's sample rate
+//   frame_ptr()   byte offset of a Float32 frame buffer in memory
+//   denoise()     denoise the frame buffer in place
+// It gets no imports and is instantiated inside the AudioWorklet.
+
+import { canUseAudioWorklets, loadWorklet, NOISE_GATE_WORKLET, WASM_DENOISER_WORKLET } from './audio-worklets';
+import { getConfig } from './config';
+
+export interface AudioProcessorParam {
+  key: string;
+  label: string;
+  unit: string;
+  min: number;
+  max: number;
+  step: number;
+  default: number;
+}
+
+// The nodes of one processor in the chain; input and output may be the same node
+export interface AudioStage {
+  input: AudioNode;
+  output: AudioNode;
+  dispose?: () => void;
+}
+
+export interface AudioProcessor {
+  id: string;
+  title: string;
+  params: AudioProcessorParam[];
+  // False when it can't run here (browser support, nothing deployed)
+  isAvailable(): boolean;
+  create(context: AudioContext, params: Record<string, number>): Promise<AudioStage>;
+}
+
+export interface AudioProcessingStep {
+  processor: string;
+  enabled: boolean;
+  // Missing ones take the processor's defaults
+  params: Record<string, number>;
+}
+
+export interface AudioProcessingPreset {
+  // One of AUDIO_PROCESSING_PRESETS, or 'custom' once the agent changes a step
+  id: string;
+  name: string;
+  steps: AudioProcessingStep[];
+}
+
+const PRESET_KEY_PREFIX = 'webAudioProcessing:';
+
+const highPass: AudioProcessor = {
+  id: 'highPass',
+  title: 'Срез низких частот',
+  params: [{ key: 'frequency', label: 'Частота среза', unit: 'Гц', min: 40, max: 300, step: 10, default: 100 }],
+  isAvailable: () => true,
+  async create(context, params) {
+    const filter = context.createBiquadFilter();
+    filter.type = 'highpass';
+    filter.frequency.value = params.frequency;
+    return { input: filter, output: filter };
+  },
+};
+
+const noiseGate: AudioProcessor = {
+  id: 'noiseGate',
+  title: 'Шумовой порог',
+  params: [{ key: 'thresholdDb', label: 'Порог', unit: 'дБ', min: -80, max: -20, step: 1, default: -50 }],
+  isAvailable: canUseAudioWorklets,
+  async create(context, params) {
+    await loadWorklet(context, 'noise-gate', NOISE_GATE_WORKLET);
+    const node = new AudioWorkletNode(context, 'noise-gate', { processorOptions: { thresholdDb: params.thresholdDb } });
+    return { input: node, output: node };
+  },
+};
+
+const compressor: AudioProcessor = {
+  id: 'compressor',
+  title: 'Компрессор',
+  params: [
+    { key: 'thresholdDb', label: 'Порог', unit: 'дБ', min: -60, max: 0, step: 1, default: -24 },
+    { key: 'ratio', label: 'Степень', unit: ':1', min: 1, max: 20, step: 1, default: 4 },
+  ],
+  isAvailable: () => true,
+  async create(context, params) {
+    const node = context.createDynamicsCompressor();
+    node.threshold.value = params.thresholdDb;
+    node.ratio.value = params.ratio;
+    node.attack.value = 0.003;
+    node.release.value = 0.25;
+    return { input: node, output: node };
+  },
+};
+
+// Compiled once per URL
+const denoiserModules = new Map<string, Promise<WebAssembly.Module>>();
+
+function compileDenoiser(url: string) {
+  let wasmModule = denoiserModules.get(url);
+  if (!wasmModule) {
+    wasmModule = fetch(url)
+      .then((resp) => {
+        if (!resp.ok) {
+          throw new Error(`Denoiser download failed: ${resp.status}`);
+        }
+        return resp.arrayBuffer();
+      })
+      .then((bytes) => WebAssembly.compile(bytes));
+    wasmModule.catch(() => denoiserModules.delete(url));
+    denoiserModules.set(url, wasmModule);
+  }
+  return wasmModule;
+}
+
+const denoiser: AudioProcessor = {
+  id: 'denoiser',
+  title: 'Шумоподавление (WASM)',
+  params: [],
+  isAvailable: () => canUseAudioWorklets() && typeof WebAssembly !== 'undefined' && !!getConfig().denoiserWasmUrl,
+  async create(context) {
+    const url = getConfig().denoiserWasmUrl;
+    if (!url) {
+      throw new Error('No denoiser configured');
+    }
+    const [wasmModule] = await Promise.all([compileDenoiser(url), loadWorklet(context, 'wasm-denoiser', WASM_DENOISER_WORKLET)]);
+    const node = new AudioWorkletNode(context, 'wasm-denoiser', {
+      outputChannelCount: [1],
+      processorOptions: { module: wasmModule },
+    });
+    node.onprocessorerror = (e) => console.warn('⚠️ Denoiser failed:', e);
+    return { input: node, output: node };
+  },
+};
+
+const processors = new Map<string, AudioProcessor>([highPass, noiseGate, compressor, denoiser].map((p) => [p.id, p]));
+
+// Add a processor (or replace a built-in one with the same id)
+export function registerAudioProcessor(processor: AudioProcessor) {
+  processors.set(processor.id, processor);
+}
+
+export function getAudioProcessors(): AudioProcessor[] {
+  return Array.from(processors.values());
+}
+
+export function canProcessAudio() {
+  return typeof AudioContext !== 'undefined';
+}
+
+function step(processor: string, enabled: boolean): AudioProcessingStep {
+  return { processor, enabled, params: {} };
+}
+
+export const AUDIO_PROCESSING_PRESETS: AudioProcessingPreset[] = [
+  { id: 'off', name: 'Без обработки', steps: [] },
+  { id: 'office', name: 'Офис', steps: [step('highPass', true), step('compressor', true)] },
+  {
+    id: 'callCenter',
+    name: 'Шумный зал',
+    steps: [step('highPass', true), step('denoiser', true), step('noiseGate', true), step('compressor', true)],
+  },
+];
+
+// Every registered processor in chain order: the preset's steps first, then the
+// others switched off
+export function presetSteps(preset: AudioProcessingPreset): AudioProcessingStep[] {
+  const steps = preset.steps.filter((s) => processors.has(s.processor));
+  processors.forEach((processor) => {
+    if (!steps.some((s) => s.processor === processor.id)) {
+      steps.push(step(processor.id, false));
+    }
+  });
+  return steps;
+}
+
+export function isProcessingEnabled(preset: AudioProcessingPreset) {
+  return preset.steps.some((s) => s.enabled && processors.get(s.processor)?.isAvailable());
+}
+
+export function loadAudioProcessingPreset(loyaltyId: string | null): AudioProcessingPreset {
+  const fallback = AUDIO_PROCESSING_PRESETS[0];
+  if (!loyaltyId) {
+    return fallback;
+  }
+  try {
+    const raw = localStorage.getItem(PRESET_KEY_PREFIX + loyaltyId);
+    const preset = raw ? JSON.parse(raw) : null;
+    return preset && typeof preset.id === 'string' && Array.isArray(preset.steps) ? preset : fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+export function saveAudioProcessingPreset(loyaltyId: string, preset: AudioProcessingPreset) {
+  try {
+    localStorage.setItem(PRESET_KEY_PREFIX + loyaltyId, JSON.stringify(preset));
+  } catch (e) {
+    console.warn('Could not persist audio processing preset:', e);
+  }
+}
+
+// The microphone run through a preset's chain. `track` stays the same for the life
+// of the chain: switching the microphone or the preset rewires the graph behind it.
+export class MicrophoneProcessing {
+  private context = new AudioContext({ latencyHint: 'interactive' });
+  private destination = this.context.createMediaStreamDestination();
+  private source: MediaStreamAudioSourceNode | null = null;
+  private stages: AudioStage[] = [];
+  private preset: AudioProcessingPreset = AUDIO_PROCESSING_PRESETS[0];
+  // Rebuilds one at a time, in order
+  private building: Promise<void> = Promise.resolve();
+  private stopped = false;
+
+  get track(): MediaStreamTrack {
+    return this.destination.stream.getAudioTracks()[0];
+  }
+
+  async start(input: MediaStreamTrack, preset: AudioProcessingPreset) {
+    this.setInput(input);
+    await this.setPreset(preset);
+  }
+
+  // Process another microphone track, e.g. after the device was switched
+  setInput(input: MediaStreamTrack) {
+    if (this.stopped) {
+      return;
+    }
+    this.source?.disconnect();
+    this.source = this.context.createMediaStreamSource(new MediaStream([input]));
+    this.source.connect(this.stages[0]?.input ?? this.destination);
+  }
+
+  setPreset(preset: AudioProcessingPreset): Promise<void> {
+    this.preset = preset;
+    this.building = this.building.then(() => this.rebuild());
+    return this.building;
+  }
+
+  stop() {
+    if (this.stopped) {
+      return;
+    }
+    this.stopped = true;
+    this.source?.disconnect();
+    this.source = null;
+    this.stages.forEach((stage) => this.disposeStage(stage));
+    this.stages = [];
+    this.track.stop();
+    this.context.close().catch(() => {});
+  }
+
+  private async rebuild() {
+    const preset = this.preset;
+    // New stages are set up before the old ones are taken out, so audio keeps flowing
+    const stages: AudioStage[] = [];
+    for (const s of preset.steps) {
+      const processor = processors.get(s.processor);
+      if (!s.enabled || !processor?.isAvailable()) {
+        continue;
+      }
+      const params = Object.fromEntries(processor.params.map((p) => [p.key, s.params[p.key] ?? p.default]));
+      try {
+        stages.push(await processor.create(this.context, params));
+      } catch (e) {
+        console.warn('⚠️ Skipping audio processor', processor.id, e);
+      }
+    }
+    if (this.stopped || preset !== this.preset) {
+      stages.forEach((stage) => this.disposeStage(stage));
+      return;
+    }
+
+    this.source?.disconnect();
+    this.stages.forEach((stage) => this.disposeStage(stage));
+    this.stages = stages;
+    stages.forEach((stage, i) => stage.output.connect(stages[i + 1]?.input ?? this.destination));
+    this.source?.connect(stages[0]?.input ?? this.destination);
+    // Created outside a user gesture the context may start suspended
+    if (this.context.state === 'suspended') {
+      this.context.resume().catch(() => {});
+    }
+    console.log('🎛️ Microphone processing:', preset.name, stages.length, 'stage(s)');
+  }
+
+  private disposeStage(stage: AudioStage) {
+    stage.input.disconnect();
+    stage.output.disconnect();
+    stage.dispose?.();
+  }
+}
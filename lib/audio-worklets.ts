@@ -0,0 +1,216 @@
+// AudioWorklet processors, shipped as inline source (no separate files to serve).
+//
+// A processor module is loaded once per AudioContext; loadWorklet() resolves when
+// nodes of it can be created.
+
+const loaded = new WeakMap<BaseAudioContext, Map<string, Promise<void>>>();
+
+export function canUseAudioWorklets() {
+  return typeof AudioContext !== 'undefined' && typeof AudioWorkletNode !== 'undefined';
+}
+
+export function loadWorklet(context: BaseAudioContext, name: string, source: string): Promise<void> {
+  let modules = loaded.get(context);
+  if (!modules) {
+    modules = new Map();
+    loaded.set(context, modules);
+  }
+  let promise = modules.get(name);
+  if (!promise) {
+    const url = URL.createObjectURL(new Blob([source], { type: 'application/javascript' }));
+    const forContext = modules;
+    promise = context.audioWorklet
+      .addModule(url)
+      .catch((e) => {
+        // Let the next call try again
+        forContext.delete(name);
+        throw e;
+      })
+      .finally(() => URL.revokeObjectURL(url));
+    modules.set(name, promise);
+  }
+  return promise;
+}
+
+// 'pcm-capture': posts the input, mixed down to mono, as Float32Array frames of
+// processorOptions.frameSize samples
+export const PCM_CAPTURE_WORKLET = `
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    this.frameSize = options.processorOptions.frameSize;
+    this.frame = new Float32Array(this.frameSize);
+    this.filled = 0;
+  }
+
+  process(inputs) {
+    const channels = inputs[0];
+    if (!channels || channels.length === 0) {
+      return true;
+    }
+    for (let i = 0; i < channels[0].length; i++) {
+      let sample = 0;
+      for (let c = 0; c < channels.length; c++) {
+        sample += channels[c][i];
+      }
+      this.frame[this.filled++] = sample / channels.length;
+      if (this.filled === this.frameSize) {
+        this.port.postMessage(this.frame, [this.frame.buffer]);
+        this.frame = new Float32Array(this.frameSize);
+        this.filled = 0;
+      }
+    }
+    return true;
+  }
+}
+registerProcessor('pcm-capture', PcmCaptureProcessor);
+`;
+
+// 'noise-gate': mutes the input while its level stays below
+// processorOptions.thresholdDb, holding open briefly so word endings are not cut
+export const NOISE_GATE_WORKLET = `
+const HOLD_SECONDS = 0.2;
+const ATTACK_SECONDS = 0.005;
+const RELEASE_SECONDS = 0.08;
+// Gain while closed; a little room noise sounds less like a dropped call
+const CLOSED_GAIN = 0.05;
+
+class NoiseGateProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    this.threshold = Math.pow(10, options.processorOptions.thresholdDb / 20);
+    this.gain = CLOSED_GAIN;
+    this.holdLeft = 0;
+  }
+
+  process(inputs, outputs) {
+    const input = inputs[0];
+    const output = outputs[0];
+    if (!input || input.length === 0) {
+      return true;
+    }
+    const frames = input[0].length;
+    let sum = 0;
+    for (let c = 0; c < input.length; c++) {
+      for (let i = 0; i < frames; i++) {
+        sum += input[c][i] * input[c][i];
+      }
+    }
+    const level = Math.sqrt(sum / (frames * input.length));
+    if (level >= this.threshold) {
+      this.holdLeft = HOLD_SECONDS * sampleRate;
+    } else {
+      this.holdLeft = Math.max(0, this.holdLeft - frames);
+    }
+    const target = this.holdLeft > 0 ? 1 : CLOSED_GAIN;
+    const step = 1 / ((target > this.gain ? ATTACK_SECONDS : RELEASE_SECONDS) * sampleRate);
+    for (let i = 0; i < frames; i++) {
+      this.gain = target > this.gain ? Math.min(target, this.gain + step) : Math.max(target, this.gain - step);
+      for (let c = 0; c < output.length; c++) {
+        output[c][i] = (input[c] ?? input[0])[i] * this.gain;
+      }
+    }
+    return true;
+  }
+}
+registerProcessor('noise-gate', NoiseGateProcessor);
+`;
+
+// 'wasm-denoiser': runs processorOptions.module (a compiled WebAssembly.Module, see
+// audio-processing.ts for its exports) over mono frames of its own size. The output
+// is one frame behind the input.
+export const WASM_DENOISER_WORKLET = `
+class WasmDenoiserProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    this.wasm = new WebAssembly.Instance(options.processorOptions.module, {}).exports;
+    this.frameSize = this.wasm.frame_size();
+    this.input = new Float32Array(this.frameSize);
+    this.output = new Float32Array(this.frameSize);
+    this.position = 0;
+  }
+
+  process(inputs, outputs) {
+    const input = inputs[0] && inputs[0][0];
+    const output = outputs[0];
+    for (let i = 0; i < output[0].length; i++) {
+      const sample = this.output[this.position];
+      for (let c = 0; c < output.length; c++) {
+        output[c][i] = sample;
+      }
+      this.input[this.position++] = input ? input[i] : 0;
+      if (this.position === this.frameSize) {
+        // A fresh view each time: the memory buffer is replaced when it grows
+        const frame = new Float32Array(this.wasm.memory.buffer, this.wasm.frame_ptr(), this.frameSize);
+        frame.set(this.input);
+        this.wasm.denoise();
+        this.output.set(new Float32Array(this.wasm.memory.buffer, this.wasm.frame_ptr(), this.frameSize));
+        this.position = 0;
+      }
+    }
+    return true;
+  }
+}
+registerProcessor('wasm-denoiser', WasmDenoiserProcessor);
+`;
+
+// 'voice-activity': posts { speaking, ago } whenever the input starts or stops
+// carrying speech, ago being how many seconds back the change happened. Speech is energy well above a noise floor
+// that follows the quietest recent frames; short bursts are ignored and pauses are
+// bridged, so one phrase is one stretch of speech.
+export const VOICE_ACTIVITY_WORKLET = `
+const FRAME_SECONDS = 0.02;
+// Frames of energy needed to start speaking, and of quiet to stop
+const ONSET_FRAMES = 3;
+const HANGOVER_FRAMES = 20;
+// Speech is this far above the noise floor (about 10 dB), and never below MIN_LEVEL
+const FLOOR_FACTOR = 3;
+const MIN_LEVEL = 0.003;
+// The floor creeps up so it recovers after a loud room quiets down
+const FLOOR_RISE = 1.002;
+
+class VoiceActivityProcessor extends AudioWorkletProcessor {
+  constructor() {
+    super();
+    this.frameSize = Math.round(FRAME_SECONDS * sampleRate);
+    this.sum = 0;
+    this.filled = 0;
+    this.floor = MIN_LEVEL;
+    this.speaking = false;
+    this.voicedRun = 0;
+    this.quietRun = 0;
+  }
+
+  process(inputs) {
+    const channels = inputs[0];
+    if (!channels || channels.length === 0) {
+      return true;
+    }
+    for (let i = 0; i < channels[0].length; i++) {
+      const sample = channels[0][i];
+      this.sum += sample * sample;
+      if (++this.filled === this.frameSize) {
+        this.frame(Math.sqrt(this.sum / this.frameSize));
+        this.sum = 0;
+        this.filled = 0;
+      }
+    }
+    return true;
+  }
+
+  frame(level) {
+    this.floor = Math.max(MIN_LEVEL / FLOOR_FACTOR, Math.min(level, this.floor * FLOOR_RISE));
+    const voiced = level > Math.max(MIN_LEVEL, this.floor * FLOOR_FACTOR);
+    this.voicedRun = voiced ? this.voicedRun + 1 : 0;
+    this.quietRun = voiced ? 0 : this.quietRun + 1;
+    if (!this.speaking && this.voicedRun >= ONSET_FRAMES) {
+      this.speaking = true;
+      this.port.postMessage({ speaking: true, ago: ONSET_FRAMES * FRAME_SECONDS });
+    } else if (this.speaking && this.quietRun >= HANGOVER_FRAMES) {
+      this.speaking = false;
+      this.port.postMessage({ speaking: false, ago: HANGOVER_FRAMES * FRAME_SECONDS });
+    }
+  }
+}
+registerProcessor('voice-activity', VoiceActivityProcessor);
+`;
@@ -1,6 +1,6 @@
 // Authentication API service for web app
 
-const BASE_URL = 'https://server.totus.club';
+import { loadConfig } from './config';
 
 export interface LoginCredentials {
   email: string;
@@ -26,7 +26,8 @@ export interface LoginResponse {
 // Login user (only agents can login)
 export async function login(credentials: LoginCredentials): Promise<LoginResponse> {
   try {
-    const response = await fetch(`${BASE_URL}/api/web/login`, {
+    const { backendUrl } = await loadConfig();
+    const response = await fetch(`${backendUrl}/api/web/login`, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
@@ -0,0 +1,247 @@
+// Audio cues for call progress, synthesized with WebAudio (no files to ship):
+//   ringtone - incoming call, loops until answered/rejected
+//   ringback - our outgoing call is ringing, loops until answered
+//   busy     - the callee rejected or could not be reached, plays once
+//   ended    - the call was hung up, plays once
+// and DTMF feedback for keypad presses.
+//
+// Everything goes through one gain (the cue volume) into an <audio> element, so
+// the output device can be picked with setSinkId independently of the call audio.
+
+import { applySpeaker } from './audio-devices';
+
+export type LoopedCue = 'ringtone' | 'ringback';
+export type OneShotCue = 'busy' | 'ended';
+
+const VOLUME_KEY = 'webCueVolume';
+const SINK_ID_KEY = 'webCueSinkId';
+const DEFAULT_VOLUME = 0.6;
+
+// Russian/ETSI call progress tones use 425 Hz
+const PROGRESS_HZ = 425;
+
+// Tone pairs of the DTMF keypad
+const DTMF_FREQUENCIES: Record<string, [number, number]> = {
+  '1': [697, 1209], '2': [697, 1336], '3': [697, 1477], 'A': [697, 1633],
+  '4': [770, 1209], '5': [770, 1336], '6': [770, 1477], 'B': [770, 1633],
+  '7': [852, 1209], '8': [852, 1336], '9': [852, 1477], 'C': [852, 1633],
+  '*': [941, 1209], '0': [941, 1336], '#': [941, 1477], 'D': [941, 1633],
+};
+
+interface Tone {
+  frequencies: number[];
+  // Offset from the start of the pattern, seconds
+  at: number;
+  duration: number;
+}
+
+// One cycle of each looped cue, and how often it repeats
+const LOOPS: Record<LoopedCue, { tones: Tone[]; periodMs: number }> = {
+  // Two-tone trill, twice, then a pause
+  ringtone: {
+    tones: [0, 0.5].flatMap((start) =>
+      Array.from({ length: 8 }, (_, i) => ({ frequencies: [i % 2 ? 660 : 880], at: start + i * 0.05, duration: 0.05 }))
+    ),
+    periodMs: 3000,
+  },
+  ringback: { tones: [{ frequencies: [PROGRESS_HZ], at: 0, duration: 1 }], periodMs: 5000 },
+};
+
+const ONE_SHOTS: Record<OneShotCue, Tone[]> = {
+  busy: Array.from({ length: 4 }, (_, i) => ({ frequencies: [PROGRESS_HZ], at: i * 0.7, duration: 0.35 })),
+  ended: [880, 660, 440].map((frequency, i) => ({ frequencies: [frequency], at: i * 0.18, duration: 0.14 })),
+};
+
+function loadVolume() {
+  try {
+    const value = parseFloat(localStorage.getItem(VOLUME_KEY) ?? '');
+    return Number.isFinite(value) ? Math.min(1, Math.max(0, value)) : DEFAULT_VOLUME;
+  } catch {
+    return DEFAULT_VOLUME;
+  }
+}
+
+function loadSinkId() {
+  try {
+    return localStorage.getItem(SINK_ID_KEY) ?? '';
+  } catch {
+    return '';
+  }
+}
+
+export class CallAudioCues {
+  private context: AudioContext | null = null;
+  private master: GainNode | null = null;
+  private element: HTMLAudioElement | null = null;
+  private volume = loadVolume();
+  private sinkId = loadSinkId();
+  private looped: LoopedCue | null = null;
+  private loopTimer: ReturnType<typeof setInterval> | null = null;
+  // Oscillators of the looped cue, stopped early when it ends
+  private loopNodes = new Set<OscillatorNode>();
+
+  get currentLoop() {
+    return this.looped;
+  }
+
+  getVolume() {
+    return this.volume;
+  }
+
+  setVolume(volume: number) {
+    this.volume = Math.min(1, Math.max(0, volume));
+    try {
+      localStorage.setItem(VOLUME_KEY, String(this.volume));
+    } catch {
+      // Not persisted; applies to this page only
+    }
+    if (this.master && this.context) {
+      this.master.gain.setTargetAtTime(this.volume, this.context.currentTime, 0.02);
+    }
+  }
+
+  // Output device for the cues ('' = system default)
+  getOutputDevice() {
+    return this.sinkId;
+  }
+
+  async setOutputDevice(deviceId: string) {
+    this.sinkId = deviceId;
+    try {
+      localStorage.setItem(SINK_ID_KEY, deviceId);
+    } catch {
+      // Not persisted; applies to this page only
+    }
+    if (this.element) {
+      await applySpeaker(this.element, this.sinkId);
+    }
+  }
+
+  // Start a looping cue, replacing any other one
+  startLoop(cue: LoopedCue) {
+    if (this.looped === cue) {
+      return;
+    }
+    this.stopLoop();
+    this.looped = cue;
+    const { tones, periodMs } = LOOPS[cue];
+    const play = () => this.schedule(tones, this.loopNodes);
+    play();
+    this.loopTimer = setInterval(play, periodMs);
+  }
+
+  stopLoop() {
+    if (this.loopTimer) {
+      clearInterval(this.loopTimer);
+      this.loopTimer = null;
+    }
+    this.loopNodes.forEach((node) => {
+      try {
+        node.stop();
+      } catch {
+        // Already stopped
+      }
+    });
+    this.loopNodes.clear();
+    this.looped = null;
+  }
+
+  play(cue: OneShotCue) {
+    this.schedule(ONE_SHOTS[cue]);
+  }
+
+  // Keypad tones: feedback for a press, or a sequence of digits (',' pauses 2 s)
+  playDtmf(digits: string) {
+    const tones: Tone[] = [];
+    let at = 0;
+    for (const digit of digits.toUpperCase()) {
+      if (digit === ',') {
+        at += 2;
+        continue;
+      }
+      const frequencies = DTMF_FREQUENCIES[digit];
+      if (frequencies) {
+        tones.push({ frequencies, at, duration: 0.12 });
+        at += 0.19;
+      }
+    }
+    if (tones.length > 0) {
+      this.schedule(tones);
+    }
+  }
+
+  close() {
+    this.stopLoop();
+    if (this.element) {
+      this.element.pause();
+      this.element.srcObject = null;
+      this.element = null;
+    }
+    if (this.context) {
+      this.context.close().catch(() => {});
+      this.context = null;
+      this.master = null;
+    }
+  }
+
+  private schedule(tones: Tone[], track?: Set<OscillatorNode>) {
+    const context = this.ensureContext();
+    if (!context) {
+      return;
+    }
+    const start = context.currentTime + 0.02;
+    tones.forEach((tone) => {
+      const envelope = context.createGain();
+      const from = start + tone.at;
+      const to = from + tone.duration;
+      // Short ramps avoid clicks
+      envelope.gain.setValueAtTime(0, from);
+      envelope.gain.linearRampToValueAtTime(0.5 / tone.frequencies.length, from + 0.01);
+      envelope.gain.setValueAtTime(0.5 / tone.frequencies.length, to - 0.01);
+      envelope.gain.linearRampToValueAtTime(0, to);
+      envelope.connect(this.master!);
+
+      tone.frequencies.forEach((frequency) => {
+        const oscillator = context.createOscillator();
+        oscillator.frequency.value = frequency;
+        oscillator.connect(envelope);
+        oscillator.onended = () => {
+          oscillator.disconnect();
+          track?.delete(oscillator);
+        };
+        track?.add(oscillator);
+        oscillator.start(from);
+        oscillator.stop(to);
+      });
+    });
+  }
+
+  private ensureContext() {
+    if (typeof window === 'undefined' || typeof AudioContext === 'undefined') {
+      return null;
+    }
+    if (!this.context) {
+      const context = new AudioContext();
+      const master = context.createGain();
+      master.gain.value = this.volume;
+      const destination = context.createMediaStreamDestination();
+      master.connect(destination);
+
+      const element = new Audio();
+      element.srcObject = destination.stream;
+      applySpeaker(element, this.sinkId);
+      element.play().catch((e) => console.warn('⚠️ Call sounds blocked until the page is clicked:', e));
+
+      this.context = context;
+      this.master = master;
+      this.element = element;
+    }
+    if (this.context.state === 'suspended') {
+      this.context.resume().catch(() => {});
+    }
+    if (this.element?.paused) {
+      this.element.play().catch(() => {});
+    }
+    return this.context;
+  }
+}
@@ -0,0 +1,1422 @@
+import {
+  listAudioDevices,
+  loadPreferredMicrophone,
+  loadPreferredSpeaker,
+  savePreferredMicrophone,
+  savePreferredSpeaker,
+  type AudioDevices,
+} from './audio-devices';
+import { loadAudioProcessingPreset, saveAudioProcessingPreset, type AudioProcessingPreset } from './audio-processing';
+import { CallAudioCues } from './call-audio-cues';
+import { CallSession, type CallMediaOptions, type CallRole, type CameraFacing } from './call-session';
+import { isEstablishedState, type CallState, type CallTransition } from './call-state-machine';
+import { getConfig, loadConfig } from './config';
+import {
+  clearActiveCall,
+  loadActiveCall,
+  loadDeviceId,
+  saveActiveCall,
+  saveDeviceId,
+  type PersistedCall,
+} from './call-persistence';
+import type { CallStats, CallStatsListener } from './call-stats';
+import { historyEntryFor, recordCall } from './call-history';
+import { CallReportUploader } from './call-report-uploader';
+import { settleRecordings, type RecordingMeta } from './call-recorder';
+import { RecordingUploader } from './recording-uploader';
+import type { TranscriptSegment } from './call-transcriber';
+import type { VoiceParty } from './voice-activity';
+import { CallTransferManager, type TransferInfo } from './call-transfer';
+import { ConferenceManager, type ConferenceInfo } from './conference';
+import {
+  addMissedCall,
+  loadMissedCalls,
+  markMissedCallsSeen,
+  removeMissedCall,
+  type MissedCall,
+} from './missed-calls';
+import type {
+  AnswerMessage,
+  CallStateMessage,
+  CreateCallRequest,
+  DtmfMessage,
+  IceCandidateMessage,
+  OfferMessage,
+  RecordingMessage,
+  RecordingSignal,
+  RenegotiationOptions,
+  SignalingTransport,
+} from './signaling-transport';
+import { SocketIoTransport } from './socket-io-transport';
+
+export const generateUUID = () =>
+  'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, (c) => {
+    const r = (Math.random() * 16) | 0;
+    const v = c === 'x' ? r : (r & 0x3) | 0x8;
+    return v.toString(16);
+  });
+
+// Snapshot of the current call for the UI
+export interface CallInfo {
+  state: CallState;
+  callerName: string | null;
+  isMuted: boolean;
+  isSpeakerEnabled: boolean;
+  callUUID: string | null;
+  isVideoEnabled: boolean;
+  hasRemoteVideo: boolean;
+  cameraFacing: CameraFacing;
+  isScreenSharing: boolean;
+  hasRemoteScreen: boolean;
+  heldBy: 'local' | 'remote' | null;
+  heldAt: number | null;
+  // Set while the media connection is being recovered
+  reconnectingSince: number | null;
+  transfer: TransferInfo | null;
+  conference: ConferenceInfo | null;
+  // A second incoming call ringing while we are in this one
+  waitingCall: OtherCallInfo | null;
+  // A call we put on hold to take another one
+  heldCall: OtherCallInfo | null;
+  // Keypad digits sent during this call
+  dtmfDigits: string;
+  // We record this call
+  recording: RecordingInfo | null;
+  // The peer records this call
+  remoteRecording: 'recording' | 'paused' | null;
+  captionsEnabled: boolean;
+  // Captions so far, oldest first; the last ones may still be partial
+  transcript: TranscriptSegment[];
+  // Who is talking right now; null until detected
+  speaking: Record<VoiceParty, boolean> | null;
+}
+
+export interface RecordingInfo {
+  status: 'recording' | 'paused';
+  // Recorded time, pauses excluded
+  elapsedMs: number;
+  // One-second chunks that could not be stored
+  lostChunks: number;
+}
+
+// A call other than the one shown in the UI
+export interface OtherCallInfo {
+  callUUID: string;
+  callerName: string | null;
+}
+
+export type CallStateChangeCallback = (state: CallState, name: string | null) => void;
+export type CallActiveChangeCallback = (isActive: boolean, startedAt: number | null) => void;
+export type TransferChangeCallback = (transfer: TransferInfo) => void;
+export type ConferenceChangeCallback = (conference: ConferenceInfo | null) => void;
+export type WaitingCallChangeCallback = (waitingCall: OtherCallInfo | null) => void;
+export type MissedCallsChangeCallback = (missedCalls: MissedCall[]) => void;
+export type AudioDevicesListener = (devices: AudioDevices) => void;
+
+export interface CallClientOptions {
+  // Whether this agent takes calls (default true). A transport that can't deliver
+  // incoming calls is refused unless this is false, so the agent never misses them.
+  acceptsIncomingCalls?: boolean;
+}
+
+// One logged-in identity (loyaltyId + device) with its own signaling transport.
+// Creates a CallSession for every outgoing or incoming call. Several sessions can
+// exist at once (e.g. a held customer and a consultation call); one is focused.
+export class CallClient {
+  private loyaltyId: string | null = null;
+  private userId: 'user1' | 'user2' | 'unknown' = 'unknown'; // Keep for backward compatibility
+  private deviceId: string | null = null;
+  private readonly transport: SignalingTransport;
+  private isInitialized = false;
+  private isSpeakerEnabled = false;
+
+  // All live calls by callId, and the one currently shown in the UI
+  private sessions = new Map<string, CallSession>();
+  private session: CallSession | null = null;
+  // Incoming calls to answer without user action, and who asked for it
+  private autoAnswerCallIds = new Map<string, 'transfer' | 'conference'>();
+  private readonly transfers: CallTransferManager;
+  private readonly conference: ConferenceManager;
+  private readonly reports = new CallReportUploader();
+  private readonly recordingUploads = new RecordingUploader();
+  readonly cues = new CallAudioCues();
+
+  // Callbacks for UI updates
+  private onCallStateChange: CallStateChangeCallback | null = null;
+  private onCallActiveChange: CallActiveChangeCallback | null = null;
+  private onTransferChange: TransferChangeCallback | null = null;
+  private onConferenceChange: ConferenceChangeCallback | null = null;
+  private onWaitingCallChange: WaitingCallChangeCallback | null = null;
+  private onMissedCallsChange: MissedCallsChangeCallback | null = null;
+  private statsListeners = new Set<CallStatsListener>();
+  private audioDevicesListeners = new Set<AudioDevicesListener>();
+  private watchingDevices = false;
+
+  constructor(transport: SignalingTransport = new SocketIoTransport(), options: CallClientOptions = {}) {
+    if (options.acceptsIncomingCalls !== false && !transport.receivesIncomingCalls) {
+      throw new Error('This signaling transport cannot receive incoming calls; use it with acceptsIncomingCalls: false');
+    }
+    this.transport = transport;
+    this.transport.on('call-state', (data) => this.handleCallState(data));
+    this.transport.on('offer', (data) => this.handleOffer(data));
+    this.transport.on('answer', (data) => this.handleAnswer(data));
+    this.transport.on('ice-candidate', (data) => this.handleIceCandidate(data));
+    this.transport.on('dtmf', (data) => this.handleDtmf(data));
+    this.transport.on('recording', (data) => this.handleRecording(data));
+    // Offers sent while the socket was down are lost; let dropped calls retry now
+    this.transport.on('connect', () => this.sessions.forEach((s) => s.handleSignalingReconnected()));
+    this.transfers = new CallTransferManager(this, transport);
+    this.conference = new ConferenceManager(this, transport);
+  }
+
+  get currentSession() {
+    return this.session;
+  }
+
+  getSession(callId: string) {
+    return this.sessions.get(callId) ?? null;
+  }
+
+  // Initialize WebRTC with loyalty_id (preferred method)
+  init(loyaltyId: string) {
+    if (!loyaltyId) {
+      throw new Error('loyaltyId is required for WebRTC initialization');
+    }
+
+    if (this.isInitialized && this.loyaltyId === loyaltyId) {
+      console.log('WebRTC already initialized for loyalty_id:', loyaltyId);
+      return;
+    }
+
+    console.log('Initializing WebRTC with loyaltyId:', loyaltyId);
+    this.loyaltyId = loyaltyId;
+    // One device ID per browser, kept across reloads so calls keep reaching us
+    this.deviceId = loadDeviceId() ?? generateUUID();
+    saveDeviceId(this.deviceId);
+    this.isInitialized = true;
+
+    console.log('WebRTC state:', {
+      loyaltyId: this.loyaltyId,
+      deviceId: this.deviceId,
+      isInitialized: this.isInitialized,
+    });
+
+    // Request notification permission
+    if ('Notification' in window && Notification.permission === 'default') {
+      Notification.requestPermission();
+    }
+
+    // Register device and start receiving signaling events
+    this.transport.connect({ deviceId: this.deviceId, loyaltyId });
+
+    // Headsets plugged in or out
+    if (!this.watchingDevices && navigator.mediaDevices?.addEventListener) {
+      this.watchingDevices = true;
+      navigator.mediaDevices.addEventListener('devicechange', () => {
+        this.handleDeviceChange().catch((e) => console.warn('⚠️ Failed to handle device change:', e));
+      });
+    }
+
+    // Reports of earlier calls that could not be uploaded
+    this.reports.flush();
+
+    // Recordings cut short by a crash or reload, and uploads that did not finish
+    Promise.all([loadConfig(), settleRecordings(loyaltyId)])
+      .then(([config]) => {
+        if (config.features.recordingUpload) {
+          return this.recordingUploads.flush(loyaltyId);
+        }
+      })
+      .catch((e) => console.warn('⚠️ Could not settle earlier recordings:', e));
+
+    // A call that was active when the page reloaded
+    const persisted = loadActiveCall(loyaltyId);
+    if (persisted) {
+      this.rejoinPersistedCall(persisted).catch((e) => {
+        console.warn('⚠️ Could not rejoin call after reload:', e);
+      });
+    }
+
+    console.log('WebRTC initialization complete');
+  }
+
+  // Get back into a call after a page reload: check the backend still has it,
+  // wait for the socket, then offer a fresh peer connection to the peer.
+  private async rejoinPersistedCall(persisted: PersistedCall) {
+    console.log('🔁 Rejoining call after reload:', persisted.callId, 'role:', persisted.role);
+    const call = await this.transport.fetchCall(persisted.callId);
+    if (!call || !call.answer) {
+      console.log('Call is gone, nothing to rejoin:', persisted.callId);
+      clearActiveCall();
+      return;
+    }
+
+    await this.waitForSignaling(10000);
+    const session = new CallSession(this, persisted.callId, persisted.role, persisted.peerName);
+    session.peerLoyaltyId = persisted.peerLoyaltyId;
+    this.sessions.set(session.callId, session);
+    this.session = session;
+    session.restoreAnswered(persisted.startedAt);
+
+    try {
+      await session.setup(null);
+      await session.rejoin();
+    } catch (e) {
+      this.endSession(session, 'rejoin-failed');
+      throw e;
+    }
+
+    // The peer may have hung up meanwhile, or never answer the new offer
+    const { timeoutMs } = getConfig().reconnect;
+    setTimeout(() => {
+      if (this.sessions.get(session.callId) === session && session.isRejoining) {
+        console.warn('⚠️ Peer did not accept the rejoin, ending call:', session.callId);
+        this.endSession(session, 'rejoin-failed');
+      }
+    }, timeoutMs);
+  }
+
+  private waitForSignaling(timeoutMs: number): Promise<void> {
+    if (this.transport.connected) {
+      return Promise.resolve();
+    }
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        off();
+        reject(new Error('Signaling did not connect'));
+      }, timeoutMs);
+      const off = this.transport.on('connect', () => {
+        clearTimeout(timer);
+        off();
+        resolve();
+      });
+    });
+  }
+
+  // Listen for incoming calls
+  private handleCallState(data: CallStateMessage) {
+    console.log('📞 Call state update:', data);
+    const { callId, state, direction } = data;
+
+    const session = this.sessions.get(callId) ?? null;
+
+    if (state === 'ringing' && direction === 'incoming') {
+      // Incoming call - the peer connection is created once the offer arrives
+      // Use callerName from data if provided, otherwise use fromLoyaltyId or peerDeviceId
+      const name = data.callerName || data.fromLoyaltyId || data.peerDeviceId || 'Incoming call';
+      const incoming = session ?? this.openIncomingSession(callId, name, data.fromLoyaltyId);
+      incoming.peerName = name;
+
+      // Play incoming call sound (browser notification)
+      if (!this.autoAnswerCallIds.has(callId) && 'Notification' in window && Notification.permission === 'granted') {
+        new Notification('Incoming Call', {
+          body: `Call from ${name}`,
+        });
+      }
+    } else if (state === 'held') {
+      // The peer put the call on hold
+      session?.setRemoteHold(true);
+    } else if (state === 'answered' && session?.state === 'held') {
+      // The peer resumed a call they put on hold
+      session.setRemoteHold(false);
+    } else if (state === 'answered') {
+      // Call was answered (either incoming or outgoing)
+      console.log('📞 Call answered - updating state for call:', callId, 'direction:', direction);
+
+      // Only update if this is for one of our calls
+      if (session) {
+        session.transition('answered', 'signaling:call-state');
+        console.log('✅ Call state updated to answered for call:', callId);
+      } else {
+        console.warn('⚠️ Ignoring answered state - not for active call', {
+          activeCallUUID: this.session?.callId ?? null,
+          receivedCallId: callId,
+        });
+      }
+    } else if (state === 'ended' || state === 'rejected') {
+      if (session) {
+        session.transition(state === 'ended' ? 'ended' : 'rejected', 'signaling:call-state');
+        this.endSession(session, 'signaling:call-state');
+      }
+    }
+  }
+
+  // Session for a new incoming call. A call completing an attended transfer to us,
+  // or from a conference member completing the mesh, is answered automatically.
+  // Any other call arriving while we are busy waits: the current call keeps the focus
+  // until the agent rejects the new one or answers it (see answerWaitingCall).
+  private openIncomingSession(callId: string, name: string, fromLoyaltyId: string | undefined) {
+    const autoAnswer = this.transfers.claimIncomingCall(fromLoyaltyId)
+      ? 'transfer'
+      : this.conference.claimIncomingCall(fromLoyaltyId) ? 'conference' : null;
+    if (autoAnswer) {
+      this.autoAnswerCallIds.set(callId, autoAnswer);
+    }
+    const waiting = !autoAnswer && this.sessions.size > 0;
+    if (waiting) {
+      console.log('📞 Call waiting:', callId, 'while in call:', this.session?.callId);
+    }
+    const session = this.openSession(callId, 'callee', 'ringing', name, true, !waiting);
+    session.peerLoyaltyId = fromLoyaltyId ?? null;
+    if (waiting) {
+      this.notifyWaitingCallChange();
+    }
+    return session;
+  }
+
+  // Listen for WebRTC offer (incoming call)
+  private async handleOffer(data: OfferMessage) {
+    console.log('📞 Received offer:', data.callId, 'from:', data.fromLoyaltyId || data.fromDeviceId);
+    const existing = this.sessions.get(data.callId) ?? null;
+    if (existing && existing.pc) {
+      if (data.rejoin) {
+        await this.handleRejoinOffer(existing, data.offer);
+      } else if (existing.isRejoining) {
+        console.log('Ignoring mid-call offer while rejoining; the rejoin offer replaces it');
+      } else if (data.renegotiation) {
+        await this.handleRenegotiationOffer(existing, data.offer);
+      } else {
+        console.log('Offer received but peer connection already exists for this call');
+      }
+      return;
+    }
+    if (data.renegotiation) {
+      // e.g. an ICE restart for a call this page no longer has
+      console.log('Ignoring mid-call offer for unknown call:', data.callId);
+      return;
+    }
+
+    // This is an incoming call
+    // Use callerName from data if provided, otherwise use fromLoyaltyId or fromDeviceId
+    const name = data.callerName || data.fromLoyaltyId || data.fromDeviceId || 'Incoming call';
+    const session = existing ?? this.openIncomingSession(data.callId, name, data.fromLoyaltyId);
+    session.peerName = name;
+
+    try {
+      console.log('Setting up incoming call - creating peer connection and setting remote offer...');
+      await session.setup(data.offer);
+      console.log('✅ Incoming call setup complete, waiting for user to answer');
+    } catch (e) {
+      console.error('❌ Failed to handle incoming call offer:', e);
+      this.discardSession(session, 'offer-failed');
+      return;
+    }
+
+    const autoAnswer = this.autoAnswerCallIds.get(session.callId);
+    if (autoAnswer) {
+      this.autoAnswerCallIds.delete(session.callId);
+      console.log('🔀 Auto-answering', autoAnswer, 'call:', session.callId);
+      try {
+        await this.answerCall(session.callId);
+        if (autoAnswer === 'transfer') {
+          this.transfers.handleTransferredCallAnswered(session.callId);
+        } else {
+          this.conference.handleIncomingLegAnswered(session.callId);
+        }
+      } catch (e) {
+        console.error('❌ Failed to auto-answer call:', e);
+      }
+    }
+  }
+
+  // Mid-call offer from the peer: apply it and send our answer back
+  private async handleRenegotiationOffer(session: CallSession, offer: RTCSessionDescriptionInit) {
+    try {
+      const answer = await session.acceptRenegotiationOffer(offer);
+      if (answer) {
+        await this.transport.sendRenegotiation(session.callId, answer);
+        session.flushRenegotiation();
+      }
+    } catch (e) {
+      console.error('❌ Failed to handle renegotiation offer:', e);
+    }
+  }
+
+  // The peer reloaded its page: rebuild our side of the call and answer
+  private async handleRejoinOffer(session: CallSession, offer: RTCSessionDescriptionInit) {
+    try {
+      const answer = await session.acceptRejoinOffer(offer);
+      if (answer) {
+        await this.transport.sendRenegotiation(session.callId, answer);
+      }
+    } catch (e) {
+      console.error('❌ Failed to accept rejoin offer:', e);
+    }
+  }
+
+  // Listen for WebRTC answer (outgoing call answered)
+  // NOTE: This is the single place pushed answers are applied; waitForAnswer()
+  // waits for the session to become answered and polls the transport as a fallback.
+  private async handleAnswer(data: AnswerMessage) {
+    const session = this.sessions.get(data.callId) ?? null;
+    console.log('📞 Global answer handler: Received answer:', {
+      callId: data.callId,
+      fromDeviceId: data.fromDeviceId,
+      hasSdp: !!(data.answer && data.answer.sdp),
+      activeCallUUID: session?.callId ?? null,
+      hasPc: !!session?.pc,
+      currentCallState: session?.state ?? 'idle',
+    });
+
+    // Process if this is for one of our calls
+    if (!session || !session.pc) {
+      console.log('📞 Global answer handler: Ignoring answer - not for active outgoing call');
+      return;
+    }
+
+    // A late copy of the initial answer must not be applied to our mid-call offer
+    if (session.isAwaitingRenegotiationAnswer && !data.renegotiation) {
+      console.log('📞 Global answer handler: Ignoring initial answer during renegotiation');
+      return;
+    }
+
+    // Check if answer was already processed (stable means answer is set)
+    const answerAlreadySet = session.pc.signalingState === 'stable' || session.pc.signalingState === 'have-remote-pranswer';
+    if (isEstablishedState(session.state) && answerAlreadySet) {
+      console.log('📞 Global answer handler: Answer already processed');
+      return;
+    }
+
+    await session.applyRemoteAnswer(data.answer, 'signaling:answer');
+  }
+
+  // Listen for ICE candidates
+  private async handleIceCandidate(data: IceCandidateMessage) {
+    console.log('📞 Received ICE candidate:', data.callId, 'from device:', data.fromDeviceId);
+
+    // Handle null candidate (gathering complete signal)
+    if (!data.candidate) {
+      console.log('📞 ICE candidate gathering complete from peer');
+      return;
+    }
+
+    const session = this.sessions.get(data.callId);
+    if (session) {
+      await session.addRemoteIceCandidate(data.candidate);
+    } else {
+      console.warn('⚠️ Received ICE candidate but peer connection or call UUID mismatch:', {
+        activeCallUUID: this.session?.callId ?? null,
+        receivedCallId: data.callId,
+      });
+    }
+  }
+
+  // Digits the peer could not send in the audio: play them as if they had been
+  private handleDtmf(data: DtmfMessage) {
+    const session = this.sessions.get(data.callId);
+    if (!session || !isEstablishedState(session.state)) {
+      return;
+    }
+    console.log('🔢 DTMF received via signaling:', data.digits);
+    if (session === this.session) {
+      this.cues.playDtmf(data.digits);
+    }
+  }
+
+  private handleRecording(data: RecordingMessage) {
+    const session = this.sessions.get(data.callId);
+    if (!session) {
+      return;
+    }
+    console.log('🔴 Peer recording:', data.state, data.callId);
+    session.remoteRecording = data.state === 'stopped' ? null : data.state === 'paused' ? 'paused' : 'recording';
+  }
+
+  // Create a new session and (unless focus is false) show it. Unless keepOthers is
+  // set, any call that is still in progress is ended first.
+  private openSession(
+    callId: string,
+    role: CallRole,
+    state: 'calling' | 'ringing',
+    peerName: string | null,
+    keepOthers = false,
+    focus = true,
+    reason: string = role === 'caller' ? 'user' : 'incoming'
+  ) {
+    if (!keepOthers) {
+      Array.from(this.sessions.values()).forEach((s) => this.endSession(s, 'replaced'));
+    }
+    const session = new CallSession(this, callId, role, peerName);
+    this.sessions.set(callId, session);
+    if (focus) {
+      this.session = session;
+    }
+    session.transition(state, reason);
+    return session;
+  }
+
+  // Drop a session that failed during setup without notifying the backend
+  private discardSession(session: CallSession, reason: string) {
+    session.end(reason);
+    this.removeSession(session);
+  }
+
+  // Forget a finished session; focus moves to another live call, if any
+  private removeSession(session: CallSession) {
+    if (this.sessions.get(session.callId) === session) {
+      this.sessions.delete(session.callId);
+    }
+    this.submitReport(session);
+    if (this.loyaltyId) {
+      recordCall(historyEntryFor(session, this.loyaltyId));
+    }
+    this.conference.handleSessionEnded(session);
+    if (this.session !== session) {
+      this.notifyWaitingCallChange();
+      return;
+    }
+    // Prefer a call in progress over one still ringing
+    const remaining = Array.from(this.sessions.values());
+    const next = remaining.find((s) => isEstablishedState(s.state)) ?? remaining[0] ?? null;
+    this.session = next;
+    this.emitStats(next?.stats.latest ?? null);
+    this.updateLoopedCue();
+    if (next) {
+      this.notifyStateChange(next);
+      this.notifyActiveChange(next);
+    } else {
+      clearActiveCall();
+      this.onCallStateChange?.('idle', null);
+      this.onCallActiveChange?.(false, null);
+    }
+  }
+
+  // Upload the diagnostics of a finished call (next to the /end notification)
+  private submitReport(session: CallSession) {
+    const report = session.diagnostics.buildReport({
+      callId: session.callId,
+      role: session.role,
+      loyaltyId: this.loyaltyId,
+      peerLoyaltyId: session.peerLoyaltyId,
+      finalState: session.state,
+      endReason: session.endReason ?? 'unknown',
+      answeredAt: session.startedAt,
+      timeline: session.machine.history,
+      talkTime: session.talkTime,
+    });
+    this.reports.submit(report);
+  }
+
+  // Remember the call shown in the UI so a page reload can rejoin it.
+  // Conference legs are not rejoined.
+  private persistFocusedCall() {
+    const session = this.session;
+    if (!session || !this.loyaltyId || this.conference.hasLeg(session.callId)) {
+      clearActiveCall();
+      return;
+    }
+    if (isEstablishedState(session.state) && session.startedAt) {
+      saveActiveCall({
+        callId: session.callId,
+        role: session.role,
+        loyaltyId: this.loyaltyId,
+        peerName: session.peerName,
+        peerLoyaltyId: session.peerLoyaltyId,
+        startedAt: session.startedAt,
+      });
+    } else if (session.machine.isTerminal) {
+      clearActiveCall();
+    }
+  }
+
+  // Show another live call in the UI
+  focusSession(callId: string) {
+    const session = this.sessions.get(callId);
+    if (!session || session === this.session) {
+      return;
+    }
+    this.session = session;
+    this.emitStats(session.stats.latest);
+    this.updateLoopedCue();
+    this.notifyStateChange(session);
+    this.notifyActiveChange(session);
+    this.notifyWaitingCallChange();
+  }
+
+  // Incoming calls ringing in the background, oldest first
+  private get waitingSessions() {
+    return Array.from(this.sessions.values()).filter(
+      (s) => s !== this.session && s.role === 'callee' && s.state === 'ringing'
+    );
+  }
+
+  // Answer a waiting call. 'hold' keeps the current call on hold, 'end' hangs it up.
+  async answerWaitingCall(callId: string, current: 'hold' | 'end') {
+    const waiting = this.sessions.get(callId);
+    const active = this.session;
+    if (!waiting || waiting === active) {
+      throw new Error('No such waiting call');
+    }
+    if (active && current === 'end') {
+      this.endVoiceCall('answered-other');
+    } else if (active && active.state === 'answered') {
+      await this.holdCall();
+    }
+    await this.answerCall(callId);
+  }
+
+  // Switch to a call we put on hold, holding the current one
+  async swapToCall(callId: string) {
+    const target = this.sessions.get(callId);
+    if (!target || target === this.session) {
+      return;
+    }
+    if (this.session?.state === 'answered') {
+      await this.holdCall();
+    }
+    this.focusSession(callId);
+    if (target.heldBy === 'local') {
+      await this.resumeCall();
+    }
+  }
+
+  // Start outgoing call by loyalty_id (preferred method)
+  async startOutgoingCallByLoyaltyId(targetLoyaltyId: string, displayName: string, options: CallMediaOptions = {}) {
+    console.log('startOutgoingVoiceCallByLoyaltyId called:', {
+      targetLoyaltyId,
+      displayName,
+      video: !!options.video,
+      isInitialized: this.isInitialized,
+      deviceId: this.deviceId,
+      loyaltyId: this.loyaltyId,
+    });
+
+    if (!this.isInitialized || !this.deviceId || !this.loyaltyId) {
+      throw new Error('WebRTC not initialized. Call initWebRTCWithLoyaltyId first.');
+    }
+
+    await this.startOutgoingCall(displayName, {
+      fromDeviceId: this.deviceId,
+      fromLoyaltyId: this.loyaltyId,
+      toLoyaltyId: targetLoyaltyId,
+      callerName: displayName,
+    }, options);
+  }
+
+  // Call another loyalty_id while keeping the current calls (transfer consultation).
+  // Resolves with the session once answered.
+  async startParallelCallByLoyaltyId(targetLoyaltyId: string, displayName: string) {
+    if (!this.isInitialized || !this.deviceId || !this.loyaltyId) {
+      throw new Error('WebRTC not initialized. Call initWebRTCWithLoyaltyId first.');
+    }
+
+    return this.startOutgoingCall(displayName, {
+      fromDeviceId: this.deviceId,
+      fromLoyaltyId: this.loyaltyId,
+      toLoyaltyId: targetLoyaltyId,
+      callerName: displayName,
+    }, {}, true);
+  }
+
+  // Start outgoing call by deviceId (backward compatibility)
+  async startOutgoingCallByDeviceId(targetDeviceId: string, displayName: string, options: CallMediaOptions = {}) {
+    if (!this.isInitialized || !this.deviceId) {
+      throw new Error('WebRTC not initialized. Call initWebRTC first.');
+    }
+
+    await this.startOutgoingCall(displayName, { fromDeviceId: this.deviceId, toDeviceId: targetDeviceId }, options);
+  }
+
+  private async startOutgoingCall(
+    displayName: string,
+    target: Omit<CreateCallRequest, 'callId' | 'offer'>,
+    options: CallMediaOptions,
+    keepOthers = false
+  ) {
+    const callId = generateUUID();
+    const session = this.openSession(callId, 'caller', 'calling', displayName, keepOthers);
+    session.peerLoyaltyId = target.toLoyaltyId ?? null;
+
+    try {
+      // Start WebRTC call as caller
+      await session.setup(null, options);
+      const offer = await session.createOffer();
+
+      // Send offer to backend
+      await this.transport.startCall({ ...target, callId, offer });
+
+      console.log('✅ Web caller: Call initiated, waiting for answer...');
+      console.log('   Offer sent, callId:', callId);
+
+      await this.waitForAnswer(session);
+      console.log('✅ Web caller: Answer received and processed successfully');
+      return session;
+    } catch (e) {
+      console.error('Failed to start call:', e);
+      if (this.sessions.get(callId) === session) {
+        this.endSession(session, 'start-failed');
+      }
+      throw e;
+    }
+  }
+
+  // Wait for answer from callee via pushed events (primary) or polling (fallback)
+  private async waitForAnswer(session: CallSession): Promise<void> {
+    if (getConfig().features.httpPollingFallback) {
+      this.pollForAnswer(session).catch(() => {
+        // Ignore polling errors if pushed events work
+      });
+    }
+    try {
+      await session.waitForAnswered(30000); // 30 second timeout
+    } catch (e) {
+      // Still ringing: nobody picked up
+      if (this.sessions.get(session.callId) === session) {
+        this.endSession(session, 'no-answer');
+      }
+      throw e;
+    }
+  }
+
+  // Polling fallback for answer
+  private async pollForAnswer(session: CallSession): Promise<void> {
+    for (let i = 0; i < 30; i++) {
+      await new Promise((resolve) => setTimeout(resolve, 1000));
+      if (session.isClosed || isEstablishedState(session.state)) {
+        return; // Call ended or already answered
+      }
+
+      try {
+        const call = await this.transport.fetchCall(session.callId);
+        if (call?.answer && call.answer.sdp) {
+          console.log('pollForAnswer: Answer found by polling');
+          if (await session.applyRemoteAnswer(call.answer, 'poll')) {
+            return;
+          }
+          // Continue polling if state is not ready yet
+        }
+      } catch (e) {
+        console.warn('Error polling answer:', e);
+      }
+    }
+  }
+
+  // Send ICE candidate
+  async sendIceCandidate(callId: string, from: CallRole, candidate: RTCIceCandidate) {
+    try {
+      await this.transport.sendIceCandidate(callId, from, candidate.toJSON());
+    } catch (e) {
+      console.warn('Failed to send ICE candidate:', e);
+    }
+  }
+
+  // Send a mid-call offer or answer created by a session
+  async sendRenegotiation(callId: string, description: RTCSessionDescriptionInit, options?: RenegotiationOptions) {
+    await this.transport.sendRenegotiation(callId, description, options);
+  }
+
+  // Fetch the stored offer for a call
+  private async fetchRemoteOffer(callId: string): Promise<RTCSessionDescriptionInit | null> {
+    const call = await this.transport.fetchCall(callId);
+    return call?.offer && call.offer.sdp ? call.offer : null;
+  }
+
+  // Answer incoming call
+  async answerCall(callUUID: string) {
+    let session = this.sessions.get(callUUID) ?? null;
+    if (session) {
+      this.focusSession(callUUID);
+    }
+    console.log('answerCall called for callUUID:', callUUID, {
+      hasPc: !!session?.pc,
+      activeCallUUID: session?.callId ?? null,
+      pcSignalingState: session?.pc?.signalingState,
+    });
+
+    try {
+      // Check if peer connection exists and matches
+      if (!session || !session.pc) {
+        console.warn('Cannot answer: peer connection not ready for call', callUUID);
+        // Try to fetch offer if peer connection doesn't exist
+        const offer = await this.fetchRemoteOffer(callUUID);
+        if (!offer) {
+          throw new Error('No remote offer found for this call');
+        }
+
+        if (!session) {
+          session = this.openSession(callUUID, 'callee', 'ringing', this.session?.peerName ?? null);
+        }
+
+        // Set up peer connection with remote offer (but don't create answer yet)
+        await session.setup(offer);
+        console.log('WebRTC peer connection set up for incoming call', callUUID);
+      }
+
+      // Ensure we have remote description set
+      if (session.pc && !session.pc.remoteDescription) {
+        console.warn('No remote description set, fetching offer...');
+        const offer = await this.fetchRemoteOffer(callUUID).catch(() => null);
+        if (offer) {
+          await session.setRemoteOffer(offer);
+        }
+      }
+
+      // Create answer if not already created, and make sure it's sent
+      const answer = await session.createAnswer();
+      console.log('Sending answer...');
+      await this.transport.sendAnswer(callUUID, answer);
+      console.log('✅ Answer created and sent for call:', callUUID);
+
+      // Update call state to answered and start timer
+      session.transition('answered', 'user');
+
+      console.log('✅ Call answered successfully');
+    } catch (e: any) {
+      console.error('❌ Failed to answer call:', e);
+      const pc = session?.pc;
+      console.error('Error details:', {
+        message: e?.message,
+        pcState: pc ? {
+          signalingState: pc.signalingState,
+          connectionState: pc.connectionState,
+          iceConnectionState: pc.iceConnectionState,
+          hasRemoteDesc: !!pc.remoteDescription,
+          hasLocalDesc: !!pc.localDescription,
+        } : null,
+      });
+      if (session) {
+        this.discardSession(session, 'answer-failed');
+      }
+      throw e;
+    }
+  }
+
+  // Reject call
+  async rejectCall(callUUID: string) {
+    console.log('Rejecting call:', callUUID);
+
+    // Update call state to rejected
+    const session = this.sessions.get(callUUID) ?? null;
+    if (session) {
+      session.transition('rejected', 'user');
+    }
+
+    // Notify backend that call was rejected
+    if (this.deviceId) {
+      try {
+        await this.transport.endCall(callUUID, 'rejected');
+        console.log('Backend notified of call rejection');
+      } catch (e) {
+        console.warn('Failed to notify backend of rejection:', e);
+      }
+    }
+
+    // End the voice call and cleanup
+    if (session && this.sessions.get(callUUID) === session) {
+      session.end('rejected');
+      this.removeSession(session);
+    }
+  }
+
+  // End the focused call: release media, notify the backend and update UI state.
+  // In a conference this leaves the conference.
+  endVoiceCall(reason = 'user') {
+    if (this.session && this.conference.hasLeg(this.session.callId)) {
+      this.conference.leave(reason);
+    } else if (this.session) {
+      this.endSession(this.session, reason);
+    }
+  }
+
+  // End any of our calls by id
+  endCallById(callId: string, reason = 'user') {
+    const session = this.sessions.get(callId);
+    if (session) {
+      this.endSession(session, reason);
+    }
+  }
+
+  private endSession(session: CallSession, reason: string) {
+    if (this.sessions.get(session.callId) !== session) {
+      return;
+    }
+    this.sessions.delete(session.callId);
+    this.autoAnswerCallIds.delete(session.callId);
+    session.end(reason);
+
+    if (this.deviceId) {
+      this.transport.endCall(session.callId)
+        .catch((e) => console.warn('Failed to notify backend of call end:', e));
+    }
+
+    this.removeSession(session);
+  }
+
+  // Toggle mute (every leg in a conference)
+  toggleMute() {
+    const session = this.session;
+    if (!session) {
+      return false;
+    }
+    if (this.conference.hasLeg(session.callId)) {
+      this.conference.setSelfMuted(!session.isMuted);
+      return session.isMuted;
+    }
+    return session.toggleMute();
+  }
+
+  // Use another microphone for all calls, now and later ('' = system default)
+  async setMicrophone(deviceId: string) {
+    savePreferredMicrophone(deviceId);
+    await Promise.all(Array.from(this.sessions.values()).map((s) => s.switchMicrophone(deviceId)));
+  }
+
+  // Microphone processing for all calls, now and later; saved for the current agent
+  async setAudioProcessing(preset: AudioProcessingPreset) {
+    if (this.loyaltyId) {
+      saveAudioProcessingPreset(this.loyaltyId, preset);
+    }
+    await Promise.all(Array.from(this.sessions.values()).map((s) => s.setAudioProcessing(preset)));
+  }
+
+  getAudioProcessing() {
+    return loadAudioProcessingPreset(this.loyaltyId);
+  }
+
+  // Use another speaker for all calls, now and later ('' = system default)
+  async setSpeaker(deviceId: string) {
+    savePreferredSpeaker(deviceId);
+    await Promise.all([
+      ...Array.from(this.sessions.values()).map((s) => s.setSpeaker(deviceId)),
+      this.conference.setSpeaker(deviceId),
+    ]);
+  }
+
+  // Device lists as they change; the listener is called right away with the current ones.
+  // Returns an unsubscribe function.
+  subscribeToAudioDevices(listener: AudioDevicesListener): () => void {
+    this.audioDevicesListeners.add(listener);
+    listAudioDevices()
+      .then((devices) => {
+        if (this.audioDevicesListeners.has(listener)) {
+          listener(devices);
+        }
+      })
+      .catch((e) => console.warn('⚠️ Could not list audio devices:', e));
+    return () => {
+      this.audioDevicesListeners.delete(listener);
+    };
+  }
+
+  // A device came or went: move calls off a vanished microphone, and back to the
+  // preferred devices when they return
+  private async handleDeviceChange() {
+    const devices = await listAudioDevices();
+    console.log('🎧 Audio devices changed:', devices.inputs.length, 'inputs,', devices.outputs.length, 'outputs');
+    this.audioDevicesListeners.forEach((listener) => listener(devices));
+
+    const inputIds = devices.inputs.map((d) => d.deviceId);
+    const preferredMic = loadPreferredMicrophone();
+    const wantedMic = inputIds.includes(preferredMic) ? preferredMic : '';
+    for (const session of Array.from(this.sessions.values())) {
+      const current = session.microphoneDeviceId;
+      if (!current || (inputIds.includes(current) && (!wantedMic || current === wantedMic))) {
+        continue;
+      }
+      try {
+        await session.switchMicrophone(wantedMic);
+      } catch (e) {
+        console.warn('⚠️ Could not switch microphone after device change:', e);
+      }
+    }
+
+    const preferredSpeaker = loadPreferredSpeaker();
+    if (preferredSpeaker) {
+      const speaker = devices.outputs.some((d) => d.deviceId === preferredSpeaker) ? preferredSpeaker : '';
+      await Promise.all([
+        ...Array.from(this.sessions.values()).map((s) => s.setSpeaker(speaker)),
+        this.conference.setSpeaker(speaker),
+      ]);
+    }
+  }
+
+  // Turn the camera on/off; renegotiates the call
+  async toggleCamera() {
+    return this.session ? this.session.setVideoEnabled(!this.session.isVideoEnabled) : false;
+  }
+
+  // Switch between front and back camera
+  async switchCamera() {
+    return this.session ? this.session.switchCamera() : 'user';
+  }
+
+  // Put the current call on hold and tell the peer
+  async holdCall() {
+    const session = this.session;
+    if (!session || !(await session.hold())) {
+      return false;
+    }
+    this.transport.sendCallState(session.callId, 'held')
+      .catch((e) => console.warn('Failed to signal hold to peer:', e));
+    return true;
+  }
+
+  // Resume a call we put on hold and tell the peer
+  async resumeCall() {
+    const session = this.session;
+    if (!session || !(await session.resume())) {
+      return false;
+    }
+    this.transport.sendCallState(session.callId, 'answered')
+      .catch((e) => console.warn('Failed to signal resume to peer:', e));
+    return true;
+  }
+
+  // Send keypad digits (0-9, *, #, A-D; ',' pauses) on the current call. They go in the
+  // audio when the sender supports DTMF, over signaling otherwise.
+  async sendDtmf(digits: string) {
+    const session = this.session;
+    const valid = digits.toUpperCase().replace(/[^0-9A-D*#,]/g, '');
+    if (!session || session.state !== 'answered' || !valid) {
+      return false;
+    }
+    if (session.insertDtmf(valid)) {
+      console.log('🔢 DTMF sent in-band:', valid);
+    } else {
+      await this.transport.sendDtmf(session.callId, valid);
+    }
+    session.dtmfDigits += valid;
+    return true;
+  }
+
+  // Live captions of the current call
+  async startCaptions() {
+    const session = this.session;
+    if (session && isEstablishedState(session.state)) {
+      await session.startCaptions();
+    }
+  }
+
+  stopCaptions() {
+    this.session?.stopCaptions();
+  }
+
+  // Record the current call. The peer is told so their side can show a notice.
+  startRecording() {
+    const session = this.session;
+    if (!session || !isEstablishedState(session.state) || !this.loyaltyId) {
+      return false;
+    }
+    if (!session.startRecording(generateUUID(), this.loyaltyId)) {
+      return false;
+    }
+    this.signalRecording(session, 'started');
+    return true;
+  }
+
+  pauseRecording() {
+    const session = this.session;
+    if (session?.recording?.status === 'recording') {
+      session.recording.pause();
+      this.signalRecording(session, 'paused');
+    }
+  }
+
+  resumeRecording() {
+    const session = this.session;
+    if (session?.recording?.status === 'paused') {
+      session.recording.resume();
+      this.signalRecording(session, 'resumed');
+    }
+  }
+
+  stopRecording() {
+    const session = this.session;
+    if (session?.stopRecording()) {
+      this.signalRecording(session, 'stopped');
+    }
+  }
+
+  private signalRecording(session: CallSession, state: RecordingSignal) {
+    this.transport.sendRecordingState(session.callId, state)
+      .catch((e) => console.warn('Failed to signal recording to peer:', e));
+  }
+
+  // A recording is complete in IndexedDB (stopped, or its call ended)
+  notifyRecordingStopped(session: CallSession, meta: RecordingMeta) {
+    if (!getConfig().features.recordingUpload) {
+      return;
+    }
+    this.recordingUploads.flush(meta.ownerLoyaltyId);
+  }
+
+  // Transfer the current call to another agent without consulting them
+  async blindTransfer(targetLoyaltyId: string, targetName: string) {
+    await this.transfers.blindTransfer(targetLoyaltyId, targetName);
+  }
+
+  // Hold the current call and consult another agent before transferring
+  async startAttendedTransfer(targetLoyaltyId: string, targetName: string) {
+    await this.transfers.startAttendedTransfer(targetLoyaltyId, targetName);
+  }
+
+  async completeAttendedTransfer() {
+    await this.transfers.completeAttendedTransfer();
+  }
+
+  async cancelAttendedTransfer() {
+    await this.transfers.cancelAttendedTransfer();
+  }
+
+  // Add someone to the current call; the call becomes a conference
+  async addParticipant(loyaltyId: string, name: string) {
+    await this.conference.addParticipant(loyaltyId, name);
+  }
+
+  removeParticipant(loyaltyId: string) {
+    this.conference.removeParticipant(loyaltyId);
+  }
+
+  // Silence a conference participant for ourselves only
+  setParticipantMuted(loyaltyId: string, muted: boolean) {
+    this.conference.setParticipantMuted(loyaltyId, muted);
+  }
+
+  // Share the screen in the current call; renegotiates the call
+  async startScreenShare() {
+    return this.session ? this.session.startScreenShare() : false;
+  }
+
+  async stopScreenShare() {
+    return this.session ? this.session.stopScreenShare() : false;
+  }
+
+  // Local and remote media of the current call, for rendering video
+  getMediaStreams(): { local: MediaStream | null; remote: MediaStream | null; remoteScreen: MediaStream | null } {
+    return {
+      local: this.session?.localStream ?? null,
+      remote: this.session?.remoteStream ?? null,
+      remoteScreen: this.session?.remoteScreenStream ?? null,
+    };
+  }
+
+  // Toggle speaker (for web, this is handled by browser/OS)
+  toggleSpeaker() {
+    this.isSpeakerEnabled = !this.isSpeakerEnabled;
+    // On web, speaker is controlled by OS/browser, but we can track state
+    return this.isSpeakerEnabled;
+  }
+
+  // Get call state
+  getCallState(): CallInfo {
+    const session = this.session;
+    return {
+      state: session?.state ?? 'idle',
+      callerName: session?.peerName ?? null,
+      isMuted: session?.isMuted ?? false,
+      isSpeakerEnabled: this.isSpeakerEnabled,
+      callUUID: session?.callId ?? null,
+      isVideoEnabled: session?.isVideoEnabled ?? false,
+      hasRemoteVideo: session?.hasRemoteVideo ?? false,
+      cameraFacing: session?.cameraFacing ?? 'user',
+      isScreenSharing: session?.isScreenSharing ?? false,
+      hasRemoteScreen: session?.hasRemoteScreen ?? false,
+      heldBy: session?.heldBy ?? null,
+      heldAt: session?.heldAt ?? null,
+      reconnectingSince: session?.reconnectingSince ?? null,
+      transfer: this.transfers.info,
+      conference: this.conference.info,
+      waitingCall: toOtherCallInfo(this.waitingSessions[0]),
+      heldCall: toOtherCallInfo(
+        Array.from(this.sessions.values()).find((s) => s !== session && s.heldBy === 'local' && !this.conference.hasLeg(s.callId))
+      ),
+      dtmfDigits: session?.dtmfDigits ?? '',
+      recording: session?.recording
+        ? {
+            status: session.recording.status === 'paused' ? 'paused' : 'recording',
+            elapsedMs: session.recording.elapsedMs,
+            lostChunks: session.recording.meta.lostChunks,
+          }
+        : null,
+      remoteRecording: session?.remoteRecording ?? null,
+      captionsEnabled: session?.captionsEnabled ?? false,
+      transcript: session?.transcript ?? [],
+      speaking: session?.speaking ?? null,
+    };
+  }
+
+  // Get active call info
+  getActiveCallInfo(): {
+    isActive: boolean;
+    startedAt: number | null;
+  } {
+    const session = this.session;
+    return {
+      isActive: !!session && isEstablishedState(session.state) && session.startedAt !== null,
+      startedAt: session?.startedAt ?? null,
+    };
+  }
+
+  getCurrentUserId() {
+    return this.userId;
+  }
+
+  getCurrentLoyaltyId() {
+    return this.loyaltyId;
+  }
+
+  setCallStateChangeCallback(callback: CallStateChangeCallback) {
+    this.onCallStateChange = callback;
+  }
+
+  setCallActiveChangeCallback(callback: CallActiveChangeCallback) {
+    this.onCallActiveChange = callback;
+  }
+
+  setTransferChangeCallback(callback: TransferChangeCallback) {
+    this.onTransferChange = callback;
+  }
+
+  setConferenceChangeCallback(callback: ConferenceChangeCallback) {
+    this.onConferenceChange = callback;
+  }
+
+  // Called by the conference manager when the roster or a leg changes
+  notifyConferenceChange() {
+    this.onConferenceChange?.(this.conference.info);
+  }
+
+  // Called by the transfer manager when a transfer makes progress
+  notifyTransferChange(transfer: TransferInfo) {
+    this.onTransferChange?.(transfer);
+  }
+
+  // Called by sessions when their UI state changes
+  notifyStateChange(session: CallSession) {
+    if (session === this.session) {
+      this.persistFocusedCall();
+      this.onCallStateChange?.(session.state, session.peerName);
+    } else {
+      this.notifyWaitingCallChange();
+    }
+  }
+
+  setWaitingCallChangeCallback(callback: WaitingCallChangeCallback) {
+    this.onWaitingCallChange = callback;
+  }
+
+  private notifyWaitingCallChange() {
+    this.onWaitingCallChange?.(toOtherCallInfo(this.waitingSessions[0]));
+  }
+
+  // Called by sessions for every accepted transition; drives the call sounds
+  notifyTransition(session: CallSession, transition: CallTransition) {
+    if (session !== this.session) {
+      return;
+    }
+    const { from, to, reason } = transition;
+    if (to === 'rejected' && session.role === 'caller') {
+      this.cues.play('busy');
+    } else if (to === 'ended' && isEstablishedState(from)) {
+      this.cues.play('ended');
+    } else if (to === 'ended' && from === 'calling' && reason !== 'user' && reason !== 'replaced') {
+      // Nobody answered, or the call could not be placed
+      this.cues.play('busy');
+    }
+    // A call restored after a reload was not placed again; it must not ring
+    if (reason !== 'rejoin') {
+      this.updateLoopedCue();
+    }
+  }
+
+  // Ringtone while the shown call rings, ringback while it is being placed
+  private updateLoopedCue() {
+    const session = this.session;
+    if (session?.state === 'ringing' && !this.autoAnswerCallIds.has(session.callId)) {
+      this.cues.startLoop('ringtone');
+    } else if (session?.state === 'calling') {
+      this.cues.startLoop('ringback');
+    } else {
+      this.cues.stopLoop();
+    }
+  }
+
+  // Called by sessions whose incoming call stopped ringing unanswered
+  notifyMissedCall(session: CallSession) {
+    if (!this.loyaltyId || this.autoAnswerCallIds.has(session.callId)) {
+      return;
+    }
+    const name = session.peerName || session.peerLoyaltyId || 'Unknown';
+    console.log('📵 Missed call from:', name, 'call:', session.callId);
+    addMissedCall(this.loyaltyId, {
+      callId: session.callId,
+      peerLoyaltyId: session.peerLoyaltyId,
+      peerName: session.peerName,
+      at: Date.now(),
+      seen: false,
+    });
+    this.onMissedCallsChange?.(this.getMissedCalls());
+
+    // Uses the permission requested in init()
+    if ('Notification' in window && Notification.permission === 'granted') {
+      const notification = new Notification('Missed Call', {
+        body: `Missed call from ${name}`,
+        tag: `missed-${session.callId}`,
+      });
+      notification.onclick = () => {
+        window.focus();
+        notification.close();
+      };
+    }
+  }
+
+  // Missed calls of the logged-in agent, newest first
+  getMissedCalls(): MissedCall[] {
+    return this.loyaltyId ? loadMissedCalls(this.loyaltyId) : [];
+  }
+
+  // The agent opened the missed calls list
+  markMissedCallsSeen() {
+    if (this.loyaltyId) {
+      markMissedCallsSeen(this.loyaltyId);
+      this.onMissedCallsChange?.(this.getMissedCalls());
+    }
+  }
+
+  dismissMissedCall(callId: string) {
+    if (this.loyaltyId) {
+      removeMissedCall(this.loyaltyId, callId);
+      this.onMissedCallsChange?.(this.getMissedCalls());
+    }
+  }
+
+  setMissedCallsChangeCallback(callback: MissedCallsChangeCallback) {
+    this.onMissedCallsChange = callback;
+  }
+
+  notifyActiveChange(session: CallSession) {
+    if (session === this.session) {
+      this.onCallActiveChange?.(isEstablishedState(session.state), session.startedAt);
+    }
+  }
+
+  // Latest quality sample of the current call
+  getCallStats(): CallStats | null {
+    return this.session?.stats.latest ?? null;
+  }
+
+  // Quality samples of the current call, about once a second; null when the shown
+  // call changes to one without stats. Returns an unsubscribe function.
+  subscribeToCallStats(listener: CallStatsListener): () => void {
+    this.statsListeners.add(listener);
+    listener(this.getCallStats());
+    return () => {
+      this.statsListeners.delete(listener);
+    };
+  }
+
+  // Called by sessions with every stats sample
+  notifyStats(session: CallSession, stats: CallStats) {
+    if (session === this.session) {
+      this.emitStats(stats);
+    }
+  }
+
+  private emitStats(stats: CallStats | null) {
+    this.statsListeners.forEach((listener) => listener(stats));
+  }
+}
+
+function toOtherCallInfo(session: CallSession | undefined): OtherCallInfo | null {
+  return session ? { callUUID: session.callId, callerName: session.peerName } : null;
+}
@@ -0,0 +1,96 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { historyEntryFor } from './call-history';
+import type { CallRole, CallSession } from './call-session';
+import { CallStateMachine, type CallState } from './call-state-machine';
+
+// The parts of a CallSession the history reads, after these transitions
+function fakeSession(role: CallRole, steps: Array<[CallState, string]>, endReason: string | null = null) {
+  const machine = new CallStateMachine();
+  steps.forEach(([state, reason]) => machine.transition(state, reason));
+  const session = {
+    callId: 'call-1',
+    role,
+    machine,
+    get state() {
+      return machine.state;
+    },
+    get startedAt() {
+      return machine.startedAt;
+    },
+    endReason,
+    peerLoyaltyId: 'peer',
+    peerName: 'Peer',
+    dtmfDigits: '',
+    transcript: [],
+    talkTime: null,
+  };
+  return session as unknown as CallSession;
+}
+
+const outcomeOf = (session: CallSession) => historyEntryFor(session, 'me').outcome;
+
+describe('call history outcomes', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  it('records an answered call with its duration', () => {
+    vi.useFakeTimers();
+    try {
+      vi.setSystemTime(1000);
+      const session = fakeSession('caller', [['calling', 'user']]);
+      vi.setSystemTime(3000);
+      session.machine.transition('answered', 'signaling:answer');
+      vi.setSystemTime(63000);
+      session.machine.transition('ended', 'user');
+      expect(historyEntryFor(session, 'me')).toMatchObject({
+        direction: 'outgoing',
+        outcome: 'answered',
+        startedAt: 1000,
+        answeredAt: 3000,
+        endedAt: 63000,
+        durationSec: 60,
+      });
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  describe('outgoing', () => {
+    it('is rejected when the peer declines', () => {
+      expect(outcomeOf(fakeSession('caller', [['calling', 'user'], ['rejected', 'signaling:call-state']], 'signaling:call-state'))).toBe('rejected');
+    });
+
+    it('is missed when it rings out', () => {
+      expect(outcomeOf(fakeSession('caller', [['calling', 'user'], ['ended', 'no-answer']], 'no-answer'))).toBe('missed');
+    });
+
+    it('is missed when we hang up while it rings', () => {
+      expect(outcomeOf(fakeSession('caller', [['calling', 'user'], ['ended', 'user']], 'user'))).toBe('missed');
+    });
+
+    it.each(['start-failed', 'offer-failed', 'connection-lost'])('failed when it ends with %s', (reason) => {
+      expect(outcomeOf(fakeSession('caller', [['calling', 'user'], ['ended', reason]], reason))).toBe('failed');
+    });
+  });
+
+  describe('incoming', () => {
+    it('is missed when the caller gives up or it rings out', () => {
+      const session = fakeSession('callee', [['ringing', 'signaling:offer'], ['ended', 'signaling:call-state']], 'signaling:call-state');
+      expect(outcomeOf(session)).toBe('missed');
+    });
+
+    it('is rejected when we decline it', () => {
+      expect(outcomeOf(fakeSession('callee', [['ringing', 'signaling:offer'], ['rejected', 'user']], 'rejected'))).toBe('rejected');
+    });
+
+    it.each(['user', 'replaced'])('is rejected when we hang up on it (%s)', (reason) => {
+      expect(outcomeOf(fakeSession('callee', [['ringing', 'signaling:offer'], ['ended', reason]], reason))).toBe('rejected');
+    });
+
+    it('failed when answering fails', () => {
+      const session = fakeSession('callee', [['ringing', 'signaling:offer'], ['ended', 'answer-failed']], 'answer-failed');
+      expect(outcomeOf(session)).toBe('failed');
+    });
+  });
+});
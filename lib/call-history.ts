@@ -0,0 +1,122 @@
+// Call history: every finished call is stored in IndexedDB, and shown merged with
+// the backend's history (calls made on other devices, or before this browser).
+
+import type { CallSession } from './call-session';
+import type { TranscriptSegment } from './call-transcriber';
+import { getCallHistory } from './calls-api';
+import { dbEntries, dbPut } from './local-db';
+import type { TalkTimeSummary } from './voice-activity';
+
+export type CallDirection = 'incoming' | 'outgoing';
+// The outcomes the backend's /history uses too. 'missed' is a call that rang and was
+// not picked up: by us when incoming, by the peer (or we hung up first) when outgoing.
+// 'failed' is only for calls that could not be set up.
+export type CallOutcome = 'answered' | 'rejected' | 'missed' | 'failed';
+
+export interface CallHistoryEntry {
+  callId: string;
+  // Whose history this is; several agents may log in on one browser
+  ownerLoyaltyId: string;
+  direction: CallDirection;
+  peerLoyaltyId: string | null;
+  peerName: string | null;
+  startedAt: number;
+  answeredAt: number | null;
+  endedAt: number;
+  durationSec: number;
+  outcome: CallOutcome;
+  // Keypad digits sent during the call; absent when none were (or on older entries)
+  dtmfDigits?: string;
+  // Captions taken during the call, if they were on
+  transcript?: TranscriptSegment[];
+  // Talk-time analytics of an answered call
+  talkTime?: TalkTimeSummary;
+}
+
+// End reasons of calls that could not be set up on our side
+const FAILURE_REASONS = ['start-failed', 'offer-failed', 'answer-failed', 'rejoin-failed', 'connection-lost'];
+// We hung up, or started another call, before an incoming call was answered
+const HANG_UP_REASONS = ['user', 'replaced'];
+
+function outcomeOf(session: CallSession): CallOutcome {
+  if (session.startedAt !== null) {
+    return 'answered';
+  }
+  // The peer declined our call
+  if (session.state === 'rejected') {
+    return 'rejected';
+  }
+  const reason = session.endReason ?? '';
+  if (FAILURE_REASONS.includes(reason)) {
+    return 'failed';
+  }
+  if (session.role === 'caller') {
+    // It rang out, or we hung up while it rang
+    return 'missed';
+  }
+  // Incoming: we declined it, or the caller gave up / it rang out
+  return reason === 'rejected' || HANG_UP_REASONS.includes(reason) ? 'rejected' : 'missed';
+}
+
+// History entry for a session that just ended
+export function historyEntryFor(session: CallSession, ownerLoyaltyId: string): CallHistoryEntry {
+  const timeline = session.machine.history;
+  const endedAt = timeline.length > 0 ? timeline[timeline.length - 1].at : Date.now();
+  // A call rejoined after a reload has no transitions from before the reload
+  const startedAt = Math.min(timeline[0]?.at ?? endedAt, session.startedAt ?? endedAt);
+  return {
+    callId: session.callId,
+    ownerLoyaltyId,
+    direction: session.role === 'caller' ? 'outgoing' : 'incoming',
+    peerLoyaltyId: session.peerLoyaltyId,
+    peerName: session.peerName,
+    startedAt,
+    answeredAt: session.startedAt,
+    endedAt,
+    durationSec: session.startedAt !== null ? Math.max(0, Math.round((endedAt - session.startedAt) / 1000)) : 0,
+    outcome: outcomeOf(session),
+    ...(session.dtmfDigits ? { dtmfDigits: session.dtmfDigits } : {}),
+    ...(session.transcript.length > 0 ? { transcript: [...session.transcript] } : {}),
+    ...(session.talkTime ? { talkTime: session.talkTime } : {}),
+  };
+}
+
+export async function recordCall(entry: CallHistoryEntry) {
+  try {
+    await dbPut('callHistory', entry);
+  } catch (e) {
+    console.warn('⚠️ Could not save call to history:', e);
+  }
+}
+
+async function loadLocalHistory(loyaltyId: string) {
+  try {
+    const entries = await dbEntries<CallHistoryEntry>('callHistory');
+    return entries.map((e) => e.value).filter((entry) => entry.ownerLoyaltyId === loyaltyId);
+  } catch (e) {
+    console.warn('⚠️ Could not read local call history:', e);
+    return [];
+  }
+}
+
+async function loadRemoteHistory(loyaltyId: string) {
+  try {
+    const entries = await getCallHistory(loyaltyId);
+    return entries
+      .filter((entry) => typeof entry.callId === 'string' && typeof entry.startedAt === 'number')
+      .map((entry) => ({ ...entry, ownerLoyaltyId: loyaltyId }));
+  } catch (e) {
+    console.warn('⚠️ Could not fetch call history from backend:', e);
+    return [];
+  }
+}
+
+// Local and backend history, newest first. For calls known to both the local
+// entry wins: it was recorded by this side of the call.
+export async function loadCallHistory(loyaltyId: string): Promise<CallHistoryEntry[]> {
+  const [local, remote] = await Promise.all([loadLocalHistory(loyaltyId), loadRemoteHistory(loyaltyId)]);
+  const merged = new Map<string, CallHistoryEntry>();
+  remote.forEach((entry) => merged.set(entry.callId, entry));
+  local.forEach((entry) => merged.set(entry.callId, { ...merged.get(entry.callId), ...entry }));
+  return Array.from(merged.values()).sort((a, b) => b.startedAt - a.startedAt);
+}
@@ -0,0 +1,69 @@
+// What survives a page reload
+//
+// The device ID lives in localStorage so the backend keeps routing this browser's
+// calls to the same device. The active call lives in sessionStorage (per tab) so a
+// reload can rejoin it, see CallClient.rejoinPersistedCall().
+
+import type { CallRole } from './call-session';
+
+const DEVICE_ID_KEY = 'webDeviceId';
+const ACTIVE_CALL_KEY = 'webActiveCall';
+
+export interface PersistedCall {
+  callId: string;
+  role: CallRole;
+  // Our identity when the call was saved; another login must not rejoin it
+  loyaltyId: string;
+  peerName: string | null;
+  peerLoyaltyId: string | null;
+  // When the call was answered, to restore the call timer
+  startedAt: number;
+}
+
+export function loadDeviceId(): string | null {
+  try {
+    return localStorage.getItem(DEVICE_ID_KEY);
+  } catch {
+    return null;
+  }
+}
+
+export function saveDeviceId(deviceId: string) {
+  try {
+    localStorage.setItem(DEVICE_ID_KEY, deviceId);
+  } catch (e) {
+    console.warn('Could not persist device ID:', e);
+  }
+}
+
+export function loadActiveCall(loyaltyId: string): PersistedCall | null {
+  try {
+    const raw = sessionStorage.getItem(ACTIVE_CALL_KEY);
+    if (!raw) {
+      return null;
+    }
+    const call = JSON.parse(raw) as PersistedCall;
+    if (typeof call.callId !== 'string' || typeof call.startedAt !== 'number' || call.loyaltyId !== loyaltyId) {
+      return null;
+    }
+    return call;
+  } catch {
+    return null;
+  }
+}
+
+export function saveActiveCall(call: PersistedCall) {
+  try {
+    sessionStorage.setItem(ACTIVE_CALL_KEY, JSON.stringify(call));
+  } catch (e) {
+    console.warn('Could not persist active call:', e);
+  }
+}
+
+export function clearActiveCall() {
+  try {
+    sessionStorage.removeItem(ACTIVE_CALL_KEY);
+  } catch {
+    // Storage unavailable; nothing was saved either
+  }
+}
@@ -0,0 +1,334 @@
+// Client-side call recording for QA.
+//
+// Our microphone and the remote audio are mixed with WebAudio and captured by
+// MediaRecorder in one-second chunks. Every chunk goes straight to IndexedDB, so a
+// crash or reload loses at most the last second; the interrupted recording is closed
+// on the next start and can still be exported.
+//
+// Recordings are exported as WebM/Opus (as recorded) or WAV (decoded), and uploaded
+// chunk by chunk when the recordingUpload feature is on (see recording-uploader.ts).
+
+import { completeRecordingUpload, postRecordingChunk } from './calls-api';
+import { dbDelete, dbEntries, dbGet, dbPut } from './local-db';
+
+export type RecordingStatus = 'recording' | 'paused' | 'stopped';
+export type RecordingFormat = 'webm' | 'wav';
+
+export interface RecordingMeta {
+  recordingId: string;
+  callId: string;
+  // Whose recording this is; several agents may log in on one browser
+  ownerLoyaltyId: string;
+  peerLoyaltyId: string | null;
+  peerName: string | null;
+  mimeType: string;
+  startedAt: number;
+  endedAt: number | null;
+  // Recorded time, pauses excluded
+  durationMs: number;
+  // Chunks stored; seq numbers have gaps where a chunk could not be stored
+  chunkCount: number;
+  // Chunks lost because IndexedDB refused them (quota, private mode)
+  lostChunks: number;
+  size: number;
+  status: RecordingStatus;
+  // Cut short by a crash or reload rather than stopped
+  interrupted: boolean;
+  // Last written by the recording tab; an open recording not saved for a while is dead
+  savedAt: number;
+  // Seq of the last chunk the backend has accepted, -1 for none; see uploadRecording()
+  lastUploadedSeq: number;
+  uploaded: boolean;
+}
+
+interface RecordingChunk {
+  recordingId: string;
+  seq: number;
+  data: Blob;
+}
+
+const CHUNK_MS = 1000;
+// An open recording is saved this often, even while paused, to show it is alive
+const HEARTBEAT_MS = 5000;
+const STALE_MS = 3 * HEARTBEAT_MS;
+// In order of preference; Safari has none of them and records mp4
+const MIME_TYPES = ['audio/webm;codecs=opus', 'audio/webm', 'audio/ogg;codecs=opus'];
+
+export function canRecordCalls() {
+  return typeof MediaRecorder !== 'undefined' && typeof AudioContext !== 'undefined';
+}
+
+function pickMimeType() {
+  return MIME_TYPES.find((type) => MediaRecorder.isTypeSupported(type)) ?? '';
+}
+
+function chunkRange(recordingId: string) {
+  return IDBKeyRange.bound([recordingId, 0], [recordingId, Infinity]);
+}
+
+export class CallRecorder {
+  readonly meta: RecordingMeta;
+  private context = new AudioContext();
+  private destination = this.context.createMediaStreamDestination();
+  // Mixer inputs by track id
+  private sources = new Map<string, MediaStreamAudioSourceNode>();
+  private recorder: MediaRecorder;
+  // Chunk and metadata writes, in order
+  private writes: Promise<unknown> = Promise.resolve();
+  // Start of the current unpaused stretch
+  private resumedAt: number | null = null;
+  private nextSeq = 0;
+  private heartbeat: ReturnType<typeof setInterval> | null = null;
+  private stopping: Promise<RecordingMeta> | null = null;
+  private onStopped: (meta: RecordingMeta) => void;
+
+  constructor(
+    info: Pick<RecordingMeta, 'recordingId' | 'callId' | 'ownerLoyaltyId' | 'peerLoyaltyId' | 'peerName'>,
+    onStopped: (meta: RecordingMeta) => void
+  ) {
+    this.onStopped = onStopped;
+    const mimeType = pickMimeType();
+    this.recorder = new MediaRecorder(this.destination.stream, mimeType ? { mimeType } : undefined);
+    this.meta = {
+      ...info,
+      mimeType: this.recorder.mimeType || mimeType || 'audio/webm',
+      startedAt: Date.now(),
+      endedAt: null,
+      durationMs: 0,
+      chunkCount: 0,
+      lostChunks: 0,
+      size: 0,
+      status: 'recording',
+      interrupted: false,
+      savedAt: Date.now(),
+      lastUploadedSeq: -1,
+      uploaded: false,
+    };
+    this.recorder.ondataavailable = (event) => this.storeChunk(event.data);
+  }
+
+  get status() {
+    return this.meta.status;
+  }
+
+  // Recorded time so far, pauses excluded
+  get elapsedMs() {
+    return this.meta.durationMs + (this.resumedAt !== null ? Date.now() - this.resumedAt : 0);
+  }
+
+  start(streams: MediaStream[]) {
+    this.setStreams(streams);
+    this.recorder.start(CHUNK_MS);
+    this.resumedAt = Date.now();
+    this.heartbeat = setInterval(() => this.save(), HEARTBEAT_MS);
+    this.save();
+    console.log('🔴 Recording started:', this.meta.recordingId, this.meta.mimeType);
+  }
+
+  // Mix the audio tracks of these streams, e.g. after the microphone was switched
+  setStreams(streams: MediaStream[]) {
+    const tracks = streams.flatMap((stream) => stream.getAudioTracks());
+    this.sources.forEach((source, trackId) => {
+      if (!tracks.some((track) => track.id === trackId)) {
+        source.disconnect();
+        this.sources.delete(trackId);
+      }
+    });
+    tracks.forEach((track) => {
+      if (!this.sources.has(track.id)) {
+        const source = this.context.createMediaStreamSource(new MediaStream([track]));
+        source.connect(this.destination);
+        this.sources.set(track.id, source);
+      }
+    });
+  }
+
+  pause() {
+    if (this.recorder.state !== 'recording') {
+      return;
+    }
+    this.recorder.pause();
+    this.meta.durationMs = this.elapsedMs;
+    this.resumedAt = null;
+    this.meta.status = 'paused';
+    this.save();
+  }
+
+  resume() {
+    if (this.recorder.state !== 'paused') {
+      return;
+    }
+    this.recorder.resume();
+    this.resumedAt = Date.now();
+    this.meta.status = 'recording';
+    this.save();
+  }
+
+  // Finish the recording once the last chunk is stored; safe to call more than once
+  stop(): Promise<RecordingMeta> {
+    if (!this.stopping) {
+      this.stopping = this.finish();
+    }
+    return this.stopping;
+  }
+
+  private async finish() {
+    if (this.heartbeat) {
+      clearInterval(this.heartbeat);
+      this.heartbeat = null;
+    }
+    if (this.recorder.state !== 'inactive') {
+      const stopped = new Promise<void>((resolve) => {
+        this.recorder.onstop = () => resolve();
+      });
+      this.recorder.stop();
+      await stopped;
+    }
+    this.meta.durationMs = this.elapsedMs;
+    this.resumedAt = null;
+    this.meta.endedAt = Date.now();
+    this.meta.status = 'stopped';
+    this.save();
+    await this.writes;
+
+    this.sources.forEach((source) => source.disconnect());
+    this.sources.clear();
+    this.context.close().catch(() => {});
+    console.log('⏹️ Recording stopped:', this.meta.recordingId, Math.round(this.meta.durationMs / 1000), 's');
+    this.onStopped(this.meta);
+    return this.meta;
+  }
+
+  private storeChunk(data: Blob) {
+    if (data.size === 0) {
+      return;
+    }
+    const chunk: RecordingChunk = { recordingId: this.meta.recordingId, seq: this.nextSeq++, data };
+    this.writes = this.writes
+      .then(() => dbPut('recordingChunks', chunk))
+      .then(() => {
+        this.meta.chunkCount += 1;
+        this.meta.size += data.size;
+      })
+      .catch((e) => {
+        // The recording goes on with a gap; the count is kept with it and shown to the agent
+        this.meta.lostChunks += 1;
+        console.error('❌ Could not store recording chunk', chunk.seq, e);
+      });
+    this.save();
+  }
+
+  // Queued after the pending chunk writes, so it stores their counts
+  private save() {
+    this.writes = this.writes
+      .then(() => dbPut('recordings', { ...this.meta, durationMs: this.elapsedMs, savedAt: Date.now() }))
+      .catch((e) => console.warn('⚠️ Could not store recording:', e));
+  }
+}
+
+// Newest first
+export async function loadRecordings(ownerLoyaltyId: string): Promise<RecordingMeta[]> {
+  const entries = await dbEntries<RecordingMeta>('recordings');
+  return entries
+    .map((e) => e.value)
+    .filter((meta) => meta.ownerLoyaltyId === ownerLoyaltyId)
+    .sort((a, b) => b.startedAt - a.startedAt);
+}
+
+// Close recordings left open by a crash or reload (they keep what reached IndexedDB).
+// A recording still saved recently is being made in another tab and is left to it.
+export async function settleRecordings(ownerLoyaltyId: string) {
+  const recordings = await loadRecordings(ownerLoyaltyId);
+  for (const meta of recordings) {
+    if (meta.status === 'stopped' || Date.now() - meta.savedAt < STALE_MS) {
+      continue;
+    }
+    meta.status = 'stopped';
+    meta.interrupted = true;
+    meta.endedAt = meta.startedAt + meta.durationMs;
+    await dbPut('recordings', meta);
+    console.log('🔴 Closed interrupted recording:', meta.recordingId);
+  }
+}
+
+async function loadChunks(recordingId: string) {
+  const entries = await dbEntries<RecordingChunk>('recordingChunks', chunkRange(recordingId));
+  return entries.map((e) => e.value);
+}
+
+export async function exportRecording(recordingId: string, format: RecordingFormat): Promise<Blob> {
+  const meta = await dbGet<RecordingMeta>('recordings', recordingId);
+  if (!meta) {
+    throw new Error('Recording not found: ' + recordingId);
+  }
+  const chunks = await loadChunks(recordingId);
+  const recorded = new Blob(chunks.map((c) => c.data), { type: meta.mimeType });
+  if (format === 'webm') {
+    return recorded;
+  }
+  const context = new AudioContext();
+  try {
+    return encodeWav(await context.decodeAudioData(await recorded.arrayBuffer()));
+  } finally {
+    context.close().catch(() => {});
+  }
+}
+
+export async function deleteRecording(recordingId: string) {
+  await dbDelete('recordingChunks', chunkRange(recordingId));
+  await dbDelete('recordings', recordingId);
+}
+
+// Upload the chunks the backend has not accepted yet, then mark the recording complete.
+// Progress is kept in the metadata so an interrupted upload resumes where it stopped;
+// it goes by seq, since lost chunks leave gaps.
+export async function uploadRecording(meta: RecordingMeta) {
+  const chunks = await loadChunks(meta.recordingId);
+  for (const chunk of chunks.filter((c) => c.seq > meta.lastUploadedSeq)) {
+    await postRecordingChunk(meta.callId, meta.recordingId, chunk.seq, chunk.data);
+    meta.lastUploadedSeq = chunk.seq;
+    await dbPut('recordings', meta);
+  }
+  await completeRecordingUpload(meta.callId, meta);
+  meta.uploaded = true;
+  await dbPut('recordings', meta);
+  console.log('📤 Recording uploaded:', meta.recordingId);
+}
+
+// 16-bit PCM WAV of a decoded recording
+function encodeWav(buffer: AudioBuffer): Blob {
+  const channels = buffer.numberOfChannels;
+  const frames = buffer.length;
+  const dataSize = frames * channels * 2;
+  const view = new DataView(new ArrayBuffer(44 + dataSize));
+  const writeString = (offset: number, text: string) => {
+    for (let i = 0; i < text.length; i++) {
+      view.setUint8(offset + i, text.charCodeAt(i));
+    }
+  };
+
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + dataSize, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true);
+  view.setUint16(22, channels, true);
+  view.setUint32(24, buffer.sampleRate, true);
+  view.setUint32(28, buffer.sampleRate * channels * 2, true);
+  view.setUint16(32, channels * 2, true);
+  view.setUint16(34, 16, true);
+  writeString(36, 'data');
+  view.setUint32(40, dataSize, true);
+
+  const data = Array.from({ length: channels }, (_, c) => buffer.getChannelData(c));
+  let offset = 44;
+  for (let i = 0; i < frames; i++) {
+    for (let c = 0; c < channels; c++) {
+      const sample = Math.max(-1, Math.min(1, data[c][i]));
+      view.setInt16(offset, sample < 0 ? sample * 0x8000 : sample * 0x7fff, true);
+      offset += 2;
+    }
+  }
+  return new Blob([view], { type: 'audio/wav' });
+}
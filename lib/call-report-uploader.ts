@@ -0,0 +1,93 @@
+// Uploads post-call reports. A report that cannot be uploaded (offline, backend
+// down) is kept in IndexedDB and retried with backoff, when the browser comes back
+// online, and on the next start of the app.
+
+import type { CallReport } from './call-report';
+import { postCallReport } from './calls-api';
+import { dbDelete, dbEntries, dbPut } from './local-db';
+
+const FIRST_RETRY_MS = 30 * 1000;
+const MAX_RETRY_MS = 10 * 60 * 1000;
+
+export class CallReportUploader {
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private retryDelay = FIRST_RETRY_MS;
+  private flushing: Promise<void> | null = null;
+  private listening = false;
+
+  async submit(report: CallReport) {
+    try {
+      await postCallReport(report.callId, report);
+      console.log('📊 Call report uploaded:', report.callId);
+    } catch (e) {
+      console.warn('⚠️ Call report upload failed, queueing for retry:', e);
+      try {
+        await dbPut('pendingReports', report);
+      } catch (dbError) {
+        console.warn('⚠️ Could not queue call report, it is lost:', dbError);
+        return;
+      }
+      this.scheduleRetry();
+    }
+  }
+
+  // Upload queued reports; safe to call any time
+  flush(): Promise<void> {
+    this.listenForOnline();
+    if (!this.flushing) {
+      this.flushing = this.uploadQueued().finally(() => {
+        this.flushing = null;
+      });
+    }
+    return this.flushing;
+  }
+
+  private async uploadQueued() {
+    let entries: Array<{ key: IDBValidKey; value: CallReport }>;
+    try {
+      entries = await dbEntries<CallReport>('pendingReports');
+    } catch (e) {
+      console.warn('⚠️ Could not read queued call reports:', e);
+      return;
+    }
+    if (entries.length === 0) {
+      return;
+    }
+
+    console.log('📊 Uploading', entries.length, 'queued call reports');
+    for (const { key, value } of entries) {
+      try {
+        await postCallReport(value.callId, value);
+      } catch (e) {
+        console.warn('⚠️ Queued call report upload failed:', e);
+        this.scheduleRetry();
+        return;
+      }
+      await dbDelete('pendingReports', key).catch(() => {});
+    }
+    this.retryDelay = FIRST_RETRY_MS;
+  }
+
+  private scheduleRetry() {
+    if (this.retryTimer) {
+      return;
+    }
+    const delay = this.retryDelay;
+    this.retryDelay = Math.min(this.retryDelay * 2, MAX_RETRY_MS);
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      this.flush();
+    }, delay);
+  }
+
+  private listenForOnline() {
+    if (this.listening || typeof window === 'undefined') {
+      return;
+    }
+    this.listening = true;
+    window.addEventListener('online', () => {
+      this.retryDelay = FIRST_RETRY_MS;
+      this.flush();
+    });
+  }
+}
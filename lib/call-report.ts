@@ -0,0 +1,180 @@
+// Post-call diagnostics report.
+//
+// Each CallSession keeps a CallDiagnostics while the call runs: the ICE candidates
+// gathered on both sides, every stats sample (aggregated, not stored) and when the
+// first offer was made or received. At teardown it is turned into a CallReport
+// together with the state machine's timeline, see call-report-uploader.ts.
+
+import type { CallRole } from './call-session';
+import type { CallState, CallTransition } from './call-state-machine';
+import type { CallQualityWarning, CallStats, CandidateType } from './call-stats';
+import type { TalkTimeSummary } from './voice-activity';
+
+export interface MetricSummary {
+  avg: number;
+  min: number;
+  max: number;
+}
+
+export interface CallStatsSummary {
+  samples: number;
+  rttMs: MetricSummary | null;
+  jitterMs: MetricSummary | null;
+  packetLossPercent: MetricSummary | null;
+  inboundBitrateKbps: MetricSummary | null;
+  outboundBitrateKbps: MetricSummary | null;
+  mos: MetricSummary | null;
+  // Seconds each warning was active
+  warningSeconds: Partial<Record<CallQualityWarning, number>>;
+}
+
+export interface CallReport {
+  callId: string;
+  role: CallRole;
+  loyaltyId: string | null;
+  peerLoyaltyId: string | null;
+  finalState: CallState;
+  endReason: string;
+  // First offer made (caller) or received (callee)
+  offerAt: number | null;
+  answeredAt: number | null;
+  endedAt: number;
+  // Offer -> answered; includes the time the callee's phone was ringing
+  setupLatencyMs: number | null;
+  durationMs: number;
+  timeline: CallTransition[];
+  ice: {
+    // Candidates per type, e.g. { host: 2, srflx: 1 }
+    localCandidates: Partial<Record<CandidateType, number>>;
+    remoteCandidates: Partial<Record<CandidateType, number>>;
+    // Of the pair carrying media at the end of the call (or when last seen)
+    selectedLocalType: CandidateType | null;
+    selectedRemoteType: CandidateType | null;
+    turnServer: string | null;
+  };
+  stats: CallStatsSummary | null;
+  // Who talked how much, see voice-activity.ts; null when not detected
+  talkTime: TalkTimeSummary | null;
+}
+
+class MetricAccumulator {
+  private count = 0;
+  private sum = 0;
+  private min = Infinity;
+  private max = -Infinity;
+
+  add(value: number | null) {
+    if (value === null || !Number.isFinite(value)) {
+      return;
+    }
+    this.count++;
+    this.sum += value;
+    this.min = Math.min(this.min, value);
+    this.max = Math.max(this.max, value);
+  }
+
+  get summary(): MetricSummary | null {
+    if (this.count === 0) {
+      return null;
+    }
+    const round = (v: number) => Math.round(v * 100) / 100;
+    return { avg: round(this.sum / this.count), min: round(this.min), max: round(this.max) };
+  }
+}
+
+export class CallDiagnostics {
+  private offerAt: number | null = null;
+  private localCandidates: Partial<Record<CandidateType, number>> = {};
+  private remoteCandidates: Partial<Record<CandidateType, number>> = {};
+  private selectedLocalType: CandidateType | null = null;
+  private selectedRemoteType: CandidateType | null = null;
+  private turnServer: string | null = null;
+  private samples = 0;
+  private readonly rtt = new MetricAccumulator();
+  private readonly jitter = new MetricAccumulator();
+  private readonly loss = new MetricAccumulator();
+  private readonly inbound = new MetricAccumulator();
+  private readonly outbound = new MetricAccumulator();
+  private readonly mos = new MetricAccumulator();
+  private warningSeconds: Partial<Record<CallQualityWarning, number>> = {};
+
+  // Only the first offer counts; later ones are renegotiations
+  markOffer() {
+    this.offerAt ??= Date.now();
+  }
+
+  addLocalCandidate(candidate: RTCIceCandidate) {
+    if (candidate.type) {
+      count(this.localCandidates, candidate.type);
+    }
+  }
+
+  addRemoteCandidate(candidate: RTCIceCandidateInit) {
+    // e.g. "candidate:1 1 udp 2122260223 192.168.1.2 54321 typ host ..."
+    const type = candidate.candidate?.match(/ typ (host|srflx|prflx|relay)/)?.[1] as CandidateType | undefined;
+    if (type) {
+      count(this.remoteCandidates, type);
+    }
+  }
+
+  addStats(stats: CallStats) {
+    this.samples++;
+    this.rtt.add(stats.rttMs);
+    this.jitter.add(stats.jitterMs);
+    this.loss.add(stats.packetLossPercent);
+    this.inbound.add(stats.inboundBitrateKbps);
+    this.outbound.add(stats.outboundBitrateKbps);
+    this.mos.add(stats.mos);
+    stats.warnings.forEach((warning) => {
+      this.warningSeconds[warning] = (this.warningSeconds[warning] ?? 0) + 1;
+    });
+    if (stats.localCandidateType) {
+      this.selectedLocalType = stats.localCandidateType;
+      this.selectedRemoteType = stats.remoteCandidateType;
+      this.turnServer = stats.turnServer;
+    }
+  }
+
+  buildReport(call: {
+    callId: string;
+    role: CallRole;
+    loyaltyId: string | null;
+    peerLoyaltyId: string | null;
+    finalState: CallState;
+    endReason: string;
+    answeredAt: number | null;
+    timeline: readonly CallTransition[];
+    talkTime: TalkTimeSummary | null;
+  }): CallReport {
+    const endedAt = call.timeline.length > 0 ? call.timeline[call.timeline.length - 1].at : Date.now();
+    return {
+      ...call,
+      timeline: [...call.timeline],
+      offerAt: this.offerAt,
+      endedAt,
+      setupLatencyMs: this.offerAt !== null && call.answeredAt !== null ? call.answeredAt - this.offerAt : null,
+      durationMs: call.answeredAt !== null ? endedAt - call.answeredAt : 0,
+      ice: {
+        localCandidates: this.localCandidates,
+        remoteCandidates: this.remoteCandidates,
+        selectedLocalType: this.selectedLocalType,
+        selectedRemoteType: this.selectedRemoteType,
+        turnServer: this.turnServer,
+      },
+      stats: this.samples === 0 ? null : {
+        samples: this.samples,
+        rttMs: this.rtt.summary,
+        jitterMs: this.jitter.summary,
+        packetLossPercent: this.loss.summary,
+        inboundBitrateKbps: this.inbound.summary,
+        outboundBitrateKbps: this.outbound.summary,
+        mos: this.mos.summary,
+        warningSeconds: this.warningSeconds,
+      },
+    };
+  }
+}
+
+function count(counts: Partial<Record<CandidateType, number>>, type: CandidateType) {
+  counts[type] = (counts[type] ?? 0) + 1;
+}
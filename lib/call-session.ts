@@ -0,0 +1,1337 @@
+import { applySpeaker, loadPreferredMicrophone, loadPreferredSpeaker, microphoneConstraints } from './audio-devices';
+import type { CallClient } from './call-client';
+import { CallStateMachine, isEstablishedState, type CallState } from './call-state-machine';
+import { CallRecorder } from './call-recorder';
+import {
+  MicrophoneProcessing,
+  canProcessAudio,
+  isProcessingEnabled,
+  loadAudioProcessingPreset,
+  type AudioProcessingPreset,
+} from './audio-processing';
+import { canUseAudioWorklets } from './audio-worklets';
+import { CallDiagnostics } from './call-report';
+import { CallTranscriber, type TranscriptSegment } from './call-transcriber';
+import { CallStatsCollector } from './call-stats';
+import { HoldMusicPlayer } from './hold-music';
+import { ReconnectionSupervisor } from './reconnection-supervisor';
+import { VoiceActivityMonitor, type TalkTimeSummary, type VoiceParty } from './voice-activity';
+import { getIceServersWithCredentials, refreshAt } from './turn-credentials';
+
+export type CallRole = 'caller' | 'callee';
+export type CameraFacing = 'user' | 'environment';
+
+export interface CallMediaOptions {
+  // Start with the camera on
+  video?: boolean;
+}
+
+// Where remote audio goes instead of the session's own <audio> element
+// (conference legs are mixed, see conference-audio-mixer.ts)
+export interface RemoteAudioOutput {
+  attach(stream: MediaStream): void;
+  detach(): void;
+}
+
+const AUDIO_CONSTRAINTS: MediaTrackConstraints = {
+  echoCancellation: true,
+  noiseSuppression: true,
+  autoGainControl: true,
+};
+
+// Duration of each in-band DTMF tone and the silence after it
+const DTMF_TONE_MS = 100;
+const DTMF_GAP_MS = 70;
+
+// Errors from setRemoteDescription that mean the answer was already applied
+function isWrongStateError(errorMsg: string) {
+  return errorMsg.includes('wrong state') || errorMsg.includes('stable') || errorMsg.includes('Called in wrong state');
+}
+
+// Errors from addIceCandidate that are expected (candidate might already be added)
+function isExpectedIceError(errorMsg: string) {
+  return errorMsg.includes('Invalid candidate') ||
+    errorMsg.includes('InvalidStateError') ||
+    errorMsg.includes('remote description was null');
+}
+
+// A single WebRTC call owned by a CallClient.
+// Holds the peer connection, media and per-call UI state for one callId.
+export class CallSession {
+  readonly callId: string;
+  readonly role: CallRole;
+
+  pc: RTCPeerConnection | null = null;
+  localStream: MediaStream | null = null;
+  remoteStream: MediaStream | null = null;
+  // Screen shares travel in their own streams so each side can tell them from the camera
+  screenStream: MediaStream | null = null;
+  remoteScreenStream: MediaStream | null = null;
+
+  readonly machine = new CallStateMachine();
+  peerName: string | null;
+  // The peer's loyalty_id when known (needed to hand the call over in a transfer)
+  peerLoyaltyId: string | null = null;
+  isMuted = false;
+  isVideoEnabled = false;
+  cameraFacing: CameraFacing = 'user';
+  // Who put the call on hold, and when (drives the hold timer)
+  heldBy: 'local' | 'remote' | null = null;
+  heldAt: number | null = null;
+
+  private client: CallClient;
+  // Queue for ICE candidates received before remote description is set
+  private queuedIceCandidates: RTCIceCandidateInit[] = [];
+  private answeredWaiters: Array<{ resolve: () => void; reject: (e: Error) => void }> = [];
+  private closed = false;
+  private remoteAudio: HTMLAudioElement | null = null;
+  private remoteAudioOutput: RemoteAudioOutput | null = null;
+  // Transceiver carrying our camera; reused when the camera is turned off and on again
+  private cameraTransceiver: RTCRtpTransceiver | null = null;
+  private screenTransceiver: RTCRtpTransceiver | null = null;
+  private remoteScreenTransceiver: RTCRtpTransceiver | null = null;
+  private audioTransceiver: RTCRtpTransceiver | null = null;
+  private holdMusic = new HoldMusicPlayer();
+  private directionsBeforeHold = new Map<RTCRtpTransceiver, RTCRtpTransceiverDirection>();
+  // Renegotiation bookkeeping (see renegotiate())
+  private makingOffer = false;
+  private renegotiationPending = false;
+  private awaitingRenegotiationAnswer = false;
+  // After a page reload: our fresh peer connection's offer is out, see rejoin()
+  private rejoining = false;
+  private turnRefreshTimer: ReturnType<typeof setTimeout> | null = null;
+  private readonly reconnection: ReconnectionSupervisor;
+  // Sampled while the call is established
+  readonly stats: CallStatsCollector;
+  // Collected for the post-call report
+  readonly diagnostics = new CallDiagnostics();
+  // Why the call ended, set by end()
+  endReason: string | null = null;
+  // Keypad digits sent during the call, for the call log
+  dtmfDigits = '';
+  // The peer records the call (signaled), shown as a notice
+  remoteRecording: 'recording' | 'paused' | null = null;
+  private recorder: CallRecorder | null = null;
+  // Captions of the call so far, kept when captions are turned off
+  readonly transcript: TranscriptSegment[] = [];
+  private transcriber: CallTranscriber | null = null;
+  // What the peer hears instead of the raw microphone, when processing is on
+  private micProcessing: MicrophoneProcessing | null = null;
+  private voiceActivity: VoiceActivityMonitor | null = null;
+  // Talk-time analytics, set when the call is closed
+  talkTime: TalkTimeSummary | null = null;
+
+  constructor(client: CallClient, callId: string, role: CallRole, peerName: string | null) {
+    this.client = client;
+    this.callId = callId;
+    this.role = role;
+    this.peerName = peerName;
+    this.reconnection = new ReconnectionSupervisor({
+      callId,
+      restartIce: () => this.restartIce(),
+      giveUp: (reason) => this.client.endCallById(callId, reason),
+    });
+    this.stats = new CallStatsCollector(() => this.pc, (stats) => {
+      this.diagnostics.addStats(stats);
+      this.client.notifyStats(this, stats);
+    });
+
+    // All UI callbacks are driven by accepted transitions
+    this.machine.subscribe((event) => {
+      if (event.type === 'missed') {
+        this.client.notifyMissedCall(this);
+      }
+      if (event.type !== 'transition') {
+        return;
+      }
+      this.client.notifyTransition(this, event.transition);
+      const { to } = event.transition;
+      if (to === 'held') {
+        this.heldAt = event.transition.at;
+        this.voiceActivity?.setPaused(true);
+      } else {
+        this.heldBy = null;
+        this.heldAt = null;
+      }
+      this.client.notifyStateChange(this);
+      if (to === 'answered' || this.machine.isTerminal) {
+        this.client.notifyActiveChange(this);
+      }
+      if (to === 'answered') {
+        this.settleAnsweredWaiters(null);
+        this.flushRenegotiation();
+        this.stats.start();
+        this.startVoiceActivity();
+        this.voiceActivity?.setPaused(false);
+      } else if (this.machine.isTerminal) {
+        this.stats.stop();
+        this.settleAnsweredWaiters(new Error(to === 'rejected' ? 'Call rejected' : 'Call ended'));
+      }
+    });
+  }
+
+  get state(): CallState {
+    return this.machine.state;
+  }
+
+  get startedAt() {
+    return this.machine.startedAt;
+  }
+
+  get isClosed() {
+    return this.closed;
+  }
+
+  // True while a mid-call offer of ours is waiting for the peer's answer
+  get isAwaitingRenegotiationAnswer() {
+    return this.awaitingRenegotiationAnswer;
+  }
+
+  get isRejoining() {
+    return this.rejoining;
+  }
+
+  // True when the peer is currently sending video
+  get hasRemoteVideo() {
+    return !!this.remoteStream?.getVideoTracks().some((t) => t.readyState === 'live' && !t.muted);
+  }
+
+  get isScreenSharing() {
+    return !!this.screenStream;
+  }
+
+  // True when the peer is currently sharing their screen
+  get hasRemoteScreen() {
+    return !!this.remoteScreenStream?.getVideoTracks().some((t) => t.readyState === 'live' && !t.muted);
+  }
+
+  // Acquire the microphone and create the peer connection.
+  // For incoming calls the remote offer is applied, but the answer is NOT created
+  // until the user clicks "Answer" (see CallClient.answerCall).
+  async setup(remoteOffer: RTCSessionDescriptionInit | null, options: CallMediaOptions = {}) {
+    // Get user media (microphone, and camera for video calls)
+    if (options.video) {
+      try {
+        this.localStream = await navigator.mediaDevices.getUserMedia({
+          audio: microphoneConstraints(AUDIO_CONSTRAINTS, loadPreferredMicrophone()),
+          video: this.cameraConstraints(this.cameraFacing),
+        });
+        this.isVideoEnabled = true;
+        console.log('Got local audio+video stream');
+      } catch (e) {
+        // Fall back to a voice call; the camera can be turned on later
+        console.warn('⚠️ Failed to get camera, continuing with audio only:', e);
+      }
+    }
+    if (!this.localStream) {
+      try {
+        this.localStream = await navigator.mediaDevices.getUserMedia({
+          audio: microphoneConstraints(AUDIO_CONSTRAINTS, loadPreferredMicrophone()),
+          video: false,
+        });
+        console.log('Got local audio stream');
+      } catch (e) {
+        console.error('Failed to get user media:', e);
+        throw new Error('Microphone access denied');
+      }
+    }
+    await this.setAudioProcessing(loadAudioProcessingPreset(this.client.getCurrentLoyaltyId()));
+
+    const peer = await this.createPeerConnection();
+
+    // If we have a remote offer (incoming call), set it but DON'T create answer yet
+    // User must click "Answer" button to create and send the answer
+    if (remoteOffer) {
+      this.diagnostics.markOffer();
+      try {
+        await peer.setRemoteDescription(new RTCSessionDescription(remoteOffer));
+        console.log('✅ Remote offer set, waiting for user to answer');
+
+        // Process any queued ICE candidates that arrived before the offer
+        await this.processQueuedIceCandidates();
+      } catch (e) {
+        console.error('Failed to handle remote offer:', e);
+        throw e;
+      }
+    }
+  }
+
+  // New RTCPeerConnection carrying our local media
+  private async createPeerConnection() {
+    // Create peer connection with comprehensive STUN/TURN servers for maximum stability
+    const { iceServers, credentials } = await getIceServersWithCredentials(this.client.getCurrentLoyaltyId());
+    const peer = new RTCPeerConnection({
+      iceServers,
+
+      // Նախօրոք հավաքել ICE թեկնածուներ արագ կապի համար
+      iceCandidatePoolSize: 10,
+
+      // Պրոֆեսիոնալ WebRTC պարամետրեր
+      iceTransportPolicy: 'all',     // օգտագործել ինչպես ուղղակի (STUN), այնպես էլ ռելեյ (TURN)
+      bundlePolicy: 'max-bundle',    // RTP/RTCP–ը նույն պորտով հավաքել՝ NAT–ի արդյունավետության համար
+      rtcpMuxPolicy: 'require',      // պահանջել RTP/RTCP համակցումը՝ նույն պորտով
+    });
+
+    this.pc = peer;
+    if (credentials) {
+      this.scheduleTurnRefresh(refreshAt(credentials));
+    }
+
+    // Add local stream tracks
+    const localStream = this.localStream;
+    if (!localStream) {
+      throw new Error('Local media not acquired');
+    }
+    localStream.getTracks().forEach((track) => {
+      const sender = peer.addTrack(track.kind === 'audio' ? this.micProcessing?.track ?? track : track, localStream);
+      const transceiver = peer.getTransceivers().find((t) => t.sender === sender) ?? null;
+      if (track.kind === 'video') {
+        this.cameraTransceiver = transceiver;
+      } else {
+        this.audioTransceiver = transceiver;
+      }
+    });
+
+    // Handle ICE candidates
+    peer.onicecandidate = (event: RTCPeerConnectionIceEvent) => {
+      if (event.candidate && !this.closed) {
+        this.diagnostics.addLocalCandidate(event.candidate);
+        this.client.sendIceCandidate(this.callId, this.role, event.candidate);
+      }
+    };
+
+    // Handle connection state changes
+    peer.onconnectionstatechange = () => {
+      const state = peer.connectionState;
+      console.log('Connection state changed:', state);
+      if (state === 'connected') {
+        console.log('✅ WebRTC connected!');
+        // Update call state to answered when connection is established
+        this.markAnswered('pc:connected');
+      } else if (state === 'failed') {
+        console.error('❌ WebRTC connection failed!');
+      } else if (state === 'disconnected') {
+        console.warn('⚠️ WebRTC connection disconnected');
+      }
+      // Drops before the call is up are handled by the call setup itself
+      if (isEstablishedState(this.state) || state === 'connected') {
+        this.reconnection.handleConnectionState(state);
+      }
+    };
+
+    // Handle ICE connection state changes
+    peer.oniceconnectionstatechange = () => {
+      const iceState = peer.iceConnectionState;
+      console.log('ICE connection state changed:', iceState);
+      if (iceState === 'connected' || iceState === 'completed') {
+        console.log('✅ ICE connection established!');
+      } else if (iceState === 'failed') {
+        console.error('❌ ICE connection failed!');
+      }
+    };
+
+    // Handle ICE gathering state
+    peer.onicegatheringstatechange = () => {
+      console.log('ICE gathering state:', peer.iceGatheringState);
+    };
+
+    // Handle signaling state changes
+    peer.onsignalingstatechange = () => {
+      console.log('Signaling state changed:', peer.signalingState);
+    };
+
+    // Handle remote tracks (fires once per track, also for tracks added by renegotiation)
+    peer.ontrack = (event: RTCTrackEvent) => {
+      console.log('Received remote track:', event.track.kind);
+      // Audio always comes first, so remoteStream is the peer's main stream;
+      // a video track in any other stream is a screen share
+      const stream = event.streams[0];
+      if (event.track.kind === 'video' && stream && this.remoteStream && stream.id !== this.remoteStream.id) {
+        console.log('🖥️ Received remote screen share');
+        this.remoteScreenStream = stream;
+        this.remoteScreenTransceiver = event.transceiver;
+        return;
+      }
+      if (!this.remoteStream) {
+        this.remoteStream = event.streams[0] ?? new MediaStream();
+      }
+      if (!this.remoteStream.getTracks().includes(event.track)) {
+        this.remoteStream.addTrack(event.track);
+      }
+      if (event.track.kind === 'audio') {
+        this.playRemoteAudio();
+        this.recorder?.setStreams(this.recordedStreams());
+        this.transcriber?.setTracks(this.audioTracks());
+        this.voiceActivity?.setTracks(this.audioTracks());
+      }
+    };
+    return peer;
+  }
+
+  // TURN credentials expire; refresh them on long calls so ICE restarts and
+  // new relay allocations keep working. Existing allocations are not affected.
+  private scheduleTurnRefresh(at: number) {
+    if (this.turnRefreshTimer) {
+      clearTimeout(this.turnRefreshTimer);
+    }
+    this.turnRefreshTimer = setTimeout(async () => {
+      this.turnRefreshTimer = null;
+      if (!this.pc || this.closed) {
+        return;
+      }
+      const { iceServers, credentials } = await getIceServersWithCredentials(this.client.getCurrentLoyaltyId(), true);
+      if (!this.pc || this.closed) {
+        return;
+      }
+      try {
+        this.pc.setConfiguration({ ...this.pc.getConfiguration(), iceServers });
+        console.log('🔑 Refreshed TURN credentials for call:', this.callId);
+      } catch (e) {
+        console.warn('⚠️ Failed to apply refreshed TURN credentials:', e);
+      }
+      // Retry in a minute if the backend could not issue new credentials
+      this.scheduleTurnRefresh(credentials && refreshAt(credentials) > Date.now() ? refreshAt(credentials) : Date.now() + 60 * 1000);
+    }, Math.max(0, at - Date.now()));
+  }
+
+  // Send remote audio somewhere else than the default element (null = back to it)
+  setRemoteAudioOutput(output: RemoteAudioOutput | null) {
+    if (this.remoteAudioOutput === output) {
+      return;
+    }
+    this.remoteAudioOutput?.detach();
+    this.stopRemoteAudioElement();
+    this.remoteAudioOutput = output;
+    if (this.remoteStream?.getAudioTracks().length) {
+      this.playRemoteAudio();
+    }
+  }
+
+  // Play remote audio through a detached element; video is rendered by the UI
+  private playRemoteAudio() {
+    if (this.remoteAudioOutput && this.remoteStream) {
+      this.remoteAudioOutput.attach(this.remoteStream);
+      return;
+    }
+    if (this.remoteAudio || !this.remoteStream) {
+      return;
+    }
+    const audio = new Audio();
+    audio.srcObject = this.remoteStream;
+    applySpeaker(audio, loadPreferredSpeaker());
+    audio.play().catch((e) => console.error('Failed to play remote audio:', e));
+    this.remoteAudio = audio;
+  }
+
+  // Play the peer through another speaker (conference legs are handled by the mixer)
+  async setSpeaker(deviceId: string) {
+    if (this.remoteAudio) {
+      await applySpeaker(this.remoteAudio, deviceId);
+    }
+  }
+
+  // Device of the microphone in use, when known
+  get microphoneDeviceId(): string | null {
+    return this.localStream?.getAudioTracks()[0]?.getSettings().deviceId ?? null;
+  }
+
+  // Swap the microphone mid-call ('' = system default). The new track replaces the
+  // old one on the sender, so no renegotiation is needed.
+  async switchMicrophone(deviceId: string) {
+    if (this.closed || !this.localStream) {
+      return;
+    }
+    const stream = await navigator.mediaDevices.getUserMedia({
+      audio: microphoneConstraints(AUDIO_CONSTRAINTS, deviceId, true),
+      video: false,
+    });
+    const track = stream.getAudioTracks()[0];
+    const localStream = this.localStream;
+    if (this.closed || !localStream) {
+      track.stop();
+      return;
+    }
+    track.enabled = !this.isMuted;
+    localStream.getAudioTracks().forEach((old) => {
+      localStream.removeTrack(old);
+      old.stop();
+    });
+    localStream.addTrack(track);
+    this.micProcessing?.setInput(track);
+    this.transcriber?.setTracks(this.audioTracks());
+    this.voiceActivity?.setTracks(this.audioTracks());
+    await this.replaceSentAudio();
+    console.log('🎙️ Microphone switched for call', this.callId, 'to:', track.label);
+  }
+
+  // Run the microphone through this preset's processors (see audio-processing.ts).
+  // The processed track replaces the microphone on the sender, so no renegotiation
+  // is needed. A chain that fails to start leaves the raw microphone in place.
+  async setAudioProcessing(preset: AudioProcessingPreset) {
+    const mic = this.localStream?.getAudioTracks()[0];
+    if (this.closed || !mic) {
+      return;
+    }
+    if (isProcessingEnabled(preset) && canProcessAudio()) {
+      if (this.micProcessing) {
+        await this.micProcessing.setPreset(preset);
+      } else {
+        const processing = new MicrophoneProcessing();
+        this.micProcessing = processing;
+        try {
+          await processing.start(mic, preset);
+        } catch (e) {
+          console.warn('⚠️ Microphone processing unavailable:', e);
+          processing.stop();
+          if (this.micProcessing === processing) {
+            this.micProcessing = null;
+          }
+        }
+      }
+    } else if (this.micProcessing) {
+      this.micProcessing.stop();
+      this.micProcessing = null;
+    }
+    if (!this.closed) {
+      await this.replaceSentAudio();
+    }
+  }
+
+  // The microphone as the peer should hear it
+  private sentAudioTrack() {
+    return this.micProcessing?.track ?? this.localStream?.getAudioTracks()[0] ?? null;
+  }
+
+  private async replaceSentAudio() {
+    // While we hold the call the sender plays hold music; resume() picks up the new track
+    if (this.audioTransceiver && this.heldBy !== 'local') {
+      await this.audioTransceiver.sender.replaceTrack(this.sentAudioTrack());
+    }
+    this.recorder?.setStreams(this.recordedStreams());
+  }
+
+  private stopRemoteAudioElement() {
+    if (this.remoteAudio) {
+      this.remoteAudio.pause();
+      this.remoteAudio.srcObject = null;
+      this.remoteAudio = null;
+    }
+  }
+
+  private cameraConstraints(facing: CameraFacing): MediaTrackConstraints {
+    return {
+      facingMode: { ideal: facing },
+      width: { ideal: 1280 },
+      height: { ideal: 720 },
+    };
+  }
+
+  private async getCameraTrack(facing: CameraFacing) {
+    const stream = await navigator.mediaDevices.getUserMedia({ video: this.cameraConstraints(facing) });
+    return stream.getVideoTracks()[0];
+  }
+
+  // A video transceiver we can put the camera on: our previous camera transceiver, or
+  // one the peer's offer created that we are not sending on yet
+  private findCameraTransceiver() {
+    if (this.cameraTransceiver && this.cameraTransceiver.direction !== 'stopped') {
+      return this.cameraTransceiver;
+    }
+    return this.pc?.getTransceivers().find((t) =>
+      t !== this.screenTransceiver && t !== this.remoteScreenTransceiver &&
+      t.direction !== 'stopped' && t.receiver.track.kind === 'video' && !t.sender.track && t.direction !== 'sendrecv' && t.direction !== 'sendonly'
+    ) ?? null;
+  }
+
+  // Share a screen or window. Stops by itself when the user ends sharing from
+  // the browser's own "Stop sharing" UI.
+  async startScreenShare() {
+    const pc = this.pc;
+    if (!pc || this.closed || this.state === 'held' || this.screenStream) {
+      return this.isScreenSharing;
+    }
+
+    let stream: MediaStream;
+    try {
+      stream = await navigator.mediaDevices.getDisplayMedia({ video: true, audio: false });
+    } catch (e) {
+      console.warn('⚠️ Screen share was not started:', e);
+      throw new Error('Screen share cancelled or not allowed');
+    }
+    const track = stream.getVideoTracks()[0];
+    // Favour sharpness over frame rate for text and UI
+    track.contentHint = 'detail';
+    track.onended = () => {
+      console.log('🖥️ Screen share stopped from browser UI');
+      this.stopScreenShare().catch(() => {});
+    };
+    this.screenStream = stream;
+
+    const transceiver = this.screenTransceiver;
+    if (transceiver && transceiver.direction !== 'stopped') {
+      await transceiver.sender.replaceTrack(track);
+      transceiver.direction = 'sendonly';
+    } else {
+      const sender = pc.addTrack(track, stream);
+      this.screenTransceiver = pc.getTransceivers().find((t) => t.sender === sender) ?? null;
+      if (this.screenTransceiver) {
+        this.screenTransceiver.direction = 'sendonly';
+      }
+    }
+    console.log('🖥️ Screen share started');
+
+    await this.renegotiate();
+    return true;
+  }
+
+  // Stop sharing and tell the peer; the transceiver is kept for the next share
+  async stopScreenShare() {
+    const stream = this.screenStream;
+    if (!stream) {
+      return false;
+    }
+    this.screenStream = null;
+    stream.getTracks().forEach((track) => {
+      track.onended = null;
+      track.stop();
+    });
+    if (this.closed || !this.pc) {
+      return false;
+    }
+
+    if (this.screenTransceiver && this.screenTransceiver.direction !== 'stopped') {
+      await this.screenTransceiver.sender.replaceTrack(null);
+      this.screenTransceiver.direction = 'inactive';
+    }
+    console.log('🖥️ Screen share stopped');
+
+    await this.renegotiate();
+    return false;
+  }
+
+  // Turn the camera on or off mid-call (upgrade to / downgrade from video).
+  // Changes the camera transceiver's direction and renegotiates with the peer.
+  async setVideoEnabled(enabled: boolean) {
+    const pc = this.pc;
+    const localStream = this.localStream;
+    if (!pc || !localStream || this.closed || this.state === 'held' || enabled === this.isVideoEnabled) {
+      return this.isVideoEnabled;
+    }
+
+    if (enabled) {
+      let track: MediaStreamTrack;
+      try {
+        track = await this.getCameraTrack(this.cameraFacing);
+      } catch (e) {
+        console.error('Failed to get camera:', e);
+        throw new Error('Camera access denied');
+      }
+      localStream.addTrack(track);
+
+      const transceiver = this.findCameraTransceiver();
+      if (transceiver) {
+        await transceiver.sender.replaceTrack(track);
+        if (typeof transceiver.sender.setStreams === 'function') {
+          transceiver.sender.setStreams(localStream);
+        }
+        transceiver.direction = 'sendrecv';
+        this.cameraTransceiver = transceiver;
+      } else {
+        const sender = pc.addTrack(track, localStream);
+        this.cameraTransceiver = pc.getTransceivers().find((t) => t.sender === sender) ?? null;
+      }
+      console.log('📹 Camera turned on');
+    } else {
+      localStream.getVideoTracks().forEach((track) => {
+        track.stop();
+        localStream.removeTrack(track);
+      });
+      if (this.cameraTransceiver && this.cameraTransceiver.direction !== 'stopped') {
+        await this.cameraTransceiver.sender.replaceTrack(null);
+        this.cameraTransceiver.direction = 'recvonly';
+      }
+      console.log('📹 Camera turned off');
+    }
+
+    this.isVideoEnabled = enabled;
+    await this.renegotiate();
+    return enabled;
+  }
+
+  // Switch between front and back camera. Uses replaceTrack, so no renegotiation.
+  async switchCamera() {
+    const localStream = this.localStream;
+    const sender = this.cameraTransceiver?.sender;
+    if (!this.isVideoEnabled || !localStream || !sender) {
+      return this.cameraFacing;
+    }
+
+    const previous = this.cameraFacing;
+    const next: CameraFacing = previous === 'user' ? 'environment' : 'user';
+    // Release the current camera first: many phones can't open both at once
+    localStream.getVideoTracks().forEach((track) => {
+      track.stop();
+      localStream.removeTrack(track);
+    });
+
+    let track: MediaStreamTrack;
+    try {
+      track = await this.getCameraTrack(next);
+      this.cameraFacing = next;
+    } catch (e) {
+      console.warn('⚠️ Failed to switch camera, restoring previous one:', e);
+      track = await this.getCameraTrack(previous);
+    }
+    localStream.addTrack(track);
+    await sender.replaceTrack(track);
+    return this.cameraFacing;
+  }
+
+  // Put the call on hold. The peer hears hold music instead of the microphone
+  // (silence if the music can't be loaded) and all other media is paused.
+  async hold() {
+    const pc = this.pc;
+    if (!pc || this.closed || this.state !== 'answered') {
+      return false;
+    }
+    if (this.screenStream) {
+      await this.stopScreenShare();
+    }
+
+    let musicTrack: MediaStreamTrack | null = null;
+    try {
+      musicTrack = await this.holdMusic.start();
+    } catch (e) {
+      console.warn('⚠️ Hold music unavailable, holding with silence:', e);
+    }
+    if (this.closed || this.state !== 'answered') {
+      this.holdMusic.stop();
+      return false;
+    }
+
+    this.directionsBeforeHold.clear();
+    pc.getTransceivers().forEach((t) => {
+      if (t.direction === 'stopped') {
+        return;
+      }
+      this.directionsBeforeHold.set(t, t.direction);
+      t.direction = t === this.audioTransceiver && musicTrack ? 'sendonly' : 'inactive';
+    });
+    if (this.audioTransceiver && musicTrack) {
+      await this.audioTransceiver.sender.replaceTrack(musicTrack);
+    }
+
+    this.heldBy = 'local';
+    this.recorder?.setStreams(this.recordedStreams());
+    this.transition('held', 'user');
+    console.log('⏸️ Call on hold:', this.callId);
+    await this.renegotiate();
+    return true;
+  }
+
+  // Take a call we put on hold back: microphone and directions are restored
+  async resume() {
+    const pc = this.pc;
+    if (!pc || this.closed || this.state !== 'held' || this.heldBy !== 'local') {
+      return false;
+    }
+
+    if (this.audioTransceiver) {
+      await this.audioTransceiver.sender.replaceTrack(this.sentAudioTrack());
+    }
+    this.holdMusic.stop();
+    this.directionsBeforeHold.forEach((direction, t) => {
+      if (t.direction !== 'stopped') {
+        t.direction = direction;
+      }
+    });
+    this.directionsBeforeHold.clear();
+
+    this.transition('answered', 'user');
+    this.recorder?.setStreams(this.recordedStreams());
+    console.log('▶️ Call resumed:', this.callId);
+    await this.renegotiate();
+    return true;
+  }
+
+  // The peer put us on hold or resumed (signaled via call-state).
+  // Media directions follow from the peer's renegotiation offer.
+  setRemoteHold(held: boolean) {
+    if (held && this.state === 'answered') {
+      this.heldBy = 'remote';
+      this.transition('held', 'signaling:call-state');
+    } else if (!held && this.state === 'held' && this.heldBy === 'remote') {
+      this.transition('answered', 'signaling:call-state');
+    }
+  }
+
+  // Send a new offer for the established call after our tracks changed.
+  // Deferred while another offer/answer exchange is in progress or before the call
+  // is answered; flushRenegotiation() sends it once that exchange completes.
+  async renegotiate() {
+    const pc = this.pc;
+    if (!pc || this.closed) {
+      return;
+    }
+    if (!isEstablishedState(this.state) || pc.signalingState !== 'stable' || this.makingOffer) {
+      this.renegotiationPending = true;
+      return;
+    }
+
+    this.renegotiationPending = false;
+    this.makingOffer = true;
+    try {
+      const offer = await pc.createOffer();
+      await pc.setLocalDescription(offer);
+      this.awaitingRenegotiationAnswer = true;
+      console.log('📞 Sending renegotiation offer for call:', this.callId);
+      await this.client.sendRenegotiation(this.callId, offer);
+    } catch (e) {
+      console.error('❌ Renegotiation failed:', e);
+      this.awaitingRenegotiationAnswer = false;
+      // signalingState changed during the awaits above
+      if ((pc.signalingState as RTCSignalingState) === 'have-local-offer') {
+        await pc.setLocalDescription({ type: 'rollback' }).catch(() => {});
+      }
+      throw e;
+    } finally {
+      this.makingOffer = false;
+    }
+  }
+
+  // New ICE credentials and candidates for a dropped connection, sent as a fresh
+  // offer. A restart offer that was never answered is rolled back first.
+  async restartIce() {
+    const pc = this.pc;
+    if (!pc || this.closed) {
+      return;
+    }
+    if (pc.signalingState === 'have-local-offer' && !this.makingOffer) {
+      await pc.setLocalDescription({ type: 'rollback' });
+      this.awaitingRenegotiationAnswer = false;
+    }
+    pc.restartIce();
+    await this.renegotiate();
+  }
+
+  // When the media connection dropped, while we are trying to get it back
+  get reconnectingSince() {
+    return this.reconnection.reconnectingSince;
+  }
+
+  handleSignalingReconnected() {
+    this.reconnection.handleSignalingReconnected();
+  }
+
+  // Send a deferred renegotiation, if any
+  flushRenegotiation() {
+    if (this.renegotiationPending) {
+      this.renegotiate().catch(() => {
+        // Already logged in renegotiate()
+      });
+    }
+  }
+
+  // A call restored after a page reload starts out answered, with its original timer,
+  // so it never rings or shows as being placed again while it is rebuilt
+  restoreAnswered(startedAt: number) {
+    this.machine.restoreStartedAt(startedAt);
+    this.transition('answered', 'rejoin');
+  }
+
+  // Rejoin an answered call after a page reload: the old peer connection is gone,
+  // so offer one made by setup() and wait for the peer to rebuild theirs.
+  // The answer arrives as a renegotiation answer (see applyRemoteAnswer).
+  async rejoin() {
+    // The call was answered before setup() got the microphone
+    this.startVoiceActivity();
+    this.rejoining = true;
+    this.awaitingRenegotiationAnswer = true;
+    try {
+      const offer = await this.createOffer();
+      await this.client.sendRenegotiation(this.callId, offer, { rejoin: true });
+    } catch (e) {
+      this.rejoining = false;
+      this.awaitingRenegotiationAnswer = false;
+      throw e;
+    }
+  }
+
+  // The peer reloaded its page and rejoins with a brand-new peer connection.
+  // Replace ours, keeping the call, its timer and our local media, and answer.
+  async acceptRejoinOffer(offer: RTCSessionDescriptionInit): Promise<RTCSessionDescriptionInit | null> {
+    const old = this.pc;
+    if (!old || this.closed) {
+      return null;
+    }
+    console.log('🔁 Peer rejoined call', this.callId, '- rebuilding peer connection');
+
+    old.onicecandidate = null;
+    old.onconnectionstatechange = null;
+    old.oniceconnectionstatechange = null;
+    old.ontrack = null;
+    old.close();
+    this.pc = null;
+
+    // The peer starts over without hold or screen share
+    if (this.screenStream) {
+      this.screenStream.getTracks().forEach((track) => {
+        track.onended = null;
+        track.stop();
+      });
+      this.screenStream = null;
+    }
+    this.holdMusic.stop();
+    this.directionsBeforeHold.clear();
+    if (this.state === 'held') {
+      this.transition('answered', 'peer-rejoined');
+    }
+    this.stopRemoteAudioElement();
+    this.remoteStream = null;
+    this.remoteScreenStream = null;
+    this.cameraTransceiver = null;
+    this.screenTransceiver = null;
+    this.remoteScreenTransceiver = null;
+    this.audioTransceiver = null;
+    this.queuedIceCandidates = [];
+    this.makingOffer = false;
+    this.renegotiationPending = false;
+    this.awaitingRenegotiationAnswer = false;
+    this.reconnection.stop();
+
+    const pc = await this.createPeerConnection();
+    await pc.setRemoteDescription(new RTCSessionDescription(offer));
+    const answer = await pc.createAnswer();
+    await pc.setLocalDescription(answer);
+    return answer;
+  }
+
+  // Apply a mid-call offer from the peer and return our answer, or null if ignored.
+  // On offer collision the caller keeps its own offer and the callee rolls back.
+  async acceptRenegotiationOffer(offer: RTCSessionDescriptionInit): Promise<RTCSessionDescriptionInit | null> {
+    const pc = this.pc;
+    if (!pc || this.closed) {
+      return null;
+    }
+
+    const collision = this.makingOffer || pc.signalingState !== 'stable';
+    if (collision) {
+      if (this.role === 'caller') {
+        console.log('⚠️ Renegotiation offer collision, keeping our own offer');
+        return null;
+      }
+      console.log('⚠️ Renegotiation offer collision, rolling back our offer');
+      await pc.setLocalDescription({ type: 'rollback' });
+      this.awaitingRenegotiationAnswer = false;
+      this.renegotiationPending = true;
+    }
+
+    await pc.setRemoteDescription(new RTCSessionDescription(offer));
+    await this.processQueuedIceCandidates();
+    const answer = await pc.createAnswer();
+    await pc.setLocalDescription(answer);
+    console.log('✅ Applied renegotiation offer for call:', this.callId);
+    return answer;
+  }
+
+  // Create and apply the local offer (caller side)
+  async createOffer(): Promise<RTCSessionDescriptionInit> {
+    if (!this.pc) {
+      throw new Error('Peer connection not created');
+    }
+    const offer = await this.pc.createOffer();
+    await this.pc.setLocalDescription(offer);
+    this.diagnostics.markOffer();
+    console.log('✅ Created and set local offer, signaling state:', this.pc.signalingState);
+    return offer;
+  }
+
+  // Create and apply the local answer (callee side)
+  // Returns the existing local description if the answer was already created.
+  async createAnswer(): Promise<RTCSessionDescriptionInit> {
+    if (!this.pc) {
+      throw new Error('Peer connection not ready after setup');
+    }
+    if (this.pc.localDescription) {
+      console.log('Answer already created for call:', this.callId, 'SDP:', this.pc.localDescription.sdp?.substring(0, 100) + '...');
+      return this.pc.localDescription;
+    }
+    if (!this.pc.remoteDescription) {
+      throw new Error('Remote description not set - cannot create answer');
+    }
+
+    console.log('Creating answer...');
+    const answer = await this.pc.createAnswer();
+
+    console.log('Answer created, setting local description...');
+    await this.pc.setLocalDescription(answer);
+    console.log('Local description set, answer SDP:', answer.sdp?.substring(0, 100) + '...');
+    return answer;
+  }
+
+  // Apply a remote offer that was fetched after the session was created
+  async setRemoteOffer(offer: RTCSessionDescriptionInit) {
+    if (!this.pc) {
+      throw new Error('Peer connection not created');
+    }
+    this.diagnostics.markOffer();
+    await this.pc.setRemoteDescription(new RTCSessionDescription(offer));
+    console.log('✅ Remote description set from backend');
+    await this.processQueuedIceCandidates();
+  }
+
+  // Apply the callee's answer to our local offer.
+  // The answer may arrive through several paths (global socket handler, HTTP polling),
+  // so an answer that is already applied is treated as success.
+  async applyRemoteAnswer(answer: RTCSessionDescriptionInit, source: string): Promise<boolean> {
+    const pc = this.pc;
+    if (!pc || this.closed) {
+      return false;
+    }
+
+    const signalingState = pc.signalingState;
+    console.log('📞 Applying remote answer, signaling state:', signalingState, 'SDP length:', answer.sdp?.length || 0);
+
+    if (signalingState === 'stable' || signalingState === 'have-remote-pranswer') {
+      // Answer was already set - this is fine, just update state
+      console.log('⚠️ Answer already set (state is stable/have-remote-pranswer), updating call state');
+      await this.processQueuedIceCandidates();
+      this.markAnswered(source);
+      return true;
+    }
+
+    if (signalingState !== 'have-local-offer') {
+      console.warn('⚠️ Remote answer arrived in unexpected signaling state:', signalingState);
+    }
+
+    try {
+      await pc.setRemoteDescription(new RTCSessionDescription(answer));
+      console.log('✅ Applied remote answer - WebRTC connection should establish now');
+      console.log('   New signaling state:', pc.signalingState);
+      console.log('   ICE connection state:', pc.iceConnectionState);
+
+      // CRITICAL: Process any queued ICE candidates now that remote description is set
+      await this.processQueuedIceCandidates();
+      this.awaitingRenegotiationAnswer = false;
+      this.rejoining = false;
+      this.markAnswered(source);
+      this.flushRenegotiation();
+      return true;
+    } catch (e: any) {
+      const errorMsg = e?.message || String(e);
+      // If it's a "wrong state" error, the answer might already be set
+      if (isWrongStateError(errorMsg) && (pc.signalingState === 'stable' || pc.signalingState === 'have-remote-pranswer')) {
+        console.log('✅ Remote description already set, updating state');
+        await this.processQueuedIceCandidates();
+        this.markAnswered(source);
+        return true;
+      }
+      console.warn('⚠️ Failed to set remote answer:', errorMsg);
+      return false;
+    }
+  }
+
+  // Add a remote ICE candidate, queueing it until the remote description is set
+  async addRemoteIceCandidate(candidate: RTCIceCandidateInit) {
+    if (this.closed) {
+      return;
+    }
+    this.diagnostics.addRemoteCandidate(candidate);
+
+    // The peer may trickle candidates before our peer connection exists
+    if (!this.pc || !this.pc.remoteDescription) {
+      console.log('⚠️ Remote description not set yet, queueing ICE candidate (will process after answer is set)');
+      this.queuedIceCandidates.push(candidate);
+      return;
+    }
+
+    try {
+      await this.pc.addIceCandidate(new RTCIceCandidate(candidate));
+      console.log('✅ Added ICE candidate from peer');
+    } catch (e: any) {
+      const errorMsg = e?.message || String(e);
+      if (!isExpectedIceError(errorMsg)) {
+        console.error('❌ Failed to add ICE candidate:', errorMsg);
+      } else {
+        // These are expected errors - candidate might already be added or state is wrong
+        console.log('⚠️ ICE candidate error (expected, will be handled):', errorMsg);
+      }
+    }
+  }
+
+  // Process queued ICE candidates after remote description is set
+  async processQueuedIceCandidates() {
+    if (!this.pc || !this.pc.remoteDescription) {
+      return;
+    }
+
+    const candidatesToProcess = this.queuedIceCandidates;
+    if (candidatesToProcess.length === 0) {
+      return;
+    }
+
+    console.log(`📞 Processing ${candidatesToProcess.length} queued ICE candidates for call:`, this.callId);
+
+    // Remove processed candidates from queue immediately to avoid duplicates
+    this.queuedIceCandidates = [];
+
+    // Process each candidate sequentially to avoid race conditions
+    for (const candidate of candidatesToProcess) {
+      try {
+        if (this.pc && this.pc.remoteDescription) {
+          await this.pc.addIceCandidate(new RTCIceCandidate(candidate));
+          console.log('✅ Added queued ICE candidate');
+        }
+      } catch (e: any) {
+        const errorMsg = e?.message || String(e);
+        // Don't log expected errors (candidate might already be added)
+        if (!isExpectedIceError(errorMsg)) {
+          console.warn('⚠️ Failed to add queued ICE candidate:', errorMsg);
+        }
+      }
+    }
+
+    console.log(`✅ Finished processing ${candidatesToProcess.length} queued ICE candidates`);
+  }
+
+  // The call is connected; a call on hold stays on hold
+  private markAnswered(reason: string) {
+    if (this.state !== 'held') {
+      this.transition('answered', reason);
+    }
+  }
+
+  // Request a state transition; see CallStateMachine for the allowed ones
+  transition(to: CallState, reason: string) {
+    if (this.closed && to !== 'ended') {
+      return false;
+    }
+    return this.machine.transition(to, reason);
+  }
+
+  // Resolve once the call is answered, or reject after timeoutMs or when the call ends
+  waitForAnswered(timeoutMs: number): Promise<void> {
+    if (isEstablishedState(this.state)) {
+      return Promise.resolve();
+    }
+    if (this.machine.isTerminal) {
+      return Promise.reject(new Error(this.state === 'rejected' ? 'Call rejected' : 'Call ended'));
+    }
+    return new Promise((resolve, reject) => {
+      const waiter = {
+        resolve: () => {
+          clearTimeout(timeout);
+          resolve();
+        },
+        reject: (e: Error) => {
+          clearTimeout(timeout);
+          reject(e);
+        },
+      };
+      const timeout = setTimeout(() => {
+        this.answeredWaiters = this.answeredWaiters.filter((w) => w !== waiter);
+        reject(new Error('Answer timeout'));
+      }, timeoutMs);
+      this.answeredWaiters.push(waiter);
+    });
+  }
+
+  private settleAnsweredWaiters(error: Error | null) {
+    const waiters = this.answeredWaiters;
+    this.answeredWaiters = [];
+    waiters.forEach((w) => (error ? w.reject(error) : w.resolve()));
+  }
+
+  get recording() {
+    return this.recorder;
+  }
+
+  // Record what we send and the remote audio, mixed (see call-recorder.ts)
+  startRecording(recordingId: string, ownerLoyaltyId: string) {
+    if (this.closed || this.recorder) {
+      return false;
+    }
+    const recorder = new CallRecorder(
+      {
+        recordingId,
+        callId: this.callId,
+        ownerLoyaltyId,
+        peerLoyaltyId: this.peerLoyaltyId,
+        peerName: this.peerName,
+      },
+      (meta) => this.client.notifyRecordingStopped(this, meta)
+    );
+    recorder.start(this.recordedStreams());
+    this.recorder = recorder;
+    return true;
+  }
+
+  // Finishes in the background; the client is told once the last chunk is stored
+  stopRecording() {
+    const recorder = this.recorder;
+    if (!recorder) {
+      return false;
+    }
+    this.recorder = null;
+    recorder.stop().catch((e) => console.warn('⚠️ Failed to finish recording:', e));
+    return true;
+  }
+
+  // Our side as the peer hears it: the processed microphone (silent while muted), hold
+  // music while we hold the call, or nothing when holding without music
+  private recordedStreams() {
+    const transceiver = this.audioTransceiver;
+    const sent =
+      this.heldBy === 'local'
+        ? transceiver?.direction === 'sendonly' ? transceiver.sender.track : null
+        : this.sentAudioTrack();
+    return [sent ? new MediaStream([sent]) : null, this.remoteStream].filter((s): s is MediaStream => !!s);
+  }
+
+  get captionsEnabled() {
+    return !!this.transcriber;
+  }
+
+  // Live captions of both parties (see call-transcriber.ts)
+  async startCaptions() {
+    if (this.closed || this.transcriber) {
+      return;
+    }
+    const transcriber = new CallTranscriber((segment) => {
+      const i = this.transcript.findIndex((s) => s.id === segment.id);
+      if (i >= 0) {
+        this.transcript[i] = segment;
+      } else {
+        this.transcript.push(segment);
+      }
+    });
+    this.transcriber = transcriber;
+    try {
+      await transcriber.start(this.audioTracks());
+    } catch (e) {
+      this.stopCaptions();
+      throw e;
+    }
+  }
+
+  stopCaptions() {
+    this.transcriber?.stop();
+    this.transcriber = null;
+  }
+
+  // Who is talking right now, while voice activity is being detected
+  get speaking(): Record<VoiceParty, boolean> | null {
+    return this.voiceActivity ? { ...this.voiceActivity.speaking } : null;
+  }
+
+  // Voice activity of both sides from the moment the call is answered (see voice-activity.ts)
+  private startVoiceActivity() {
+    if (this.voiceActivity || this.closed || !this.localStream || !canUseAudioWorklets()) {
+      return;
+    }
+    const monitor = new VoiceActivityMonitor();
+    this.voiceActivity = monitor;
+    monitor.start(this.audioTracks()).catch((e) => console.warn('⚠️ Voice activity detection unavailable:', e));
+  }
+
+  // Our microphone (unprocessed) and the peer's audio
+  private audioTracks() {
+    return {
+      local: this.localStream?.getAudioTracks()[0] ?? null,
+      remote: this.remoteStream?.getAudioTracks()[0] ?? null,
+    };
+  }
+
+  // Send keypad digits in the audio stream (RFC 4733 telephone-events).
+  // Returns false when the sender can't, so the caller falls back to signaling.
+  insertDtmf(digits: string) {
+    const dtmf = this.audioTransceiver?.sender.dtmf;
+    if (!dtmf?.canInsertDTMF || this.heldBy === 'local') {
+      return false;
+    }
+    // Queue behind digits still playing rather than cutting them off
+    dtmf.insertDTMF(dtmf.toneBuffer + digits, DTMF_TONE_MS, DTMF_GAP_MS);
+    return true;
+  }
+
+  // Toggle mute
+  toggleMute() {
+    return this.setMuted(!this.isMuted);
+  }
+
+  setMuted(muted: boolean) {
+    if (this.localStream) {
+      this.isMuted = muted;
+      this.localStream.getAudioTracks().forEach((track) => {
+        track.enabled = !this.isMuted;
+      });
+    }
+    return this.isMuted;
+  }
+
+  // Move the call to a terminal state (unless it already is) and release it
+  end(reason: string) {
+    this.endReason ??= reason;
+    if (!this.machine.isTerminal) {
+      this.machine.transition('ended', reason);
+    }
+    this.close();
+  }
+
+  // Release the peer connection and media. Does not notify the backend.
+  close() {
+    if (this.closed) {
+      return;
+    }
+    this.closed = true;
+
+    // Clear queued ICE candidates when call ends
+    if (this.queuedIceCandidates.length > 0) {
+      console.log('Clearing', this.queuedIceCandidates.length, 'queued ICE candidates');
+      this.queuedIceCandidates = [];
+    }
+    this.settleAnsweredWaiters(new Error('Call ended'));
+    this.reconnection.stop();
+    this.stats.stop();
+    this.stopRecording();
+    this.stopCaptions();
+    this.talkTime = this.voiceActivity?.stop() ?? null;
+    this.voiceActivity = null;
+    this.micProcessing?.stop();
+    this.micProcessing = null;
+
+    if (this.turnRefreshTimer) {
+      clearTimeout(this.turnRefreshTimer);
+      this.turnRefreshTimer = null;
+    }
+    this.holdMusic.stop();
+    this.directionsBeforeHold.clear();
+    if (this.pc) {
+      this.pc.close();
+      this.pc = null;
+    }
+    if (this.localStream) {
+      this.localStream.getTracks().forEach((track) => track.stop());
+      this.localStream = null;
+    }
+    if (this.remoteStream) {
+      this.remoteStream.getTracks().forEach((track) => track.stop());
+      this.remoteStream = null;
+    }
+    this.stopRemoteAudioElement();
+    this.remoteAudioOutput?.detach();
+    this.remoteAudioOutput = null;
+    if (this.screenStream) {
+      this.screenStream.getTracks().forEach((track) => {
+        track.onended = null;
+        track.stop();
+      });
+      this.screenStream = null;
+    }
+    this.remoteScreenStream = null;
+    this.cameraTransceiver = null;
+    this.screenTransceiver = null;
+    this.remoteScreenTransceiver = null;
+    this.audioTransceiver = null;
+  }
+}
@@ -0,0 +1,126 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { CallStateMachine, isEstablishedState, isTerminalState, type CallStateEvent } from './call-state-machine';
+
+function record(machine: CallStateMachine) {
+  const events: CallStateEvent[] = [];
+  machine.subscribe((event) => events.push(event));
+  return events;
+}
+
+describe('CallStateMachine', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  it('goes through an outgoing call', () => {
+    const machine = new CallStateMachine();
+    expect(machine.state).toBe('idle');
+    expect(machine.transition('calling', 'user')).toBe(true);
+    expect(machine.transition('answered', 'signaling:answer')).toBe(true);
+    expect(machine.transition('held', 'user')).toBe(true);
+    expect(machine.transition('answered', 'user')).toBe(true);
+    expect(machine.transition('ended', 'user')).toBe(true);
+    expect(machine.isTerminal).toBe(true);
+    expect(machine.history.map((t) => t.to)).toEqual(['calling', 'answered', 'held', 'answered', 'ended']);
+  });
+
+  it('rejects transitions that are not allowed and keeps the state', () => {
+    const machine = new CallStateMachine();
+    const events = record(machine);
+    expect(machine.transition('held', 'user')).toBe(false);
+    expect(machine.state).toBe('idle');
+    expect(events).toEqual([{ type: 'rejected', transition: expect.objectContaining({ from: 'idle', to: 'held' }) }]);
+    expect(machine.history).toHaveLength(0);
+  });
+
+  it('has no way out of a terminal state', () => {
+    const machine = new CallStateMachine();
+    machine.transition('ringing', 'signaling:offer');
+    machine.transition('rejected', 'user');
+    expect(machine.transition('answered', 'signaling:answer')).toBe(false);
+    expect(machine.transition('ended', 'user')).toBe(false);
+    expect(machine.state).toBe('rejected');
+  });
+
+  it('treats repeating the current state as a no-op', () => {
+    const machine = new CallStateMachine();
+    machine.transition('calling', 'user');
+    machine.transition('answered', 'socket:answer');
+    const events = record(machine);
+    expect(machine.transition('answered', 'http-poll')).toBe(true);
+    expect(events).toHaveLength(0);
+    expect(machine.history).toHaveLength(2);
+  });
+
+  it('starts the timer once, on the first answer', () => {
+    vi.useFakeTimers();
+    try {
+      vi.setSystemTime(1000);
+      const machine = new CallStateMachine();
+      machine.transition('calling', 'user');
+      expect(machine.startedAt).toBeNull();
+      vi.setSystemTime(2000);
+      machine.transition('answered', 'signaling:answer');
+      vi.setSystemTime(3000);
+      machine.transition('held', 'user');
+      machine.transition('answered', 'user');
+      expect(machine.startedAt).toBe(2000);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('continues the timer of a call rejoined after a reload', () => {
+    const machine = new CallStateMachine();
+    machine.restoreStartedAt(500);
+    expect(machine.transition('answered', 'rejoin')).toBe(true);
+    expect(machine.startedAt).toBe(500);
+  });
+
+  it('reports a missed call when the caller hangs up or it rings out', () => {
+    const machine = new CallStateMachine();
+    const events = record(machine);
+    machine.transition('ringing', 'signaling:offer');
+    machine.transition('ended', 'signaling:call-state');
+    expect(events.map((e) => e.type)).toEqual(['transition', 'transition', 'missed']);
+  });
+
+  it.each(['user', 'answer-failed', 'replaced', 'rejoin-failed'])('does not report a missed call when it ends with %s', (reason) => {
+    const machine = new CallStateMachine();
+    const events = record(machine);
+    machine.transition('ringing', 'signaling:offer');
+    machine.transition('ended', reason);
+    expect(events.some((e) => e.type === 'missed')).toBe(false);
+  });
+
+  it('does not report a missed call for an outgoing call', () => {
+    const machine = new CallStateMachine();
+    const events = record(machine);
+    machine.transition('calling', 'user');
+    machine.transition('ended', 'signaling:call-state');
+    expect(events.some((e) => e.type === 'missed')).toBe(false);
+  });
+
+  it('keeps notifying when a listener throws', () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const machine = new CallStateMachine();
+    machine.subscribe(() => {
+      throw new Error('boom');
+    });
+    const events = record(machine);
+    machine.transition('calling', 'user');
+    expect(events).toHaveLength(1);
+  });
+});
+
+describe('state helpers', () => {
+  it('tells terminal and established states', () => {
+    expect(isTerminalState('ended')).toBe(true);
+    expect(isTerminalState('rejected')).toBe(true);
+    expect(isTerminalState('held')).toBe(false);
+    expect(isEstablishedState('answered')).toBe(true);
+    expect(isEstablishedState('held')).toBe(true);
+    expect(isEstablishedState('ringing')).toBe(false);
+  });
+});
@@ -0,0 +1,132 @@
+// Call state tracking for UI
+export type CallState = 'idle' | 'calling' | 'ringing' | 'answered' | 'held' | 'ended' | 'rejected';
+
+// Allowed transitions. Terminal states (ended, rejected) have no way out:
+// a finished call is discarded and the next call gets a fresh machine.
+const TRANSITIONS: Record<CallState, readonly CallState[]> = {
+  // Straight to 'answered' only for a call rejoined after a page reload
+  idle: ['calling', 'ringing', 'answered'],
+  calling: ['answered', 'ended', 'rejected'],
+  ringing: ['answered', 'ended', 'rejected'],
+  answered: ['held', 'ended'],
+  // Either party put the call on hold; media is paused but the call timer keeps running
+  held: ['answered', 'ended'],
+  ended: [],
+  rejected: [],
+};
+
+export interface CallTransition {
+  from: CallState;
+  to: CallState;
+  // What triggered the transition, e.g. 'socket:call-state', 'http-poll', 'user'
+  reason: string;
+  at: number;
+}
+
+export type CallStateEvent =
+  | { type: 'transition'; transition: CallTransition }
+  | { type: 'rejected'; transition: CallTransition }
+  // An incoming call stopped ringing because the caller hung up or nobody picked up
+  | { type: 'missed'; transition: CallTransition };
+
+export type CallStateListener = (event: CallStateEvent) => void;
+
+// Reasons a ringing call ends unanswered. The caller cancelling and the backend giving
+// up ringing both arrive as call state; a local decline, a failed answer or rejoin
+// and a replaced session are not missed calls.
+const MISSED_CALL_REASONS: readonly string[] = ['signaling:call-state'];
+
+export function isTerminalState(state: CallState) {
+  return state === 'ended' || state === 'rejected';
+}
+
+// The call is connected (talking or on hold)
+export function isEstablishedState(state: CallState) {
+  return state === 'answered' || state === 'held';
+}
+
+// Single source of truth for the state of one call.
+// Every signaling path (socket, HTTP polling, peer connection events, user actions)
+// requests a transition here instead of assigning the state directly.
+export class CallStateMachine {
+  private current: CallState = 'idle';
+  private answeredAt: number | null = null;
+  private readonly transitions: CallTransition[] = [];
+  private readonly listeners = new Set<CallStateListener>();
+
+  get state() {
+    return this.current;
+  }
+
+  // When the call entered 'answered' - drives the call timer
+  get startedAt() {
+    return this.answeredAt;
+  }
+
+  get isTerminal() {
+    return isTerminalState(this.current);
+  }
+
+  // Accepted transitions in order, used for diagnostics
+  get history(): readonly CallTransition[] {
+    return this.transitions;
+  }
+
+  canTransition(to: CallState) {
+    return TRANSITIONS[this.current].includes(to);
+  }
+
+  // Request a transition. Returns false (and emits a 'rejected' event) when the
+  // transition is not allowed. Repeating the current state is a no-op: the same
+  // answer often arrives through socket and HTTP polling.
+  transition(to: CallState, reason: string): boolean {
+    if (to === this.current) {
+      return true;
+    }
+
+    const transition: CallTransition = { from: this.current, to, reason, at: Date.now() };
+    if (!this.canTransition(to)) {
+      console.warn('⚠️ Rejected call state transition:', `${transition.from} → ${to}`, 'reason:', reason);
+      this.emit({ type: 'rejected', transition });
+      return false;
+    }
+
+    this.current = to;
+    if (to === 'answered' && !this.answeredAt) {
+      this.answeredAt = transition.at;
+      console.log('📞 Started call timer at:', this.answeredAt);
+    }
+    this.transitions.push(transition);
+    this.emit({ type: 'transition', transition });
+    // Only incoming calls ring; a rejected one goes to 'rejected' instead
+    if (transition.from === 'ringing' && to === 'ended' && MISSED_CALL_REASONS.includes(reason)) {
+      this.emit({ type: 'missed', transition });
+    }
+    return true;
+  }
+
+  // Continue the timer of a call answered before a page reload; call before the
+  // restored call transitions to 'answered'
+  restoreStartedAt(at: number) {
+    if (!this.answeredAt) {
+      this.answeredAt = at;
+    }
+  }
+
+  subscribe(listener: CallStateListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private emit(event: CallStateEvent) {
+    this.listeners.forEach((listener) => {
+      try {
+        listener(event);
+      } catch (e) {
+        console.error('Call state listener failed:', e);
+      }
+    });
+  }
+}
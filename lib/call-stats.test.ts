@@ -0,0 +1,127 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { CallStatsCollector, estimateMos, type CallStats } from './call-stats';
+
+describe('estimateMos', () => {
+  it('is unknown without a round trip time', () => {
+    expect(estimateMos(null, 5, 0)).toBeNull();
+  });
+
+  it('rates a clean low-latency call near the top of the scale', () => {
+    expect(estimateMos(20, 0, 0)).toBe(4.4);
+  });
+
+  it('drops with latency, jitter and loss', () => {
+    const clean = estimateMos(40, 5, 0)!;
+    expect(estimateMos(400, 5, 0)!).toBeLessThan(clean);
+    expect(estimateMos(40, 60, 0)!).toBeLessThan(clean);
+    expect(estimateMos(40, 5, 5)!).toBeLessThan(clean);
+  });
+
+  it('stays within 1..4.5', () => {
+    expect(estimateMos(0, 0, 0)!).toBeLessThanOrEqual(4.5);
+    expect(estimateMos(2000, 200, 50)).toBe(1);
+  });
+});
+
+interface StatsEntry {
+  id: string;
+  type: string;
+  [key: string]: unknown;
+}
+
+function fakePeer(reports: StatsEntry[][]) {
+  let i = 0;
+  const getStats = async () => {
+    const entries = reports[Math.min(i++, reports.length - 1)];
+    return new Map(entries.map((entry) => [entry.id, { timestamp: 0, ...entry }]));
+  };
+  return { getStats } as unknown as RTCPeerConnection;
+}
+
+function report(packetsReceived: number, packetsLost: number, bytesReceived: number, bytesSent: number): StatsEntry[] {
+  return [
+    { id: 'in', type: 'inbound-rtp', kind: 'audio', packetsReceived, packetsLost, bytesReceived, jitter: 0.01, audioLevel: 0.2 },
+    { id: 'out', type: 'outbound-rtp', kind: 'audio', bytesSent },
+    { id: 'src', type: 'media-source', kind: 'audio', audioLevel: 0.5 },
+    { id: 't', type: 'transport', selectedCandidatePairId: 'pair' },
+    { id: 'pair', type: 'candidate-pair', localCandidateId: 'l', remoteCandidateId: 'r', state: 'succeeded', currentRoundTripTime: 0.05 },
+    { id: 'l', type: 'local-candidate', candidateType: 'relay', url: 'turn:turn1.example:3478' },
+    { id: 'r', type: 'remote-candidate', candidateType: 'srflx' },
+  ];
+}
+
+describe('CallStatsCollector', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(10_000);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('reads the selected pair, candidates and audio levels', async () => {
+    const samples: CallStats[] = [];
+    const collector = new CallStatsCollector(() => fakePeer([report(100, 0, 1000, 1000)]), (s) => samples.push(s));
+    collector.start();
+    await vi.advanceTimersByTimeAsync(0);
+    collector.stop();
+
+    expect(samples).toHaveLength(1);
+    expect(samples[0]).toMatchObject({
+      rttMs: 50,
+      jitterMs: 10,
+      localCandidateType: 'relay',
+      remoteCandidateType: 'srflx',
+      turnServer: 'turn:turn1.example:3478',
+      localAudioLevel: 0.5,
+      remoteAudioLevel: 0.2,
+      // Rates need two samples
+      packetLossPercent: null,
+      inboundBitrateKbps: null,
+    });
+  });
+
+  it('computes loss and bitrates between samples', async () => {
+    const peer = fakePeer([report(100, 0, 10_000, 20_000), report(190, 10, 22_500, 45_000)]);
+    const samples: CallStats[] = [];
+    const collector = new CallStatsCollector(() => peer, (s) => samples.push(s));
+    collector.start();
+    await vi.advanceTimersByTimeAsync(1000);
+    collector.stop();
+
+    expect(samples).toHaveLength(2);
+    expect(samples[1].packetLossPercent).toBe(10);
+    expect(samples[1].inboundBitrateKbps).toBe(100);
+    expect(samples[1].outboundBitrateKbps).toBe(200);
+    expect(samples[1].warnings).toContain('packet-loss');
+  });
+
+  it('falls back to the nominated pair without a transport entry', async () => {
+    const entries = report(100, 0, 0, 0).filter((e) => e.type !== 'transport');
+    entries.push({ id: 'other', type: 'candidate-pair', localCandidateId: 'x', remoteCandidateId: 'y', state: 'failed', nominated: true });
+    entries.find((e) => e.id === 'pair')!.nominated = true;
+    const samples: CallStats[] = [];
+    const collector = new CallStatsCollector(() => fakePeer([entries]), (s) => samples.push(s));
+    collector.start();
+    await vi.advanceTimersByTimeAsync(0);
+    collector.stop();
+
+    expect(samples[0].rttMs).toBe(50);
+    expect(samples[0].localCandidateType).toBe('relay');
+  });
+
+  it('starts over when the peer connection is replaced', async () => {
+    let peer = fakePeer([report(100, 0, 0, 0)]);
+    const samples: CallStats[] = [];
+    const collector = new CallStatsCollector(() => peer, (s) => samples.push(s));
+    collector.start();
+    await vi.advanceTimersByTimeAsync(0);
+    peer = fakePeer([report(10, 50, 0, 0)]);
+    await vi.advanceTimersByTimeAsync(1000);
+    collector.stop();
+
+    // No loss computed against the old connection's counters
+    expect(samples[1].packetLossPercent).toBeNull();
+  });
+});
@@ -0,0 +1,247 @@
+// Live call quality from RTCPeerConnection.getStats(), sampled every second.
+//
+// Rates (bitrate, packet loss) are computed from the difference between two
+// consecutive reports, so the first sample after start (or after the peer
+// connection is replaced) only carries the instantaneous values.
+
+export type CandidateType = 'host' | 'srflx' | 'prflx' | 'relay';
+export type CallQuality = 'good' | 'fair' | 'poor' | 'unknown';
+export type CallQualityWarning = 'high-rtt' | 'high-jitter' | 'packet-loss' | 'low-mos';
+
+export interface CallStats {
+  at: number;
+  // Round trip time of the selected candidate pair
+  rttMs: number | null;
+  // Jitter of the audio we receive
+  jitterMs: number | null;
+  // Share of incoming audio packets lost since the previous sample
+  packetLossPercent: number | null;
+  inboundBitrateKbps: number | null;
+  outboundBitrateKbps: number | null;
+  localCandidateType: CandidateType | null;
+  remoteCandidateType: CandidateType | null;
+  // TURN server relaying our media, when the local candidate is a relay one
+  turnServer: string | null;
+  // 0..1, as reported by the browser
+  localAudioLevel: number | null;
+  remoteAudioLevel: number | null;
+  // Estimated mean opinion score, 1 (bad) .. 4.5 (excellent)
+  mos: number | null;
+  quality: CallQuality;
+  warnings: CallQualityWarning[];
+}
+
+export type CallStatsListener = (stats: CallStats | null) => void;
+
+const SAMPLE_INTERVAL_MS = 1000;
+
+// Above these a call is noticeably impaired
+const WARN_RTT_MS = 300;
+const WARN_JITTER_MS = 30;
+const WARN_LOSS_PERCENT = 3;
+const WARN_MOS = 3.5;
+
+interface Counters {
+  timestamp: number;
+  packetsReceived: number;
+  packetsLost: number;
+  bytesReceived: number;
+  bytesSent: number;
+}
+
+// Stats entries missing from the DOM typings
+interface RTCIceCandidateStats extends RTCStats {
+  candidateType?: CandidateType;
+  // The TURN server, for relay candidates
+  url?: string;
+}
+
+interface RTCAudioSourceStats extends RTCStats {
+  kind: string;
+  audioLevel?: number;
+}
+
+interface RTCRemoteInboundRtpStreamStats extends RTCReceivedRtpStreamStats {
+  roundTripTime?: number;
+}
+
+interface StatsByType {
+  'inbound-rtp': RTCInboundRtpStreamStats;
+  'outbound-rtp': RTCOutboundRtpStreamStats;
+  'remote-inbound-rtp': RTCRemoteInboundRtpStreamStats;
+  'media-source': RTCAudioSourceStats;
+  'candidate-pair': RTCIceCandidatePairStats;
+  'local-candidate': RTCIceCandidateStats;
+  'remote-candidate': RTCIceCandidateStats;
+  transport: RTCTransportStats;
+}
+
+function isStatsOfType<T extends keyof StatsByType>(stats: RTCStats | undefined, type: T): stats is StatsByType[T] {
+  return stats?.type === type;
+}
+
+function statsOfType<T extends keyof StatsByType>(entries: RTCStats[], type: T): StatsByType[T][] {
+  return entries.filter((s): s is StatsByType[T] => isStatsOfType(s, type));
+}
+
+// Polls one call's peer connection while started. The peer connection is looked up
+// on every sample since it is replaced when the peer rejoins after a reload.
+export class CallStatsCollector {
+  private getPeer: () => RTCPeerConnection | null;
+  private onStats: (stats: CallStats) => void;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private sampling = false;
+  private peer: RTCPeerConnection | null = null;
+  private previous: Counters | null = null;
+  private last: CallStats | null = null;
+
+  constructor(getPeer: () => RTCPeerConnection | null, onStats: (stats: CallStats) => void) {
+    this.getPeer = getPeer;
+    this.onStats = onStats;
+  }
+
+  get latest() {
+    return this.last;
+  }
+
+  start() {
+    if (this.timer) {
+      return;
+    }
+    this.timer = setInterval(() => this.sample(), SAMPLE_INTERVAL_MS);
+    this.sample();
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    this.peer = null;
+    this.previous = null;
+  }
+
+  private async sample() {
+    const peer = this.getPeer();
+    if (!peer || this.sampling) {
+      return;
+    }
+    if (peer !== this.peer) {
+      this.peer = peer;
+      this.previous = null;
+    }
+
+    this.sampling = true;
+    try {
+      const report = await peer.getStats();
+      if (!this.timer || peer !== this.peer) {
+        return;
+      }
+      this.last = this.compute(report);
+      this.onStats(this.last);
+    } catch (e) {
+      console.warn('⚠️ getStats failed:', e);
+    } finally {
+      this.sampling = false;
+    }
+  }
+
+  private compute(report: RTCStatsReport): CallStats {
+    const byId = new Map<string, RTCStats>();
+    report.forEach((entry: RTCStats) => byId.set(entry.id, entry));
+    const entries = Array.from(byId.values());
+
+    const inbound = statsOfType(entries, 'inbound-rtp').find((s) => s.kind === 'audio');
+    const outbound = statsOfType(entries, 'outbound-rtp');
+    const mediaSource = statsOfType(entries, 'media-source').find((s) => s.kind === 'audio');
+    const pair = findSelectedPair(entries, byId);
+    const remoteInbound = statsOfType(entries, 'remote-inbound-rtp').find((s) => s.kind === 'audio');
+
+    const counters: Counters = {
+      timestamp: Date.now(),
+      packetsReceived: inbound?.packetsReceived ?? 0,
+      packetsLost: inbound?.packetsLost ?? 0,
+      bytesReceived: statsOfType(entries, 'inbound-rtp').reduce((sum, s) => sum + (s.bytesReceived ?? 0), 0),
+      bytesSent: outbound.reduce((sum, s) => sum + (s.bytesSent ?? 0), 0),
+    };
+    const previous = this.previous;
+    this.previous = counters;
+
+    let packetLossPercent: number | null = null;
+    let inboundBitrateKbps: number | null = null;
+    let outboundBitrateKbps: number | null = null;
+    if (previous) {
+      const seconds = (counters.timestamp - previous.timestamp) / 1000;
+      const lost = Math.max(0, counters.packetsLost - previous.packetsLost);
+      const received = Math.max(0, counters.packetsReceived - previous.packetsReceived);
+      packetLossPercent = lost + received > 0 ? (lost / (lost + received)) * 100 : 0;
+      if (seconds > 0) {
+        inboundBitrateKbps = Math.max(0, (counters.bytesReceived - previous.bytesReceived) * 8 / seconds / 1000);
+        outboundBitrateKbps = Math.max(0, (counters.bytesSent - previous.bytesSent) * 8 / seconds / 1000);
+      }
+    }
+
+    const rttSeconds = pair?.currentRoundTripTime ?? remoteInbound?.roundTripTime;
+    const rttMs = typeof rttSeconds === 'number' ? rttSeconds * 1000 : null;
+    const jitterMs = typeof inbound?.jitter === 'number' ? inbound.jitter * 1000 : null;
+    const mos = estimateMos(rttMs, jitterMs, packetLossPercent);
+    const localCandidate = pair ? byId.get(pair.localCandidateId) : undefined;
+    const remoteCandidate = pair ? byId.get(pair.remoteCandidateId) : undefined;
+    const localCandidateType = isStatsOfType(localCandidate, 'local-candidate') ? localCandidate.candidateType ?? null : null;
+
+    const warnings: CallQualityWarning[] = [];
+    if (rttMs !== null && rttMs > WARN_RTT_MS) {
+      warnings.push('high-rtt');
+    }
+    if (jitterMs !== null && jitterMs > WARN_JITTER_MS) {
+      warnings.push('high-jitter');
+    }
+    if (packetLossPercent !== null && packetLossPercent > WARN_LOSS_PERCENT) {
+      warnings.push('packet-loss');
+    }
+    if (mos !== null && mos < WARN_MOS) {
+      warnings.push('low-mos');
+    }
+
+    return {
+      at: counters.timestamp,
+      rttMs,
+      jitterMs,
+      packetLossPercent,
+      inboundBitrateKbps,
+      outboundBitrateKbps,
+      localCandidateType,
+      remoteCandidateType: isStatsOfType(remoteCandidate, 'remote-candidate') ? remoteCandidate.candidateType ?? null : null,
+      turnServer: localCandidateType === 'relay' && isStatsOfType(localCandidate, 'local-candidate') ? localCandidate.url ?? null : null,
+      localAudioLevel: typeof mediaSource?.audioLevel === 'number' ? mediaSource.audioLevel : null,
+      remoteAudioLevel: typeof inbound?.audioLevel === 'number' ? inbound.audioLevel : null,
+      mos,
+      quality: mos === null ? 'unknown' : mos >= 4 ? 'good' : mos >= WARN_MOS ? 'fair' : 'poor',
+      warnings,
+    };
+  }
+}
+
+// The candidate pair carrying media: the one the transport points at, or the
+// nominated succeeded pair on browsers without selectedCandidatePairId
+function findSelectedPair(entries: RTCStats[], byId: Map<string, RTCStats>): RTCIceCandidatePairStats | null {
+  const transport = statsOfType(entries, 'transport').find((s) => s.selectedCandidatePairId);
+  if (transport?.selectedCandidatePairId) {
+    const selected = byId.get(transport.selectedCandidatePairId);
+    return isStatsOfType(selected, 'candidate-pair') ? selected : null;
+  }
+  return statsOfType(entries, 'candidate-pair').find((s) => s.nominated && s.state === 'succeeded') ?? null;
+}
+
+// Simplified ITU-T G.107 E-model, as commonly used for WebRTC voice:
+// one-way delay is half the RTT plus the jitter buffer, codec impairment is ignored
+export function estimateMos(rttMs: number | null, jitterMs: number | null, packetLossPercent: number | null) {
+  if (rttMs === null) {
+    return null;
+  }
+  const latency = rttMs / 2 + (jitterMs ?? 0) * 2 + 10;
+  const delayImpairment = latency < 160 ? latency / 40 : (latency - 120) / 10;
+  const r = Math.max(0, Math.min(100, 93.2 - delayImpairment - (packetLossPercent ?? 0) * 2.5));
+  const mos = 1 + 0.035 * r + 0.000007 * r * (r - 60) * (100 - r);
+  return Math.round(Math.max(1, Math.min(4.5, mos)) * 100) / 100;
+}
@@ -0,0 +1,148 @@
+// Live captions for a call. Our microphone and the remote audio are captured as PCM
+// frames by an AudioWorklet (one per party) and fed to an AsrProvider; its segments
+// come back with wall-clock times for the captions pane and the call transcript.
+
+import { MockAsrProvider, type AsrProvider, type AsrProviderFactory, type AsrSegment, type AsrSpeaker } from './asr';
+import { canUseAudioWorklets, loadWorklet, PCM_CAPTURE_WORKLET } from './audio-worklets';
+
+export interface TranscriptSegment {
+  id: string;
+  speaker: AsrSpeaker;
+  text: string;
+  startedAt: number;
+  endedAt: number;
+  // Partial segments may still change
+  final: boolean;
+}
+
+const FRAME_MS = 20;
+const LANGUAGE = 'ru-RU';
+
+let providerFactory: AsrProviderFactory = () => new MockAsrProvider();
+
+export function canShowCaptions() {
+  return canUseAudioWorklets();
+}
+
+// Install the speech recognition used by captions started from now on
+export function setAsrProviderFactory(factory: AsrProviderFactory) {
+  providerFactory = factory;
+}
+
+interface CaptureInput {
+  trackId: string;
+  source: MediaStreamAudioSourceNode;
+  node: AudioWorkletNode;
+}
+
+export class CallTranscriber {
+  private context: AudioContext | null = null;
+  // Worklet nodes must be pulled by the graph to run; they end in a muted gain
+  private sink: GainNode | null = null;
+  private provider: AsrProvider | null = null;
+  private inputs: Record<AsrSpeaker, CaptureInput | null> = { local: null, remote: null };
+  private startedAt = 0;
+  private stopped = false;
+  // Segments not final yet, by id (final ones are only passed on)
+  private partials = new Map<string, TranscriptSegment>();
+  private onSegment: (segment: TranscriptSegment) => void;
+
+  constructor(onSegment: (segment: TranscriptSegment) => void) {
+    this.onSegment = onSegment;
+  }
+
+  async start(tracks: Record<AsrSpeaker, MediaStreamTrack | null>) {
+    const context = new AudioContext();
+    this.context = context;
+    await loadWorklet(context, 'pcm-capture', PCM_CAPTURE_WORKLET);
+
+    const provider = providerFactory();
+    this.provider = provider;
+    await provider.start({
+      sampleRate: context.sampleRate,
+      language: LANGUAGE,
+      onSegment: (segment) => this.handleSegment(segment),
+      onError: (e) => console.warn('⚠️ Speech recognition error:', e),
+    });
+    if (this.stopped) {
+      return;
+    }
+
+    this.sink = context.createGain();
+    this.sink.gain.value = 0;
+    this.sink.connect(context.destination);
+    this.startedAt = Date.now();
+    this.setTracks(tracks);
+    console.log('💬 Captions started with', provider.name, 'at', context.sampleRate, 'Hz');
+  }
+
+  // Capture these tracks, e.g. after the microphone was switched
+  setTracks(tracks: Record<AsrSpeaker, MediaStreamTrack | null>) {
+    const context = this.context;
+    const sink = this.sink;
+    if (!context || !sink || this.stopped) {
+      return;
+    }
+    (Object.keys(tracks) as AsrSpeaker[]).forEach((speaker) => {
+      const track = tracks[speaker];
+      const input = this.inputs[speaker];
+      if (input?.trackId === track?.id) {
+        return;
+      }
+      if (input) {
+        input.source.disconnect();
+        input.node.disconnect();
+        input.node.port.onmessage = null;
+        this.inputs[speaker] = null;
+      }
+      if (!track) {
+        return;
+      }
+      const source = context.createMediaStreamSource(new MediaStream([track]));
+      const node = new AudioWorkletNode(context, 'pcm-capture', {
+        numberOfOutputs: 1,
+        processorOptions: { frameSize: Math.round((context.sampleRate * FRAME_MS) / 1000) },
+      });
+      node.port.onmessage = (event: MessageEvent<Float32Array>) => this.provider?.pushFrame(speaker, event.data);
+      source.connect(node).connect(sink);
+      this.inputs[speaker] = { trackId: track.id, source, node };
+    });
+  }
+
+  // What is still partial is kept as final; the provider is stopped in the background
+  stop() {
+    if (this.stopped) {
+      return;
+    }
+    this.setTracks({ local: null, remote: null });
+    this.stopped = true;
+    this.provider?.stop().catch((e) => console.warn('⚠️ Failed to stop speech recognition:', e));
+    this.provider = null;
+    this.partials.forEach((segment) => this.onSegment({ ...segment, final: true }));
+    this.partials.clear();
+    this.context?.close().catch(() => {});
+    this.context = null;
+    this.sink = null;
+  }
+
+  private handleSegment(segment: AsrSegment) {
+    if (this.stopped || !segment.text.trim()) {
+      return;
+    }
+    const converted: TranscriptSegment = {
+      // Providers number their segments from scratch; captions may be restarted mid-call
+      id: `${this.startedAt}:${segment.id}`,
+      speaker: segment.speaker,
+      text: segment.text.trim(),
+      startedAt: this.startedAt + Math.round(segment.startMs),
+      endedAt: this.startedAt + Math.round(segment.endMs),
+      final: segment.final,
+    };
+    if (converted.final) {
+      this.partials.delete(converted.id);
+    } else {
+      this.partials.set(converted.id, converted);
+    }
+    this.onSegment(converted);
+  }
+}
@@ -0,0 +1,373 @@
+import { generateUUID, type CallClient } from './call-client';
+import { isEstablishedState } from './call-state-machine';
+import type {
+  SignalingTransport,
+  TransferMode,
+  TransferRequestMessage,
+  TransferStatusMessage,
+} from './signaling-transport';
+
+export type { TransferMode } from './signaling-transport';
+
+// Which side of the transfer this client is on
+//   transferor - the agent handing the call over
+//   transferee - the customer being moved to another agent
+//   target     - the agent taking the call over (attended transfer)
+export type TransferRole = 'transferor' | 'transferee' | 'target';
+
+export type TransferStatus = 'consulting' | 'requested' | 'accepted' | 'connected' | 'failed' | 'cancelled';
+
+export interface TransferInfo {
+  transferId: string;
+  mode: TransferMode;
+  role: TransferRole;
+  status: TransferStatus;
+  // The other agent (for the target: the customer)
+  peerName: string | null;
+  reason: string | null;
+  updatedAt: number;
+}
+
+// How long the transferee has to reach the new agent
+const TRANSFER_TIMEOUT_MS = 45000;
+
+interface OutgoingTransfer {
+  info: TransferInfo;
+  customerCallId: string;
+  targetLoyaltyId: string;
+  consultCallId: string | null;
+  timeout: ReturnType<typeof setTimeout> | null;
+}
+
+interface ExpectedTransfer {
+  transferId: string;
+  customerLoyaltyId: string | null;
+  consultCallId: string;
+  expiresAt: number;
+}
+
+// Blind and attended transfer between agents, on top of a CallClient's sessions.
+//
+// Blind: the transferor asks the customer to call the new agent and drops the call
+// once the customer accepts. Attended: the transferor holds the customer, consults
+// the new agent in a second call, then asks the customer to call the new agent, who
+// accepts that call automatically. Outcomes are reported back with transfer-status.
+export class CallTransferManager {
+  private client: CallClient;
+  private transport: SignalingTransport;
+  private outgoing: OutgoingTransfer | null = null;
+  private expected: ExpectedTransfer | null = null;
+  private current: TransferInfo | null = null;
+
+  constructor(client: CallClient, transport: SignalingTransport) {
+    this.client = client;
+    this.transport = transport;
+    transport.on('transfer-request', (data) => this.handleRequest(data));
+    transport.on('transfer-status', (data) => this.handleStatus(data));
+  }
+
+  // The latest transfer this client took part in, for the UI
+  get info(): TransferInfo | null {
+    return this.current;
+  }
+
+  // Redirect the customer in the current call to another agent
+  async blindTransfer(targetLoyaltyId: string, targetName: string) {
+    const session = this.requireEstablishedCall();
+    const transfer = this.beginOutgoing('blind', session.callId, targetLoyaltyId, targetName, 'requested');
+
+    try {
+      await this.transport.sendTransferRequest({
+        transferId: transfer.info.transferId,
+        callId: session.callId,
+        mode: 'blind',
+        role: 'transferee',
+        targetLoyaltyId,
+        targetName,
+      });
+      this.armTimeout(transfer);
+    } catch (e) {
+      this.finishOutgoing(transfer, 'failed', e instanceof Error ? e.message : 'request-failed');
+      throw e;
+    }
+  }
+
+  // Hold the customer and call the other agent for a consultation
+  async startAttendedTransfer(targetLoyaltyId: string, targetName: string) {
+    const session = this.requireEstablishedCall();
+    const transfer = this.beginOutgoing('attended', session.callId, targetLoyaltyId, targetName, 'consulting');
+
+    if (session.state !== 'held') {
+      await this.client.holdCall();
+    }
+    try {
+      const consult = await this.client.startParallelCallByLoyaltyId(targetLoyaltyId, targetName);
+      transfer.consultCallId = consult.callId;
+      console.log('🔀 Consulting transfer target, call:', consult.callId);
+    } catch (e) {
+      console.warn('⚠️ Consultation call failed:', e);
+      await this.returnToCustomer(transfer);
+      this.finishOutgoing(transfer, 'failed', 'consult-failed');
+      throw e;
+    }
+  }
+
+  // Bridge the customer to the consulted agent
+  async completeAttendedTransfer() {
+    const transfer = this.outgoing;
+    if (!transfer || transfer.info.mode !== 'attended' || transfer.info.status !== 'consulting' || !transfer.consultCallId) {
+      throw new Error('No attended transfer in progress');
+    }
+    const customer = this.client.getSession(transfer.customerCallId);
+    if (!customer) {
+      await this.cancelAttendedTransfer();
+      throw new Error('Customer already hung up');
+    }
+
+    try {
+      // The target first, so it is ready when the customer's call arrives
+      await this.transport.sendTransferRequest({
+        transferId: transfer.info.transferId,
+        callId: transfer.consultCallId,
+        mode: 'attended',
+        role: 'target',
+        customerLoyaltyId: customer.peerLoyaltyId ?? undefined,
+        customerName: customer.peerName ?? undefined,
+      });
+      await this.transport.sendTransferRequest({
+        transferId: transfer.info.transferId,
+        callId: transfer.customerCallId,
+        mode: 'attended',
+        role: 'transferee',
+        targetLoyaltyId: transfer.targetLoyaltyId,
+        targetName: transfer.info.peerName ?? undefined,
+      });
+    } catch (e) {
+      await this.cancelAttendedTransfer();
+      throw e;
+    }
+    this.update(transfer.info, 'requested');
+    this.armTimeout(transfer);
+  }
+
+  // Drop the consultation and go back to the customer
+  async cancelAttendedTransfer() {
+    const transfer = this.outgoing;
+    if (!transfer || transfer.info.mode !== 'attended') {
+      return;
+    }
+    await this.returnToCustomer(transfer);
+    this.finishOutgoing(transfer, 'cancelled', null);
+  }
+
+  // An incoming call that should be answered automatically because it completes
+  // an attended transfer to this agent. Only the expected customer is: without their
+  // id any caller could be taken for them, so the call rings as usual.
+  claimIncomingCall(fromLoyaltyId: string | undefined) {
+    const expected = this.expected;
+    if (!expected || Date.now() > expected.expiresAt) {
+      this.expected = null;
+      return false;
+    }
+    return !!expected.customerLoyaltyId && expected.customerLoyaltyId === fromLoyaltyId;
+  }
+
+  // The transferred customer's call was answered at the target
+  handleTransferredCallAnswered(callId: string) {
+    const expected = this.expected;
+    if (!expected) {
+      return;
+    }
+    this.expected = null;
+    console.log('🔀 Transferred call connected:', callId);
+    this.client.endCallById(expected.consultCallId, 'transferred');
+    if (this.current?.transferId === expected.transferId) {
+      this.update(this.current, 'connected');
+    }
+  }
+
+  private async handleRequest(data: TransferRequestMessage) {
+    console.log('🔀 Transfer request:', data.transferId, 'mode:', data.mode, 'role:', data.role);
+    if (data.role === 'target') {
+      this.expected = {
+        transferId: data.transferId,
+        customerLoyaltyId: data.customerLoyaltyId ?? null,
+        consultCallId: data.callId,
+        expiresAt: Date.now() + TRANSFER_TIMEOUT_MS,
+      };
+      this.setCurrent({
+        transferId: data.transferId,
+        mode: data.mode,
+        role: 'target',
+        status: 'requested',
+        peerName: data.customerName ?? data.customerLoyaltyId ?? null,
+        reason: null,
+        updatedAt: Date.now(),
+      });
+      return;
+    }
+
+    await this.transferSelf(data);
+  }
+
+  // We are the customer: call the new agent, then leave the original call
+  private async transferSelf(data: TransferRequestMessage) {
+    const reply = (status: TransferStatusMessage['status'], reason?: string) => {
+      if (data.fromDeviceId) {
+        this.transport.sendTransferStatus(data.fromDeviceId, { transferId: data.transferId, status, reason })
+          .catch((e) => console.warn('Failed to report transfer status:', e));
+      }
+    };
+
+    const original = this.client.getSession(data.callId);
+    if (!original || !data.targetLoyaltyId) {
+      reply('failed', original ? 'no-target' : 'no-call');
+      return;
+    }
+
+    const info: TransferInfo = {
+      transferId: data.transferId,
+      mode: data.mode,
+      role: 'transferee',
+      status: 'accepted',
+      peerName: data.targetName ?? data.targetLoyaltyId,
+      reason: null,
+      updatedAt: Date.now(),
+    };
+    this.setCurrent(info);
+    reply('accepted');
+
+    try {
+      await this.client.startParallelCallByLoyaltyId(data.targetLoyaltyId, info.peerName ?? data.targetLoyaltyId);
+      this.client.endCallById(data.callId, 'transferred');
+      this.update(info, 'connected');
+      reply('connected');
+    } catch (e) {
+      const reason = e instanceof Error ? e.message : 'call-failed';
+      console.warn('⚠️ Transfer call failed:', reason);
+      // Back to the original call if the transferring agent is still there
+      if (this.client.getSession(data.callId)) {
+        this.client.focusSession(data.callId);
+      }
+      this.update(info, 'failed', reason);
+      reply('failed', reason);
+    }
+  }
+
+  private async handleStatus(data: TransferStatusMessage) {
+    const transfer = this.outgoing;
+    if (!transfer || transfer.info.transferId !== data.transferId) {
+      return;
+    }
+    console.log('🔀 Transfer status:', data.status, data.reason ?? '');
+
+    if (data.status === 'accepted') {
+      this.update(transfer.info, 'accepted');
+      // Blind transfer: our part is done as soon as the customer is on the way
+      if (transfer.info.mode === 'blind') {
+        this.client.endCallById(transfer.customerCallId, 'transferred');
+      }
+    } else if (data.status === 'connected') {
+      this.client.endCallById(transfer.customerCallId, 'transferred');
+      if (transfer.consultCallId) {
+        this.client.endCallById(transfer.consultCallId, 'transferred');
+      }
+      this.finishOutgoing(transfer, 'connected', null);
+    } else {
+      if (transfer.info.mode === 'attended') {
+        await this.returnToCustomer(transfer);
+      }
+      this.finishOutgoing(transfer, 'failed', data.reason ?? null);
+    }
+  }
+
+  private requireEstablishedCall() {
+    const session = this.client.currentSession;
+    if (!session || !isEstablishedState(session.state)) {
+      throw new Error('No active call to transfer');
+    }
+    if (this.outgoing) {
+      throw new Error('A transfer is already in progress');
+    }
+    return session;
+  }
+
+  private beginOutgoing(
+    mode: TransferMode,
+    customerCallId: string,
+    targetLoyaltyId: string,
+    targetName: string,
+    status: TransferStatus
+  ) {
+    const transfer: OutgoingTransfer = {
+      info: {
+        transferId: generateUUID(),
+        mode,
+        role: 'transferor',
+        status,
+        peerName: targetName,
+        reason: null,
+        updatedAt: Date.now(),
+      },
+      customerCallId,
+      targetLoyaltyId,
+      consultCallId: null,
+      timeout: null,
+    };
+    this.outgoing = transfer;
+    this.setCurrent(transfer.info);
+    return transfer;
+  }
+
+  private armTimeout(transfer: OutgoingTransfer) {
+    if (transfer.timeout) {
+      clearTimeout(transfer.timeout);
+    }
+    transfer.timeout = setTimeout(async () => {
+      if (this.outgoing !== transfer) {
+        return;
+      }
+      if (transfer.info.mode === 'attended') {
+        await this.returnToCustomer(transfer);
+      }
+      this.finishOutgoing(transfer, 'failed', 'timeout');
+    }, TRANSFER_TIMEOUT_MS);
+  }
+
+  // End the consultation (if any) and resume the held customer
+  private async returnToCustomer(transfer: OutgoingTransfer) {
+    if (transfer.consultCallId) {
+      this.client.endCallById(transfer.consultCallId, 'transfer-cancelled');
+      transfer.consultCallId = null;
+    }
+    if (this.client.getSession(transfer.customerCallId)) {
+      this.client.focusSession(transfer.customerCallId);
+      await this.client.resumeCall();
+    }
+  }
+
+  private finishOutgoing(transfer: OutgoingTransfer, status: TransferStatus, reason: string | null) {
+    if (transfer.timeout) {
+      clearTimeout(transfer.timeout);
+      transfer.timeout = null;
+    }
+    if (this.outgoing === transfer) {
+      this.outgoing = null;
+    }
+    this.update(transfer.info, status, reason);
+  }
+
+  private update(info: TransferInfo, status: TransferStatus, reason: string | null = null) {
+    info.status = status;
+    info.reason = reason;
+    info.updatedAt = Date.now();
+    if (this.current === info) {
+      this.client.notifyTransferChange(info);
+    }
+  }
+
+  private setCurrent(info: TransferInfo) {
+    this.current = info;
+    this.client.notifyTransferChange(info);
+  }
+}
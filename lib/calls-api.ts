@@ -0,0 +1,194 @@
+// REST API service for call signaling (/api/calls/*)
+
+import type { CallHistoryEntry } from './call-history';
+import type { CallReport } from './call-report';
+import type { RecordingMeta } from './call-recorder';
+import { loadConfig } from './config';
+
+export interface CallRecord {
+  callId?: string;
+  fromDeviceId?: string | null;
+  toDeviceId?: string | null;
+  offer?: RTCSessionDescriptionInit | null;
+  answer?: RTCSessionDescriptionInit | null;
+}
+
+export interface CreateCallRequest {
+  callId: string;
+  fromDeviceId: string;
+  fromLoyaltyId?: string;
+  toLoyaltyId?: string;
+  toDeviceId?: string;
+  callerName?: string;
+  offer: RTCSessionDescriptionInit;
+}
+
+// Register device with backend
+export async function registerDevice(deviceId: string, loyaltyId: string): Promise<void> {
+  const { backendUrl } = await loadConfig();
+  // Generate a fake voipToken for web (not used for push, but required by backend)
+  const voipToken = `web-${deviceId}`;
+
+  await fetch(`${backendUrl}/api/register-device`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      deviceId,
+      loyaltyId,
+      voipToken, // Web doesn't need real VoIP token, but backend expects it
+      platform: 'web',
+    }),
+  });
+}
+
+// Create a call with the caller's offer
+export async function createCall(request: CreateCallRequest): Promise<void> {
+  const { backendUrl } = await loadConfig();
+  const resp = await fetch(`${backendUrl}/api/calls`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      ...request,
+      offer: {
+        type: request.offer.type,
+        sdp: request.offer.sdp,
+      },
+    }),
+  });
+
+  if (!resp.ok) {
+    throw new Error(`Failed to start call: ${resp.status}`);
+  }
+}
+
+// Get call by id, or null if the backend doesn't know it (yet)
+export async function getCall(callId: string): Promise<CallRecord | null> {
+  const { backendUrl } = await loadConfig();
+  const resp = await fetch(`${backendUrl}/api/calls/${callId}`);
+  if (resp.status === 404) {
+    return null;
+  }
+  if (!resp.ok) {
+    throw new Error(`Failed to fetch call: ${resp.status}`);
+  }
+  return resp.json();
+}
+
+// Post the callee's answer
+export async function postAnswer(callId: string, deviceId: string, answer: RTCSessionDescriptionInit): Promise<void> {
+  const { backendUrl } = await loadConfig();
+  const resp = await fetch(`${backendUrl}/api/calls/${callId}/answer`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      answer: {
+        type: answer.type,
+        sdp: answer.sdp,
+      },
+      deviceId,
+    }),
+  });
+
+  if (!resp.ok) {
+    const errorText = await resp.text();
+    throw new Error(`Failed to send answer: ${resp.status} - ${errorText}`);
+  }
+}
+
+// Post a local ICE candidate (backend will forward via socket if peer is connected)
+export async function postCandidate(
+  callId: string,
+  deviceId: string,
+  from: 'caller' | 'callee',
+  candidate: RTCIceCandidateInit
+): Promise<void> {
+  const { backendUrl } = await loadConfig();
+  await fetch(`${backendUrl}/api/calls/${callId}/candidate`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      from,
+      candidate,
+      deviceId,
+    }),
+  });
+}
+
+// End (or reject) a call
+export async function endCall(callId: string, deviceId: string, reason?: string): Promise<void> {
+  const { backendUrl } = await loadConfig();
+  await fetch(`${backendUrl}/api/calls/${callId}/end`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(reason ? { deviceId, reason } : { deviceId }),
+  });
+}
+
+// Upload the post-call diagnostics report
+export async function postCallReport(callId: string, report: CallReport): Promise<void> {
+  const { backendUrl } = await loadConfig();
+  const resp = await fetch(`${backendUrl}/api/calls/${callId}/report`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(report),
+  });
+
+  if (!resp.ok) {
+    throw new Error(`Failed to upload call report: ${resp.status}`);
+  }
+}
+
+// Upload one chunk of a call recording; chunks are numbered from 0 and may be re-sent
+export async function postRecordingChunk(callId: string, recordingId: string, seq: number, data: Blob): Promise<void> {
+  const { backendUrl } = await loadConfig();
+  const resp = await fetch(`${backendUrl}/api/calls/${callId}/recordings/${recordingId}/chunks/${seq}`, {
+    method: 'PUT',
+    headers: {
+      'Content-Type': data.type || 'application/octet-stream',
+    },
+    body: data,
+  });
+
+  if (!resp.ok) {
+    throw new Error(`Failed to upload recording chunk: ${resp.status}`);
+  }
+}
+
+// All chunks are uploaded: the backend can assemble the recording
+export async function completeRecordingUpload(callId: string, meta: RecordingMeta): Promise<void> {
+  const { backendUrl } = await loadConfig();
+  const resp = await fetch(`${backendUrl}/api/calls/${callId}/recordings/${meta.recordingId}/complete`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(meta),
+  });
+
+  if (!resp.ok) {
+    throw new Error(`Failed to complete recording upload: ${resp.status}`);
+  }
+}
+
+// Calls of a user as recorded by the backend, newest first
+export async function getCallHistory(loyaltyId: string): Promise<CallHistoryEntry[]> {
+  const { backendUrl } = await loadConfig();
+  const resp = await fetch(`${backendUrl}/api/calls/history?loyaltyId=${encodeURIComponent(loyaltyId)}`);
+  if (!resp.ok) {
+    throw new Error(`Failed to fetch call history: ${resp.status}`);
+  }
+  const data = await resp.json();
+  return data.calls || [];
+}
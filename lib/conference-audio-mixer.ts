@@ -0,0 +1,121 @@
+// Plays the remote audio of every conference leg through one WebAudio graph:
+//   leg stream -> source -> per-leg gain -> master gain -> <audio> -> speakers
+// Per-leg gains implement "mute this participant for me". The graph ends in an
+// element rather than the context destination so the speaker can be chosen.
+
+import { applySpeaker, loadPreferredSpeaker } from './audio-devices';
+import type { RemoteAudioOutput } from './call-session';
+
+interface MixerInput {
+  stream: MediaStream;
+  source: MediaStreamAudioSourceNode;
+  gain: GainNode;
+  // Chrome only feeds remote WebRTC audio into WebAudio while the stream is also
+  // attached to a media element, so each input keeps a muted one
+  element: HTMLAudioElement;
+}
+
+export class ConferenceAudioMixer {
+  private context: AudioContext | null = null;
+  private master: GainNode | null = null;
+  private playback: HTMLAudioElement | null = null;
+  private inputs = new Map<string, MixerInput>();
+  private muted = new Set<string>();
+
+  // Output for one leg, handed to its CallSession
+  output(key: string): RemoteAudioOutput {
+    return {
+      attach: (stream) => this.add(key, stream),
+      detach: () => this.remove(key),
+    };
+  }
+
+  add(key: string, stream: MediaStream) {
+    const existing = this.inputs.get(key);
+    if (existing?.stream === stream) {
+      return;
+    }
+    this.remove(key);
+
+    const context = this.ensureContext();
+    const element = new Audio();
+    element.muted = true;
+    element.srcObject = stream;
+    element.play().catch(() => {});
+
+    const source = context.createMediaStreamSource(stream);
+    const gain = context.createGain();
+    gain.gain.value = this.muted.has(key) ? 0 : 1;
+    source.connect(gain).connect(this.master!);
+    this.inputs.set(key, { stream, source, gain, element });
+    console.log('🎚️ Mixer input added:', key, 'inputs:', this.inputs.size);
+  }
+
+  remove(key: string) {
+    const input = this.inputs.get(key);
+    if (!input) {
+      return;
+    }
+    this.inputs.delete(key);
+    input.source.disconnect();
+    input.gain.disconnect();
+    input.element.pause();
+    input.element.srcObject = null;
+  }
+
+  // Silence one leg locally; the participant is not told
+  setMuted(key: string, muted: boolean) {
+    if (muted) {
+      this.muted.add(key);
+    } else {
+      this.muted.delete(key);
+    }
+    const input = this.inputs.get(key);
+    if (input && this.context) {
+      input.gain.gain.setTargetAtTime(muted ? 0 : 1, this.context.currentTime, 0.02);
+    }
+  }
+
+  isMuted(key: string) {
+    return this.muted.has(key);
+  }
+
+  async setSpeaker(deviceId: string) {
+    if (this.playback) {
+      await applySpeaker(this.playback, deviceId);
+    }
+  }
+
+  close() {
+    Array.from(this.inputs.keys()).forEach((key) => this.remove(key));
+    this.muted.clear();
+    if (this.playback) {
+      this.playback.pause();
+      this.playback.srcObject = null;
+      this.playback = null;
+    }
+    if (this.context) {
+      this.context.close().catch(() => {});
+      this.context = null;
+      this.master = null;
+    }
+  }
+
+  private ensureContext() {
+    if (!this.context) {
+      this.context = new AudioContext();
+      this.master = this.context.createGain();
+      const destination = this.context.createMediaStreamDestination();
+      this.master.connect(destination);
+      this.playback = new Audio();
+      this.playback.srcObject = destination.stream;
+      applySpeaker(this.playback, loadPreferredSpeaker());
+      this.playback.play().catch((e) => console.error('Failed to play conference audio:', e));
+    }
+    // Created outside a user gesture the context may start suspended
+    if (this.context.state === 'suspended') {
+      this.context.resume().catch(() => {});
+    }
+    return this.context;
+  }
+}
@@ -0,0 +1,345 @@
+import { generateUUID, type CallClient } from './call-client';
+import { isEstablishedState } from './call-state-machine';
+import type { CallSession } from './call-session';
+import { ConferenceAudioMixer } from './conference-audio-mixer';
+import type { ConferenceMember, ConferenceMessage, SignalingTransport } from './signaling-transport';
+
+// Including ourselves; every member holds a peer connection to each of the others
+export const MAX_CONFERENCE_PARTICIPANTS = 5;
+
+export interface ConferenceParticipant {
+  loyaltyId: string;
+  name: string;
+  isSelf: boolean;
+  // A leg to this participant is up
+  connected: boolean;
+  // They muted their microphone
+  isMuted: boolean;
+  // We silenced them locally
+  isMutedByMe: boolean;
+  // Talking right now, from the voice activity of their leg (ours: of any leg);
+  // null until detected
+  speaking: boolean | null;
+}
+
+export interface ConferenceInfo {
+  conferenceId: string;
+  participants: ConferenceParticipant[];
+}
+
+interface Conference {
+  conferenceId: string;
+  members: Map<string, ConferenceMember>;
+  // Leg to each other member: loyaltyId -> callId
+  legs: Map<string, string>;
+  // Members that muted their microphone
+  mutedMembers: Set<string>;
+}
+
+// Multi-party calls as a full mesh of ordinary 1:1 calls ("legs"), one per pair of
+// members, all in the client's session map. Each leg is identified by the conference
+// and the peer's loyaltyId (legKey). When a member is added, the adder sends the roster
+// over every leg; members then dial the ones that joined before them and auto-answer
+// calls from the ones that joined after.
+export class ConferenceManager {
+  private client: CallClient;
+  private transport: SignalingTransport;
+  private conference: Conference | null = null;
+  private readonly mixer = new ConferenceAudioMixer();
+
+  constructor(client: CallClient, transport: SignalingTransport) {
+    this.client = client;
+    this.transport = transport;
+    transport.on('conference', (data) => this.handleMessage(data));
+  }
+
+  get info(): ConferenceInfo | null {
+    const conference = this.conference;
+    if (!conference) {
+      return null;
+    }
+    const self = this.client.getCurrentLoyaltyId();
+    const participants = Array.from(conference.members.values())
+      .sort((a, b) => a.joinedAt - b.joinedAt)
+      .map((member) => ({
+        loyaltyId: member.loyaltyId,
+        name: member.name,
+        isSelf: member.loyaltyId === self,
+        connected: member.loyaltyId === self || this.isLegConnected(conference, member.loyaltyId),
+        isMuted: conference.mutedMembers.has(member.loyaltyId),
+        isMutedByMe: this.mixer.isMuted(legKey(conference.conferenceId, member.loyaltyId)),
+        speaking: member.loyaltyId === self ? this.isSelfSpeaking(conference) : this.isSpeaking(conference, member.loyaltyId),
+      }));
+    return { conferenceId: conference.conferenceId, participants };
+  }
+
+  // Whether callId is one of the conference legs
+  hasLeg(callId: string) {
+    return !!this.conference && Array.from(this.conference.legs.values()).includes(callId);
+  }
+
+  // Add someone to the current call, turning it into a conference if needed
+  async addParticipant(loyaltyId: string, name: string) {
+    const conference = this.conference ?? this.startFromCurrentCall();
+    if (conference.members.has(loyaltyId)) {
+      throw new Error('Already in the conference');
+    }
+    if (conference.members.size >= MAX_CONFERENCE_PARTICIPANTS) {
+      throw new Error(`A conference is limited to ${MAX_CONFERENCE_PARTICIPANTS} participants`);
+    }
+
+    conference.members.set(loyaltyId, { loyaltyId, name, joinedAt: Date.now() });
+    this.client.notifyConferenceChange();
+    try {
+      const session = await this.client.startParallelCallByLoyaltyId(loyaltyId, name);
+      if (this.conference !== conference) {
+        this.client.endCallById(session.callId, 'conference-ended');
+        return;
+      }
+      this.attachLeg(conference, loyaltyId, session);
+    } catch (e) {
+      conference.members.delete(loyaltyId);
+      this.client.notifyConferenceChange();
+      throw e;
+    }
+    this.broadcast(conference, { type: 'roster', members: Array.from(conference.members.values()) });
+  }
+
+  // Drop a participant for everyone
+  removeParticipant(loyaltyId: string) {
+    const conference = this.conference;
+    if (!conference || !conference.members.has(loyaltyId)) {
+      return;
+    }
+    this.broadcast(conference, { type: 'remove', loyaltyId });
+    this.dropMember(conference, loyaltyId, 'removed');
+  }
+
+  // Stop hearing a participant; they are not told
+  setParticipantMuted(loyaltyId: string, muted: boolean) {
+    const conference = this.conference;
+    if (!conference) {
+      return;
+    }
+    this.mixer.setMuted(legKey(conference.conferenceId, loyaltyId), muted);
+    this.client.notifyConferenceChange();
+  }
+
+  // Our microphone: mute every leg and let the others know
+  setSelfMuted(muted: boolean) {
+    const conference = this.conference;
+    if (!conference) {
+      return;
+    }
+    conference.legs.forEach((callId) => this.client.getSession(callId)?.setMuted(muted));
+    this.broadcast(conference, { type: 'mute', loyaltyId: this.client.getCurrentLoyaltyId() ?? undefined, muted });
+  }
+
+  // Play the conference through another speaker
+  setSpeaker(deviceId: string) {
+    return this.mixer.setSpeaker(deviceId);
+  }
+
+  // Hang up every leg
+  leave(reason = 'user') {
+    const conference = this.conference;
+    if (!conference) {
+      return;
+    }
+    this.conference = null;
+    console.log('👥 Leaving conference:', conference.conferenceId);
+    conference.legs.forEach((callId) => this.client.endCallById(callId, reason));
+    this.mixer.close();
+    this.client.notifyConferenceChange();
+  }
+
+  // A call from a member we are expecting to dial us
+  claimIncomingCall(fromLoyaltyId: string | undefined) {
+    const conference = this.conference;
+    return !!conference && !!fromLoyaltyId &&
+      conference.members.has(fromLoyaltyId) && !conference.legs.has(fromLoyaltyId);
+  }
+
+  // An auto-answered call from claimIncomingCall is up
+  handleIncomingLegAnswered(callId: string) {
+    const conference = this.conference;
+    const session = this.client.getSession(callId);
+    if (conference && session?.peerLoyaltyId) {
+      this.attachLeg(conference, session.peerLoyaltyId, session);
+    }
+  }
+
+  // Called by the client for every session that ends
+  handleSessionEnded(session: CallSession) {
+    const conference = this.conference;
+    if (!conference || !session.peerLoyaltyId || conference.legs.get(session.peerLoyaltyId) !== session.callId) {
+      return;
+    }
+    // The peer hung up (or we lost them): they are out of the conference
+    this.dropMember(conference, session.peerLoyaltyId, null);
+  }
+
+  private startFromCurrentCall(): Conference {
+    const session = this.client.currentSession;
+    const self = this.client.getCurrentLoyaltyId();
+    if (!session || session.state !== 'answered' || !self) {
+      throw new Error('No active call to add a participant to');
+    }
+    if (!session.peerLoyaltyId) {
+      throw new Error('The other party cannot join a conference');
+    }
+
+    const now = Date.now();
+    const conference: Conference = {
+      conferenceId: generateUUID(),
+      members: new Map([
+        [self, { loyaltyId: self, name: self, joinedAt: now - 1 }],
+        [session.peerLoyaltyId, { loyaltyId: session.peerLoyaltyId, name: session.peerName ?? session.peerLoyaltyId, joinedAt: now - 1 }],
+      ]),
+      legs: new Map(),
+      mutedMembers: new Set(),
+    };
+    this.conference = conference;
+    this.attachLeg(conference, session.peerLoyaltyId, session);
+    console.log('👥 Conference started:', conference.conferenceId);
+    return conference;
+  }
+
+  private async handleMessage(data: ConferenceMessage) {
+    const session = this.client.getSession(data.callId);
+    if (!session?.peerLoyaltyId) {
+      return;
+    }
+    if (this.conference && this.conference.conferenceId !== data.conferenceId) {
+      console.warn('⚠️ Ignoring message for another conference:', data.conferenceId);
+      return;
+    }
+
+    if (data.type === 'roster' && data.members) {
+      await this.mergeRoster(data.conferenceId, session, data.members);
+      return;
+    }
+
+    const conference = this.conference;
+    if (!conference || !data.loyaltyId) {
+      return;
+    }
+    if (data.type === 'remove') {
+      if (data.loyaltyId === this.client.getCurrentLoyaltyId()) {
+        this.leave('removed');
+      } else {
+        this.dropMember(conference, data.loyaltyId, 'removed');
+      }
+    } else if (data.type === 'mute') {
+      if (data.muted) {
+        conference.mutedMembers.add(data.loyaltyId);
+      } else {
+        conference.mutedMembers.delete(data.loyaltyId);
+      }
+      this.client.notifyConferenceChange();
+    }
+  }
+
+  // Join (or update) the conference from a roster received over session's leg
+  private async mergeRoster(conferenceId: string, session: CallSession, members: ConferenceMember[]) {
+    const self = this.client.getCurrentLoyaltyId();
+    if (!self || !members.some((m) => m.loyaltyId === self)) {
+      return;
+    }
+
+    let conference = this.conference;
+    if (!conference) {
+      conference = { conferenceId, members: new Map(), legs: new Map(), mutedMembers: new Set() };
+      this.conference = conference;
+      console.log('👥 Joined conference:', conferenceId);
+    }
+    members.forEach((member) => {
+      const known = conference!.members.get(member.loyaltyId);
+      if (!known || member.joinedAt < known.joinedAt) {
+        conference!.members.set(member.loyaltyId, member);
+      }
+    });
+    this.attachLeg(conference, session.peerLoyaltyId!, session);
+
+    // Complete the mesh: dial everyone who joined before us
+    const me = conference.members.get(self)!;
+    const toDial = Array.from(conference.members.values()).filter((member) =>
+      member.loyaltyId !== self &&
+      !conference!.legs.has(member.loyaltyId) &&
+      dialsFirst(member, me)
+    );
+    for (const member of toDial) {
+      try {
+        const leg = await this.client.startParallelCallByLoyaltyId(member.loyaltyId, member.name);
+        if (this.conference !== conference) {
+          this.client.endCallById(leg.callId, 'conference-ended');
+          return;
+        }
+        this.attachLeg(conference, member.loyaltyId, leg);
+      } catch (e) {
+        console.warn('⚠️ Could not connect to conference member', member.loyaltyId, e);
+      }
+    }
+  }
+
+  private attachLeg(conference: Conference, loyaltyId: string, session: CallSession) {
+    conference.legs.set(loyaltyId, session.callId);
+    session.setRemoteAudioOutput(this.mixer.output(legKey(conference.conferenceId, loyaltyId)));
+    this.client.notifyConferenceChange();
+  }
+
+  private dropMember(conference: Conference, loyaltyId: string, reason: string | null) {
+    const callId = conference.legs.get(loyaltyId);
+    conference.members.delete(loyaltyId);
+    conference.legs.delete(loyaltyId);
+    conference.mutedMembers.delete(loyaltyId);
+    this.mixer.setMuted(legKey(conference.conferenceId, loyaltyId), false);
+    if (callId && reason) {
+      this.client.endCallById(callId, reason);
+    }
+    console.log('👥 Participant left:', loyaltyId, 'remaining legs:', conference.legs.size);
+
+    // Nobody left to talk to
+    if (conference.legs.size === 0 && this.conference === conference) {
+      this.conference = null;
+      this.mixer.close();
+    }
+    this.client.notifyConferenceChange();
+  }
+
+  private isLegConnected(conference: Conference, loyaltyId: string) {
+    const callId = conference.legs.get(loyaltyId);
+    const session = callId ? this.client.getSession(callId) : null;
+    return !!session && isEstablishedState(session.state);
+  }
+
+  private isSpeaking(conference: Conference, loyaltyId: string) {
+    const callId = conference.legs.get(loyaltyId);
+    const session = callId ? this.client.getSession(callId) : null;
+    return session?.speaking?.remote ?? null;
+  }
+
+  // Every leg hears our microphone; any of them will do
+  private isSelfSpeaking(conference: Conference) {
+    const legs = Array.from(conference.legs.values()).flatMap((callId) => this.client.getSession(callId)?.speaking ?? []);
+    return legs.length > 0 ? legs.some((speaking) => speaking.local) : null;
+  }
+
+  private broadcast(conference: Conference, message: Pick<ConferenceMessage, 'type' | 'members' | 'loyaltyId' | 'muted'>) {
+    conference.legs.forEach((callId) => {
+      this.transport.sendConferenceMessage({ ...message, conferenceId: conference.conferenceId, callId })
+        .catch((e) => console.warn('Failed to send conference message:', e));
+    });
+  }
+}
+
+// Key of the leg to a peer within a conference
+function legKey(conferenceId: string, loyaltyId: string) {
+  return `${conferenceId}:${loyaltyId}`;
+}
+
+// Whether `earlier` is dialed by `later` (and not the other way round)
+function dialsFirst(earlier: ConferenceMember, later: ConferenceMember) {
+  return earlier.joinedAt < later.joinedAt ||
+    (earlier.joinedAt === later.joinedAt && earlier.loyaltyId < later.loyaltyId);
+}
@@ -0,0 +1,121 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { validateConfigOverrides } from './config';
+
+describe('validateConfigOverrides', () => {
+  it('accepts a valid source', () => {
+    const { overrides, problems } = validateConfigOverrides({
+      profile: 'staging',
+      backendUrl: 'https://staging.example.com/',
+      iceServers: [{ urls: ['stun:stun.example.com:3478'] }, { urls: 'turn:turn.example.com', username: 'u', credential: 'c' }],
+      features: { recordingUpload: true },
+      reconnect: { graceMs: 1000 },
+      denoiserWasmUrl: '/denoiser.wasm',
+    });
+    expect(problems).toEqual([]);
+    expect(overrides).toEqual({
+      profile: 'staging',
+      backendUrl: 'https://staging.example.com',
+      iceServers: [{ urls: ['stun:stun.example.com:3478'] }, { urls: ['turn:turn.example.com'], username: 'u', credential: 'c' }],
+      features: { recordingUpload: true },
+      reconnect: { graceMs: 1000 },
+      denoiserWasmUrl: '/denoiser.wasm',
+    });
+  });
+
+  it('keeps the valid fields and reports the invalid ones', () => {
+    const { overrides, problems } = validateConfigOverrides({
+      backendUrl: 'https://backend.example.com',
+      socketUrl: 'not a url',
+      iceServers: [{ urls: 'stun:ok.example.com' }, { urls: 'http://wrong.example.com' }],
+      features: { recordingUpload: true, typoFlag: true, serverStatusPanel: 'yes' },
+      reconnect: { timeoutMs: -1 },
+    });
+    expect(overrides).toEqual({
+      backendUrl: 'https://backend.example.com',
+      iceServers: [{ urls: ['stun:ok.example.com'] }],
+      features: { recordingUpload: true },
+      reconnect: {},
+    });
+    expect(problems).toEqual([
+      'socketUrl must be an absolute URL',
+      'iceServers[1].urls must be stun:/turn:/turns: URLs',
+      'unknown feature flag "typoFlag"',
+      'features.serverStatusPanel must be a boolean',
+      'reconnect.timeoutMs must be a non-negative number of milliseconds',
+    ]);
+  });
+
+  it('rejects a source that is not an object', () => {
+    expect(validateConfigOverrides(['nope'])).toEqual({ overrides: {}, problems: ['expected an object'] });
+  });
+});
+
+describe('config sources', () => {
+  beforeEach(() => {
+    vi.resetModules();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  // A fresh config module, with /config.json serving `file` (404 when undefined)
+  async function loadWith(file?: unknown) {
+    vi.stubGlobal('window', {});
+    vi.stubGlobal('fetch', vi.fn(async () => ({ ok: file !== undefined, json: async () => file })));
+    const config = await import('./config');
+    return { initial: config.getConfig(), loaded: await config.loadConfig() };
+  }
+
+  it('defaults to the prod profile', async () => {
+    const { loaded } = await loadWith();
+    expect(loaded.profile).toBe('prod');
+    expect(loaded.backendUrl).toBe('https://server.totus.club');
+  });
+
+  it('applies env overrides over the profile', async () => {
+    vi.stubEnv('NEXT_PUBLIC_CONFIG_PROFILE', 'local');
+    vi.stubEnv('NEXT_PUBLIC_BACKEND_URL', 'http://backend.test:4000');
+    const { initial } = await loadWith();
+    expect(initial.profile).toBe('local');
+    expect(initial.backendUrl).toBe('http://backend.test:4000');
+    // The socket follows an explicit backend
+    expect(initial.socketUrl).toBe('http://backend.test:4000');
+  });
+
+  it('applies /config.json over env', async () => {
+    vi.stubEnv('NEXT_PUBLIC_BACKEND_URL', 'http://env.test');
+    vi.stubEnv('NEXT_PUBLIC_FEATURES', '{"recordingUpload":true}');
+    const { loaded } = await loadWith({ backendUrl: 'http://file.test', features: { serverStatusPanel: false } });
+    expect(loaded.backendUrl).toBe('http://file.test');
+    expect(loaded.features).toEqual({ serverStatusPanel: false, httpPollingFallback: true, recordingUpload: true });
+  });
+
+  it('keeps env overrides when /config.json picks the profile', async () => {
+    vi.stubEnv('NEXT_PUBLIC_BACKEND_URL', 'http://env.test');
+    vi.stubEnv('NEXT_PUBLIC_ICE_SERVERS', '[{"urls":"stun:env.test"}]');
+    const { loaded } = await loadWith({ profile: 'local' });
+    expect(loaded.profile).toBe('local');
+    expect(loaded.backendUrl).toBe('http://env.test');
+    expect(loaded.iceServers).toEqual([{ urls: ['stun:env.test'] }]);
+  });
+
+  it('keeps the valid fields of an invalid /config.json', async () => {
+    const { loaded } = await loadWith({ backendUrl: 'http://file.test', features: { typoFlag: true } });
+    expect(loaded.backendUrl).toBe('http://file.test');
+    expect(console.error).toHaveBeenCalled();
+  });
+
+  it('falls back to env config when /config.json cannot be read', async () => {
+    vi.stubEnv('NEXT_PUBLIC_BACKEND_URL', 'http://env.test');
+    vi.stubGlobal('window', {});
+    vi.stubGlobal('fetch', vi.fn(async () => Promise.reject(new Error('offline'))));
+    const config = await import('./config');
+    expect((await config.loadConfig()).backendUrl).toBe('http://env.test');
+  });
+});
@@ -0,0 +1,324 @@
+// Runtime configuration for the web app
+//
+// Sources, lowest to highest precedence:
+//   1. the profile defaults below ('profile' from the highest source setting it, default 'prod')
+//   2. NEXT_PUBLIC_* env vars, inlined at build time
+//   3. an optional /config.json served next to the app, loaded at runtime
+// Every source is validated; an invalid value is reported and the lower source is kept.
+
+export type ConfigProfile = 'local' | 'staging' | 'prod';
+
+export interface FeatureFlags {
+  // Show the STUN/TURN status panel on the home page
+  serverStatusPanel: boolean;
+  // Poll the backend for the answer in addition to pushed socket events
+  httpPollingFallback: boolean;
+  // Upload finished call recordings to the backend (they are always kept locally)
+  recordingUpload: boolean;
+}
+
+// Mid-call connection recovery, see reconnection-supervisor.ts
+export interface ReconnectConfig {
+  // How long a 'disconnected' connection may recover on its own before an ICE restart
+  graceMs: number;
+  // Give up and end the call after this long without media
+  timeoutMs: number;
+}
+
+export interface AppConfig {
+  profile: ConfigProfile;
+  backendUrl: string;
+  // socket.io endpoint; defaults to backendUrl
+  socketUrl: string;
+  iceServers: RTCIceServer[];
+  features: FeatureFlags;
+  reconnect: ReconnectConfig;
+  // WebAssembly noise suppressor for the microphone chain (see audio-processing.ts);
+  // absolute or same-origin path, null when none is deployed
+  denoiserWasmUrl: string | null;
+}
+
+const PROD_ICE_SERVERS: RTCIceServer[] = [
+  // STUN սերվերներ՝ ուղղակի կապի համար
+  { urls: 'stun:stun1.totus.club:3478' },
+  { urls: 'stun:stun2.totus.club:3478' },
+
+  // TURN սերվերներ՝ NAT/ֆայերվոլի դեպքում փոխանցման համար
+  // Credentials are short-lived and fetched per call, see turn-credentials.ts
+  { urls: 'turn:turn1.totus.club:3478?transport=udp' },
+  { urls: 'turn:turn1.totus.club:3478?transport=tcp' },
+  { urls: 'turns:turn1.totus.club:5349?transport=tcp' },
+  { urls: 'turn:turn2.totus.club:3478?transport=udp' },
+  { urls: 'turn:turn2.totus.club:3478?transport=tcp' },
+  { urls: 'turns:turn2.totus.club:5349?transport=tcp' },
+];
+
+const DEFAULT_FEATURES: FeatureFlags = {
+  serverStatusPanel: true,
+  httpPollingFallback: true,
+  recordingUpload: false,
+};
+
+const DEFAULT_RECONNECT: ReconnectConfig = {
+  graceMs: 3000,
+  timeoutMs: 30000,
+};
+
+const PROFILES: Record<ConfigProfile, AppConfig> = {
+  // Local backend stand-in; host candidates are enough on one machine
+  local: {
+    profile: 'local',
+    backendUrl: 'http://localhost:3000',
+    socketUrl: 'http://localhost:3000',
+    iceServers: [{ urls: 'stun:stun1.totus.club:3478' }],
+    features: { ...DEFAULT_FEATURES },
+    reconnect: { ...DEFAULT_RECONNECT },
+    denoiserWasmUrl: null,
+  },
+  // Staging shares the production STUN/TURN fleet; point NEXT_PUBLIC_BACKEND_URL at the staging backend
+  staging: {
+    profile: 'staging',
+    backendUrl: 'https://server.totus.club',
+    socketUrl: 'https://server.totus.club',
+    iceServers: PROD_ICE_SERVERS,
+    features: { ...DEFAULT_FEATURES },
+    reconnect: { ...DEFAULT_RECONNECT },
+    denoiserWasmUrl: null,
+  },
+  prod: {
+    profile: 'prod',
+    backendUrl: 'https://server.totus.club',
+    socketUrl: 'https://server.totus.club',
+    iceServers: PROD_ICE_SERVERS,
+    features: { ...DEFAULT_FEATURES },
+    reconnect: { ...DEFAULT_RECONNECT },
+    denoiserWasmUrl: null,
+  },
+};
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isUrl(value: unknown): value is string {
+  if (typeof value !== 'string') return false;
+  try {
+    new URL(value);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function isKeyOf<T extends object>(object: T, key: string): key is Extract<keyof T, string> {
+  return key in object;
+}
+
+// Overrides from one source; features and reconnect may set only some of their fields
+export type ConfigOverrides = Partial<Omit<AppConfig, 'features' | 'reconnect'>> & {
+  features?: Partial<FeatureFlags>;
+  reconnect?: Partial<ReconnectConfig>;
+};
+
+export interface ValidatedOverrides {
+  overrides: ConfigOverrides;
+  // Everything left out of overrides, and why
+  problems: string[];
+}
+
+// Invalid entries are left out; undefined when none is valid
+function validateIceServers(value: unknown, problems: string[]): RTCIceServer[] | undefined {
+  if (!Array.isArray(value)) {
+    problems.push('iceServers must be an array');
+    return undefined;
+  }
+  const servers: RTCIceServer[] = [];
+  value.forEach((server, i) => {
+    if (!isRecord(server)) {
+      problems.push(`iceServers[${i}] must be an object`);
+      return;
+    }
+    const rawUrls: unknown[] = Array.isArray(server.urls) ? server.urls : [server.urls];
+    const urls = rawUrls.filter((u): u is string => typeof u === 'string' && /^(stun|turns?):/.test(u));
+    if (urls.length === 0 || urls.length !== rawUrls.length) {
+      problems.push(`iceServers[${i}].urls must be stun:/turn:/turns: URLs`);
+      return;
+    }
+    const { username, credential } = server;
+    if (username !== undefined && typeof username !== 'string') {
+      problems.push(`iceServers[${i}].username must be a string`);
+      return;
+    }
+    if (credential !== undefined && typeof credential !== 'string') {
+      problems.push(`iceServers[${i}].credential must be a string`);
+      return;
+    }
+    servers.push({
+      urls,
+      ...(username !== undefined ? { username } : {}),
+      ...(credential !== undefined ? { credential } : {}),
+    });
+  });
+  return servers.length > 0 ? servers : undefined;
+}
+
+// Validate a partial config (from env or config.json) against the schema, field by
+// field: the valid fields are kept and every invalid one is listed in problems.
+export function validateConfigOverrides(raw: unknown): ValidatedOverrides {
+  if (!isRecord(raw)) {
+    return { overrides: {}, problems: ['expected an object'] };
+  }
+
+  const problems: string[] = [];
+  const overrides: ConfigOverrides = {};
+
+  if (raw.profile !== undefined) {
+    if (raw.profile === 'local' || raw.profile === 'staging' || raw.profile === 'prod') {
+      overrides.profile = raw.profile;
+    } else {
+      problems.push('profile must be one of local, staging, prod');
+    }
+  }
+  if (raw.backendUrl !== undefined) {
+    if (isUrl(raw.backendUrl)) overrides.backendUrl = raw.backendUrl.replace(/\/+$/, '');
+    else problems.push('backendUrl must be an absolute URL');
+  }
+  if (raw.socketUrl !== undefined) {
+    if (isUrl(raw.socketUrl)) overrides.socketUrl = raw.socketUrl.replace(/\/+$/, '');
+    else problems.push('socketUrl must be an absolute URL');
+  }
+  if (raw.iceServers !== undefined) {
+    const servers = validateIceServers(raw.iceServers, problems);
+    if (servers) overrides.iceServers = servers;
+  }
+  if (raw.features !== undefined) {
+    if (!isRecord(raw.features)) {
+      problems.push('features must be an object');
+    } else {
+      const features: Partial<FeatureFlags> = {};
+      for (const [name, enabled] of Object.entries(raw.features)) {
+        if (!isKeyOf(DEFAULT_FEATURES, name)) {
+          problems.push(`unknown feature flag "${name}"`);
+        } else if (typeof enabled !== 'boolean') {
+          problems.push(`features.${name} must be a boolean`);
+        } else {
+          features[name] = enabled;
+        }
+      }
+      overrides.features = features;
+    }
+  }
+
+  if (raw.reconnect !== undefined) {
+    if (!isRecord(raw.reconnect)) {
+      problems.push('reconnect must be an object');
+    } else {
+      const reconnect: Partial<ReconnectConfig> = {};
+      for (const [name, value] of Object.entries(raw.reconnect)) {
+        if (!isKeyOf(DEFAULT_RECONNECT, name)) {
+          problems.push(`unknown reconnect setting "${name}"`);
+        } else if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+          problems.push(`reconnect.${name} must be a non-negative number of milliseconds`);
+        } else {
+          reconnect[name] = value;
+        }
+      }
+      overrides.reconnect = reconnect;
+    }
+  }
+
+  if (raw.denoiserWasmUrl !== undefined) {
+    const url = raw.denoiserWasmUrl;
+    if (url === null || isUrl(url) || (typeof url === 'string' && url.startsWith('/'))) overrides.denoiserWasmUrl = url;
+    else problems.push('denoiserWasmUrl must be an absolute URL, a path starting with / or null');
+  }
+
+  return { overrides, problems };
+}
+
+function parseJsonEnv(name: string, value: string | undefined): unknown {
+  if (!value) return undefined;
+  try {
+    return JSON.parse(value);
+  } catch {
+    console.warn(`⚠️ ${name} is not valid JSON, ignoring`);
+    return undefined;
+  }
+}
+
+// NEXT_PUBLIC_* vars must be referenced literally so Next.js can inline them
+function readEnvOverrides(): Record<string, unknown> {
+  const env: Record<string, unknown> = {};
+  if (process.env.NEXT_PUBLIC_CONFIG_PROFILE) env.profile = process.env.NEXT_PUBLIC_CONFIG_PROFILE;
+  if (process.env.NEXT_PUBLIC_BACKEND_URL) env.backendUrl = process.env.NEXT_PUBLIC_BACKEND_URL;
+  if (process.env.NEXT_PUBLIC_SOCKET_URL) env.socketUrl = process.env.NEXT_PUBLIC_SOCKET_URL;
+  const iceServers = parseJsonEnv('NEXT_PUBLIC_ICE_SERVERS', process.env.NEXT_PUBLIC_ICE_SERVERS);
+  if (iceServers !== undefined) env.iceServers = iceServers;
+  const features = parseJsonEnv('NEXT_PUBLIC_FEATURES', process.env.NEXT_PUBLIC_FEATURES);
+  if (features !== undefined) env.features = features;
+  const reconnect = parseJsonEnv('NEXT_PUBLIC_RECONNECT', process.env.NEXT_PUBLIC_RECONNECT);
+  if (reconnect !== undefined) env.reconnect = reconnect;
+  if (process.env.NEXT_PUBLIC_DENOISER_WASM_URL) env.denoiserWasmUrl = process.env.NEXT_PUBLIC_DENOISER_WASM_URL;
+  return env;
+}
+
+// The valid fields of one source; the invalid ones are reported
+function validateSource(raw: unknown, source: string): ConfigOverrides {
+  const { overrides, problems } = validateConfigOverrides(raw);
+  if (problems.length > 0) {
+    console.error(`❌ Invalid config from ${source}: ${problems.join('; ')}`);
+  }
+  return overrides;
+}
+
+function merge(base: AppConfig, overrides: ConfigOverrides): AppConfig {
+  const backendUrl = overrides.backendUrl ?? base.backendUrl;
+  return {
+    profile: base.profile,
+    backendUrl,
+    // An explicit backendUrl without socketUrl moves the socket with it
+    socketUrl: overrides.socketUrl ?? (overrides.backendUrl ? backendUrl : base.socketUrl),
+    iceServers: overrides.iceServers ?? base.iceServers,
+    features: { ...base.features, ...overrides.features },
+    reconnect: { ...base.reconnect, ...overrides.reconnect },
+    denoiserWasmUrl: overrides.denoiserWasmUrl !== undefined ? overrides.denoiserWasmUrl : base.denoiserWasmUrl,
+  };
+}
+
+// Overrides lowest first, applied over the defaults of the profile the highest one picks,
+// so a profile chosen in /config.json keeps the env values
+function buildConfig(overrides: ConfigOverrides[]): AppConfig {
+  const profile = overrides.reduce<ConfigProfile>((current, o) => o.profile ?? current, 'prod');
+  return overrides.reduce(merge, PROFILES[profile]);
+}
+
+const envOverrides = validateSource(readEnvOverrides(), 'NEXT_PUBLIC_* env');
+let currentConfig: AppConfig = buildConfig([envOverrides]);
+let loadPromise: Promise<AppConfig> | null = null;
+
+// Current config. Synchronous; includes /config.json only once loadConfig() has resolved.
+export function getConfig(): AppConfig {
+  return currentConfig;
+}
+
+// Load /config.json once and merge it over the env config.
+// A missing file is fine; an invalid one is reported and ignored.
+export function loadConfig(): Promise<AppConfig> {
+  if (loadPromise) return loadPromise;
+  if (typeof window === 'undefined') return Promise.resolve(currentConfig);
+
+  loadPromise = (async () => {
+    try {
+      const resp = await fetch('/config.json', { cache: 'no-store' });
+      if (resp.ok) {
+        const overrides = validateSource(await resp.json(), '/config.json');
+        currentConfig = buildConfig([envOverrides, overrides]);
+        console.log('Loaded runtime config, profile:', currentConfig.profile, 'backend:', currentConfig.backendUrl);
+      }
+    } catch (e) {
+      console.warn('Could not load /config.json, using build-time config', e);
+    }
+    return currentConfig;
+  })();
+  return loadPromise;
+}
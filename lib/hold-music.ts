@@ -0,0 +1,69 @@
+// Hold music played to the peer while we have the call on hold.
+// The bundled file is looped through WebAudio into a MediaStream track that
+// replaces the microphone on the audio sender.
+
+export const HOLD_MUSIC_URL = '/sounds/hold-music.wav';
+
+let bufferPromise: Promise<AudioBuffer> | null = null;
+
+// Decode the file once per page; decoding needs a context but the buffer can be
+// played through any other one
+function loadHoldMusic(context: BaseAudioContext): Promise<AudioBuffer> {
+  if (!bufferPromise) {
+    bufferPromise = fetch(HOLD_MUSIC_URL)
+      .then((resp) => {
+        if (!resp.ok) {
+          throw new Error(`Failed to load hold music: ${resp.status}`);
+        }
+        return resp.arrayBuffer();
+      })
+      .then((data) => context.decodeAudioData(data))
+      .catch((e) => {
+        bufferPromise = null;
+        throw e;
+      });
+  }
+  return bufferPromise;
+}
+
+export class HoldMusicPlayer {
+  private context: AudioContext | null = null;
+  private source: AudioBufferSourceNode | null = null;
+
+  // Start looping the music and return the track to send
+  async start(): Promise<MediaStreamTrack> {
+    this.stop();
+    const context = new AudioContext();
+    this.context = context;
+    try {
+      const buffer = await loadHoldMusic(context);
+      const source = context.createBufferSource();
+      source.buffer = buffer;
+      source.loop = true;
+
+      const gain = context.createGain();
+      gain.gain.value = 0.5;
+      const destination = context.createMediaStreamDestination();
+      source.connect(gain).connect(destination);
+      source.start();
+      this.source = source;
+
+      return destination.stream.getAudioTracks()[0];
+    } catch (e) {
+      this.stop();
+      throw e;
+    }
+  }
+
+  stop() {
+    if (this.source) {
+      this.source.stop();
+      this.source.disconnect();
+      this.source = null;
+    }
+    if (this.context) {
+      this.context.close().catch(() => {});
+      this.context = null;
+    }
+  }
+}
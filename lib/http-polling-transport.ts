@@ -0,0 +1,156 @@
+import * as callsApi from './calls-api';
+import {
+  SignalingEmitter,
+  type CallRecord,
+  type ConferenceMessage,
+  type CreateCallRequest,
+  type RecordingSignal,
+  type SignalingIdentity,
+  type SignalingTransport,
+  type TransferRequestMessage,
+  type TransferStatusMessage,
+} from './signaling-transport';
+
+const POLL_INTERVAL_MS = 1000;
+
+// Outgoing-only fallback for networks where websockets are blocked; not a replacement
+// for SocketIoTransport. Commands use the same REST endpoints; the only events are the
+// answer and the end of calls this device placed or answered, found by polling
+// /api/calls/:id. The backend has no endpoint to list incoming calls or to relay
+// messages between devices, so with this transport:
+//   - calls to us never ring (a CallClient takes it only with acceptsIncomingCalls: false)
+//   - the peer's trickled ICE candidates are not delivered, only those in its SDP
+//   - hold, renegotiation (video, screen share), transfer, conference, DTMF and
+//     recording messages are neither delivered nor sent (sending throws)
+export class HttpPollingTransport extends SignalingEmitter implements SignalingTransport {
+  readonly receivesIncomingCalls = false;
+  private identity: SignalingIdentity | null = null;
+  private isConnected = false;
+  // Calls this device is part of, and whether their answer was already delivered
+  private watched = new Map<string, { answerSeen: boolean }>();
+  private pollTimer: ReturnType<typeof setInterval> | null = null;
+  private isPolling = false;
+
+  get connected() {
+    return this.isConnected;
+  }
+
+  connect(identity: SignalingIdentity) {
+    this.identity = identity;
+
+    callsApi.registerDevice(identity.deviceId, identity.loyaltyId)
+      .then(() => console.log('Device registered on backend with loyalty_id:', identity.loyaltyId))
+      .catch((e) => console.warn('Failed to register device on backend', e));
+
+    if (!this.isConnected) {
+      this.isConnected = true;
+      this.pollTimer = setInterval(() => this.poll(), POLL_INTERVAL_MS);
+      this.emit('connect', undefined);
+    }
+  }
+
+  disconnect() {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+    this.watched.clear();
+    if (this.isConnected) {
+      this.isConnected = false;
+      this.emit('disconnect', undefined);
+    }
+  }
+
+  async startCall(request: CreateCallRequest) {
+    await callsApi.createCall(request);
+    this.watched.set(request.callId, { answerSeen: false });
+  }
+
+  async fetchCall(callId: string): Promise<CallRecord | null> {
+    return callsApi.getCall(callId);
+  }
+
+  async sendAnswer(callId: string, answer: RTCSessionDescriptionInit) {
+    await callsApi.postAnswer(callId, this.requireDeviceId(), answer);
+    this.watched.set(callId, { answerSeen: true });
+  }
+
+  async sendIceCandidate(callId: string, from: 'caller' | 'callee', candidate: RTCIceCandidateInit) {
+    await callsApi.postCandidate(callId, this.requireDeviceId(), from, candidate);
+  }
+
+  async sendRenegotiation(_callId: string, _description: RTCSessionDescriptionInit) {
+    throw new Error('Renegotiation is not supported over HTTP polling');
+  }
+
+  async sendCallState(_callId: string, _state: 'held' | 'answered') {
+    throw new Error('Mid-call state changes are not supported over HTTP polling');
+  }
+
+  async sendTransferRequest(_request: Omit<TransferRequestMessage, 'fromDeviceId'>) {
+    throw new Error('Call transfer is not supported over HTTP polling');
+  }
+
+  async sendTransferStatus(_toDeviceId: string, _status: Omit<TransferStatusMessage, 'fromDeviceId'>) {
+    throw new Error('Call transfer is not supported over HTTP polling');
+  }
+
+  async sendConferenceMessage(_message: Omit<ConferenceMessage, 'fromDeviceId'>) {
+    throw new Error('Conference calls are not supported over HTTP polling');
+  }
+
+  async sendDtmf(_callId: string, _digits: string) {
+    throw new Error('DTMF over signaling is not supported over HTTP polling');
+  }
+
+  async sendRecordingState(_callId: string, _state: RecordingSignal) {
+    throw new Error('Recording notices are not supported over HTTP polling');
+  }
+
+  async endCall(callId: string, reason?: string) {
+    this.watched.delete(callId);
+    await callsApi.endCall(callId, this.requireDeviceId(), reason);
+  }
+
+  private async poll() {
+    if (this.isPolling) {
+      return;
+    }
+    this.isPolling = true;
+    try {
+      await this.pollWatchedCalls();
+    } finally {
+      this.isPolling = false;
+    }
+  }
+
+  private async pollWatchedCalls() {
+    for (const [callId, watch] of Array.from(this.watched.entries())) {
+      try {
+        const call = await callsApi.getCall(callId);
+        if (!this.watched.has(callId)) {
+          continue; // Ended while we were waiting
+        }
+        if (!call) {
+          // The backend forgets a call once it has ended
+          this.watched.delete(callId);
+          this.emit('call-state', { callId, state: 'ended', direction: 'unknown' });
+          continue;
+        }
+        if (!watch.answerSeen && call.answer && call.answer.sdp) {
+          watch.answerSeen = true;
+          this.emit('answer', { callId, answer: call.answer, fromDeviceId: call.toDeviceId || undefined });
+        }
+      } catch (e) {
+        console.warn('Error polling call:', callId, e);
+      }
+    }
+  }
+
+  private requireDeviceId() {
+    if (!this.identity) {
+      throw new Error('Device not registered');
+    }
+    return this.identity.deviceId;
+  }
+}
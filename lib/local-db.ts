@@ -0,0 +1,94 @@
+// IndexedDB storage shared by the call modules.
+//
+// All object stores live in one database. Adding a store means adding it to STORES
+// and bumping DB_VERSION; existing stores and their data are kept on upgrade.
+
+const DB_NAME = 'web-calls';
+const DB_VERSION = 3;
+
+const STORES = {
+  // Post-call reports whose upload failed, see call-report-uploader.ts
+  pendingReports: { autoIncrement: true },
+  // Finished calls by callId, see call-history.ts
+  callHistory: { keyPath: 'callId' },
+  // Call recordings by recordingId, and their audio chunks by [recordingId, seq], see call-recorder.ts
+  recordings: { keyPath: 'recordingId' },
+  recordingChunks: { keyPath: ['recordingId', 'seq'] },
+} satisfies Record<string, IDBObjectStoreParameters>;
+
+export type StoreName = keyof typeof STORES;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        Object.entries(STORES).forEach(([name, options]) => {
+          if (!db.objectStoreNames.contains(name)) {
+            db.createObjectStore(name, options);
+          }
+        });
+      };
+      request.onsuccess = () => {
+        const db = request.result;
+        // Another tab upgraded the schema; reopen on next use
+        db.onversionchange = () => {
+          db.close();
+          dbPromise = null;
+        };
+        resolve(db);
+      };
+      request.onerror = () => reject(request.error);
+      request.onblocked = () => console.warn('⚠️ IndexedDB upgrade blocked by another tab');
+    });
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+}
+
+// Run one request in its own transaction and resolve with its result
+async function run<T>(store: StoreName, mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDatabase();
+  return new Promise<T>((resolve, reject) => {
+    const tx = db.transaction(store, mode);
+    const request = action(tx.objectStore(store));
+    tx.oncomplete = () => resolve(request.result);
+    tx.onerror = () => reject(tx.error ?? request.error);
+    tx.onabort = () => reject(tx.error ?? new Error('IndexedDB transaction aborted'));
+  });
+}
+
+export function dbPut<T>(store: StoreName, value: T, key?: IDBValidKey): Promise<IDBValidKey> {
+  return run(store, 'readwrite', (s) => s.put(value, key));
+}
+
+export function dbGet<T>(store: StoreName, key: IDBValidKey): Promise<T | undefined> {
+  return run(store, 'readonly', (s) => s.get(key));
+}
+
+export function dbDelete(store: StoreName, key: IDBValidKey | IDBKeyRange): Promise<undefined> {
+  return run(store, 'readwrite', (s) => s.delete(key));
+}
+
+// Every record of a store (or of a key range) with its key, in key order.
+// Keys and values are read in one transaction so a concurrent write can't pair them up wrong.
+export async function dbEntries<T>(store: StoreName, range?: IDBKeyRange): Promise<Array<{ key: IDBValidKey; value: T }>> {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(store, 'readonly');
+    const keys = tx.objectStore(store).getAllKeys(range);
+    const values = tx.objectStore(store).getAll(range);
+    tx.oncomplete = () => resolve(keys.result.map((key, i) => ({ key, value: values.result[i] as T })));
+    tx.onerror = () => reject(tx.error ?? keys.error ?? values.error);
+    tx.onabort = () => reject(tx.error ?? new Error('IndexedDB transaction aborted'));
+  });
+}
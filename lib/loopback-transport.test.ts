@@ -0,0 +1,241 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { CallClient } from './call-client';
+import type { CallSession } from './call-session';
+import { LoopbackSignalingHub, LoopbackTransport } from './loopback-transport';
+
+// Just enough WebRTC for two CallClients to set up a call: descriptions, one host
+// candidate per side, and the candidates each side is given by its peer.
+
+class FakeTrack {
+  kind = 'audio';
+  enabled = true;
+  readyState = 'live';
+  muted = false;
+  stop() {
+    this.readyState = 'ended';
+  }
+}
+
+class FakeMediaStream {
+  id = Math.random().toString(36).slice(2);
+  private tracks: FakeTrack[];
+
+  constructor(tracks: FakeTrack[] = []) {
+    this.tracks = tracks;
+  }
+
+  getTracks() {
+    return [...this.tracks];
+  }
+
+  getAudioTracks() {
+    return this.tracks.filter((t) => t.kind === 'audio');
+  }
+
+  getVideoTracks() {
+    return this.tracks.filter((t) => t.kind === 'video');
+  }
+
+  addTrack(track: FakeTrack) {
+    this.tracks.push(track);
+  }
+}
+
+class FakeSessionDescription {
+  type: RTCSdpType;
+  sdp: string;
+
+  constructor(init: RTCSessionDescriptionInit) {
+    this.type = init.type;
+    this.sdp = init.sdp ?? '';
+  }
+}
+
+class FakeIceCandidate {
+  candidate: string;
+  sdpMid: string | null;
+  sdpMLineIndex: number | null;
+
+  constructor(init: RTCIceCandidateInit) {
+    this.candidate = init.candidate ?? '';
+    this.sdpMid = init.sdpMid ?? null;
+    this.sdpMLineIndex = init.sdpMLineIndex ?? null;
+  }
+
+  get type() {
+    return this.candidate.match(/ typ (\w+)/)?.[1] ?? null;
+  }
+
+  toJSON(): RTCIceCandidateInit {
+    return { candidate: this.candidate, sdpMid: this.sdpMid, sdpMLineIndex: this.sdpMLineIndex };
+  }
+}
+
+class FakePeerConnection {
+  static created: FakePeerConnection[] = [];
+
+  localDescription: FakeSessionDescription | null = null;
+  remoteDescription: FakeSessionDescription | null = null;
+  signalingState = 'stable';
+  connectionState = 'new';
+  iceConnectionState = 'new';
+  iceGatheringState = 'new';
+  onicecandidate: ((event: { candidate: FakeIceCandidate }) => void) | null = null;
+  // Candidates added from the peer, as sent
+  readonly remoteCandidates: string[] = [];
+  readonly hostCandidate: string;
+  private transceivers: Array<{ sender: { track: FakeTrack | null; replaceTrack(track: FakeTrack | null): Promise<void> } }> = [];
+
+  constructor() {
+    FakePeerConnection.created.push(this);
+    this.hostCandidate = `candidate:1 1 udp 2122260223 10.0.0.${FakePeerConnection.created.length} 50000 typ host`;
+  }
+
+  addTrack(track: FakeTrack) {
+    const sender = {
+      track: track as FakeTrack | null,
+      async replaceTrack(next: FakeTrack | null) {
+        sender.track = next;
+      },
+    };
+    this.transceivers.push({ sender });
+    return sender;
+  }
+
+  getTransceivers() {
+    return this.transceivers;
+  }
+
+  async createOffer() {
+    return { type: 'offer', sdp: 'v=0 offer' };
+  }
+
+  async createAnswer() {
+    return { type: 'answer', sdp: 'v=0 answer' };
+  }
+
+  async setLocalDescription(description: RTCSessionDescriptionInit) {
+    this.localDescription = new FakeSessionDescription(description);
+    this.signalingState = description.type === 'offer' ? 'have-local-offer' : 'stable';
+    // Gathering starts once there is a local description
+    setTimeout(() => this.onicecandidate?.({ candidate: new FakeIceCandidate({ candidate: this.hostCandidate, sdpMid: '0', sdpMLineIndex: 0 }) }), 0);
+  }
+
+  async setRemoteDescription(description: RTCSessionDescriptionInit) {
+    this.remoteDescription = new FakeSessionDescription(description);
+    this.signalingState = description.type === 'offer' ? 'have-remote-offer' : 'stable';
+  }
+
+  async addIceCandidate(candidate: RTCIceCandidateInit) {
+    this.remoteCandidates.push(candidate.candidate ?? '');
+  }
+
+  async getStats() {
+    return new Map();
+  }
+
+  close() {
+    this.signalingState = 'closed';
+    this.connectionState = 'closed';
+  }
+}
+
+const peerOf = (session: CallSession) => session.pc as unknown as FakePeerConnection;
+
+describe('loopback call flow', () => {
+  beforeEach(() => {
+    FakePeerConnection.created = [];
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.stubGlobal('window', { addEventListener() {}, focus() {} });
+    // No localStorage: each client gets a device ID of its own
+    vi.stubGlobal('navigator', {
+      mediaDevices: { getUserMedia: async () => new FakeMediaStream([new FakeTrack()]) },
+    });
+    vi.stubGlobal('MediaStream', FakeMediaStream);
+    vi.stubGlobal('RTCPeerConnection', FakePeerConnection);
+    vi.stubGlobal('RTCSessionDescription', FakeSessionDescription);
+    vi.stubGlobal('RTCIceCandidate', FakeIceCandidate);
+    // The backend is unreachable: no TURN credentials, reports stay queued
+    vi.stubGlobal('fetch', vi.fn(async () => Promise.reject(new Error('offline'))));
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  function connectClients() {
+    const hub = new LoopbackSignalingHub();
+    const alice = new CallClient(new LoopbackTransport(hub));
+    const bob = new CallClient(new LoopbackTransport(hub));
+    alice.init('alice');
+    bob.init('bob');
+    return { alice, bob };
+  }
+
+  // Alice calls Bob and Bob answers
+  async function establishCall(alice: CallClient, bob: CallClient) {
+    const calling = alice.startOutgoingCallByLoyaltyId('bob', 'Alice');
+    await vi.waitFor(() => expect(bob.currentSession?.pc?.remoteDescription).toBeTruthy());
+    const incoming = bob.currentSession!;
+    expect(incoming.state).toBe('ringing');
+    expect(incoming.peerName).toBe('Alice');
+    expect(incoming.peerLoyaltyId).toBe('alice');
+
+    await bob.answerCall(incoming.callId);
+    await calling;
+    return { outgoing: alice.currentSession!, incoming };
+  }
+
+  it('reaches answered on both sides', async () => {
+    const { alice, bob } = connectClients();
+    const { outgoing, incoming } = await establishCall(alice, bob);
+
+    expect(outgoing.callId).toBe(incoming.callId);
+    expect(outgoing.role).toBe('caller');
+    expect(incoming.role).toBe('callee');
+    expect(outgoing.state).toBe('answered');
+    expect(incoming.state).toBe('answered');
+    expect(peerOf(outgoing).remoteDescription?.type).toBe('answer');
+    expect(peerOf(outgoing).signalingState).toBe('stable');
+  });
+
+  it('exchanges ICE candidates', async () => {
+    const { alice, bob } = connectClients();
+    const { outgoing, incoming } = await establishCall(alice, bob);
+
+    // Each side gets the other's candidate, queued until its remote description is set
+    await vi.waitFor(() => {
+      expect(peerOf(incoming).remoteCandidates).toEqual([peerOf(outgoing).hostCandidate]);
+      expect(peerOf(outgoing).remoteCandidates).toEqual([peerOf(incoming).hostCandidate]);
+    });
+  });
+
+  it('ends the call on both sides when one hangs up', async () => {
+    const { alice, bob } = connectClients();
+    const { outgoing, incoming } = await establishCall(alice, bob);
+    const peers = [peerOf(outgoing), peerOf(incoming)];
+
+    alice.endVoiceCall();
+    expect(outgoing.state).toBe('ended');
+    expect(alice.currentSession).toBeNull();
+    await vi.waitFor(() => expect(bob.currentSession).toBeNull());
+    expect(incoming.state).toBe('ended');
+    expect(incoming.endReason).toBe('signaling:call-state');
+    expect(peers.map((pc) => pc.signalingState)).toEqual(['closed', 'closed']);
+  });
+
+  it('ends the call on both sides when the callee rejects it', async () => {
+    const { alice, bob } = connectClients();
+    const calling = alice.startOutgoingCallByLoyaltyId('bob', 'Alice');
+    await vi.waitFor(() => expect(bob.currentSession?.pc?.remoteDescription).toBeTruthy());
+    const outgoing = alice.currentSession!;
+
+    await bob.rejectCall(bob.currentSession!.callId);
+    await expect(calling).rejects.toThrow('Call rejected');
+    expect(outgoing.state).toBe('rejected');
+    expect(alice.currentSession).toBeNull();
+  });
+});
@@ -0,0 +1,292 @@
+import {
+  SignalingEmitter,
+  type CallRecord,
+  type ConferenceMessage,
+  type CreateCallRequest,
+  type RecordingSignal,
+  type RenegotiationOptions,
+  type SignalingEventName,
+  type SignalingEvents,
+  type SignalingIdentity,
+  type SignalingTransport,
+  type TransferRequestMessage,
+  type TransferStatusMessage,
+} from './signaling-transport';
+
+interface LoopbackCall extends CallRecord {
+  callId: string;
+  fromDeviceId: string;
+  toDeviceId: string | null;
+}
+
+// In-memory stand-in for the backend. Every LoopbackTransport attached to the same hub
+// can call the others, so two CallClients can exchange offers, answers and ICE candidates
+// without any server (see loopback-transport.test.ts). In a browser both would load the
+// same device ID from localStorage, so they need separate pages or storage to run.
+export class LoopbackSignalingHub {
+  private devices = new Map<string, { identity: SignalingIdentity; transport: LoopbackTransport }>();
+  private calls = new Map<string, LoopbackCall>();
+
+  register(identity: SignalingIdentity, transport: LoopbackTransport) {
+    this.devices.set(identity.deviceId, { identity, transport });
+  }
+
+  unregister(deviceId: string) {
+    this.devices.delete(deviceId);
+  }
+
+  getCall(callId: string): CallRecord | null {
+    const call = this.calls.get(callId);
+    return call ? { ...call } : null;
+  }
+
+  startCall(request: CreateCallRequest) {
+    const target = this.findTarget(request);
+    if (!target) {
+      throw new Error('Failed to start call: 404');
+    }
+
+    const toDeviceId = target.identity.deviceId;
+    const call: LoopbackCall = {
+      callId: request.callId,
+      fromDeviceId: request.fromDeviceId,
+      toDeviceId,
+      offer: request.offer,
+      answer: null,
+    };
+    this.calls.set(call.callId, call);
+
+    this.deliver(toDeviceId, 'call-state', {
+      callId: call.callId,
+      state: 'ringing',
+      direction: 'incoming',
+      peerDeviceId: call.fromDeviceId,
+      callerName: request.callerName,
+      fromLoyaltyId: request.fromLoyaltyId,
+    });
+    this.deliver(toDeviceId, 'offer', {
+      callId: call.callId,
+      offer: request.offer,
+      fromDeviceId: call.fromDeviceId,
+      fromLoyaltyId: request.fromLoyaltyId,
+      callerName: request.callerName,
+    });
+  }
+
+  answer(callId: string, deviceId: string, answer: RTCSessionDescriptionInit) {
+    const call = this.requireCall(callId);
+    call.answer = answer;
+    call.toDeviceId = deviceId;
+    this.deliver(call.fromDeviceId, 'answer', { callId, answer, fromDeviceId: deviceId });
+    this.deliver(call.fromDeviceId, 'call-state', { callId, state: 'answered', direction: 'outgoing', peerDeviceId: deviceId });
+  }
+
+  candidate(callId: string, deviceId: string, candidate: RTCIceCandidateInit) {
+    const call = this.calls.get(callId);
+    const peer = call && this.peerOf(call, deviceId);
+    if (peer) {
+      this.deliver(peer, 'ice-candidate', { callId, candidate, fromDeviceId: deviceId });
+    }
+  }
+
+  renegotiate(callId: string, deviceId: string, description: RTCSessionDescriptionInit, options: RenegotiationOptions = {}) {
+    const call = this.requireCall(callId);
+    const peer = this.peerOf(call, deviceId);
+    if (!peer) {
+      throw new Error('Call not answered yet');
+    }
+    if (description.type === 'offer') {
+      this.deliver(peer, 'offer', { callId, offer: description, fromDeviceId: deviceId, renegotiation: true, rejoin: options.rejoin });
+    } else {
+      this.deliver(peer, 'answer', { callId, answer: description, fromDeviceId: deviceId, renegotiation: true });
+    }
+  }
+
+  callState(callId: string, deviceId: string, state: 'held' | 'answered') {
+    const call = this.requireCall(callId);
+    const peer = this.peerOf(call, deviceId);
+    if (peer) {
+      this.deliver(peer, 'call-state', {
+        callId,
+        state,
+        direction: peer === call.fromDeviceId ? 'outgoing' : 'incoming',
+        peerDeviceId: deviceId,
+      });
+    }
+  }
+
+  transferRequest(deviceId: string, request: TransferRequestMessage) {
+    const call = this.requireCall(request.callId);
+    const peer = this.peerOf(call, deviceId);
+    if (!peer) {
+      throw new Error('Call not answered yet');
+    }
+    this.deliver(peer, 'transfer-request', { ...request, fromDeviceId: deviceId });
+  }
+
+  transferStatus(deviceId: string, toDeviceId: string, status: TransferStatusMessage) {
+    this.deliver(toDeviceId, 'transfer-status', { ...status, fromDeviceId: deviceId });
+  }
+
+  conference(deviceId: string, message: ConferenceMessage) {
+    const call = this.requireCall(message.callId);
+    const peer = this.peerOf(call, deviceId);
+    if (!peer) {
+      throw new Error('Call not answered yet');
+    }
+    this.deliver(peer, 'conference', { ...message, fromDeviceId: deviceId });
+  }
+
+  dtmf(callId: string, deviceId: string, digits: string) {
+    const call = this.requireCall(callId);
+    const peer = this.peerOf(call, deviceId);
+    if (!peer) {
+      throw new Error('Call not answered yet');
+    }
+    this.deliver(peer, 'dtmf', { callId, digits, fromDeviceId: deviceId });
+  }
+
+  recording(callId: string, deviceId: string, state: RecordingSignal) {
+    const call = this.requireCall(callId);
+    const peer = this.peerOf(call, deviceId);
+    if (!peer) {
+      throw new Error('Call not answered yet');
+    }
+    this.deliver(peer, 'recording', { callId, state, fromDeviceId: deviceId });
+  }
+
+  end(callId: string, deviceId: string, reason?: string) {
+    const call = this.calls.get(callId);
+    if (!call) {
+      return;
+    }
+    this.calls.delete(callId);
+    const peer = this.peerOf(call, deviceId);
+    if (peer) {
+      this.deliver(peer, 'call-state', {
+        callId,
+        state: reason === 'rejected' ? 'rejected' : 'ended',
+        direction: peer === call.fromDeviceId ? 'outgoing' : 'incoming',
+        peerDeviceId: deviceId,
+      });
+    }
+  }
+
+  private findTarget(request: CreateCallRequest) {
+    const devices = Array.from(this.devices.values());
+    if (request.toDeviceId) {
+      return devices.find((d) => d.identity.deviceId === request.toDeviceId) ?? null;
+    }
+    return devices.find((d) => d.identity.loyaltyId === request.toLoyaltyId && d.identity.deviceId !== request.fromDeviceId) ?? null;
+  }
+
+  private peerOf(call: LoopbackCall, deviceId: string) {
+    return deviceId === call.fromDeviceId ? call.toDeviceId : call.fromDeviceId;
+  }
+
+  private requireCall(callId: string) {
+    const call = this.calls.get(callId);
+    if (!call) {
+      throw new Error('Call not found');
+    }
+    return call;
+  }
+
+  // Deliver asynchronously, like a network would
+  private deliver<K extends SignalingEventName>(deviceId: string, event: K, data: SignalingEvents[K]) {
+    const device = this.devices.get(deviceId);
+    if (device) {
+      setTimeout(() => device.transport.receive(event, data), 0);
+    }
+  }
+}
+
+// Transport bound to a LoopbackSignalingHub
+export class LoopbackTransport extends SignalingEmitter implements SignalingTransport {
+  readonly receivesIncomingCalls = true;
+  private hub: LoopbackSignalingHub;
+  private identity: SignalingIdentity | null = null;
+
+  constructor(hub: LoopbackSignalingHub) {
+    super();
+    this.hub = hub;
+  }
+
+  get connected() {
+    return this.identity !== null;
+  }
+
+  connect(identity: SignalingIdentity) {
+    this.identity = identity;
+    this.hub.register(identity, this);
+    this.emit('connect', undefined);
+  }
+
+  disconnect() {
+    if (this.identity) {
+      this.hub.unregister(this.identity.deviceId);
+      this.identity = null;
+      this.emit('disconnect', undefined);
+    }
+  }
+
+  // Called by the hub
+  receive<K extends SignalingEventName>(event: K, data: SignalingEvents[K]) {
+    this.emit(event, data);
+  }
+
+  async startCall(request: CreateCallRequest) {
+    this.hub.startCall(request);
+  }
+
+  async fetchCall(callId: string): Promise<CallRecord | null> {
+    return this.hub.getCall(callId);
+  }
+
+  async sendAnswer(callId: string, answer: RTCSessionDescriptionInit) {
+    this.hub.answer(callId, this.requireDeviceId(), answer);
+  }
+
+  async sendIceCandidate(callId: string, _from: 'caller' | 'callee', candidate: RTCIceCandidateInit) {
+    this.hub.candidate(callId, this.requireDeviceId(), candidate);
+  }
+
+  async sendRenegotiation(callId: string, description: RTCSessionDescriptionInit, options: RenegotiationOptions = {}) {
+    this.hub.renegotiate(callId, this.requireDeviceId(), description, options);
+  }
+
+  async sendCallState(callId: string, state: 'held' | 'answered') {
+    this.hub.callState(callId, this.requireDeviceId(), state);
+  }
+
+  async sendTransferRequest(request: Omit<TransferRequestMessage, 'fromDeviceId'>) {
+    this.hub.transferRequest(this.requireDeviceId(), request);
+  }
+
+  async sendTransferStatus(toDeviceId: string, status: Omit<TransferStatusMessage, 'fromDeviceId'>) {
+    this.hub.transferStatus(this.requireDeviceId(), toDeviceId, status);
+  }
+
+  async sendConferenceMessage(message: Omit<ConferenceMessage, 'fromDeviceId'>) {
+    this.hub.conference(this.requireDeviceId(), message);
+  }
+
+  async sendDtmf(callId: string, digits: string) {
+    this.hub.dtmf(callId, this.requireDeviceId(), digits);
+  }
+
+  async sendRecordingState(callId: string, state: RecordingSignal) {
+    this.hub.recording(callId, this.requireDeviceId(), state);
+  }
+
+  async endCall(callId: string, reason?: string) {
+    this.hub.end(callId, this.requireDeviceId(), reason);
+  }
+
+  private requireDeviceId() {
+    if (!this.identity) {
+      throw new Error('Device not registered');
+    }
+    return this.identity.deviceId;
+  }
+}
@@ -0,0 +1,50 @@
+// Missed incoming calls, kept in localStorage per agent until dismissed.
+// The header badge counts the ones the agent has not looked at yet.
+
+const MISSED_CALLS_KEY_PREFIX = 'webMissedCalls:';
+// Oldest ones are dropped beyond this
+const MAX_MISSED_CALLS = 50;
+
+export interface MissedCall {
+  callId: string;
+  peerLoyaltyId: string | null;
+  peerName: string | null;
+  at: number;
+  seen: boolean;
+}
+
+function storageKey(loyaltyId: string) {
+  return MISSED_CALLS_KEY_PREFIX + loyaltyId;
+}
+
+// Newest first
+export function loadMissedCalls(loyaltyId: string): MissedCall[] {
+  try {
+    const raw = localStorage.getItem(storageKey(loyaltyId));
+    const calls = raw ? JSON.parse(raw) : [];
+    return Array.isArray(calls) ? calls.filter((c) => typeof c?.callId === 'string') : [];
+  } catch {
+    return [];
+  }
+}
+
+function saveMissedCalls(loyaltyId: string, calls: MissedCall[]) {
+  try {
+    localStorage.setItem(storageKey(loyaltyId), JSON.stringify(calls.slice(0, MAX_MISSED_CALLS)));
+  } catch (e) {
+    console.warn('Could not persist missed calls:', e);
+  }
+}
+
+export function addMissedCall(loyaltyId: string, call: MissedCall) {
+  const calls = loadMissedCalls(loyaltyId).filter((c) => c.callId !== call.callId);
+  saveMissedCalls(loyaltyId, [call, ...calls]);
+}
+
+export function markMissedCallsSeen(loyaltyId: string) {
+  saveMissedCalls(loyaltyId, loadMissedCalls(loyaltyId).map((c) => ({ ...c, seen: true })));
+}
+
+export function removeMissedCall(loyaltyId: string, callId: string) {
+  saveMissedCalls(loyaltyId, loadMissedCalls(loyaltyId).filter((c) => c.callId !== callId));
+}
@@ -0,0 +1,347 @@
+// Pre-call check of the agent's headset and network, run from /precall-test:
+//   microphone - live level meter, passes once speech is heard
+//   speaker    - a test tone on the preferred output, confirmed by the agent
+//   echo       - the microphone sent through a local RTCPeerConnection pair and played back
+//   servers    - STUN/TURN reachability (checkAllServersStatus)
+//   relay      - a data channel between two peer connections forced through TURN
+//   bandwidth  - throughput of that relayed data channel
+//
+// Everything runs locally; nothing is sent to the other agents.
+
+import { applySpeaker, microphoneConstraints } from './audio-devices';
+
+export type PrecallCheckId = 'microphone' | 'speaker' | 'echo' | 'servers' | 'relay' | 'bandwidth';
+export type PrecallCheckStatus = 'pending' | 'running' | 'passed' | 'failed' | 'skipped';
+
+export interface PrecallCheckResult {
+  id: PrecallCheckId;
+  status: PrecallCheckStatus;
+  // Human readable outcome, goes into the summary
+  detail: string | null;
+}
+
+export interface EchoLoopbackResult {
+  connected: boolean;
+  bytesReceived: number;
+  // Loudest level that came back through the loopback, 0..1
+  peakLevel: number;
+}
+
+export interface RelayTestResult {
+  connected: boolean;
+  connectMs: number | null;
+  rttMs: number | null;
+  throughputKbps: number | null;
+}
+
+export const PRECALL_CHECK_TITLES: Record<PrecallCheckId, string> = {
+  microphone: 'Микрофон',
+  speaker: 'Динамик',
+  echo: 'Эхо-тест',
+  servers: 'STUN/TURN серверы',
+  relay: 'Соединение через TURN',
+  bandwidth: 'Пропускная способность',
+};
+
+// Microphone level counted as speech
+export const MIC_SPEECH_LEVEL = 0.05;
+// Enough for Opus voice both ways with headroom
+export const MIN_BANDWIDTH_KBPS = 100;
+
+const RELAY_CONNECT_TIMEOUT_MS = 10000;
+const BANDWIDTH_TEST_MS = 3000;
+const BANDWIDTH_CHUNK_BYTES = 16 * 1024;
+const BANDWIDTH_MAX_BUFFERED = 1024 * 1024;
+const PING_COUNT = 5;
+
+export async function openTestMicrophone(deviceId: string): Promise<MediaStream> {
+  const audio = microphoneConstraints({ echoCancellation: true, noiseSuppression: true, autoGainControl: true }, deviceId);
+  return navigator.mediaDevices.getUserMedia({ audio, video: false });
+}
+
+// Report the microphone level (0..1) on every animation frame. Returns a stop function.
+export function watchMicrophoneLevel(stream: MediaStream, onLevel: (level: number) => void): () => void {
+  const context = new AudioContext();
+  const analyser = context.createAnalyser();
+  analyser.fftSize = 1024;
+  context.createMediaStreamSource(stream).connect(analyser);
+  const samples = new Float32Array(analyser.fftSize);
+
+  let frame = 0;
+  const tick = () => {
+    analyser.getFloatTimeDomainData(samples);
+    let sum = 0;
+    for (let i = 0; i < samples.length; i++) {
+      sum += samples[i] * samples[i];
+    }
+    // RMS of normal speech is around 0.05-0.2; stretch it over the meter
+    onLevel(Math.min(1, Math.sqrt(sum / samples.length) * 4));
+    frame = requestAnimationFrame(tick);
+  };
+  tick();
+
+  return () => {
+    cancelAnimationFrame(frame);
+    context.close().catch(() => {});
+  };
+}
+
+// Play a 440 Hz tone on the given speaker ('' = system default)
+export async function playTestTone(speakerId: string, durationMs = 1500) {
+  const context = new AudioContext();
+  const oscillator = context.createOscillator();
+  const gain = context.createGain();
+  const destination = context.createMediaStreamDestination();
+  oscillator.frequency.value = 440;
+  gain.gain.value = 0.3;
+  oscillator.connect(gain).connect(destination);
+
+  const element = new Audio();
+  element.srcObject = destination.stream;
+  await applySpeaker(element, speakerId);
+  try {
+    await element.play();
+    oscillator.start();
+    await delay(durationMs);
+    oscillator.stop();
+  } finally {
+    element.pause();
+    element.srcObject = null;
+    context.close().catch(() => {});
+  }
+}
+
+// Send the microphone through a pair of local peer connections and play what arrives,
+// so the agent hears themselves the way the other side would (codec included)
+export async function runEchoLoopback(stream: MediaStream, speakerId: string, durationMs = 5000): Promise<EchoLoopbackResult> {
+  const element = new Audio();
+  await applySpeaker(element, speakerId);
+
+  const pair = await connectPair({}, (caller, callee) => {
+    stream.getAudioTracks().forEach((track) => caller.addTrack(track, stream));
+    callee.ontrack = (event) => {
+      element.srcObject = event.streams[0] ?? new MediaStream([event.track]);
+      element.play().catch((e) => console.warn('⚠️ Echo playback blocked:', e));
+    };
+  });
+
+  const result: EchoLoopbackResult = { connected: false, bytesReceived: 0, peakLevel: 0 };
+  try {
+    const until = Date.now() + durationMs;
+    while (Date.now() < until) {
+      await delay(500);
+      result.connected ||= pair.callee.connectionState === 'connected';
+      const stats = await pair.callee.getStats();
+      stats.forEach((report: any) => {
+        if (report.type === 'inbound-rtp' && report.kind === 'audio') {
+          result.bytesReceived = report.bytesReceived ?? result.bytesReceived;
+          result.peakLevel = Math.max(result.peakLevel, report.audioLevel ?? 0);
+        }
+      });
+    }
+  } finally {
+    element.pause();
+    element.srcObject = null;
+    pair.close();
+  }
+  return result;
+}
+
+// Connect two peer connections through TURN only, then measure round trip and
+// throughput of a data channel between them. The data crosses the relay twice,
+// so the throughput is a lower bound for both upload and download.
+export async function runRelayTest(iceServers: RTCIceServer[]): Promise<RelayTestResult> {
+  const result: RelayTestResult = { connected: false, connectMs: null, rttMs: null, throughputKbps: null };
+  if (!iceServers.some((server) => toUrls(server).some(isTurnUrl))) {
+    return result;
+  }
+
+  const startedAt = Date.now();
+  let sender: RTCDataChannel | null = null;
+  let receiver: Promise<RTCDataChannel> | null = null;
+  const pair = await connectPair({ iceServers, iceTransportPolicy: 'relay' }, (caller, callee) => {
+    sender = caller.createDataChannel('precall', { ordered: true });
+    receiver = new Promise((resolve) => {
+      callee.ondatachannel = (event) => resolve(event.channel);
+    });
+  });
+
+  try {
+    const channels = await withTimeout(
+      Promise.all([waitForOpen(sender!), receiver!]),
+      RELAY_CONNECT_TIMEOUT_MS
+    );
+    if (!channels) {
+      return result;
+    }
+    const [out, incoming] = channels;
+    result.connected = true;
+    result.connectMs = Date.now() - startedAt;
+    result.rttMs = await measureRoundTrip(out, incoming);
+    result.throughputKbps = await measureThroughput(out, incoming);
+    return result;
+  } finally {
+    pair.close();
+  }
+}
+
+export function formatPrecallSummary(
+  results: PrecallCheckResult[],
+  context: { loyaltyId: string | null; microphone: string | null; speaker: string | null }
+) {
+  const passed = results.every((r) => r.status === 'passed' || r.status === 'skipped');
+  const icon: Record<PrecallCheckStatus, string> = {
+    pending: '⏳',
+    running: '⏳',
+    passed: '✅',
+    failed: '❌',
+    skipped: '➖',
+  };
+  return [
+    `Проверка перед звонками — ${new Date().toLocaleString('ru-RU')}`,
+    `Агент: ${context.loyaltyId ?? 'неизвестен'}`,
+    `Браузер: ${typeof navigator !== 'undefined' ? navigator.userAgent : 'неизвестен'}`,
+    `Микрофон: ${context.microphone ?? 'по умолчанию'}`,
+    `Динамик: ${context.speaker ?? 'по умолчанию'}`,
+    '',
+    ...results.map((r) => `${icon[r.status]} ${PRECALL_CHECK_TITLES[r.id]}${r.detail ? ` — ${r.detail}` : ''}`),
+    '',
+    `Итог: ${passed ? 'ПРОЙДЕНА' : 'ЕСТЬ ПРОБЛЕМЫ'}`,
+  ].join('\n');
+}
+
+// Two local peer connections wired to each other (candidates and SDP passed directly)
+async function connectPair(
+  config: RTCConfiguration,
+  setup: (caller: RTCPeerConnection, callee: RTCPeerConnection) => void
+) {
+  const caller = new RTCPeerConnection(config);
+  const callee = new RTCPeerConnection(config);
+  const close = () => {
+    caller.close();
+    callee.close();
+  };
+  caller.onicecandidate = (event) => {
+    if (event.candidate) callee.addIceCandidate(event.candidate).catch(() => {});
+  };
+  callee.onicecandidate = (event) => {
+    if (event.candidate) caller.addIceCandidate(event.candidate).catch(() => {});
+  };
+
+  try {
+    setup(caller, callee);
+    const offer = await caller.createOffer();
+    await caller.setLocalDescription(offer);
+    await callee.setRemoteDescription(offer);
+    const answer = await callee.createAnswer();
+    await callee.setLocalDescription(answer);
+    await caller.setRemoteDescription(answer);
+  } catch (e) {
+    close();
+    throw e;
+  }
+  return { caller, callee, close };
+}
+
+async function measureRoundTrip(out: RTCDataChannel, incoming: RTCDataChannel) {
+  // The receiving side echoes pings back on the same channel
+  incoming.onmessage = (event) => incoming.send(event.data);
+  const rtts: number[] = [];
+  for (let i = 0; i < PING_COUNT; i++) {
+    const sentAt = performance.now();
+    const echoed = await withTimeout(
+      new Promise<void>((resolve) => {
+        out.onmessage = () => resolve();
+        out.send(`ping:${i}`);
+      }),
+      2000
+    );
+    if (echoed !== null) {
+      rtts.push(performance.now() - sentAt);
+    }
+  }
+  incoming.onmessage = null;
+  out.onmessage = null;
+  if (rtts.length === 0) {
+    return null;
+  }
+  rtts.sort((a, b) => a - b);
+  return Math.round(rtts[Math.floor(rtts.length / 2)]);
+}
+
+async function measureThroughput(out: RTCDataChannel, incoming: RTCDataChannel) {
+  let received = 0;
+  let firstAt: number | null = null;
+  let lastAt = 0;
+  incoming.onmessage = (event) => {
+    const now = performance.now();
+    firstAt ??= now;
+    lastAt = now;
+    received += (event.data as ArrayBuffer).byteLength ?? 0;
+  };
+  incoming.binaryType = 'arraybuffer';
+
+  const chunk = new ArrayBuffer(BANDWIDTH_CHUNK_BYTES);
+  out.bufferedAmountLowThreshold = BANDWIDTH_MAX_BUFFERED / 2;
+  const until = performance.now() + BANDWIDTH_TEST_MS;
+  while (performance.now() < until && out.readyState === 'open') {
+    if (out.bufferedAmount > BANDWIDTH_MAX_BUFFERED) {
+      await withTimeout(
+        new Promise<void>((resolve) => {
+          out.onbufferedamountlow = () => resolve();
+        }),
+        500
+      );
+      continue;
+    }
+    out.send(chunk);
+  }
+  // Let what is in flight arrive
+  await delay(300);
+  incoming.onmessage = null;
+  out.onbufferedamountlow = null;
+
+  if (firstAt === null || lastAt <= firstAt) {
+    return null;
+  }
+  return Math.round((received * 8) / (lastAt - firstAt));
+}
+
+function waitForOpen(channel: RTCDataChannel) {
+  return new Promise<RTCDataChannel>((resolve) => {
+    if (channel.readyState === 'open') {
+      resolve(channel);
+    } else {
+      channel.onopen = () => resolve(channel);
+    }
+  });
+}
+
+// Resolves to null when the promise takes longer than timeoutMs
+function withTimeout<T>(promise: Promise<T>, timeoutMs: number): Promise<T | null> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(() => resolve(null), timeoutMs);
+    promise.then(
+      (value) => {
+        clearTimeout(timer);
+        resolve(value);
+      },
+      () => {
+        clearTimeout(timer);
+        resolve(null);
+      }
+    );
+  });
+}
+
+function delay(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function toUrls(server: RTCIceServer) {
+  return Array.isArray(server.urls) ? server.urls : [server.urls];
+}
+
+function isTurnUrl(url: string) {
+  return url.startsWith('turn:') || url.startsWith('turns:');
+}
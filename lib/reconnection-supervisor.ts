@@ -0,0 +1,129 @@
+// Recovers an established call whose media path dropped.
+//
+// 'disconnected' often heals by itself (e.g. a Wi-Fi hiccup), so we first wait a
+// grace period. After that, and right away on 'failed', we restart ICE with a new
+// offer over signaling, retrying with exponential backoff. When the signaling socket
+// itself comes back we retry immediately, since earlier offers may have been lost.
+// If nothing recovers before the timeout the call is given up.
+
+import { getConfig, type ReconnectConfig } from './config';
+
+const FIRST_RETRY_MS = 2000;
+const MAX_RETRY_MS = 16000;
+
+export interface ReconnectionTarget {
+  readonly callId: string;
+  // Restart ICE and send the new offer to the peer
+  restartIce(): Promise<void>;
+  // Recovery timed out; end the call
+  giveUp(reason: string): void;
+}
+
+export class ReconnectionSupervisor {
+  private target: ReconnectionTarget;
+  private overrides: ReconnectConfig | null;
+  private since: number | null = null;
+  private attempts = 0;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private deadlineTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(target: ReconnectionTarget, overrides: ReconnectConfig | null = null) {
+    this.target = target;
+    this.overrides = overrides;
+  }
+
+  // Read at use time so a /config.json loaded after the call started still applies
+  private get options() {
+    return this.overrides ?? getConfig().reconnect;
+  }
+
+  // When the connection dropped, or null while it is fine
+  get reconnectingSince() {
+    return this.since;
+  }
+
+  // Feed every RTCPeerConnection.connectionState change of an established call
+  handleConnectionState(state: RTCPeerConnectionState) {
+    if (state === 'connected') {
+      this.recovered();
+    } else if (state === 'disconnected') {
+      this.begin(this.options.graceMs);
+    } else if (state === 'failed') {
+      // No point waiting: ICE has given up on the current candidates
+      this.begin(0);
+    }
+  }
+
+  // The signaling channel reconnected; offers sent while it was down are lost
+  handleSignalingReconnected() {
+    if (this.since !== null) {
+      console.log('🔁 Signaling back, retrying ICE restart for call:', this.target.callId);
+      this.attempts = 0;
+      this.schedule(0);
+    }
+  }
+
+  stop() {
+    this.clearTimers();
+    this.since = null;
+    this.attempts = 0;
+  }
+
+  private begin(delay: number) {
+    if (this.since === null) {
+      this.since = Date.now();
+      console.warn('⚠️ Connection lost, reconnecting call:', this.target.callId);
+      this.deadlineTimer = setTimeout(() => {
+        console.error('❌ Could not reconnect call', this.target.callId, 'within', this.options.timeoutMs, 'ms');
+        this.stop();
+        this.target.giveUp('connection-lost');
+      }, this.options.timeoutMs);
+      this.schedule(delay);
+    } else if (delay === 0 && this.attempts === 0) {
+      // Went from disconnected to failed during the grace period
+      this.schedule(0);
+    }
+  }
+
+  private schedule(delay: number) {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+    }
+    this.retryTimer = setTimeout(() => this.attempt(), delay);
+  }
+
+  private async attempt() {
+    this.retryTimer = null;
+    if (this.since === null) {
+      return;
+    }
+    this.attempts++;
+    console.log('🔁 ICE restart attempt', this.attempts, 'for call:', this.target.callId);
+    try {
+      await this.target.restartIce();
+    } catch (e) {
+      console.warn('⚠️ ICE restart attempt failed:', e);
+    }
+    if (this.since !== null) {
+      this.schedule(Math.min(FIRST_RETRY_MS * 2 ** (this.attempts - 1), MAX_RETRY_MS));
+    }
+  }
+
+  private recovered() {
+    if (this.since !== null) {
+      console.log('✅ Call reconnected after', Date.now() - this.since, 'ms and', this.attempts, 'ICE restarts');
+    }
+    this.stop();
+  }
+
+  private clearTimers() {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+    if (this.deadlineTimer) {
+      clearTimeout(this.deadlineTimer);
+      this.deadlineTimer = null;
+    }
+  }
+}
@@ -0,0 +1,78 @@
+// Uploads finished call recordings when the recordingUpload feature is on. A recording
+// that cannot be uploaded (offline, backend down) stays marked as not uploaded in
+// IndexedDB and is retried with backoff, when the browser comes back online, and on
+// the next start of the app. Every attempt resumes after the last chunk the backend
+// accepted (see uploadRecording()).
+
+import { loadRecordings, uploadRecording, type RecordingMeta } from './call-recorder';
+
+const FIRST_RETRY_MS = 10 * 1000;
+const MAX_RETRY_MS = 10 * 60 * 1000;
+
+export class RecordingUploader {
+  // Agents whose recordings this tab uploads
+  private owners = new Set<string>();
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private retryDelay = FIRST_RETRY_MS;
+  // Upload passes, one at a time so no chunk is sent twice
+  private flushing: Promise<void> = Promise.resolve();
+  private listening = false;
+
+  // Upload the finished recordings of this agent the backend does not have yet
+  flush(ownerLoyaltyId: string): Promise<void> {
+    this.owners.add(ownerLoyaltyId);
+    return this.flushAll();
+  }
+
+  private flushAll() {
+    this.listenForOnline();
+    this.flushing = this.flushing.then(() => this.uploadPending());
+    return this.flushing;
+  }
+
+  private async uploadPending() {
+    for (const owner of Array.from(this.owners)) {
+      let recordings: RecordingMeta[];
+      try {
+        recordings = await loadRecordings(owner);
+      } catch (e) {
+        console.warn('⚠️ Could not read recordings to upload:', e);
+        return;
+      }
+      const pending = recordings.filter((meta) => meta.status === 'stopped' && !meta.uploaded && meta.chunkCount > 0);
+      for (const meta of pending) {
+        try {
+          await uploadRecording(meta);
+        } catch (e) {
+          console.warn('⚠️ Recording upload failed, will retry:', meta.recordingId, e);
+          this.scheduleRetry();
+          return;
+        }
+      }
+    }
+    this.retryDelay = FIRST_RETRY_MS;
+  }
+
+  private scheduleRetry() {
+    if (this.retryTimer) {
+      return;
+    }
+    const delay = this.retryDelay;
+    this.retryDelay = Math.min(this.retryDelay * 2, MAX_RETRY_MS);
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      this.flushAll();
+    }, delay);
+  }
+
+  private listenForOnline() {
+    if (this.listening || typeof window === 'undefined') {
+      return;
+    }
+    this.listening = true;
+    window.addEventListener('online', () => {
+      this.retryDelay = FIRST_RETRY_MS;
+      this.flushAll();
+    });
+  }
+}
@@ -0,0 +1,202 @@
+import type { CallRecord, CreateCallRequest } from './calls-api';
+
+export type { CallRecord, CreateCallRequest } from './calls-api';
+
+// Messages delivered to a CallClient by its transport
+
+export interface CallStateMessage {
+  callId: string;
+  state: string;
+  direction: string;
+  peerDeviceId?: string;
+  callerName?: string;
+  fromLoyaltyId?: string;
+}
+
+export interface OfferMessage {
+  callId: string;
+  offer: RTCSessionDescriptionInit;
+  fromDeviceId?: string;
+  fromLoyaltyId?: string;
+  callerName?: string;
+  // Set on mid-call offers (see SignalingTransport.sendRenegotiation)
+  renegotiation?: boolean;
+  // The sender reloaded its page and offers a brand-new peer connection
+  rejoin?: boolean;
+}
+
+export interface AnswerMessage {
+  callId: string;
+  answer: RTCSessionDescriptionInit;
+  fromDeviceId?: string;
+  renegotiation?: boolean;
+}
+
+export interface IceCandidateMessage {
+  callId: string;
+  candidate: RTCIceCandidateInit | null;
+  fromDeviceId?: string;
+}
+
+export type TransferMode = 'blind' | 'attended';
+
+// Sent by the transferring agent to the other party of callId.
+// 'transferee' (the customer) is asked to call targetLoyaltyId; 'target' (the agent
+// taking over, attended transfer only) is told to accept the customer's call.
+export interface TransferRequestMessage {
+  transferId: string;
+  callId: string;
+  mode: TransferMode;
+  role: 'transferee' | 'target';
+  targetLoyaltyId?: string;
+  targetName?: string;
+  customerLoyaltyId?: string;
+  customerName?: string;
+  fromDeviceId?: string;
+}
+
+// Progress of a transfer, reported back to the transferring agent
+export interface TransferStatusMessage {
+  transferId: string;
+  status: 'accepted' | 'connected' | 'failed';
+  reason?: string;
+  fromDeviceId?: string;
+}
+
+// One member of a conference roster
+export interface ConferenceMember {
+  loyaltyId: string;
+  name: string;
+  // When the member was added; later members dial earlier ones to complete the mesh
+  joinedAt: number;
+}
+
+// Conference bookkeeping sent over one leg (callId) of a mesh conference.
+//   roster - the full member list, sent to every member when someone is added
+//   remove - loyaltyId was removed; everyone drops their leg to it
+//   mute   - loyaltyId muted or unmuted their microphone
+export interface ConferenceMessage {
+  conferenceId: string;
+  callId: string;
+  type: 'roster' | 'remove' | 'mute';
+  members?: ConferenceMember[];
+  loyaltyId?: string;
+  muted?: boolean;
+  fromDeviceId?: string;
+}
+
+// DTMF digits for the other party of callId, when they can't be sent in the audio
+// (the peer's RTCRtpSender has no DTMF support, e.g. a non-Opus/telephone-event codec)
+export interface DtmfMessage {
+  callId: string;
+  digits: string;
+  fromDeviceId?: string;
+}
+
+// The other party of callId started, paused, resumed or stopped recording the call
+export type RecordingSignal = 'started' | 'paused' | 'resumed' | 'stopped';
+
+export interface RecordingMessage {
+  callId: string;
+  state: RecordingSignal;
+  fromDeviceId?: string;
+}
+
+export interface SignalingEvents {
+  connect: void;
+  disconnect: void;
+  'call-state': CallStateMessage;
+  offer: OfferMessage;
+  answer: AnswerMessage;
+  'ice-candidate': IceCandidateMessage;
+  'transfer-request': TransferRequestMessage;
+  'transfer-status': TransferStatusMessage;
+  conference: ConferenceMessage;
+  dtmf: DtmfMessage;
+  recording: RecordingMessage;
+}
+
+export type SignalingEventName = keyof SignalingEvents;
+
+export type SignalingHandler<K extends SignalingEventName> = (data: SignalingEvents[K]) => void;
+
+export interface RenegotiationOptions {
+  // Offer from a reloaded page rejoining the call (see OfferMessage.rejoin)
+  rejoin?: boolean;
+}
+
+export interface SignalingIdentity {
+  deviceId: string;
+  loyaltyId: string;
+}
+
+// How a CallClient talks to the other party.
+// Implementations: SocketIoTransport (backend REST + socket.io push) and
+// LoopbackTransport (in-memory, no server). HttpPollingTransport implements it for
+// outgoing calls only and is not interchangeable with them; see its header.
+export interface SignalingTransport {
+  // Register the device and start receiving events for it
+  connect(identity: SignalingIdentity): void;
+  disconnect(): void;
+  readonly connected: boolean;
+  // False when calls to us are never delivered, see CallClientOptions.acceptsIncomingCalls
+  readonly receivesIncomingCalls: boolean;
+
+  on<K extends SignalingEventName>(event: K, handler: SignalingHandler<K>): () => void;
+
+  startCall(request: CreateCallRequest): Promise<void>;
+  fetchCall(callId: string): Promise<CallRecord | null>;
+  sendAnswer(callId: string, answer: RTCSessionDescriptionInit): Promise<void>;
+  sendIceCandidate(callId: string, from: 'caller' | 'callee', candidate: RTCIceCandidateInit): Promise<void>;
+  // Mid-call offer or answer (e.g. adding video), sent by either party to the other
+  sendRenegotiation(callId: string, description: RTCSessionDescriptionInit, options?: RenegotiationOptions): Promise<void>;
+  // Mid-call state change for the peer: 'held' when we put the call on hold, 'answered' on resume
+  sendCallState(callId: string, state: 'held' | 'answered'): Promise<void>;
+  // Call transfer: the request goes to the other party of request.callId,
+  // statuses go straight back to the device that sent the request
+  sendTransferRequest(request: Omit<TransferRequestMessage, 'fromDeviceId'>): Promise<void>;
+  sendTransferStatus(toDeviceId: string, status: Omit<TransferStatusMessage, 'fromDeviceId'>): Promise<void>;
+  // Conference bookkeeping for the other party of message.callId
+  sendConferenceMessage(message: Omit<ConferenceMessage, 'fromDeviceId'>): Promise<void>;
+  // Keypad digits for the other party of callId (fallback for in-band DTMF)
+  sendDtmf(callId: string, digits: string): Promise<void>;
+  // Tell the other party of callId that we record the call (they show a notice)
+  sendRecordingState(callId: string, state: RecordingSignal): Promise<void>;
+  endCall(callId: string, reason?: string): Promise<void>;
+}
+
+// Listener bookkeeping shared by the transport implementations
+export class SignalingEmitter {
+  private handlers: { [K in SignalingEventName]: Set<SignalingHandler<K>> } = {
+    connect: new Set(),
+    disconnect: new Set(),
+    'call-state': new Set(),
+    offer: new Set(),
+    answer: new Set(),
+    'ice-candidate': new Set(),
+    'transfer-request': new Set(),
+    'transfer-status': new Set(),
+    conference: new Set(),
+    dtmf: new Set(),
+    recording: new Set(),
+  };
+
+  on<K extends SignalingEventName>(event: K, handler: SignalingHandler<K>): () => void {
+    const set: Set<SignalingHandler<K>> = this.handlers[event];
+    set.add(handler);
+    return () => {
+      set.delete(handler);
+    };
+  }
+
+  protected emit<K extends SignalingEventName>(event: K, data: SignalingEvents[K]) {
+    const set: Set<SignalingHandler<K>> = this.handlers[event];
+    set.forEach((handler) => {
+      try {
+        handler(data);
+      } catch (e) {
+        console.error(`Signaling handler for "${event}" failed:`, e);
+      }
+    });
+  }
+}
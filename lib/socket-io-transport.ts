@@ -0,0 +1,267 @@
+import io, { Socket } from 'socket.io-client';
+import * as callsApi from './calls-api';
+import { getConfig, loadConfig } from './config';
+import {
+  SignalingEmitter,
+  type CallRecord,
+  type ConferenceMessage,
+  type CreateCallRequest,
+  type RecordingSignal,
+  type RenegotiationOptions,
+  type SignalingEvents,
+  type SignalingIdentity,
+  type SignalingTransport,
+  type TransferRequestMessage,
+  type TransferStatusMessage,
+} from './signaling-transport';
+
+// Events the backend pushes over the socket, besides connect/disconnect
+type SocketListenEvents = {
+  [K in Exclude<keyof SignalingEvents, 'connect' | 'disconnect'>]: (data: SignalingEvents[K]) => void;
+};
+type SocketEmitEvents = Record<string, (data: object) => void>;
+
+// Default transport: commands go to the backend over HTTP, events arrive via socket.io.
+// Answers and ICE candidates are also emitted over the socket for faster delivery.
+export class SocketIoTransport extends SignalingEmitter implements SignalingTransport {
+  readonly receivesIncomingCalls = true;
+  private socket: Socket<SocketListenEvents, SocketEmitEvents> | null = null;
+  private identity: SignalingIdentity | null = null;
+
+  get connected() {
+    return !!this.socket?.connected;
+  }
+
+  connect(identity: SignalingIdentity) {
+    this.identity = identity;
+
+    // Register device with backend using loyalty_id
+    callsApi.registerDevice(identity.deviceId, identity.loyaltyId)
+      .then(() => console.log('Device registered on backend with loyalty_id:', identity.loyaltyId))
+      .catch((e) => console.warn('Failed to register device on backend', e));
+
+    // Wait for /config.json so the socket goes to the configured backend;
+    // if it can't be loaded, connect with the build-time config
+    loadConfig()
+      .catch((e) => console.warn('⚠️ Could not load config, using build-time config:', e))
+      .then(() => this.ensureSocketConnected());
+  }
+
+  disconnect() {
+    this.socket?.disconnect();
+    this.socket = null;
+  }
+
+  private ensureSocketConnected() {
+    if (this.socket) {
+      if (!this.socket.connected) {
+        this.socket.connect();
+      }
+      return;
+    }
+    const socket = io(getConfig().socketUrl, { transports: ['websocket'] });
+    this.socket = socket;
+
+    socket.on('connect', () => {
+      // Re-register device on every (re)connect
+      if (this.identity) {
+        socket.emit('registerDevice', { deviceId: this.identity.deviceId, loyaltyId: this.identity.loyaltyId });
+      }
+      this.emit('connect', undefined);
+    });
+
+    socket.on('disconnect', () => {
+      console.log('Socket disconnected');
+      this.emit('disconnect', undefined);
+    });
+
+    socket.on('call-state', (data) => this.emit('call-state', data));
+    socket.on('offer', (data) => this.emit('offer', data));
+    socket.on('answer', (data) => this.emit('answer', data));
+    socket.on('ice-candidate', (data) => this.emit('ice-candidate', data));
+    socket.on('transfer-request', (data) => this.emit('transfer-request', data));
+    socket.on('transfer-status', (data) => this.emit('transfer-status', data));
+    socket.on('conference', (data) => this.emit('conference', data));
+    socket.on('dtmf', (data) => this.emit('dtmf', data));
+    socket.on('recording', (data) => this.emit('recording', data));
+  }
+
+  async startCall(request: CreateCallRequest) {
+    await loadConfig();
+    this.ensureSocketConnected();
+    await callsApi.createCall(request);
+  }
+
+  async fetchCall(callId: string): Promise<CallRecord | null> {
+    return callsApi.getCall(callId);
+  }
+
+  // Send answer via HTTP, then also via socket if we know the caller's device
+  async sendAnswer(callId: string, answer: RTCSessionDescriptionInit) {
+    const deviceId = this.requireDeviceId();
+
+    // Get call info to find caller device ID for socket forwarding
+    let callerDeviceId: string | null = null;
+    try {
+      const call = await callsApi.getCall(callId);
+      callerDeviceId = call?.fromDeviceId || null;
+      console.log('Call info retrieved, callerDeviceId:', callerDeviceId);
+    } catch (e) {
+      console.warn('Could not fetch call info for socket forwarding:', e);
+    }
+
+    await callsApi.postAnswer(callId, deviceId, answer);
+    console.log('✅ Answer sent to backend via HTTP successfully');
+
+    this.ensureSocketConnected();
+    if (this.socket && this.socket.connected && callerDeviceId) {
+      try {
+        this.socket.emit('answer', {
+          callId,
+          answer: {
+            type: answer.type,
+            sdp: answer.sdp,
+          },
+          fromDeviceId: deviceId,
+          toDeviceId: callerDeviceId, // Include toDeviceId for backend routing
+        });
+        console.log('✅ Answer also sent via socket for faster delivery');
+      } catch (socketError) {
+        // Don't throw - HTTP was successful
+        console.warn('Failed to emit answer via socket (HTTP was successful):', socketError);
+      }
+    } else {
+      console.warn('Socket not connected, answer sent via HTTP only');
+    }
+  }
+
+  // Send ICE candidate via HTTP, then also via socket if we know the peer's device
+  async sendIceCandidate(callId: string, from: 'caller' | 'callee', candidate: RTCIceCandidateInit) {
+    const deviceId = this.requireDeviceId();
+
+    // Note: This might fail if call hasn't been created yet, which is OK
+    let peerDeviceId: string | null = null;
+    try {
+      const call = await callsApi.getCall(callId);
+      if (call) {
+        peerDeviceId = (from === 'caller' ? call.toDeviceId : call.fromDeviceId) || null;
+      } else {
+        console.log('📞 Call not found yet for ICE candidate forwarding (will use HTTP only)');
+      }
+    } catch (e) {
+      // Network error - not critical, HTTP will still work
+    }
+
+    await callsApi.postCandidate(callId, deviceId, from, candidate);
+
+    if (this.socket && this.socket.connected && peerDeviceId) {
+      try {
+        this.socket.emit('ice-candidate', {
+          callId,
+          candidate,
+          fromDeviceId: deviceId,
+          toDeviceId: peerDeviceId, // Include toDeviceId for backend routing
+        });
+        console.log('✅ ICE candidate also sent via socket to', peerDeviceId);
+      } catch (socketError) {
+        console.warn('Failed to emit ICE candidate via socket (HTTP was successful):', socketError);
+      }
+    }
+  }
+
+  // Renegotiation goes over the socket only; the backend keeps just the initial offer/answer
+  async sendRenegotiation(callId: string, description: RTCSessionDescriptionInit, options: RenegotiationOptions = {}) {
+    const deviceId = this.requireDeviceId();
+    const { socket, peerDeviceId } = await this.requirePeerSocket(callId);
+    const sdp = { type: description.type, sdp: description.sdp };
+    const event = description.type === 'offer' ? 'offer' : 'answer';
+    socket.emit(event, {
+      callId,
+      [event]: sdp,
+      fromDeviceId: deviceId,
+      toDeviceId: peerDeviceId,
+      renegotiation: true,
+      ...(options.rejoin ? { rejoin: true } : {}),
+    });
+    console.log(`✅ Renegotiation ${event} sent via socket to`, peerDeviceId);
+  }
+
+  async sendCallState(callId: string, state: 'held' | 'answered') {
+    const deviceId = this.requireDeviceId();
+    const { socket, peerDeviceId, isCaller } = await this.requirePeerSocket(callId);
+    socket.emit('call-state', {
+      callId,
+      state,
+      // Direction as seen by the peer
+      direction: isCaller ? 'incoming' : 'outgoing',
+      fromDeviceId: deviceId,
+      toDeviceId: peerDeviceId,
+      peerDeviceId: deviceId,
+    });
+    console.log('✅ Call state', state, 'sent via socket to', peerDeviceId);
+  }
+
+  async sendTransferRequest(request: Omit<TransferRequestMessage, 'fromDeviceId'>) {
+    const deviceId = this.requireDeviceId();
+    const { socket, peerDeviceId } = await this.requirePeerSocket(request.callId);
+    socket.emit('transfer-request', { ...request, fromDeviceId: deviceId, toDeviceId: peerDeviceId });
+    console.log('✅ Transfer request sent via socket to', peerDeviceId, 'role:', request.role);
+  }
+
+  async sendTransferStatus(toDeviceId: string, status: Omit<TransferStatusMessage, 'fromDeviceId'>) {
+    const deviceId = this.requireDeviceId();
+    this.ensureSocketConnected();
+    if (!this.socket || !this.socket.connected) {
+      throw new Error('Socket not connected');
+    }
+    this.socket.emit('transfer-status', { ...status, fromDeviceId: deviceId, toDeviceId });
+  }
+
+  async sendConferenceMessage(message: Omit<ConferenceMessage, 'fromDeviceId'>) {
+    const deviceId = this.requireDeviceId();
+    const { socket, peerDeviceId } = await this.requirePeerSocket(message.callId);
+    socket.emit('conference', { ...message, fromDeviceId: deviceId, toDeviceId: peerDeviceId });
+  }
+
+  async sendDtmf(callId: string, digits: string) {
+    const deviceId = this.requireDeviceId();
+    const { socket, peerDeviceId } = await this.requirePeerSocket(callId);
+    socket.emit('dtmf', { callId, digits, fromDeviceId: deviceId, toDeviceId: peerDeviceId });
+    console.log('✅ DTMF', digits, 'sent via socket to', peerDeviceId);
+  }
+
+  async sendRecordingState(callId: string, state: RecordingSignal) {
+    const deviceId = this.requireDeviceId();
+    const { socket, peerDeviceId } = await this.requirePeerSocket(callId);
+    socket.emit('recording', { callId, state, fromDeviceId: deviceId, toDeviceId: peerDeviceId });
+    console.log('✅ Recording', state, 'sent via socket to', peerDeviceId);
+  }
+
+  // Mid-call messages go to the other device of the call over the socket
+  private async requirePeerSocket(callId: string) {
+    const deviceId = this.requireDeviceId();
+    const call = await callsApi.getCall(callId);
+    const isCaller = call?.fromDeviceId === deviceId;
+    const peerDeviceId = call ? (isCaller ? call.toDeviceId : call.fromDeviceId) : null;
+    if (!peerDeviceId) {
+      throw new Error('Peer device unknown for call ' + callId);
+    }
+
+    this.ensureSocketConnected();
+    if (!this.socket || !this.socket.connected) {
+      throw new Error('Socket not connected');
+    }
+    return { socket: this.socket, peerDeviceId, isCaller };
+  }
+
+  async endCall(callId: string, reason?: string) {
+    await callsApi.endCall(callId, this.requireDeviceId(), reason);
+  }
+
+  private requireDeviceId() {
+    if (!this.identity) {
+      throw new Error('Device not registered');
+    }
+    return this.identity.deviceId;
+  }
+}
@@ -0,0 +1,136 @@
+// Short-lived TURN credentials (TURN REST API style)
+//
+// The backend signs username = "<expiry unix seconds>:<loyaltyId>" with the TURN shared
+// secret (password = base64 HMAC-SHA1), so no long-lived TURN password ships in the bundle.
+// Credentials are cached per loyaltyId until shortly before they expire.
+
+import { loadConfig } from './config';
+
+export interface TurnCredentials {
+  username: string;
+  credential: string;
+  expiresAt: number;
+  // TURN URLs returned by the backend; when absent the configured TURN URLs are used
+  uris: string[] | null;
+}
+
+// Refresh this long before expiry (or at 80% of the lifetime for very short TTLs)
+const REFRESH_MARGIN_MS = 5 * 60 * 1000;
+
+const cache = new Map<string, TurnCredentials>();
+const inFlight = new Map<string, Promise<TurnCredentials | null>>();
+
+function isTurnUrl(url: string) {
+  return url.startsWith('turn:') || url.startsWith('turns:');
+}
+
+// Parse the expiry from a "<expiry>:<loyaltyId>" username
+function expiryFromUsername(username: string): number | null {
+  const seconds = parseInt(username.split(':')[0], 10);
+  return Number.isFinite(seconds) ? seconds * 1000 : null;
+}
+
+// When the credentials should be refreshed
+export function refreshAt(credentials: TurnCredentials): number {
+  const lifetime = credentials.expiresAt - Date.now();
+  const margin = Math.min(REFRESH_MARGIN_MS, lifetime * 0.2);
+  return credentials.expiresAt - margin;
+}
+
+function isFresh(credentials: TurnCredentials) {
+  return Date.now() < refreshAt(credentials);
+}
+
+async function fetchTurnCredentials(loyaltyId: string): Promise<TurnCredentials | null> {
+  const { backendUrl } = await loadConfig();
+  try {
+    const resp = await fetch(`${backendUrl}/api/turn-credentials?loyaltyId=${encodeURIComponent(loyaltyId)}`);
+    if (!resp.ok) {
+      throw new Error(`Failed to fetch TURN credentials: ${resp.status}`);
+    }
+    const data = await resp.json();
+    const credential = data.password ?? data.credential;
+    if (typeof data.username !== 'string' || typeof credential !== 'string') {
+      throw new Error('TURN credentials response is missing username/password');
+    }
+
+    const expiresAt = typeof data.ttl === 'number'
+      ? Date.now() + data.ttl * 1000
+      : expiryFromUsername(data.username);
+    if (!expiresAt) {
+      throw new Error('TURN credentials response has no ttl and no expiry in username');
+    }
+
+    const uris = Array.isArray(data.uris) ? data.uris.filter((u: unknown) => typeof u === 'string' && isTurnUrl(u)) : null;
+    console.log('🔑 Got TURN credentials, expire at:', new Date(expiresAt).toISOString());
+    return { username: data.username, credential, expiresAt, uris: uris && uris.length > 0 ? uris : null };
+  } catch (e) {
+    console.warn('⚠️ Could not get TURN credentials, continuing with STUN only:', e);
+    return null;
+  }
+}
+
+// Get credentials for a loyaltyId, from cache when still fresh
+export async function getTurnCredentials(loyaltyId: string, forceRefresh = false): Promise<TurnCredentials | null> {
+  const cached = cache.get(loyaltyId);
+  if (cached && !forceRefresh && isFresh(cached)) {
+    return cached;
+  }
+
+  let pending = inFlight.get(loyaltyId);
+  if (!pending) {
+    pending = fetchTurnCredentials(loyaltyId).then((credentials) => {
+      inFlight.delete(loyaltyId);
+      if (credentials) {
+        cache.set(loyaltyId, credentials);
+      }
+      return credentials;
+    });
+    inFlight.set(loyaltyId, pending);
+  }
+
+  const credentials = await pending;
+  // Fall back to cached credentials that are near (but not past) expiry
+  if (!credentials && cached && cached.expiresAt > Date.now()) {
+    return cached;
+  }
+  return credentials;
+}
+
+// Combine configured ICE servers with ephemeral TURN credentials.
+// TURN entries are dropped when no credentials are available: a TURN server without
+// username/credential makes the RTCPeerConnection constructor throw.
+export function applyTurnCredentials(servers: RTCIceServer[], credentials: TurnCredentials | null): RTCIceServer[] {
+  const result: RTCIceServer[] = [];
+  for (const server of servers) {
+    const urls = Array.isArray(server.urls) ? server.urls : [server.urls];
+    const stunUrls = urls.filter((u) => !isTurnUrl(u));
+    const turnUrls = urls.filter(isTurnUrl);
+
+    if (stunUrls.length > 0) {
+      result.push({ urls: stunUrls.length === 1 ? stunUrls[0] : stunUrls });
+    }
+    if (turnUrls.length > 0) {
+      if (server.username && server.credential) {
+        // Explicit credentials from config (e.g. a local TURN stand-in)
+        result.push({ ...server, urls: turnUrls });
+      } else if (credentials && !credentials.uris) {
+        result.push({ urls: turnUrls, username: credentials.username, credential: credentials.credential });
+      }
+    }
+  }
+  if (credentials?.uris) {
+    result.push({ urls: credentials.uris, username: credentials.username, credential: credentials.credential });
+  }
+  return result;
+}
+
+// ICE servers ready for an RTCPeerConnection for this identity
+export async function getIceServersWithCredentials(loyaltyId: string | null, forceRefresh = false): Promise<{
+  iceServers: RTCIceServer[];
+  credentials: TurnCredentials | null;
+}> {
+  const { iceServers } = await loadConfig();
+  const credentials = loyaltyId ? await getTurnCredentials(loyaltyId, forceRefresh) : null;
+  return { iceServers: applyTurnCredentials(iceServers, credentials), credentials };
+}
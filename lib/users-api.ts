@@ -1,7 +1,6 @@
 // API service for fetching users from database
 
-// const BASE_URL = 'https://server.totus.club';
-const BASE_URL = 'https://server.totus.club';
+import { loadConfig } from './config';
 
 export interface User {
   id: number;
@@ -19,7 +18,8 @@ export interface User {
 // Get all users from database
 export async function getAllUsers(): Promise<User[]> {
   try {
-    const response = await fetch(`${BASE_URL}/api/users`);
+    const { backendUrl } = await loadConfig();
+    const response = await fetch(`${backendUrl}/api/users`);
     if (!response.ok) {
       throw new Error(`Failed to fetch users: ${response.status}`);
     }
@@ -34,7 +34,8 @@ export async function getAllUsers(): Promise<User[]> {
 // Get user by loyalty_id
 export async function getUserByLoyaltyId(loyaltyId: string): Promise<User | null> {
   try {
-    const response = await fetch(`${BASE_URL}/api/users/${loyaltyId}`);
+    const { backendUrl } = await loadConfig();
+    const response = await fetch(`${backendUrl}/api/users/${loyaltyId}`);
     if (!response.ok) {
       if (response.status === 404) {
         return null;
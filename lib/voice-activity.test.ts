@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { summarizeTalkTime, type SpeechStretch } from './voice-activity';
+
+const local = (start: number, end: number): SpeechStretch => ({ party: 'local', start, end });
+const remote = (start: number, end: number): SpeechStretch => ({ party: 'remote', start, end });
+
+describe('summarizeTalkTime', () => {
+  it('summarizes a conversation', () => {
+    const summary = summarizeTalkTime(
+      // The remote "mm-hm" at 4 s is a backchannel, the remote turn at 8 s cuts in
+      [local(1000, 5000), remote(4000, 4300), local(6000, 9000), remote(8000, 15000)],
+      [{ start: 0, end: 20000 }]
+    );
+    expect(summary).toEqual({
+      durationMs: 20000,
+      talkMs: { local: 7000, remote: 7300 },
+      talkRatio: 0.49,
+      // 1-5 s and 6-9 s are one turn: the pause is short and the backchannel does not end it
+      longestMonologue: { party: 'local', ms: 8000 },
+      interruptions: { local: 0, remote: 1 },
+      overtalkMs: 1300,
+      silenceMs: 7000,
+      longSilences: 1,
+      longestSilenceMs: 5000,
+    });
+  });
+
+  it('leaves time on hold out', () => {
+    const summary = summarizeTalkTime(
+      [local(1000, 2000), local(6000, 8000)],
+      [
+        { start: 0, end: 5000 },
+        { start: 10000, end: 15000 },
+      ]
+    );
+    expect(summary.durationMs).toBe(10000);
+    // Silence is only counted in the windows: 1 s + 3 s, then the whole second window
+    expect(summary.silenceMs).toBe(9000);
+    expect(summary.longSilences).toBe(2);
+    expect(summary.longestSilenceMs).toBe(5000);
+    expect(summary.talkRatio).toBe(1);
+  });
+
+  it('splits turns on long pauses and real replies', () => {
+    const summary = summarizeTalkTime(
+      [local(0, 3000), local(6000, 7000), remote(7500, 9500), local(10000, 14000)],
+      [{ start: 0, end: 14000 }]
+    );
+    expect(summary.longestMonologue).toEqual({ party: 'local', ms: 4000 });
+    expect(summary.interruptions).toEqual({ local: 0, remote: 0 });
+    expect(summary.overtalkMs).toBe(0);
+  });
+
+  it('counts short overlaps as overtalk but not as interruptions', () => {
+    const summary = summarizeTalkTime([local(0, 3000), remote(2600, 5000)], [{ start: 0, end: 5000 }]);
+    expect(summary.overtalkMs).toBe(400);
+    expect(summary.interruptions).toEqual({ local: 0, remote: 0 });
+  });
+
+  it('has no ratio or monologue when nobody spoke', () => {
+    const summary = summarizeTalkTime([], [{ start: 0, end: 4000 }]);
+    expect(summary.talkRatio).toBeNull();
+    expect(summary.longestMonologue).toBeNull();
+    expect(summary.silenceMs).toBe(4000);
+    expect(summary.longSilences).toBe(1);
+  });
+});
@@ -0,0 +1,256 @@
+// Voice activity of both parties during a call, for the live "speaking" indicator
+// and the talk-time summary team leads use for coaching.
+//
+// Our microphone and the remote audio each go through a 'voice-activity' AudioWorklet
+// that reports when speech starts and stops. The stretches of speech are kept and
+// summarized when the call ends. Time on hold is left out.
+
+import { loadWorklet, VOICE_ACTIVITY_WORKLET } from './audio-worklets';
+
+export type VoiceParty = 'local' | 'remote';
+
+export interface TalkTimeSummary {
+  // Time analysed: the call minus hold
+  durationMs: number;
+  talkMs: Record<VoiceParty, number>;
+  // Our share of the talking, 0..1; null when nobody spoke
+  talkRatio: number | null;
+  longestMonologue: { party: VoiceParty; ms: number } | null;
+  // Times each party started talking over the other (see INTERRUPTION_MIN_MS)
+  interruptions: Record<VoiceParty, number>;
+  // Both talking at once
+  overtalkMs: number;
+  // Nobody talking
+  silenceMs: number;
+  // Silences of LONG_SILENCE_MS or more
+  longSilences: number;
+  longestSilenceMs: number;
+}
+
+export interface Stretch {
+  start: number;
+  end: number;
+}
+
+export interface SpeechStretch extends Stretch {
+  party: VoiceParty;
+}
+
+interface VadInput {
+  trackId: string;
+  source: MediaStreamAudioSourceNode;
+  node: AudioWorkletNode;
+}
+
+// Overlap needed to count as an interruption; shorter ones are "mm-hm"
+const INTERRUPTION_MIN_MS = 500;
+// A monologue goes on through pauses this short and the other side's backchannel
+const MONOLOGUE_PAUSE_MS = 2000;
+const BACKCHANNEL_MS = 1000;
+const LONG_SILENCE_MS = 3000;
+
+const PARTIES: VoiceParty[] = ['local', 'remote'];
+
+export class VoiceActivityMonitor {
+  readonly speaking: Record<VoiceParty, boolean> = { local: false, remote: false };
+  private context: AudioContext | null = null;
+  // Worklet nodes must be pulled by the graph to run; they end in a muted gain
+  private sink: GainNode | null = null;
+  private inputs: Record<VoiceParty, VadInput | null> = { local: null, remote: null };
+  private speech: SpeechStretch[] = [];
+  // Start of the speech in progress, per party
+  private speechStart: Record<VoiceParty, number | null> = { local: null, remote: null };
+  // Stretches of the call not on hold
+  private windows: Stretch[] = [];
+  private windowStart: number | null = null;
+  private paused = false;
+  private stopped = false;
+
+  async start(tracks: Record<VoiceParty, MediaStreamTrack | null>) {
+    const context = new AudioContext();
+    this.context = context;
+    await loadWorklet(context, 'voice-activity', VOICE_ACTIVITY_WORKLET);
+    if (this.stopped) {
+      return;
+    }
+    // Created outside a user gesture the context may start suspended
+    if (context.state === 'suspended') {
+      context.resume().catch(() => {});
+    }
+    this.sink = context.createGain();
+    this.sink.gain.value = 0;
+    this.sink.connect(context.destination);
+    if (!this.paused) {
+      this.windowStart = Date.now();
+    }
+    this.setTracks(tracks);
+  }
+
+  // Listen to these tracks, e.g. after the microphone was switched
+  setTracks(tracks: Record<VoiceParty, MediaStreamTrack | null>) {
+    const context = this.context;
+    const sink = this.sink;
+    if (!context || !sink || this.stopped) {
+      return;
+    }
+    PARTIES.forEach((party) => {
+      const track = tracks[party];
+      const input = this.inputs[party];
+      if (input?.trackId === track?.id) {
+        return;
+      }
+      if (input) {
+        input.source.disconnect();
+        input.node.disconnect();
+        input.node.port.onmessage = null;
+        this.inputs[party] = null;
+        this.setSpeaking(party, false, Date.now());
+      }
+      if (!track) {
+        return;
+      }
+      const source = context.createMediaStreamSource(new MediaStream([track]));
+      const node = new AudioWorkletNode(context, 'voice-activity');
+      node.port.onmessage = (event: MessageEvent<{ speaking: boolean; ago: number }>) =>
+        this.setSpeaking(party, event.data.speaking, Date.now() - event.data.ago * 1000);
+      source.connect(node).connect(sink);
+      this.inputs[party] = { trackId: track.id, source, node };
+    });
+  }
+
+  // Hold: nothing is counted until the call is resumed
+  setPaused(paused: boolean) {
+    if (this.stopped) {
+      return;
+    }
+    this.paused = paused;
+    if (!this.sink) {
+      return;
+    }
+    const now = Date.now();
+    if (paused && this.windowStart !== null) {
+      PARTIES.forEach((party) => this.setSpeaking(party, false, now));
+      this.windows.push({ start: this.windowStart, end: now });
+      this.windowStart = null;
+    } else if (!paused && this.windowStart === null) {
+      this.windowStart = now;
+    }
+  }
+
+  // Stop listening and summarize the call; null when it never started
+  stop(): TalkTimeSummary | null {
+    if (this.stopped) {
+      return null;
+    }
+    const started = !!this.sink;
+    this.setPaused(true);
+    this.setTracks({ local: null, remote: null });
+    this.stopped = true;
+    this.context?.close().catch(() => {});
+    this.context = null;
+    this.sink = null;
+    return started ? summarizeTalkTime(this.speech, this.windows) : null;
+  }
+
+  private setSpeaking(party: VoiceParty, speaking: boolean, at: number) {
+    if (speaking === this.speaking[party]) {
+      return;
+    }
+    if (speaking) {
+      // Speech on hold is not counted; the indicator still shows it
+      this.speechStart[party] = this.windowStart !== null ? Math.max(at, this.windowStart) : null;
+    } else {
+      const start = this.speechStart[party];
+      if (start !== null && at > start) {
+        this.speech.push({ party, start, end: at });
+      }
+      this.speechStart[party] = null;
+    }
+    this.speaking[party] = speaking;
+  }
+}
+
+// Talk time of the speech stretches within the windows (the call minus hold)
+export function summarizeTalkTime(speech: SpeechStretch[], windows: Stretch[]): TalkTimeSummary {
+  const byParty = (party: VoiceParty) => speech.filter((s) => s.party === party).sort((a, b) => a.start - b.start);
+  const local = byParty('local');
+  const remote = byParty('remote');
+  const total = (stretches: Stretch[]) => stretches.reduce((sum, s) => sum + (s.end - s.start), 0);
+  const talkMs = { local: total(local), remote: total(remote) };
+
+  // Overlaps: each party's stretches are in order and do not overlap each other
+  let overtalkMs = 0;
+  const interruptions = { local: 0, remote: 0 };
+  for (let i = 0, j = 0; i < local.length && j < remote.length; ) {
+    const overlap = Math.min(local[i].end, remote[j].end) - Math.max(local[i].start, remote[j].start);
+    if (overlap > 0) {
+      overtalkMs += overlap;
+      if (overlap >= INTERRUPTION_MIN_MS) {
+        interruptions[local[i].start > remote[j].start ? 'local' : 'remote'] += 1;
+      }
+    }
+    if (local[i].end < remote[j].end) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+
+  let longestMonologue: TalkTimeSummary['longestMonologue'] = null;
+  let turn: SpeechStretch | null = null;
+  const endTurn = () => {
+    if (turn && (!longestMonologue || turn.end - turn.start > longestMonologue.ms)) {
+      longestMonologue = { party: turn.party, ms: turn.end - turn.start };
+    }
+  };
+  [...speech].sort((a, b) => a.start - b.start).forEach((s) => {
+    if (turn && s.party === turn.party && s.start - turn.end <= MONOLOGUE_PAUSE_MS) {
+      turn.end = Math.max(turn.end, s.end);
+    } else if (turn && s.party !== turn.party && s.end - s.start < BACKCHANNEL_MS) {
+      return;
+    } else {
+      endTurn();
+      turn = { ...s };
+    }
+  });
+  endTurn();
+
+  // Silence: the gaps in anyone's speech within each window
+  let silenceMs = 0;
+  let longSilences = 0;
+  let longestSilenceMs = 0;
+  const addSilence = (ms: number) => {
+    if (ms <= 0) {
+      return;
+    }
+    silenceMs += ms;
+    longestSilenceMs = Math.max(longestSilenceMs, ms);
+    if (ms >= LONG_SILENCE_MS) {
+      longSilences += 1;
+    }
+  };
+  const sorted = [...speech].sort((a, b) => a.start - b.start);
+  windows.forEach((window) => {
+    let cursor = window.start;
+    sorted
+      .filter((s) => s.end > window.start && s.start < window.end)
+      .forEach((s) => {
+        addSilence(s.start - cursor);
+        cursor = Math.max(cursor, s.end);
+      });
+    addSilence(window.end - cursor);
+  });
+
+  const talked = talkMs.local + talkMs.remote;
+  return {
+    durationMs: total(windows),
+    talkMs,
+    talkRatio: talked > 0 ? Math.round((talkMs.local / talked) * 100) / 100 : null,
+    longestMonologue,
+    interruptions,
+    overtalkMs,
+    silenceMs,
+    longSilences,
+    longestSilenceMs,
+  };
+}
@@ -1,404 +1,62 @@
-import io, { Socket } from 'socket.io-client';
-
-// Backend base URL – MUST be your Mac's LAN IP (not localhost) so devices can reach it.
-// This should match the backend URL from your React Native app.
-const BASE_URL = 'https://server.totus.club';
-
-// Call state tracking for UI
-export type CallState = 'idle' | 'calling' | 'ringing' | 'answered' | 'ended' | 'rejected';
-
-// WebRTC state
-let pc: RTCPeerConnection | null = null;
-let localStream: MediaStream | null = null;
-let remoteStream: MediaStream | null = null;
-let activeCallUUID: string | null = null;
-let currentLoyaltyId: string | null = null;
-let currentUserId: 'user1' | 'user2' | 'unknown' = 'unknown'; // Keep for backward compatibility
-let currentDeviceId: string | null = null;
-let socket: Socket | null = null;
-let activeCallStartedAt: number | null = null;
-let isVoipInitialized = false;
-
-// Call state tracking for UI
-let currentCallState: CallState = 'idle';
-let callerName: string | null = null;
-let isMuted = false;
-let isSpeakerEnabled = false;
-
-// Queue for ICE candidates received before remote description is set
-let queuedIceCandidates: Array<{ callId: string; candidate: RTCIceCandidateInit; fromDeviceId: string }> = [];
-
-// Process queued ICE candidates after remote description is set
-async function processQueuedIceCandidates(callId: string) {
-  if (!pc || !pc.remoteDescription) {
-    return;
-  }
-  
-  const candidatesToProcess = queuedIceCandidates.filter(c => c.callId === callId);
-  if (candidatesToProcess.length === 0) {
-    return;
-  }
-  
-  console.log(`📞 Processing ${candidatesToProcess.length} queued ICE candidates for call:`, callId);
-  
-  // Remove processed candidates from queue immediately to avoid duplicates
-  queuedIceCandidates = queuedIceCandidates.filter(c => c.callId !== callId);
-  
-  // Process each candidate sequentially to avoid race conditions
-  for (const data of candidatesToProcess) {
-    try {
-      if (data.candidate && pc && pc.remoteDescription) {
-        await pc.addIceCandidate(new RTCIceCandidate(data.candidate));
-        console.log('✅ Added queued ICE candidate');
-      }
-    } catch (e: any) {
-      const errorMsg = e?.message || String(e);
-      // Don't log expected errors (candidate might already be added)
-      if (!errorMsg.includes('Invalid candidate') && 
-          !errorMsg.includes('InvalidStateError') &&
-          !errorMsg.includes('remote description was null')) {
-        console.warn('⚠️ Failed to add queued ICE candidate:', errorMsg);
-      }
-    }
-  }
-  
-  console.log(`✅ Finished processing ${candidatesToProcess.length} queued ICE candidates`);
+import { CallClient, type CallInfo, type OtherCallInfo } from './call-client';
+import { getConfig, loadConfig } from './config';
+import { getIceServersWithCredentials } from './turn-credentials';
+import { loadCallHistory, type CallHistoryEntry } from './call-history';
+import type { MissedCall } from './missed-calls';
+import { loadPreferredMicrophone, loadPreferredSpeaker, type AudioDevices } from './audio-devices';
+import type { AudioProcessingPreset } from './audio-processing';
+import type { CallState } from './call-state-machine';
+import { runRelayTest, type RelayTestResult } from './precall-test';
+import {
+  deleteRecording as deleteStoredRecording,
+  exportRecording as exportStoredRecording,
+  loadRecordings,
+  type RecordingFormat,
+  type RecordingMeta,
+} from './call-recorder';
+import type { CallStats, CallStatsListener } from './call-stats';
+import type { TransferInfo } from './call-transfer';
+import type { ConferenceInfo } from './conference';
+
+export { CallClient } from './call-client';
+export type { CallClientOptions, CallInfo, OtherCallInfo, RecordingInfo } from './call-client';
+export { canRecordCalls } from './call-recorder';
+export { MockAsrProvider } from './asr';
+export type { AsrProvider, AsrProviderFactory, AsrProviderOptions, AsrSegment, AsrSpeaker } from './asr';
+export { canShowCaptions, setAsrProviderFactory } from './call-transcriber';
+export type { TranscriptSegment } from './call-transcriber';
+export type { TalkTimeSummary, VoiceParty } from './voice-activity';
+export type { RecordingFormat, RecordingMeta, RecordingStatus } from './call-recorder';
+export type { CallDirection, CallHistoryEntry, CallOutcome } from './call-history';
+export type { MissedCall } from './missed-calls';
+export type { AudioDevice, AudioDevices } from './audio-devices';
+export { canSelectSpeaker } from './audio-devices';
+export { AUDIO_PROCESSING_PRESETS, canProcessAudio, getAudioProcessors, presetSteps, registerAudioProcessor } from './audio-processing';
+export type { AudioProcessingPreset, AudioProcessingStep, AudioProcessor, AudioProcessorParam, AudioStage } from './audio-processing';
+export type { EchoLoopbackResult, PrecallCheckId, PrecallCheckResult, PrecallCheckStatus, RelayTestResult } from './precall-test';
+export type { TransferInfo, TransferMode, TransferRole, TransferStatus } from './call-transfer';
+export { MAX_CONFERENCE_PARTICIPANTS } from './conference';
+export type { ConferenceInfo, ConferenceParticipant } from './conference';
+export { CallSession } from './call-session';
+export type { CallMediaOptions, CallRole, CameraFacing } from './call-session';
+export type { CallState, CallTransition } from './call-state-machine';
+export type { CallQuality, CallQualityWarning, CallStats, CandidateType } from './call-stats';
+export type { SignalingTransport } from './signaling-transport';
+export { SocketIoTransport } from './socket-io-transport';
+// Outgoing calls only, see http-polling-transport.ts
+export { HttpPollingTransport } from './http-polling-transport';
+export { LoopbackSignalingHub, LoopbackTransport } from './loopback-transport';
+
+// Default client used by the page; one CallClient per logged-in identity
+const defaultClient = new CallClient();
+
+export function getDefaultCallClient(): CallClient {
+  return defaultClient;
 }
 
-// Callbacks for UI updates
-let onCallStateChange: ((state: CallState, name: string | null) => void) | null = null;
-let onCallActiveChange: ((isActive: boolean, startedAt: number | null) => void) | null = null;
-
-const generateUUID = () =>
-  'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, (c) => {
-    const r = (Math.random() * 16) | 0;
-    const v = c === 'x' ? r : (r & 0x3) | 0x8;
-    return v.toString(16);
-  });
-
-function ensureSocketConnected() {
-  if (socket && socket.connected) {
-    return;
-  }
-  socket = io(BASE_URL, { transports: ['websocket'] });
-
-  socket.on('connect', () => {
-    // console.log('Socket connected', socket?.id);
-    // Re-register device if we have one
-    if (currentDeviceId) {
-      if (currentLoyaltyId) {
-        socket?.emit('registerDevice', { deviceId: currentDeviceId, loyaltyId: currentLoyaltyId });
-      } else if (currentUserId !== 'unknown') {
-        socket?.emit('registerDevice', { deviceId: currentDeviceId, userId: currentUserId });
-      }
-    }
-  });
-
-  socket.on('disconnect', () => {
-    console.log('Socket disconnected');
-  });
-
-  // Listen for incoming calls
-  socket.on('call-state', (data: { callId: string; state: string; direction: string; peerDeviceId?: string; callerName?: string; fromLoyaltyId?: string }) => {
-    console.log('📞 Call state update:', data);
-    const { callId, state, direction } = data;
-    
-    if (state === 'ringing' && direction === 'incoming') {
-      // Incoming call
-      activeCallUUID = callId;
-      currentCallState = 'ringing';
-      // Use callerName from data if provided, otherwise use fromLoyaltyId or peerDeviceId
-      callerName = data.callerName || data.fromLoyaltyId || data.peerDeviceId || 'Incoming call';
-      onCallStateChange?.(currentCallState, callerName);
-      
-      // Play incoming call sound (browser notification)
-      if ('Notification' in window && Notification.permission === 'granted') {
-        new Notification('Incoming Call', {
-          body: `Call from ${callerName}`,
-          icon: '/icon.png',
-        });
-      }
-    } else if (state === 'answered') {
-      // Call was answered (either incoming or outgoing)
-      console.log('📞 Call answered - updating state for call:', callId, 'direction:', direction);
-      
-      // Only update if this is for the active call
-      if (activeCallUUID === callId || !activeCallUUID) {
-        // If no active call UUID, set it (handles edge cases)
-        if (!activeCallUUID) {
-          activeCallUUID = callId;
-        }
-        
-        currentCallState = 'answered';
-        
-        // Start timer if not already started
-        if (!activeCallStartedAt) {
-          activeCallStartedAt = Date.now();
-          console.log('📞 Started call timer at:', activeCallStartedAt);
-        }
-        
-        // Update UI callbacks
-        onCallStateChange?.(currentCallState, callerName);
-        onCallActiveChange?.(true, activeCallStartedAt);
-        
-        console.log('✅ Call state updated to answered for call:', callId);
-      } else {
-        console.warn('⚠️ Ignoring answered state - not for active call', {
-          activeCallUUID,
-          receivedCallId: callId,
-        });
-      }
-    } else if (state === 'ended' || state === 'rejected') {
-      currentCallState = state === 'ended' ? 'ended' : 'rejected';
-      onCallStateChange?.(currentCallState, callerName);
-      endVoiceCall();
-    }
-  });
-
-  // Listen for WebRTC offer (incoming call)
-  socket.on('offer', async (data: { callId: string; offer: RTCSessionDescriptionInit; fromDeviceId?: string; fromLoyaltyId?: string; callerName?: string }) => {
-    console.log('📞 Received offer via socket:', data.callId, 'from:', data.fromLoyaltyId || data.fromDeviceId);
-    if (!pc || activeCallUUID !== data.callId) {
-      // This is an incoming call
-      activeCallUUID = data.callId;
-      currentCallState = 'ringing';
-      // Use callerName from data if provided, otherwise use fromLoyaltyId or fromDeviceId
-      callerName = data.callerName || data.fromLoyaltyId || data.fromDeviceId || 'Incoming call';
-      onCallStateChange?.(currentCallState, callerName);
-      
-      try {
-        console.log('Setting up incoming call - creating peer connection and setting remote offer...');
-        await startVoiceCall(data.callId, data.offer, 'callee');
-        console.log('✅ Incoming call setup complete, waiting for user to answer');
-      } catch (e) {
-        console.error('❌ Failed to handle incoming call offer:', e);
-        currentCallState = 'idle';
-        activeCallUUID = null;
-        onCallStateChange?.(currentCallState, null);
-      }
-    } else {
-      console.log('Offer received but peer connection already exists for this call');
-    }
-  });
-
-  // Listen for WebRTC answer (outgoing call answered)
-  // NOTE: This is a global listener that handles answers for outgoing calls
-  // The waitForAnswer() function also sets up a temporary listener, but this one
-  // ensures the answer is processed even if waitForAnswer hasn't set up yet
-  socket.on('answer', async (data: { callId: string; answer: RTCSessionDescriptionInit; fromDeviceId: string }) => {
-    console.log('📞 Global socket answer handler: Received answer via socket:', {
-      callId: data.callId,
-      fromDeviceId: data.fromDeviceId,
-      hasAnswer: !!data.answer,
-      hasSdp: !!(data.answer && data.answer.sdp),
-      sdpLength: data.answer?.sdp?.length || 0,
-      activeCallUUID,
-      hasPc: !!pc,
-      currentCallState,
-    });
-    
-    // Process if this is for the active call (regardless of current state)
-    // This handles answers for outgoing calls initiated from web
-    if (pc && activeCallUUID === data.callId) {
-      // Check signaling state to determine if we should process
-      const signalingState = pc.signalingState;
-      // Check if answer was already processed (stable means answer is set, have-remote-pranswer is provisional answer)
-      const answerAlreadySet = signalingState === 'stable' || signalingState === 'have-remote-pranswer';
-      const shouldProcess = (currentCallState === 'calling' || currentCallState === 'ringing') ||
-                           (currentCallState === 'answered' && !answerAlreadySet);
-      
-      if (!shouldProcess) {
-        console.log('📞 Global answer handler: Answer already processed or wrong state', {
-          currentCallState,
-          signalingState,
-        });
-        return;
-      }
-      
-      console.log('📞 Global answer handler: Processing answer...', {
-        currentCallState,
-        signalingState,
-      });
-      try {
-        // Check signaling state before setting remote description
-        const signalingState = pc.signalingState;
-        console.log('📞 Global answer handler: Current signaling state:', signalingState);
-        console.log('📞 Answer SDP length:', data.answer.sdp?.length || 0);
-        console.log('📞 Answer type:', data.answer.type);
-        
-        // Only set remote description if we're in the correct state
-        if (signalingState === 'have-local-offer') {
-          try {
-            await pc.setRemoteDescription(new RTCSessionDescription(data.answer));
-            console.log('✅ Global answer handler: Applied remote answer - WebRTC connection should establish now');
-            console.log('   New signaling state:', pc.signalingState);
-            console.log('   ICE connection state:', pc.iceConnectionState);
-            
-            // CRITICAL: Process any queued ICE candidates now that remote description is set
-            await processQueuedIceCandidates(data.callId);
-            console.log('✅ Processed queued ICE candidates');
-            
-            currentCallState = 'answered';
-            activeCallStartedAt = Date.now();
-            onCallStateChange?.(currentCallState, callerName);
-            onCallActiveChange?.(true, activeCallStartedAt);
-            console.log('✅ Call state updated to answered');
-          } catch (setError: any) {
-            console.error('❌ Failed to set remote description:', setError);
-            const errorMsg = setError?.message || String(setError);
-            // If it's a "wrong state" error, the answer might already be set
-            if (errorMsg.includes('wrong state') || errorMsg.includes('stable') || errorMsg.includes('Called in wrong state')) {
-              console.log('⚠️ Remote description might already be set, checking state...');
-              if (pc.signalingState === 'stable' || pc.signalingState === 'have-remote-pranswer') {
-                console.log('✅ Remote description already set, updating state');
-                await processQueuedIceCandidates(data.callId);
-                currentCallState = 'answered';
-                if (!activeCallStartedAt) {
-                  activeCallStartedAt = Date.now();
-                }
-                onCallStateChange?.(currentCallState, callerName);
-                onCallActiveChange?.(true, activeCallStartedAt);
-              }
-            } else {
-              throw setError; // Re-throw if it's a different error
-            }
-          }
-        } else if (signalingState === 'stable' || signalingState === 'have-remote-pranswer') {
-          // Answer was already set - this is fine, just update state
-          console.log('⚠️ Global answer handler: Answer already set (state is stable/have-remote-pranswer), updating call state');
-          
-          // Still process queued candidates in case they arrived before
-          await processQueuedIceCandidates(data.callId);
-          
-          currentCallState = 'answered';
-          if (!activeCallStartedAt) {
-            activeCallStartedAt = Date.now();
-          }
-          onCallStateChange?.(currentCallState, callerName);
-          onCallActiveChange?.(true, activeCallStartedAt);
-        } else {
-          console.warn('⚠️ Global answer handler: Cannot set remote answer - wrong signaling state:', signalingState);
-          // Try to set it anyway and process queued candidates
-          try {
-            await pc.setRemoteDescription(new RTCSessionDescription(data.answer));
-            console.log('✅ Global answer handler: Successfully set remote answer despite wrong state');
-            await processQueuedIceCandidates(data.callId);
-            
-            currentCallState = 'answered';
-            if (!activeCallStartedAt) {
-              activeCallStartedAt = Date.now();
-            }
-            onCallStateChange?.(currentCallState, callerName);
-            onCallActiveChange?.(true, activeCallStartedAt);
-          } catch (retryError) {
-            console.warn('⚠️ Global answer handler: Failed to set remote answer on retry:', retryError);
-          }
-        }
-      } catch (e: any) {
-        const errorMsg = e?.message || String(e);
-        // Check if it's a "wrong state" error - if so, it's likely already set
-        if (errorMsg.includes('wrong state') || errorMsg.includes('stable') || errorMsg.includes('Called in wrong state')) {
-          console.log('Global answer handler: Remote description already set (wrong state error detected), updating call state');
-          currentCallState = 'answered';
-          if (!activeCallStartedAt) {
-            activeCallStartedAt = Date.now();
-          }
-          onCallStateChange?.(currentCallState, callerName);
-          onCallActiveChange?.(true, activeCallStartedAt);
-        } else {
-          console.error('Global answer handler: Failed to set remote answer:', e);
-        }
-      }
-    } else {
-      console.log('📞 Global answer handler: Ignoring answer - not for active outgoing call', {
-        hasPc: !!pc,
-        activeCallUUID,
-        receivedCallId: data.callId,
-        currentCallState,
-      });
-    }
-  });
-
-  // Listen for ICE candidates
-  socket.on('ice-candidate', async (data: { callId: string; candidate: RTCIceCandidateInit; fromDeviceId: string }) => {
-    console.log('📞 Received ICE candidate via socket:', data.callId, 'from device:', data.fromDeviceId);
-    
-    // Handle null candidate (gathering complete signal)
-    if (!data.candidate) {
-      console.log('📞 ICE candidate gathering complete from peer');
-      return;
-    }
-    
-    if (pc && activeCallUUID === data.callId) {
-      // Check if remote description is set - if not, queue the candidate
-      if (!pc.remoteDescription) {
-        console.log('⚠️ Remote description not set yet, queueing ICE candidate (will process after answer is set)');
-        queuedIceCandidates.push(data);
-        return;
-      }
-      
-      try {
-        await pc.addIceCandidate(new RTCIceCandidate(data.candidate));
-        console.log('✅ Added ICE candidate from peer');
-      } catch (e: any) {
-        const errorMsg = e?.message || String(e);
-        // Don't log errors for invalid candidates or wrong state (candidate might already be added)
-        // Also ignore "remote description was null" errors as we now queue candidates
-        if (!errorMsg.includes('Invalid candidate') && 
-            !errorMsg.includes('InvalidStateError') && 
-            !errorMsg.includes('remote description was null')) {
-          console.error('❌ Failed to add ICE candidate:', errorMsg);
-        } else {
-          // These are expected errors - candidate might already be added or state is wrong
-          console.log('⚠️ ICE candidate error (expected, will be handled):', errorMsg);
-        }
-      }
-    } else {
-      console.warn('⚠️ Received ICE candidate but peer connection or call UUID mismatch:', {
-        hasPc: !!pc,
-        activeCallUUID,
-        receivedCallId: data.callId,
-      });
-    }
-  });
-}
-
-// Initialize WebRTC service
 // Initialize WebRTC with loyalty_id (preferred method)
 export function initWebRTCWithLoyaltyId(loyaltyId: string) {
-  if (!loyaltyId) {
-    throw new Error('loyaltyId is required for WebRTC initialization');
-  }
-
-  if (isVoipInitialized && currentLoyaltyId === loyaltyId) {
-    console.log('WebRTC already initialized for loyalty_id:', loyaltyId);
-    return;
-  }
-
-  console.log('Initializing WebRTC with loyaltyId:', loyaltyId);
-  currentLoyaltyId = loyaltyId;
-  // Generate a device ID for this web session
-  currentDeviceId = generateUUID();
-  isVoipInitialized = true;
-
-  console.log('WebRTC state:', {
-    currentLoyaltyId,
-    currentDeviceId,
-    isVoipInitialized,
-  });
-
-  // Request notification permission
-  if ('Notification' in window && Notification.permission === 'default') {
-    Notification.requestPermission();
-  }
-
-  // Register device with backend using loyalty_id
-  registerDevice(currentDeviceId, loyaltyId);
-
-  // Connect socket
-  ensureSocketConnected();
-  
-  console.log('WebRTC initialization complete');
+  defaultClient.init(loyaltyId);
 }
 
 // Initialize WebRTC with userId (backward compatibility)
@@ -407,925 +65,309 @@ export function initWebRTC(userId: 'user1' | 'user2') {
   initWebRTCWithLoyaltyId(userId);
 }
 
-// Register device with backend
-async function registerDevice(deviceId: string, loyaltyId: string) {
-  try {
-    // Generate a fake voipToken for web (not used for push, but required by backend)
-    const voipToken = `web-${deviceId}`;
-    
-    await fetch(`${BASE_URL}/api/register-device`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        deviceId,
-        loyaltyId,
-        voipToken, // Web doesn't need real VoIP token, but backend expects it
-        platform: 'web',
-      }),
-    });
-    console.log('Device registered on backend with loyalty_id:', loyaltyId);
-  } catch (e) {
-    console.warn('Failed to register device on backend', e);
-  }
+// Start outgoing call by loyalty_id (preferred method)
+export async function startOutgoingVoiceCallByLoyaltyId(targetLoyaltyId: string, displayName: string) {
+  await defaultClient.startOutgoingCallByLoyaltyId(targetLoyaltyId, displayName);
 }
 
-// Start WebRTC voice call
-async function startVoiceCall(
-  callUUID: string,
-  remoteOffer: RTCSessionDescriptionInit | null,
-  role: 'caller' | 'callee'
-) {
-  // Clean up any existing call
-  if (pc) {
-    endVoiceCall();
-  }
+// Start outgoing video call by loyalty_id
+export async function startOutgoingVideoCallByLoyaltyId(targetLoyaltyId: string, displayName: string) {
+  await defaultClient.startOutgoingCallByLoyaltyId(targetLoyaltyId, displayName, { video: true });
+}
 
-  // Get user media (microphone)
-  try {
-    localStream = await navigator.mediaDevices.getUserMedia({
-      audio: {
-        echoCancellation: true,
-        noiseSuppression: true,
-        autoGainControl: true,
-      },
-      video: false,
-    });
-    console.log('Got local audio stream');
-  } catch (e) {
-    console.error('Failed to get user media:', e);
-    throw new Error('Microphone access denied');
-  }
+// Start outgoing call by deviceId (backward compatibility)
+export async function startOutgoingVoiceCall(targetDeviceId: string, displayName: string) {
+  await defaultClient.startOutgoingCallByDeviceId(targetDeviceId, displayName);
+}
 
-  // Create peer connection with comprehensive STUN/TURN servers for maximum stability
-
-    const peer: any = new RTCPeerConnection({
-        iceServers: [
-            // STUN սերվերներ՝ ուղղակի կապի համար
-            { urls: "stun:stun1.totus.club:3478" },
-            { urls: "stun:stun2.totus.club:3478" },
-
-            // TURN սերվերներ՝ NAT/ֆայերվոլի դեպքում փոխանցման համար
-            {
-                urls: "turn:turn1.totus.club:3478?transport=udp",
-                username: "test",
-                credential: "TotusSecretKey2026",
-            },
-            {
-                urls: "turn:turn1.totus.club:3478?transport=tcp",
-                username: "test",
-                credential: "TotusSecretKey2026",
-            },
-            {
-                urls: "turns:turn1.totus.club:5349?transport=tcp",
-                username: "test",
-                credential: "TotusSecretKey2026",
-            },
-            {
-                urls: "turn:turn2.totus.club:3478?transport=udp",
-                username: "test",
-                credential: "TotusSecretKey2026",
-            },
-            {
-                urls: "turn:turn2.totus.club:3478?transport=tcp",
-                username: "test",
-                credential: "TotusSecretKey2026",
-            },
-            {
-                urls: "turns:turn2.totus.club:5349?transport=tcp",
-                username: "test",
-                credential: "TotusSecretKey2026",
-            },
-        ],
-
-        // Նախօրոք հավաքել ICE թեկնածուներ արագ կապի համար
-        iceCandidatePoolSize: 10,
-
-        // Պրոֆեսիոնալ WebRTC պարամետրեր
-        iceTransportPolicy: "all",     // օգտագործել ինչպես ուղղակի (STUN), այնպես էլ ռելեյ (TURN)
-        bundlePolicy: "max-bundle",    // RTP/RTCP–ը նույն պորտով հավաքել՝ NAT–ի արդյունավետության համար
-        rtcpMuxPolicy: "require",      // պահանջել RTP/RTCP համակցումը՝ նույն պորտով
-    });
-
-
-
-    //   const peer = new RTCPeerConnection({
-  //   iceServers: [
-  //     // Public STUN servers (multiple for redundancy and reliability)
-  //     { urls: 'stun:stun.l.google.com:19302' },
-  //     { urls: 'stun:stun1.l.google.com:19302' },
-  //     { urls: 'stun:stun2.l.google.com:19302' },
-  //     { urls: 'stun:stun3.l.google.com:19302' },
-  //     { urls: 'stun:stun4.l.google.com:19302' },
-  //     { urls: 'stun:stun.stunprotocol.org:3478' },
-  //     { urls: 'stun:stun.voiparound.com' },
-  //     { urls: 'stun:stun.voipbuster.com' },
-  //     { urls: 'stun:stun.voipstunt.com' },
-  //     { urls: 'stun:stun.voxgratia.org' },
-  //     { urls: 'stun:stun.ekiga.net' },
-  //     { urls: 'stun:stun.ideasip.com' },
-  //     { urls: 'stun:stun.schlund.de' },
-  //     { urls: 'stun:stun.voipgate.com' },
-  //     { urls: ['stun:fr-turn3.xirsys.com'] },
-  //     // TURN servers (Xirsys - for NAT traversal and relay when STUN fails)
-  //     {
-  //       username: '3S4jyxcSetE19BA7RnBF1KQg4G7nhkwoKiIkfNDHe9fKhz-SaS3XT3E1J2ADtD2OAAAAAGjDJ9lIYXlrOTU=',
-  //       credential: '77c51804-8f48-11f0-9cf6-e25abca605ee',
-  //       urls: [
-  //         'turn:fr-turn3.xirsys.com:80?transport=udp',
-  //         'turn:fr-turn3.xirsys.com:3478?transport=udp',
-  //         'turn:fr-turn3.xirsys.com:80?transport=tcp',
-  //         'turn:fr-turn3.xirsys.com:3478?transport=tcp',
-  //         'turns:fr-turn3.xirsys.com:443?transport=tcp',
-  //         'turns:fr-turn3.xirsys.com:5349?transport=tcp',
-  //       ],
-  //     },
-  //   ],
-  //   iceCandidatePoolSize: 10, // Pre-gather more candidates for faster connection
-  // });
-
-  pc = peer;
-
-  // Add local stream tracks
-  localStream.getTracks().forEach((track) => {
-    pc?.addTrack(track, localStream!);
-  });
-
-  // Handle ICE candidates
-  peer.onicecandidate = (event: RTCPeerConnectionIceEvent) => {
-    if (event.candidate && activeCallUUID) {
-      sendIceCandidate(activeCallUUID, role === 'caller' ? 'caller' : 'callee', event.candidate);
-    }
-  };
-
-  // Handle connection state changes
-  peer.onconnectionstatechange = () => {
-    const state = peer.connectionState;
-    console.log('Connection state changed:', state);
-    if (state === 'connected') {
-      console.log('✅ WebRTC connected!');
-      // Update call state to answered when connection is established
-      if (currentCallState === 'ringing' || currentCallState === 'calling') {
-        currentCallState = 'answered';
-        if (!activeCallStartedAt && activeCallUUID === callUUID) {
-          activeCallStartedAt = Date.now();
-        }
-        onCallStateChange?.(currentCallState, callerName);
-        onCallActiveChange?.(true, activeCallStartedAt);
-      }
-    } else if (state === 'failed') {
-      console.error('❌ WebRTC connection failed!');
-    } else if (state === 'disconnected') {
-      console.warn('⚠️ WebRTC connection disconnected');
-    }
-  };
-  
-  // Handle ICE connection state changes
-  peer.oniceconnectionstatechange = () => {
-    const iceState = peer.iceConnectionState;
-    console.log('ICE connection state changed:', iceState);
-    if (iceState === 'connected' || iceState === 'completed') {
-      console.log('✅ ICE connection established!');
-    } else if (iceState === 'failed') {
-      console.error('❌ ICE connection failed!');
-    }
-  };
-  
-  // Handle ICE gathering state
-  peer.onicegatheringstatechange = () => {
-    console.log('ICE gathering state:', peer.iceGatheringState);
-  };
-  
-  // Handle signaling state changes
-  peer.onsignalingstatechange = () => {
-    console.log('Signaling state changed:', peer.signalingState);
-  };
-
-  // Handle remote stream
-  peer.ontrack = (event: RTCTrackEvent) => {
-    console.log('Received remote stream');
-    remoteStream = event.streams[0];
-    // Play remote audio
-    const audio = new Audio();
-    audio.srcObject = remoteStream;
-    audio.play().catch((e) => console.error('Failed to play remote audio:', e));
-  };
-
-  // If we have a remote offer (incoming call), set it but DON'T create answer yet
-  // User must click "Answer" button to create and send the answer
-  if (remoteOffer) {
-    try {
-      await peer.setRemoteDescription(new RTCSessionDescription(remoteOffer));
-      console.log('✅ Remote offer set, waiting for user to answer');
-      
-      // Process any queued ICE candidates that arrived before the offer
-      await processQueuedIceCandidates(callUUID);
-    } catch (e) {
-      console.error('Failed to handle remote offer:', e);
-      throw e;
-    }
-  }
+// Answer incoming call
+export async function answerCall(callUUID: string) {
+  await defaultClient.answerCall(callUUID);
+}
 
-  activeCallUUID = callUUID;
+// Reject call
+export async function rejectCall(callUUID: string) {
+  await defaultClient.rejectCall(callUUID);
 }
 
-// Start outgoing call by loyalty_id (preferred method)
-export async function startOutgoingVoiceCallByLoyaltyId(targetLoyaltyId: string, displayName: string) {
-  console.log('startOutgoingVoiceCallByLoyaltyId called:', {
-    targetLoyaltyId,
-    displayName,
-    isVoipInitialized,
-    currentDeviceId,
-    currentLoyaltyId,
-  });
-  
-  if (!isVoipInitialized || !currentDeviceId || !currentLoyaltyId) {
-    console.error('WebRTC not initialized:', {
-      isVoipInitialized,
-      currentDeviceId,
-      currentLoyaltyId,
-    });
-    throw new Error('WebRTC not initialized. Call initWebRTCWithLoyaltyId first.');
-  }
+export function endCall() {
+  defaultClient.endVoiceCall();
+}
 
-  const callId = generateUUID();
-  activeCallUUID = callId;
-  currentCallState = 'calling';
-  callerName = displayName;
-  onCallStateChange?.(currentCallState, callerName);
+// Toggle mute
+export function toggleMute() {
+  return defaultClient.toggleMute();
+}
 
-  ensureSocketConnected();
+// Toggle speaker (for web, this is handled by browser/OS)
+export function toggleSpeaker() {
+  return defaultClient.toggleSpeaker();
+}
 
-  // Start WebRTC call as caller
-  await startVoiceCall(callId, null, 'caller');
+// Turn the camera on/off during a call (upgrades/downgrades to video)
+export async function toggleCamera() {
+  return defaultClient.toggleCamera();
+}
 
-  // Create offer
-  if (!pc) {
-    throw new Error('Peer connection not created');
-  }
+// Switch between front and back camera
+export async function switchCamera() {
+  return defaultClient.switchCamera();
+}
 
-  const offer = await pc.createOffer();
-  await pc.setLocalDescription(offer);
-  console.log('✅ Web caller: Created and set local offer, signaling state:', pc.signalingState);
-
-  // Send offer to backend using loyalty_id
-  try {
-    const resp = await fetch(`${BASE_URL}/api/calls`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        fromDeviceId: currentDeviceId,
-        fromLoyaltyId: currentLoyaltyId,
-        toLoyaltyId: targetLoyaltyId,
-        callerName: displayName,
-        callId,
-        offer: {
-          type: offer.type,
-          sdp: offer.sdp,
-        },
-      }),
-    });
-
-    if (!resp.ok) {
-      throw new Error(`Failed to start call: ${resp.status}`);
-    }
+// Call waiting: answer the second incoming call, holding or ending the current one
+export async function answerWaitingCall(callUUID: string, current: 'hold' | 'end') {
+  return defaultClient.answerWaitingCall(callUUID, current);
+}
 
-    console.log('✅ Web caller: Call initiated, waiting for answer from mobile...');
-    console.log('   Offer sent to backend, callId:', callId);
-    console.log('   Current signaling state:', pc.signalingState);
-    console.log('   Waiting for answer via socket or HTTP polling...');
-    
-    await waitForAnswer(callId);
-    console.log('✅ Web caller: Answer received and processed successfully');
-  } catch (e) {
-    console.error('Failed to start call:', e);
-    endVoiceCall();
-    throw e;
-  }
+// Switch to a call on hold (the current call goes on hold)
+export async function swapToCall(callUUID: string) {
+  return defaultClient.swapToCall(callUUID);
 }
 
-// Start outgoing call by deviceId (backward compatibility)
-export async function startOutgoingVoiceCall(targetDeviceId: string, displayName: string) {
-  if (!isVoipInitialized || !currentDeviceId) {
-    throw new Error('WebRTC not initialized. Call initWebRTC first.');
-  }
+// Put the call on hold (the peer hears hold music) / take it back
+export async function holdCall() {
+  return defaultClient.holdCall();
+}
 
-  const callId = generateUUID();
-  activeCallUUID = callId;
-  currentCallState = 'calling';
-  callerName = displayName;
-  onCallStateChange?.(currentCallState, callerName);
+export async function resumeCall() {
+  return defaultClient.resumeCall();
+}
 
-  ensureSocketConnected();
+// Share the screen during a call
+export async function startScreenShare() {
+  return defaultClient.startScreenShare();
+}
 
-  // Start WebRTC call as caller
-  await startVoiceCall(callId, null, 'caller');
+export async function stopScreenShare() {
+  return defaultClient.stopScreenShare();
+}
 
-  // Create offer
-  if (!pc) {
-    throw new Error('Peer connection not created');
-  }
+// Hand the current call over to another agent (blind)
+export async function blindTransfer(targetLoyaltyId: string, targetName: string) {
+  return defaultClient.blindTransfer(targetLoyaltyId, targetName);
+}
 
-  const offer = await pc.createOffer();
-  await pc.setLocalDescription(offer);
-
-  // Send offer to backend
-  try {
-    const resp = await fetch(`${BASE_URL}/api/calls`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        fromDeviceId: currentDeviceId,
-        toDeviceId: targetDeviceId,
-        callId,
-        offer: {
-          type: offer.type,
-          sdp: offer.sdp,
-        },
-      }),
-    });
-
-    if (!resp.ok) {
-      throw new Error(`Failed to start call: ${resp.status}`);
-    }
+// Attended transfer: hold the customer, talk to the other agent, then complete or cancel
+export async function startAttendedTransfer(targetLoyaltyId: string, targetName: string) {
+  return defaultClient.startAttendedTransfer(targetLoyaltyId, targetName);
+}
 
-    console.log('Call initiated, waiting for answer...');
-    await waitForAnswer(callId);
-  } catch (e) {
-    console.error('Failed to start call:', e);
-    endVoiceCall();
-    throw e;
-  }
+export async function completeAttendedTransfer() {
+  return defaultClient.completeAttendedTransfer();
 }
 
-// Wait for answer from callee
-async function waitForAnswer(callId: string): Promise<void> {
-  const currentPc = pc;
-  if (!currentPc) {
-    throw new Error('No peer connection');
-  }
+export async function cancelAttendedTransfer() {
+  return defaultClient.cancelAttendedTransfer();
+}
 
-  // Wait for answer via socket (primary) or HTTP polling (fallback)
-  return new Promise((resolve, reject) => {
-    const timeout = setTimeout(() => {
-      socket?.off('answer', onAnswer);
-      reject(new Error('Answer timeout'));
-    }, 30000); // 30 second timeout
-
-    const onAnswer = async (data: { callId: string; answer: RTCSessionDescriptionInit }) => {
-      if (data.callId === callId && currentPc === pc) {
-        clearTimeout(timeout);
-        socket?.off('answer', onAnswer);
-        
-        // Check if answer was already processed by global handler
-        if (currentPc.signalingState === 'stable' || currentPc.signalingState === 'have-remote-pranswer') {
-          console.log('waitForAnswer: Answer already processed by global handler, resolving');
-          if (currentCallState !== 'answered') {
-            currentCallState = 'answered';
-            if (!activeCallStartedAt) {
-              activeCallStartedAt = Date.now();
-            }
-            onCallStateChange?.(currentCallState, callerName);
-            onCallActiveChange?.(true, activeCallStartedAt);
-          }
-          resolve();
-          return;
-        }
-        
-        try {
-          // Check signaling state before setting remote description
-          const signalingState = currentPc.signalingState;
-          console.log('waitForAnswer: Current signaling state before setting answer:', signalingState);
-          
-          // Only set remote description if we're in the correct state
-          // Note: We already checked for 'stable' and 'have-remote-pranswer' above, so we won't reach here if answer is already set
-          if (signalingState === 'have-local-offer') {
-            await currentPc.setRemoteDescription(new RTCSessionDescription(data.answer));
-            console.log('✅ waitForAnswer: Applied remote answer');
-            
-            // CRITICAL: Process any queued ICE candidates now that remote description is set
-            await processQueuedIceCandidates(callId);
-            
-            currentCallState = 'answered';
-            activeCallStartedAt = Date.now();
-            onCallStateChange?.(currentCallState, callerName);
-            onCallActiveChange?.(true, activeCallStartedAt);
-            resolve();
-          } else {
-            // If we reach here, the state is not 'have-local-offer' and not 'stable'/'have-remote-pranswer' (already handled above)
-            console.warn('waitForAnswer: Cannot set remote answer - wrong signaling state:', signalingState);
-            reject(new Error(`Wrong signaling state: ${signalingState}`));
-          }
-        } catch (e: any) {
-          const errorMsg = e?.message || String(e);
-          // Check if it's a "wrong state" error - if so, it's likely already set
-          if (errorMsg.includes('wrong state') || errorMsg.includes('stable') || errorMsg.includes('Called in wrong state')) {
-            console.log('waitForAnswer: Remote description already set (wrong state error detected), updating call state');
-            currentCallState = 'answered';
-            if (!activeCallStartedAt) {
-              activeCallStartedAt = Date.now();
-            }
-            onCallStateChange?.(currentCallState, callerName);
-            onCallActiveChange?.(true, activeCallStartedAt);
-            resolve(); // Resolve instead of reject since answer is already set
-          } else {
-            reject(e);
-          }
-        }
-      }
-    };
+// Conference: add/remove participants (up to MAX_CONFERENCE_PARTICIPANTS including us)
+export async function addConferenceParticipant(loyaltyId: string, name: string) {
+  return defaultClient.addParticipant(loyaltyId, name);
+}
 
-    socket?.on('answer', onAnswer);
+export function removeConferenceParticipant(loyaltyId: string) {
+  defaultClient.removeParticipant(loyaltyId);
+}
 
-    // Also poll HTTP as fallback
-    waitForAnswerHTTP(callId).catch(() => {
-      // Ignore HTTP errors if socket works
-    });
-  });
+// Stop hearing one participant (they are not told)
+export function setConferenceParticipantMuted(loyaltyId: string, muted: boolean) {
+  defaultClient.setParticipantMuted(loyaltyId, muted);
 }
 
-// HTTP polling fallback for answer
-async function waitForAnswerHTTP(callId: string): Promise<void> {
-  const currentPc = pc;
-  if (!currentPc) {
-    return;
-  }
+// Local and remote media of the current call
+export function getMediaStreams() {
+  return defaultClient.getMediaStreams();
+}
 
-  for (let i = 0; i < 30; i++) {
-    await new Promise((resolve) => setTimeout(resolve, 1000));
-    if (currentPc !== pc || !activeCallUUID) {
-      return; // Call ended
-    }
+// Get call state
+export function getCallState(): CallInfo {
+  return defaultClient.getCallState();
+}
 
-    try {
-      const resp = await fetch(`${BASE_URL}/api/calls/${callId}`);
-      if (!resp.ok) continue;
-      const data = await resp.json();
-      if (data.answer && data.answer.sdp && currentPc === pc) {
-        // Check signaling state before setting remote description
-        const signalingState = currentPc.signalingState;
-        console.log('waitForAnswerHTTP: Current signaling state before setting answer:', signalingState);
-        
-        // Check if answer was already processed (extract before type narrowing)
-        const answerAlreadySet = signalingState === 'stable' || signalingState === 'have-remote-pranswer';
-        
-        // Only set remote description if we're in the correct state
-        if (signalingState === 'have-local-offer') {
-          try {
-            await currentPc.setRemoteDescription(new RTCSessionDescription(data.answer));
-            console.log('✅ Applied remote answer (HTTP)');
-            
-            // Process any queued ICE candidates now that remote description is set
-            await processQueuedIceCandidates(callId);
-            
-            currentCallState = 'answered';
-            activeCallStartedAt = Date.now();
-            onCallStateChange?.(currentCallState, callerName);
-            onCallActiveChange?.(true, activeCallStartedAt);
-            return;
-          } catch (setError: any) {
-            const errorMsg = setError?.message || String(setError);
-            // Check if it's a "wrong state" error - if so, it's likely already set
-            if (errorMsg.includes('wrong state') || errorMsg.includes('stable') || errorMsg.includes('Called in wrong state')) {
-              console.log('waitForAnswerHTTP: Remote description already set (wrong state error detected), updating call state');
-              currentCallState = 'answered';
-              if (!activeCallStartedAt) {
-                activeCallStartedAt = Date.now();
-              }
-              onCallStateChange?.(currentCallState, callerName);
-              onCallActiveChange?.(true, activeCallStartedAt);
-              return;
-            } else {
-              throw setError; // Re-throw if it's a different error
-            }
-          }
-        } else if (answerAlreadySet) {
-          // Answer was already set - this is fine, just update state
-          console.log('waitForAnswerHTTP: Answer already set (state is stable/have-remote-pranswer), updating call state');
-          currentCallState = 'answered';
-          if (!activeCallStartedAt) {
-            activeCallStartedAt = Date.now();
-          }
-          onCallStateChange?.(currentCallState, callerName);
-          onCallActiveChange?.(true, activeCallStartedAt);
-          return;
-        } else {
-          console.warn('waitForAnswerHTTP: Cannot set remote answer - wrong signaling state:', signalingState);
-          // Continue polling if state is not ready yet
-        }
-      }
-    } catch (e) {
-      console.warn('Error polling answer:', e);
-    }
-  }
+// Latest quality sample of the current call
+export function getCallStats(): CallStats | null {
+  return defaultClient.getCallStats();
 }
 
-// Send answer to backend
-async function sendAnswerToBackend(callId: string, answer: RTCSessionDescription | RTCSessionDescriptionInit) {
-  if (!currentDeviceId) {
-    throw new Error('Device not registered');
-  }
+// Observe call quality (RTT, jitter, loss, bitrate, MOS, ...) about once a second.
+// Returns an unsubscribe function.
+export function subscribeToCallStats(listener: CallStatsListener) {
+  return defaultClient.subscribeToCallStats(listener);
+}
 
-  console.log('sendAnswerToBackend: Sending answer for call', callId, 'deviceId:', currentDeviceId);
-  console.log('Answer type:', answer.type, 'SDP length:', answer.sdp?.length);
+// Calls of the logged-in user (this browser's log merged with the backend's), newest first
+export async function getCallHistory(): Promise<CallHistoryEntry[]> {
+  const loyaltyId = defaultClient.getCurrentLoyaltyId();
+  return loyaltyId ? loadCallHistory(loyaltyId) : [];
+}
 
-  try {
-    // Get call info to find caller device ID for socket forwarding
-    let callerDeviceId: string | null = null;
-    try {
-      const callResp = await fetch(`${BASE_URL}/api/calls/${callId}`);
-      if (callResp.ok) {
-        const callData = await callResp.json();
-        callerDeviceId = callData.fromDeviceId || null;
-        console.log('Call info retrieved, callerDeviceId:', callerDeviceId);
-      }
-    } catch (e) {
-      console.warn('Could not fetch call info for socket forwarding:', e);
-    }
+// Incoming calls nobody answered, newest first
+export function getMissedCalls(): MissedCall[] {
+  return defaultClient.getMissedCalls();
+}
 
-    // Send via HTTP to backend
-    const resp = await fetch(`${BASE_URL}/api/calls/${callId}/answer`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        answer: {
-          type: answer.type,
-          sdp: answer.sdp,
-        },
-        deviceId: currentDeviceId,
-      }),
-    });
-
-    if (!resp.ok) {
-      const errorText = await resp.text();
-      console.error('Backend rejected answer:', resp.status, errorText);
-      throw new Error(`Failed to send answer: ${resp.status} - ${errorText}`);
-    }
+// Clear the unseen badge (the list itself is kept)
+export function markMissedCallsSeen() {
+  defaultClient.markMissedCallsSeen();
+}
 
-    console.log('✅ Answer sent to backend via HTTP successfully');
-
-    // Also emit via socket for faster delivery (if socket is connected and we have callerDeviceId)
-    ensureSocketConnected();
-    if (socket && socket.connected && callerDeviceId) {
-      try {
-        socket.emit('answer', {
-          callId,
-          answer: {
-            type: answer.type,
-            sdp: answer.sdp,
-          },
-          fromDeviceId: currentDeviceId,
-          toDeviceId: callerDeviceId, // Include toDeviceId for backend routing
-        });
-        console.log('✅ Answer also sent via socket for faster delivery');
-      } catch (socketError) {
-        console.warn('Failed to emit answer via socket (HTTP was successful):', socketError);
-        // Don't throw - HTTP was successful
-      }
-    } else {
-      console.warn('Socket not connected, answer sent via HTTP only');
-    }
+// Remove a missed call from the list (e.g. after calling back)
+export function dismissMissedCall(callId: string) {
+  defaultClient.dismissMissedCall(callId);
+}
 
-    console.log('✅ Answer sent to backend successfully (HTTP + socket if available)');
-  } catch (e) {
-    console.error('❌ Failed to send answer to backend:', e);
-    throw e;
-  }
+// Get active call info
+export function getActiveCallInfo(): {
+  isActive: boolean;
+  startedAt: number | null;
+} {
+  return defaultClient.getActiveCallInfo();
 }
 
-// Send ICE candidate
-async function sendIceCandidate(callId: string, from: 'caller' | 'callee', candidate: RTCIceCandidate) {
-  if (!currentDeviceId) {
-    return;
-  }
+// Get current user ID (backward compatibility)
+export function getCurrentUserId(): 'user1' | 'user2' | 'unknown' {
+  return defaultClient.getCurrentUserId();
+}
 
-  try {
-    // Get call info to find peer device ID for socket forwarding
-    // Note: This might fail if call hasn't been created yet, which is OK
-    let peerDeviceId: string | null = null;
-    try {
-      const callResp = await fetch(`${BASE_URL}/api/calls/${callId}`);
-      if (callResp.ok) {
-        const callData = await callResp.json();
-        peerDeviceId = from === 'caller' ? callData.toDeviceId : callData.fromDeviceId;
-      } else if (callResp.status === 404) {
-        // Call not found yet - this is OK, it might be created shortly
-        // Don't log as error, just skip socket forwarding
-        console.log('📞 Call not found yet for ICE candidate forwarding (will use HTTP only)');
-      }
-    } catch (e) {
-      // Network error - not critical, HTTP will still work
-      // Don't log as warning to avoid noise
-    }
+// Get current loyalty ID
+export function getCurrentLoyaltyId(): string | null {
+  return defaultClient.getCurrentLoyaltyId();
+}
 
-    // Send via HTTP (backend will forward via socket if peer is connected)
-    await fetch(`${BASE_URL}/api/calls/${callId}/candidate`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        from,
-        candidate: candidate.toJSON(),
-        deviceId: currentDeviceId,
-      }),
-    });
-
-    // Also emit via socket for faster delivery (if we have peer deviceId)
-    if (socket && socket.connected && peerDeviceId) {
-      try {
-        socket.emit('ice-candidate', {
-          callId,
-          candidate: candidate.toJSON(),
-          fromDeviceId: currentDeviceId,
-          toDeviceId: peerDeviceId, // Include toDeviceId for backend routing
-        });
-        console.log('✅ ICE candidate also sent via socket to', peerDeviceId);
-      } catch (socketError) {
-        console.warn('Failed to emit ICE candidate via socket (HTTP was successful):', socketError);
-        // Don't throw - HTTP was successful
-      }
-    }
-  } catch (e) {
-    console.warn('Failed to send ICE candidate:', e);
-  }
+// Set call state change callback
+export function setCallStateChangeCallback(callback: (state: CallState, name: string | null) => void) {
+  defaultClient.setCallStateChangeCallback(callback);
 }
 
-// Answer incoming call
-export async function answerCall(callUUID: string) {
-  console.log('answerCall called for callUUID:', callUUID);
-  console.log('Current state:', {
-    hasPc: !!pc,
-    activeCallUUID,
-    pcSignalingState: pc?.signalingState,
-    hasRemoteDesc: !!pc?.remoteDescription,
-    hasLocalDesc: !!pc?.localDescription,
-  });
-
-  try {
-    // Check if peer connection exists and matches
-    if (!pc || activeCallUUID !== callUUID) {
-      console.warn('Cannot answer: peer connection not ready for call', callUUID, 'activeCallUUID:', activeCallUUID);
-      // Try to fetch offer if peer connection doesn't exist
-      const resp = await fetch(`${BASE_URL}/api/calls/${callUUID}`);
-      if (!resp.ok) {
-        throw new Error(`Failed to fetch call offer: ${resp.status}`);
-      }
-      const data = await resp.json();
-      if (!data.offer || !data.offer.sdp) {
-        throw new Error('No remote offer found for this call');
-      }
+// Set call active change callback
+export function setCallActiveChangeCallback(callback: (isActive: boolean, startedAt: number | null) => void) {
+  defaultClient.setCallActiveChangeCallback(callback);
+}
 
-      activeCallUUID = callUUID;
-      currentCallState = 'ringing';
-      onCallStateChange?.(currentCallState, callerName);
+// Set transfer progress callback
+export function setTransferChangeCallback(callback: (transfer: TransferInfo) => void) {
+  defaultClient.setTransferChangeCallback(callback);
+}
 
-      // Set up peer connection with remote offer (but don't create answer yet)
-      await startVoiceCall(callUUID, data.offer, 'callee');
-      console.log('WebRTC peer connection set up for incoming call', callUUID);
-      
-      // Wait a bit for peer connection to be ready
-      await new Promise(resolve => setTimeout(resolve, 200));
-    }
+// Set waiting call change callback (a second call ringing during a call)
+export function setWaitingCallChangeCallback(callback: (waitingCall: OtherCallInfo | null) => void) {
+  defaultClient.setWaitingCallChangeCallback(callback);
+}
 
-    // Create and send answer if peer connection exists and answer not created yet
-    if (!pc) {
-      throw new Error('Peer connection not ready after setup');
-    }
+// Set conference roster change callback
+export function setConferenceChangeCallback(callback: (conference: ConferenceInfo | null) => void) {
+  defaultClient.setConferenceChangeCallback(callback);
+}
 
-    // Check signaling state
-    const signalingState = pc.signalingState;
-    console.log('Signaling state before creating answer:', signalingState);
-
-    // Ensure we have remote description set
-    if (!pc.remoteDescription) {
-      console.warn('No remote description set, fetching offer...');
-      const resp = await fetch(`${BASE_URL}/api/calls/${callUUID}`);
-      if (resp.ok) {
-        const data = await resp.json();
-        if (data.offer && data.offer.sdp) {
-          await pc.setRemoteDescription(new RTCSessionDescription(data.offer));
-          console.log('✅ Remote description set from backend');
-          
-          // Process any queued ICE candidates now that remote description is set
-          await processQueuedIceCandidates(callUUID);
-        }
-      }
-    }
+// Set missed calls change callback
+export function setMissedCallsChangeCallback(callback: (missedCalls: MissedCall[]) => void) {
+  defaultClient.setMissedCallsChangeCallback(callback);
+}
 
-    // Create answer if not already created
-    if (!pc.localDescription) {
-      if (!pc.remoteDescription) {
-        throw new Error('Remote description not set - cannot create answer');
-      }
+// Microphone and speaker: preferred devices are kept per browser and applied to
+// every call; changing them switches calls in progress too ('' = system default)
+export function getPreferredMicrophone() {
+  return loadPreferredMicrophone();
+}
 
-      console.log('Creating answer...');
-      // Create answer with proper options
-      const answer = await pc.createAnswer({
-        offerToReceiveAudio: true,
-        offerToReceiveVideo: false,
-      });
-      
-      console.log('Answer created, setting local description...');
-      await pc.setLocalDescription(answer);
-      console.log('Local description set, answer SDP:', answer.sdp?.substring(0, 100) + '...');
-      
-      // Send answer to backend
-      console.log('Sending answer to backend...');
-      await sendAnswerToBackend(callUUID, answer);
-      console.log('✅ Answer created and sent to backend for call:', callUUID);
-    } else {
-      console.log('Answer already created for call:', callUUID, 'SDP:', pc.localDescription.sdp?.substring(0, 100) + '...');
-      // Answer already created, but make sure it's sent
-      if (pc.localDescription) {
-        await sendAnswerToBackend(callUUID, pc.localDescription as RTCSessionDescription);
-        console.log('Resent existing answer to backend');
-      }
-    }
+export function getPreferredSpeaker() {
+  return loadPreferredSpeaker();
+}
 
-    // Update call state to answered
-    currentCallState = 'answered';
-    onCallStateChange?.(currentCallState, callerName);
+export async function setMicrophone(deviceId: string) {
+  await defaultClient.setMicrophone(deviceId);
+}
 
-    // Start timer
-    activeCallStartedAt = Date.now();
-    onCallActiveChange?.(true, activeCallStartedAt);
-    
-    console.log('✅ Call answered successfully');
-  } catch (e: any) {
-    console.error('❌ Failed to answer call:', e);
-    console.error('Error details:', {
-      message: e?.message,
-      stack: e?.stack,
-      pcState: pc ? {
-        signalingState: pc.signalingState,
-        connectionState: pc.connectionState,
-        iceConnectionState: pc.iceConnectionState,
-        hasRemoteDesc: !!pc.remoteDescription,
-        hasLocalDesc: !!pc.localDescription,
-      } : null,
-    });
-    currentCallState = 'idle';
-    onCallStateChange?.(currentCallState, null);
-    throw e;
-  }
+export async function setSpeaker(deviceId: string) {
+  await defaultClient.setSpeaker(deviceId);
 }
 
-// Reject call
-export async function rejectCall(callUUID: string) {
-  console.log('Rejecting call:', callUUID);
-  
-  // Update call state to rejected
-  currentCallState = 'rejected';
-  onCallStateChange?.(currentCallState, callerName);
+// Microphone processing (noise gate, denoiser, ...) of the logged-in agent
+export function getAudioProcessing() {
+  return defaultClient.getAudioProcessing();
+}
 
-  // Notify backend that call was rejected
-  if (currentDeviceId) {
-    try {
-      await fetch(`${BASE_URL}/api/calls/${callUUID}/end`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          deviceId: currentDeviceId,
-          reason: 'rejected',
-        }),
-      });
-      console.log('Backend notified of call rejection');
-    } catch (e) {
-      console.warn('Failed to notify backend of rejection:', e);
-    }
-  }
+// Saved for the agent and applied to the calls in progress
+export async function setAudioProcessing(preset: AudioProcessingPreset) {
+  await defaultClient.setAudioProcessing(preset);
+}
 
-  // End the voice call and cleanup
-  endVoiceCall();
-  
-  // Reset state after a short delay to allow UI to show rejected state
-  setTimeout(() => {
-    currentCallState = 'idle';
-    callerName = null;
-    activeCallUUID = null;
-    onCallStateChange?.(currentCallState, null);
-  }, 2000);
-}
-
-// End call
-function endVoiceCall() {
-  // Clear queued ICE candidates when call ends
-  if (queuedIceCandidates.length > 0) {
-    console.log('Clearing', queuedIceCandidates.length, 'queued ICE candidates');
-    queuedIceCandidates = [];
-  }
-  
-  if (pc) {
-    pc.close();
-    pc = null;
-  }
-  if (localStream) {
-    localStream.getTracks().forEach((track) => track.stop());
-    localStream = null;
-  }
-  if (remoteStream) {
-    remoteStream.getTracks().forEach((track) => track.stop());
-    remoteStream = null;
-  }
+// Observe the available microphones and speakers. Returns an unsubscribe function.
+export function subscribeToAudioDevices(listener: (devices: AudioDevices) => void) {
+  return defaultClient.subscribeToAudioDevices(listener);
+}
 
-  if (activeCallUUID && currentDeviceId) {
-    fetch(`${BASE_URL}/api/calls/${activeCallUUID}/end`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        deviceId: currentDeviceId,
-      }),
-    }).catch((e) => console.warn('Failed to notify backend of call end:', e));
-  }
+// Call sounds (ringtone, ringback, busy, ended, DTMF): volume 0..1
+export function getCallSoundsVolume() {
+  return defaultClient.cues.getVolume();
+}
 
-  activeCallUUID = null;
-  activeCallStartedAt = null;
-  currentCallState = 'idle';
-  callerName = null;
-  onCallStateChange?.(currentCallState, null);
-  onCallActiveChange?.(false, null);
+export function setCallSoundsVolume(volume: number) {
+  defaultClient.cues.setVolume(volume);
 }
 
-export function endCall() {
-  endVoiceCall();
+// Output device for call sounds ('' = system default), e.g. to ring on the speakers
+// while the call itself goes to a headset
+export function getCallSoundsOutputDevice() {
+  return defaultClient.cues.getOutputDevice();
 }
 
-// Toggle mute
-export function toggleMute() {
-  if (localStream) {
-    isMuted = !isMuted;
-    localStream.getAudioTracks().forEach((track) => {
-      track.enabled = !isMuted;
-    });
-  }
-  return isMuted;
+export async function setCallSoundsOutputDevice(deviceId: string) {
+  await defaultClient.cues.setOutputDevice(deviceId);
 }
 
-// Toggle speaker (for web, this is handled by browser/OS)
-export function toggleSpeaker() {
-  isSpeakerEnabled = !isSpeakerEnabled;
-  // On web, speaker is controlled by OS/browser, but we can track state
-  return isSpeakerEnabled;
+// Live captions of the current call, from the ASR provider (see setAsrProviderFactory).
+// The transcript is kept in the call's history entry.
+export async function startCaptions() {
+  await defaultClient.startCaptions();
 }
 
-// Get call state
-export function getCallState(): {
-  state: CallState;
-  callerName: string | null;
-  isMuted: boolean;
-  isSpeakerEnabled: boolean;
-  callUUID: string | null;
-} {
-  return {
-    state: currentCallState,
-    callerName,
-    isMuted,
-    isSpeakerEnabled,
-    callUUID: activeCallUUID,
-  };
+export function stopCaptions() {
+  defaultClient.stopCaptions();
 }
 
-// Get active call info
-export function getActiveCallInfo(): {
-  isActive: boolean;
-  startedAt: number | null;
-} {
-  return {
-    isActive: currentCallState === 'answered' && activeCallStartedAt !== null,
-    startedAt: activeCallStartedAt,
-  };
+// Call recording: our microphone and the remote audio, kept in IndexedDB.
+// Starting tells the peer, whose call modal then shows a notice.
+export function startRecording() {
+  return defaultClient.startRecording();
 }
 
-// Get current user ID (backward compatibility)
-export function getCurrentUserId(): 'user1' | 'user2' | 'unknown' {
-  return currentUserId;
+export function pauseRecording() {
+  defaultClient.pauseRecording();
 }
 
-// Get current loyalty ID
-export function getCurrentLoyaltyId(): string | null {
-  return currentLoyaltyId;
+export function resumeRecording() {
+  defaultClient.resumeRecording();
 }
 
-// Set call state change callback
-export function setCallStateChangeCallback(callback: (state: CallState, name: string | null) => void) {
-  onCallStateChange = callback;
+export function stopRecording() {
+  defaultClient.stopRecording();
 }
 
-// Set call active change callback
-export function setCallActiveChangeCallback(callback: (isActive: boolean, startedAt: number | null) => void) {
-  onCallActiveChange = callback;
+// Recordings of the current user, newest first
+export async function getRecordings(): Promise<RecordingMeta[]> {
+  const loyaltyId = defaultClient.getCurrentLoyaltyId();
+  return loyaltyId ? loadRecordings(loyaltyId) : [];
+}
+
+// WebM/Opus as recorded, or WAV (decoded, much larger)
+export async function exportRecording(recordingId: string, format: RecordingFormat): Promise<Blob> {
+  return exportStoredRecording(recordingId, format);
+}
+
+export async function deleteRecording(recordingId: string) {
+  await deleteStoredRecording(recordingId);
+}
+
+// Local feedback tone for a keypad digit
+export function playDtmfTone(digit: string) {
+  defaultClient.cues.playDtmf(digit);
+}
+
+// Send keypad digits (0-9, *, #, A-D) on the current call, e.g. to an IVR.
+// In-band via RTCDTMFSender when possible, over signaling otherwise.
+export async function sendDTMF(digits: string) {
+  return defaultClient.sendDtmf(digits);
 }
 
 // Server status types
@@ -1336,45 +378,9 @@ export type ServerStatus = {
   latency?: number;
 };
 
-// Get all configured ICE servers
+// Get all configured ICE servers (TURN entries carry no credentials, see turn-credentials.ts)
 export function getIceServers(): RTCIceServer[] {
-  return [
-      // STUN սերվերներ՝ ուղղակի կապի համար
-      { urls: "stun:stun1.totus.club:3478" },
-      { urls: "stun:stun2.totus.club:3478" },
-
-      // TURN սերվերներ՝ NAT/ֆայերվոլի դեպքում փոխանցման համար
-      {
-          urls: "turn:turn1.totus.club:3478?transport=udp",
-          username: "test",
-          credential: "TotusSecretKey2026",
-      },
-      {
-          urls: "turn:turn1.totus.club:3478?transport=tcp",
-          username: "test",
-          credential: "TotusSecretKey2026",
-      },
-      {
-          urls: "turns:turn1.totus.club:5349?transport=tcp",
-          username: "test",
-          credential: "TotusSecretKey2026",
-      },
-      {
-          urls: "turn:turn2.totus.club:3478?transport=udp",
-          username: "test",
-          credential: "TotusSecretKey2026",
-      },
-      {
-          urls: "turn:turn2.totus.club:3478?transport=tcp",
-          username: "test",
-          credential: "TotusSecretKey2026",
-      },
-      {
-          urls: "turns:turn2.totus.club:5349?transport=tcp",
-          username: "test",
-          credential: "TotusSecretKey2026",
-      },
-  ];
+  return getConfig().iceServers;
 }
 
 // Check server status
@@ -1454,13 +460,30 @@ export async function checkServerStatus(server: RTCIceServer): Promise<ServerSta
 // Check all servers status
 export async function checkAllServersStatus(): Promise<ServerStatus[]> {
   const allStatuses: ServerStatus[] = [];
-  const servers = getIceServers();
+  // Use the same short-lived TURN credentials as calls
+  const { iceServers: servers, credentials } = await getIceServersWithCredentials(defaultClient.getCurrentLoyaltyId());
   
   for (const server of servers) {
     const statuses = await checkServerStatus(server);
     allStatuses.push(...statuses);
   }
+
+  // Without credentials the TURN servers can't be checked at all
+  if (!credentials) {
+    const { iceServers: configured } = await loadConfig();
+    for (const server of configured) {
+      const urls = Array.isArray(server.urls) ? server.urls : [server.urls];
+      urls
+        .filter((url) => (url.startsWith('turn:') || url.startsWith('turns:')) && !allStatuses.some((s) => s.url === url))
+        .forEach((url) => allStatuses.push({ url, type: 'turn', status: 'error' }));
+    }
+  }
   
   return allStatuses;
 }
 
+// Relay-only connectivity and bandwidth, with the same TURN credentials as calls
+export async function runPrecallRelayTest(): Promise<RelayTestResult> {
+  const { iceServers } = await getIceServersWithCredentials(defaultClient.getCurrentLoyaltyId());
+  return runRelayTest(iceServers);
+}